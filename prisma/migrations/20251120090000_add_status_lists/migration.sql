@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "StatusPurpose" AS ENUM ('REVOCATION', 'SUSPENSION');
+
+-- CreateTable
+CREATE TABLE "StatusList" (
+    "id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "purpose" "StatusPurpose" NOT NULL,
+    "encoded_list" TEXT NOT NULL,
+    "size" INTEGER NOT NULL DEFAULT 131072,
+    "next_index" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StatusList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StatusListEntry" (
+    "id" TEXT NOT NULL,
+    "vc_id" TEXT NOT NULL,
+    "purpose" "StatusPurpose" NOT NULL,
+    "status_list_id" TEXT NOT NULL,
+    "status_index" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StatusListEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StatusList_issuer_did_purpose_idx" ON "StatusList"("issuer_did", "purpose");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusListEntry_vc_id_purpose_key" ON "StatusListEntry"("vc_id", "purpose");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StatusListEntry_status_list_id_status_index_key" ON "StatusListEntry"("status_list_id", "status_index");
+
+-- AddForeignKey
+ALTER TABLE "StatusListEntry" ADD CONSTRAINT "StatusListEntry_status_list_id_fkey" FOREIGN KEY ("status_list_id") REFERENCES "StatusList"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
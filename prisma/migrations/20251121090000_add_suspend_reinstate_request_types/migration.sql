@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "RequestType" ADD VALUE 'SUSPEND';
+ALTER TYPE "RequestType" ADD VALUE 'REINSTATE';
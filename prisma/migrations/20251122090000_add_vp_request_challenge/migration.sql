@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "VPRequest" ADD COLUMN     "challenge" TEXT,
+ADD COLUMN     "domain" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VPRequest_challenge_key" ON "VPRequest"("challenge");
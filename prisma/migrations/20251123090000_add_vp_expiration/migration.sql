@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "VPRequestStatus" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "VPRequest" ADD COLUMN     "expires_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "VPSharing" ADD COLUMN     "expires_at" TIMESTAMP(3),
+ADD COLUMN     "max_verifications" INTEGER,
+ADD COLUMN     "verification_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "VPRequest_expires_at_idx" ON "VPRequest"("expires_at");
+
+-- CreateIndex
+CREATE INDEX "VPSharing_expires_at_idx" ON "VPSharing"("expires_at");
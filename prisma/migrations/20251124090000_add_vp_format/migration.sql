@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "VPFormat" AS ENUM ('LDP_VP', 'SD_JWT');
+
+-- AlterTable
+ALTER TABLE "VPSharing" ADD COLUMN     "format" "VPFormat" NOT NULL DEFAULT 'LDP_VP';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "VPRequest" ADD COLUMN     "presentation_definition" JSONB;
+
+-- AlterTable
+ALTER TABLE "VPSharing" ADD COLUMN     "presentation_submission" JSONB;
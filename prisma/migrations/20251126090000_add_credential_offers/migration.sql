@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "CredentialOfferStatus" AS ENUM ('OFFERED', 'TOKEN_ISSUED', 'ISSUED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "CredentialOffer" (
+    "id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "holder_did" TEXT NOT NULL,
+    "vc_id" TEXT NOT NULL,
+    "vc_type" TEXT NOT NULL,
+    "schema_id" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "credential_configuration_id" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "credential" TEXT NOT NULL,
+    "vc_hash" TEXT NOT NULL,
+    "vc_expired_at" TEXT,
+    "pre_authorized_code" TEXT NOT NULL,
+    "tx_code_hash" TEXT,
+    "access_token_hash" TEXT,
+    "access_token_expires_at" TIMESTAMP(3),
+    "c_nonce" TEXT,
+    "c_nonce_expires_at" TIMESTAMP(3),
+    "status" "CredentialOfferStatus" NOT NULL DEFAULT 'OFFERED',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "transaction_hash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CredentialOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CredentialOffer_vc_id_key" ON "CredentialOffer"("vc_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CredentialOffer_pre_authorized_code_key" ON "CredentialOffer"("pre_authorized_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CredentialOffer_access_token_hash_key" ON "CredentialOffer"("access_token_hash");
+
+-- CreateIndex
+CREATE INDEX "CredentialOffer_issuer_did_idx" ON "CredentialOffer"("issuer_did");
+
+-- CreateIndex
+CREATE INDEX "CredentialOffer_holder_did_idx" ON "CredentialOffer"("holder_did");
+
+-- CreateIndex
+CREATE INDEX "CredentialOffer_status_idx" ON "CredentialOffer"("status");
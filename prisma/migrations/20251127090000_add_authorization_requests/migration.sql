@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AuthorizationRequestStatus" AS ENUM ('CREATED', 'PENDING', 'RESPONDED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "AuthorizationRequest" (
+    "id" TEXT NOT NULL,
+    "verifier_did" TEXT NOT NULL,
+    "verifier_name" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "presentation_definition" JSONB NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "signing_input" TEXT NOT NULL,
+    "request_jwt" TEXT,
+    "status" "AuthorizationRequestStatus" NOT NULL DEFAULT 'CREATED',
+    "vp_request_id" TEXT,
+    "vp_id" TEXT,
+    "verification_result" JSONB,
+    "error" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuthorizationRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthorizationRequest_nonce_key" ON "AuthorizationRequest"("nonce");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthorizationRequest_state_key" ON "AuthorizationRequest"("state");
+
+-- CreateIndex
+CREATE INDEX "AuthorizationRequest_verifier_did_idx" ON "AuthorizationRequest"("verifier_did");
+
+-- CreateIndex
+CREATE INDEX "AuthorizationRequest_status_idx" ON "AuthorizationRequest"("status");
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "DIDOperation" AS ENUM ('CREATE', 'ROTATE_KEY', 'DEACTIVATE');
+
+-- CreateTable
+CREATE TABLE "DIDVersion" (
+    "id" TEXT NOT NULL,
+    "did" TEXT NOT NULL,
+    "version_id" INTEGER NOT NULL,
+    "operation" "DIDOperation" NOT NULL,
+    "key_id" TEXT NOT NULL,
+    "transaction_hash" TEXT NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DIDVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DIDVersion_did_version_id_key" ON "DIDVersion"("did", "version_id");
+
+-- CreateIndex
+CREATE INDEX "DIDVersion_did_createdAt_idx" ON "DIDVersion"("did", "createdAt");
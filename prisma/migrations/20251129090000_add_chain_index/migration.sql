@@ -0,0 +1,94 @@
+-- CreateTable
+CREATE TABLE "ChainIndexCheckpoint" (
+    "id" TEXT NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "block_hash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChainIndexCheckpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChainEvent" (
+    "id" TEXT NOT NULL,
+    "contract" TEXT NOT NULL,
+    "function_name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "tx_hash" TEXT NOT NULL,
+    "tx_index" INTEGER NOT NULL,
+    "block_number" INTEGER NOT NULL,
+    "block_hash" TEXT NOT NULL,
+    "block_time" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChainEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IndexedDID" (
+    "did" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "active_key_id" TEXT NOT NULL,
+    "deactivated" BOOLEAN NOT NULL DEFAULT false,
+    "registered_block" INTEGER NOT NULL,
+    "registered_at" TIMESTAMP(3) NOT NULL,
+    "updated_block" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexedDID_pkey" PRIMARY KEY ("did")
+);
+
+-- CreateTable
+CREATE TABLE "IndexedVC" (
+    "vc_id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "holder_did" TEXT NOT NULL,
+    "vc_type" TEXT NOT NULL,
+    "schema_id" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "expired_at" TEXT,
+    "hash" TEXT NOT NULL,
+    "revoked" BOOLEAN NOT NULL DEFAULT false,
+    "replaced_by" TEXT,
+    "issued_block" INTEGER NOT NULL,
+    "issued_at" TIMESTAMP(3) NOT NULL,
+    "updated_block" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexedVC_pkey" PRIMARY KEY ("vc_id")
+);
+
+-- CreateTable
+CREATE TABLE "IndexedVCSchema" (
+    "schema_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_block" INTEGER NOT NULL,
+    "updated_block" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IndexedVCSchema_pkey" PRIMARY KEY ("schema_id","version")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainEvent_tx_hash_key" ON "ChainEvent"("tx_hash");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_block_number_idx" ON "ChainEvent"("block_number");
+
+-- CreateIndex
+CREATE INDEX "ChainEvent_contract_function_name_idx" ON "ChainEvent"("contract", "function_name");
+
+-- CreateIndex
+CREATE INDEX "IndexedVC_issuer_did_idx" ON "IndexedVC"("issuer_did");
+
+-- CreateIndex
+CREATE INDEX "IndexedVC_holder_did_idx" ON "IndexedVC"("holder_did");
+
+-- CreateIndex
+CREATE INDEX "IndexedVC_schema_id_idx" ON "IndexedVC"("schema_id");
+
+-- CreateIndex
+CREATE INDEX "IndexedVCSchema_issuer_did_idx" ON "IndexedVCSchema"("issuer_did");
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ChainTransactionStatus" AS ENUM ('PENDING', 'CONFIRMED', 'FAILED', 'DROPPED');
+
+-- CreateTable
+CREATE TABLE "ChainTransaction" (
+    "id" TEXT NOT NULL,
+    "from_address" TEXT NOT NULL,
+    "contract_address" TEXT NOT NULL,
+    "function_name" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "tx_hash" TEXT NOT NULL,
+    "replaced_hashes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "raw_tx" TEXT NOT NULL,
+    "max_fee_per_gas" TEXT,
+    "max_priority_fee_per_gas" TEXT,
+    "gas_price" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "status" "ChainTransactionStatus" NOT NULL DEFAULT 'PENDING',
+    "block_number" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChainTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainTransaction_tx_hash_key" ON "ChainTransaction"("tx_hash");
+
+-- CreateIndex
+CREATE INDEX "ChainTransaction_from_address_status_idx" ON "ChainTransaction"("from_address", "status");
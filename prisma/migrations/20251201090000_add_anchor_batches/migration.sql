@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "AnchorBatchStatus" AS ENUM ('PENDING', 'ANCHORED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "AnchorBatch" (
+    "id" TEXT NOT NULL,
+    "anchor_id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "schema_id" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "merkle_root" TEXT NOT NULL,
+    "leaf_count" INTEGER NOT NULL,
+    "status" "AnchorBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "transaction_hash" TEXT,
+    "block_number" INTEGER,
+    "error" TEXT,
+    "anchored_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnchorBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AnchoredVC" (
+    "vc_id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "holder_did" TEXT NOT NULL,
+    "vc_type" TEXT NOT NULL,
+    "schema_id" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "expired_at" TEXT,
+    "vc_hash" TEXT NOT NULL,
+    "batch_id" TEXT,
+    "leaf_index" INTEGER,
+    "merkle_proof" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnchoredVC_pkey" PRIMARY KEY ("vc_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnchorBatch_anchor_id_key" ON "AnchorBatch"("anchor_id");
+
+-- CreateIndex
+CREATE INDEX "AnchorBatch_status_idx" ON "AnchorBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "AnchoredVC_batch_id_idx" ON "AnchoredVC"("batch_id");
+
+-- CreateIndex
+CREATE INDEX "AnchoredVC_issuer_did_schema_id_schema_version_batch_id_idx" ON "AnchoredVC"("issuer_did", "schema_id", "schema_version", "batch_id");
+
+-- AddForeignKey
+ALTER TABLE "AnchoredVC" ADD CONSTRAINT "AnchoredVC_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "AnchorBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "DIDDeactivationStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'INCOMPLETE');
+
+-- CreateEnum
+CREATE TYPE "DIDDeactivationItemKind" AS ENUM ('HELD', 'ISSUED');
+
+-- CreateEnum
+CREATE TYPE "DIDDeactivationItemOutcome" AS ENUM ('PENDING', 'REQUEST_CREATED', 'REVOKED', 'SKIPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "DIDDeactivation" (
+    "id" TEXT NOT NULL,
+    "did" TEXT NOT NULL,
+    "initiated_by" TEXT NOT NULL,
+    "status" "DIDDeactivationStatus" NOT NULL DEFAULT 'PENDING',
+    "transaction_hash" TEXT,
+    "block_number" INTEGER,
+    "error" TEXT,
+    "deactivated_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DIDDeactivation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DIDDeactivationItem" (
+    "id" TEXT NOT NULL,
+    "deactivation_id" TEXT NOT NULL,
+    "kind" "DIDDeactivationItemKind" NOT NULL,
+    "vc_id" TEXT,
+    "counterparty_did" TEXT,
+    "outcome" "DIDDeactivationItemOutcome" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT,
+    "revoke_request_id" TEXT,
+    "transaction_hash" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_attempt_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DIDDeactivationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DIDDeactivation_did_key" ON "DIDDeactivation"("did");
+
+-- CreateIndex
+CREATE INDEX "DIDDeactivation_status_idx" ON "DIDDeactivation"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DIDDeactivationItem_deactivation_id_kind_vc_id_key" ON "DIDDeactivationItem"("deactivation_id", "kind", "vc_id");
+
+-- CreateIndex
+CREATE INDEX "DIDDeactivationItem_deactivation_id_outcome_idx" ON "DIDDeactivationItem"("deactivation_id", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "DIDDeactivationItem" ADD CONSTRAINT "DIDDeactivationItem_deactivation_id_fkey" FOREIGN KEY ("deactivation_id") REFERENCES "DIDDeactivation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "BulkIssuanceJobStatus" AS ENUM ('PROCESSING', 'COMPLETED', 'COMPLETED_WITH_ERRORS');
+
+-- CreateEnum
+CREATE TYPE "BulkIssuanceRowStatus" AS ENUM ('PENDING', 'INVALID', 'ISSUED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "BulkIssuanceJob" (
+    "id" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "schema_id" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "vc_type" TEXT NOT NULL,
+    "anchoring_mode" TEXT NOT NULL DEFAULT 'direct',
+    "manifest_name" TEXT,
+    "total_rows" INTEGER NOT NULL,
+    "status" "BulkIssuanceJobStatus" NOT NULL DEFAULT 'PROCESSING',
+    "completed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BulkIssuanceJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BulkIssuanceRow" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "row_number" INTEGER NOT NULL,
+    "holder_did" TEXT,
+    "vc_id" TEXT,
+    "vc_hash" TEXT,
+    "encrypted_body" TEXT,
+    "expired_at" TEXT,
+    "status" "BulkIssuanceRowStatus" NOT NULL DEFAULT 'PENDING',
+    "errors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "anchored_at" TIMESTAMP(3),
+    "transaction_hash" TEXT,
+    "block_number" INTEGER,
+    "record_id" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BulkIssuanceRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BulkIssuanceJob_issuer_did_createdAt_idx" ON "BulkIssuanceJob"("issuer_did", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkIssuanceJob_status_idx" ON "BulkIssuanceJob"("status");
+
+-- CreateIndex
+CREATE INDEX "BulkIssuanceRow_job_id_status_row_number_idx" ON "BulkIssuanceRow"("job_id", "status", "row_number");
+
+-- CreateIndex
+CREATE INDEX "BulkIssuanceRow_vc_id_idx" ON "BulkIssuanceRow"("vc_id");
+
+-- AddForeignKey
+ALTER TABLE "BulkIssuanceRow" ADD CONSTRAINT "BulkIssuanceRow_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "BulkIssuanceJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "VCSchema" ADD COLUMN "auto_renewal" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "PushToken" ADD COLUMN "email" TEXT;
+
+-- CreateTable
+CREATE TABLE "VCExpiryReminder" (
+    "id" TEXT NOT NULL,
+    "vc_id" TEXT NOT NULL,
+    "holder_did" TEXT NOT NULL,
+    "issuer_did" TEXT NOT NULL,
+    "expired_at" TEXT NOT NULL,
+    "days_before" INTEGER NOT NULL,
+    "renewal_request_id" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VCExpiryReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VCExpiryReminder_vc_id_expired_at_days_before_key" ON "VCExpiryReminder"("vc_id", "expired_at", "days_before");
+
+-- CreateIndex
+CREATE INDEX "VCExpiryReminder_holder_did_idx" ON "VCExpiryReminder"("holder_did");
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ChainOutboxOperation" AS ENUM ('ISSUE_VC', 'RENEW_VC', 'UPDATE_VC', 'CREATE_VC_SCHEMA');
+
+-- CreateEnum
+CREATE TYPE "ChainOutboxStatus" AS ENUM ('PENDING', 'CHAIN_CONFIRMED', 'COMPLETED', 'COMPENSATING', 'COMPENSATED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ChainOutbox" (
+    "id" TEXT NOT NULL,
+    "operation" "ChainOutboxOperation" NOT NULL,
+    "lock_key" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" "ChainOutboxStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "transaction_hash" TEXT,
+    "block_number" INTEGER,
+    "compensation_tx_hash" TEXT,
+    "result" JSONB,
+    "locked_until" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChainOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChainOutbox_lock_key_key" ON "ChainOutbox"("lock_key");
+
+-- CreateIndex
+CREATE INDEX "ChainOutbox_status_locked_until_idx" ON "ChainOutbox"("status", "locked_until");
+
+-- CreateIndex
+CREATE INDEX "ChainOutbox_operation_createdAt_idx" ON "ChainOutbox"("operation", "createdAt");
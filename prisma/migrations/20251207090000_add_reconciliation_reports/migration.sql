@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationReportStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ReconciliationReport" (
+    "id" TEXT NOT NULL,
+    "status" "ReconciliationReportStatus" NOT NULL DEFAULT 'RUNNING',
+    "repair" BOOLEAN NOT NULL DEFAULT false,
+    "triggered_by" TEXT NOT NULL,
+    "summary" JSONB,
+    "discrepancies" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationReport_started_at_idx" ON "ReconciliationReport"("started_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CredentialOffer" ADD COLUMN     "tx_code_attempts" INTEGER NOT NULL DEFAULT 0;
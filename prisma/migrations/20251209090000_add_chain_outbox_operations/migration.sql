@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "ChainOutboxOperation" ADD VALUE 'REVOKE_VC';
+ALTER TYPE "ChainOutboxOperation" ADD VALUE 'APPROVE_ISSUANCE';
+ALTER TYPE "ChainOutboxOperation" ADD VALUE 'REGISTER_DID';
+ALTER TYPE "ChainOutboxOperation" ADD VALUE 'ROTATE_DID_KEY';
+ALTER TYPE "ChainOutboxOperation" ADD VALUE 'DEACTIVATE_DID';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "VCExpiryReminder" ADD COLUMN     "sent_at" TIMESTAMP(3);
+
+-- Reminders recorded so far count as sent (they were never retried)
+UPDATE "VCExpiryReminder" SET "sent_at" = "createdAt";
@@ -0,0 +1,79 @@
+/**
+ * Blockchain vs database reconciliation (CLI)
+ *
+ * Usage:
+ *   npm run reconcile-chain -- [--repair] [--format json|csv] [--out <file>]
+ *
+ *   --repair   Fix the safe cases in the database from the on-chain state
+ *   --format   Report format (default: json)
+ *   --out      Write the report to a file instead of stdout
+ *
+ * Exit code: 0 = in sync, 2 = discrepancies found, 1 = reconciliation failed
+ */
+import * as fs from "fs";
+import { prisma } from "../src/config/database";
+import { ReconciliationService, ReconciliationServiceClass } from "../src/services";
+
+function parseArgs(argv: string[]) {
+  const options = { repair: false, format: "json", out: undefined as string | undefined };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--repair":
+        options.repair = true;
+        break;
+      case "--format":
+        options.format = argv[++i];
+        break;
+      case "--out":
+        options.out = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!["json", "csv"].includes(options.format)) {
+    throw new Error("--format must be 'json' or 'csv'");
+  }
+  return options;
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const report = await ReconciliationService.run({
+    repair: options.repair,
+    triggeredBy: "cli",
+  });
+
+  const output =
+    options.format === "csv"
+      ? ReconciliationServiceClass.toCsv(report)
+      : JSON.stringify(report, null, 2);
+
+  if (options.out) {
+    fs.writeFileSync(options.out, output);
+    console.error(`📄 Report ${report.report_id} written to ${options.out}`);
+  } else {
+    process.stdout.write(output + "\n");
+  }
+
+  const found = report.discrepancies.length;
+  console.error(
+    found > 0
+      ? `⚠️  ${found} discrepancies found, ${report.summary?.repaired ?? 0} repaired`
+      : "✅ Blockchain and database are in sync"
+  );
+  return found > 0 ? 2 : 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error("❌ Reconciliation failed:", error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
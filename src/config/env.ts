@@ -26,6 +26,95 @@ const envSchema = z.object({
   VC_CONTRACT_ADDRESS: z.string().length(42, "Invalid VC Ethereum address"),
   ACCOUNT_PRIVATE_KEY: z.string().min(64, "Invalid private key"),
 
+  // Ledger backend: evm (DIDManager / VCManager contracts) or memory (in-process stand-in chain)
+  LEDGER_DRIVER: z.enum(["evm", "memory"]).default("evm"),
+  LEDGER_MEMORY_CHAIN_ID: z.string().default("1337").transform(Number),
+
+  // Credential hashing (must match the canonicalization used by wallets)
+  VC_CANONICALIZATION: z.enum(["JCS", "RDFC"]).default("JCS"),
+
+  // Presentation lifetime (used when the client does not send expires_at)
+  VP_REQUEST_TTL_MINUTES: z.string().default("1440").transform(Number),
+
+  // OID4VCI credential offer lifetime (pre-authorized code validity)
+  OID4VCI_OFFER_TTL_MINUTES: z.string().default("1440").transform(Number),
+
+  // OID4VP authorization request lifetime (wallet must respond before it expires)
+  OID4VP_REQUEST_TTL_MINUTES: z.string().default("10").transform(Number),
+
+  // DID document cache (0 disables caching of blockchain DID reads)
+  DID_CACHE_TTL_SECONDS: z.string().default("60").transform(Number),
+  DID_CACHE_MAX_ENTRIES: z.string().default("10000").transform(Number),
+
+  // did:web resolution (DID documents fetched over HTTPS)
+  DID_WEB_TIMEOUT_MS: z.string().default("5000").transform(Number),
+  DID_WEB_MAX_BYTES: z.string().default("102400").transform(Number),
+  DID_WEB_ALLOW_HTTP: z
+    .string()
+    .default("false")
+    .transform((val) => val === "true"),
+
+  // Blockchain indexer (DIDManager / VCManager transactions -> Postgres)
+  INDEXER_ENABLED: z
+    .string()
+    .default("false")
+    .transform((val) => val === "true"),
+  INDEXER_START_BLOCK: z.string().default("0").transform(Number),
+  INDEXER_CONFIRMATIONS: z.string().default("3").transform(Number),
+  INDEXER_BATCH_SIZE: z.string().default("200").transform(Number),
+
+  // Transaction manager (EIP-1559 fee bumping for stuck transactions)
+  TX_FEE_BUMP_PERCENT: z.string().default("15").transform(Number),
+  TX_STUCK_TIMEOUT_SECONDS: z.string().default("60").transform(Number),
+  TX_MAX_REPLACEMENTS: z.string().default("3").transform(Number),
+  TX_CONFIRMATION_TIMEOUT_SECONDS: z.string().default("600").transform(Number),
+  TX_REQUEST_WAIT_SECONDS: z.string().default("60").transform(Number), // Max wait inside a request
+  TX_POLL_INTERVAL_MS: z.string().default("2000").transform(Number),
+  TX_MAX_FEE_GWEI: z.string().optional(), // Cap for maxFeePerGas / gasPrice
+  TX_PRIORITY_FEE_GWEI: z.string().optional(), // Overrides the node's priority fee suggestion
+
+  // Merkle batch anchoring (anchoring_mode: "batch" on issuer issuance)
+  VC_BATCH_ANCHORING_ENABLED: z
+    .string()
+    .default("false")
+    .transform((val) => val === "true"),
+  VC_BATCH_MAX_SIZE: z.string().default("1000").transform(Number),
+  VC_BATCH_MAX_WAIT_SECONDS: z.string().default("300").transform(Number),
+
+  // Bulk issuer-initiated issuance (manifest upload)
+  BULK_ISSUANCE_MAX_ROWS: z.string().default("5000").transform(Number),
+
+  // DID deactivation cascade (revoke requests / revocations of the DID's VCs)
+  DID_DEACTIVATION_MAX_ATTEMPTS: z.string().default("5").transform(Number),
+  DID_DEACTIVATION_REVOKE_ISSUED: z
+    .string()
+    .default("true")
+    .transform((val) => val === "true"),
+
+  // Credential expiry reminders (days before the on-chain expiredAt, comma separated)
+  VC_EXPIRY_REMINDERS_ENABLED: z
+    .string()
+    .default("true")
+    .transform((val) => val === "true"),
+  VC_EXPIRY_REMINDER_DAYS: z
+    .string()
+    .default("30,7,1")
+    .transform((val) =>
+      val
+        .split(",")
+        .map((day) => Number(day.trim()))
+        .filter((day) => Number.isInteger(day) && day > 0)
+        .sort((a, b) => b - a)
+    ),
+
+  // Chain outbox (on-chain writes of issuance / renewal / update / schema creation)
+  CHAIN_OUTBOX_MAX_ATTEMPTS: z.string().default("5").transform(Number),
+  CHAIN_OUTBOX_LEASE_SECONDS: z.string().default("900").transform(Number),
+
+  // Idempotency-Key header (stored responses are replayed for retries within the TTL)
+  IDEMPOTENCY_KEY_TTL_HOURS: z.string().default("24").transform(Number),
+  IDEMPOTENCY_LOCK_TIMEOUT_SECONDS: z.string().default("300").transform(Number),
+
   // Email
   SMTP_HOST: z.string().default("smtp.gmail.com"),
   SMTP_PORT: z.string().default("587").transform(Number),
@@ -35,6 +124,9 @@ const envSchema = z.object({
   // Frontend
   FRONTEND_URL: z.string().url(),
 
+  // Public base URL of this API (used in status list and other published URLs)
+  API_PUBLIC_URL: z.string().url().optional(),
+
   // MinIO
   MINIO_ENDPOINT: z.string().default("localhost"),
   MINIO_PORT: z.string().default("9000").transform(Number),
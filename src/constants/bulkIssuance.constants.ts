@@ -0,0 +1,18 @@
+/**
+ * Bulk Issuance Constants
+ * Manifest format of POST /credentials/issuer/bulk-issuance
+ */
+
+export const BULK_ISSUANCE = {
+  MANIFEST_FIELD: 'manifest', // Multipart field name of the manifest file
+  MANIFEST_MAX_SIZE: 50 * 1024 * 1024, // 50MB
+  // CSV header (JSON manifests use the same keys, plus an optional vc_json per row)
+  MANIFEST_COLUMNS: ['holder_did', 'vc_id', 'vc_hash', 'encrypted_body', 'expiredAt'],
+  ERROR_REPORT_COLUMNS: ['row_number', 'vc_id', 'holder_did', 'status', 'errors'],
+  PROCESS_CHUNK_SIZE: 100,
+} as const;
+
+export const MANIFEST_FORMAT = {
+  CSV: 'csv',
+  JSON: 'json',
+} as const;
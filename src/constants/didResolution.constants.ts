@@ -0,0 +1,46 @@
+/**
+ * DID Resolution Constants
+ * Universal Resolver driver interface (GET /1.0/identifiers/:did)
+ */
+
+export const DID_RESOLUTION = {
+  METHOD: 'dcert',
+  DID_REGEX: /^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/,
+  // Holders and verifiers may also use did:key (P-256 / Ed25519) and did:web
+  SUPPORTED_DID_REGEX:
+    /^(?:did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})|did:key:z[1-9A-HJ-NP-Za-km-z]+|did:web:[a-zA-Z0-9._%-]+(?::[a-zA-Z0-9._%-]+)*)$/,
+  DID_DOCUMENT_CONTENT_TYPE: 'application/did+ld+json',
+  RESULT_CONTENT_TYPE:
+    'application/ld+json;profile="https://w3id.org/did-resolution"',
+} as const;
+
+export const DID_METHOD = {
+  DCERT: 'dcert',
+  KEY: 'key',
+  WEB: 'web',
+} as const;
+
+// Multicodec prefixes of did:key / Multikey public keys (varint encoded)
+export const MULTICODEC_PREFIX = {
+  ED25519_PUB: [0xed, 0x01],
+  P256_PUB: [0x80, 0x24], // Compressed point
+} as const;
+
+export const DID_RESOLUTION_ERROR = {
+  INVALID_DID: 'invalidDid',
+  INVALID_OPTIONS: 'invalidOptions',
+  NOT_FOUND: 'notFound',
+  DEACTIVATED: 'deactivated',
+  METHOD_NOT_SUPPORTED: 'methodNotSupported',
+  INTERNAL_ERROR: 'internalError',
+} as const;
+
+// HTTP status codes defined by the Universal Resolver driver spec
+export const DID_RESOLUTION_HTTP_STATUS = {
+  invalidDid: 400,
+  invalidOptions: 400,
+  notFound: 404,
+  deactivated: 410,
+  methodNotSupported: 501,
+  internalError: 500,
+} as const;
@@ -7,3 +7,9 @@ export * from './jwt.constants';
 export * from './status.constants';
 export * from './http.constants';
 export * from './schema.constants';
+export * from './oid4vci.constants';
+export * from './oid4vp.constants';
+export * from './didResolution.constants';
+export * from './merkleAnchor.constants';
+export * from './bulkIssuance.constants';
+export * from './reconciliation.constants';
@@ -0,0 +1,16 @@
+/**
+ * Merkle Batch Anchoring Constants
+ * A batch root is anchored as a VCManager entry (issueVC) owned by the issuer
+ */
+
+export const MERKLE_ANCHOR = {
+  ANCHOR_ID_PREFIX: 'urn:dcert:anchor-batch:',
+  ANCHOR_VC_TYPE: 'MerkleBatchRoot',
+  PROOF_TYPE: 'MerkleInclusionProof',
+  PROOF_PROPERTY: 'merkleInclusionProof', // Attached inside the VC proof object
+} as const;
+
+export const ANCHORING_MODE = {
+  DIRECT: 'direct',
+  BATCH: 'batch',
+} as const;
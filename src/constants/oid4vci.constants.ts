@@ -0,0 +1,27 @@
+/**
+ * OID4VCI Constants
+ * OpenID for Verifiable Credential Issuance (pre-authorized code flow)
+ */
+
+export const OID4VCI_GRANT_TYPE = {
+  PRE_AUTHORIZED_CODE: 'urn:ietf:params:oauth:grant-type:pre-authorized_code',
+} as const;
+
+export const OID4VCI_FORMAT = {
+  LDP_VC: 'ldp_vc',
+  SD_JWT_VC: 'vc+sd-jwt',
+} as const;
+
+export const OID4VCI_PROOF_TYPE = {
+  JWT: 'jwt',
+  JWT_TYP: 'openid4vci-proof+jwt',
+} as const;
+
+export const OID4VCI_EXPIRY = {
+  ACCESS_TOKEN_SECONDS: 300,
+  C_NONCE_SECONDS: 300,
+  PROOF_MAX_AGE_SECONDS: 300, // Maximum age of the proof JWT iat
+} as const;
+
+export const OID4VCI_TX_CODE_LENGTH = 6;
+export const OID4VCI_TX_CODE_MAX_ATTEMPTS = 5; // Wrong tx_code attempts before the offer is invalidated
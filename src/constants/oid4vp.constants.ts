@@ -0,0 +1,21 @@
+/**
+ * OID4VP Constants
+ * OpenID for Verifiable Presentations (request_uri + direct_post)
+ */
+
+export const OID4VP_REQUEST = {
+  TYP: 'oauth-authz-req+jwt',
+  AUD: 'https://self-issued.me/v2', // Static audience for wallets without discovery
+  RESPONSE_TYPE: 'vp_token',
+  RESPONSE_MODE: 'direct_post',
+  CLIENT_ID_SCHEME: 'did',
+  URI_SCHEME: 'openid4vp://',
+} as const;
+
+export const OID4VP_VP_FORMATS = {
+  ldp_vp: { proof_type: ['DataIntegrityProof'] },
+  'vc+sd-jwt': {
+    'sd-jwt_alg_values': ['ES256'],
+    'kb-jwt_alg_values': ['ES256'],
+  },
+} as const;
@@ -0,0 +1,33 @@
+/**
+ * Reconciliation Constants
+ * Chain-vs-database audit (POST /credentials/admin/reconciliation, scripts/reconcileChain.ts)
+ */
+
+export const RECONCILIATION_KIND = {
+  MISSING_IN_DB: 'missing-in-db',
+  MISSING_ON_CHAIN: 'missing-on-chain',
+  HASH_MISMATCH: 'hash-mismatch',
+  STATUS_MISMATCH: 'status-mismatch',
+} as const;
+
+export const RECONCILIATION = {
+  REPORT_COLUMNS: [
+    'entity',
+    'id',
+    'version',
+    'kind',
+    'source',
+    'chain_hash',
+    'db_hash',
+    'issuer_did',
+    'detail',
+    'repairable',
+    'repaired',
+    'repair_error',
+  ],
+  // A RUNNING report older than this is considered abandoned (crashed run)
+  STALE_AFTER_MINUTES: 60,
+  LIST_LIMIT: 50,
+  // Database rows compared per query (tables are paged by id, never loaded whole)
+  SCAN_CHUNK_SIZE: 200,
+} as const;
@@ -11,6 +11,7 @@ export const REQUEST_STATUS = {
 export const CREDENTIAL_STATUS = {
   ACTIVE: 'ACTIVE',
   REVOKED: 'REVOKED',
+  SUSPENDED: 'SUSPENDED',
   EXPIRED: 'EXPIRED',
 } as const;
 
@@ -1,20 +1,36 @@
 import { Request, Response } from "express";
 import { validationResult } from "express-validator";
 // Make sure RequestType and RequestStatus are imported if used directly (though DTOs are preferred)
-import { RequestType, RequestStatus } from "@prisma/client";
-import { CredentialService } from "../services";
+import {
+  RequestType,
+  RequestStatus,
+  ChainOutboxStatus,
+  ChainOutboxOperation,
+} from "@prisma/client";
+import {
+  CredentialService,
+  BatchAnchorService,
+  BulkIssuanceService,
+  ChainOutboxService,
+  ReconciliationService,
+} from "../services";
 import { ValidationError } from "../utils";
 import { asyncHandler, RequestWithDID } from "../middlewares";
-import { ResponseHelper } from "../utils/helpers";
+import { ResponseHelper, ManifestHelper } from "../utils/helpers";
 import {
   CombinedConfirmVCsBatchDTO,
   ClaimIssuerInitiatedVCsDTO,
   ConfirmIssuerInitiatedVCsDTO,
   IssuerRenewVCDTO,
   IssuerRevokeVCDTO,
+  IssuerSuspendVCDTO,
+  IssuerReinstateVCDTO,
+  PrepareSdJwtVCDTO,
   IssuerUpdateVCDTO,
   ProcessUpdateVCDTO,
   IssuerIssueVCDTO,
+  CreateBulkIssuanceDTO,
+  BulkIssuanceManifestRowDTO,
   ProcessIssuanceVCDTO,
   RevokeVCDTO,
   CredentialRevocationRequestDTO,
@@ -307,6 +323,27 @@ export const getVCStatus = asyncHandler(async (req: Request, res: Response) => {
   );
 });
 
+/**
+ * Get the batch anchoring state and Merkle inclusion proof of a VC
+ */
+export const getVCAnchoring = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const vcId = String(req.params.vcId);
+    const result = await BatchAnchorService.getAnchoring(vcId);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      `Successfully retrieved anchoring for VC ${vcId}.`
+    );
+  }
+);
+
 export const revokeVC = asyncHandler(async (req: Request, res: Response) => {
   // Validate request body using the modified validator
   const errors = validationResult(req);
@@ -512,6 +549,129 @@ export const resetStuckVCs = asyncHandler(
   }
 );
 
+/**
+ * Admin: List chain outbox intents (on-chain writes of direct issuance,
+ * renewal / update approval and schema creation)
+ *
+ * Requires admin authentication
+ */
+export const getChainOutboxIntents = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const result = await ChainOutboxService.listIntents({
+      status: req.query.status as ChainOutboxStatus | undefined,
+      operation: req.query.operation as ChainOutboxOperation | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+
+    return ResponseHelper.success(
+      res,
+      { count: result.length, intents: result },
+      `Found ${result.length} chain outbox intents`
+    );
+  }
+);
+
+/**
+ * Admin: Drift report (reconciliation comparison plus open / failed outbox intents)
+ *
+ * Requires admin authentication
+ */
+export const getChainOutboxDrift = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await ChainOutboxService.getDriftReport();
+
+    return ResponseHelper.success(
+      res,
+      result,
+      result.drift.length > 0
+        ? `Found ${result.drift.length} VCs out of sync between blockchain and database`
+        : "Blockchain and database are in sync"
+    );
+  }
+);
+
+/**
+ * Admin: Start a blockchain vs database reconciliation
+ * Runs in the background; poll GET /credentials/admin/reconciliation/:reportId
+ *
+ * Requires admin authentication
+ */
+export const startReconciliation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const result = await ReconciliationService.start({
+      repair: req.body.repair === true,
+      triggeredBy: `admin:${req.adminId}`,
+    });
+
+    return ResponseHelper.created(
+      res,
+      result,
+      result.repair
+        ? "Reconciliation with repair started"
+        : "Reconciliation started"
+    );
+  }
+);
+
+/**
+ * Admin: List recent reconciliation reports
+ *
+ * Requires admin authentication
+ */
+export const listReconciliationReports = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await ReconciliationService.listReports();
+
+    return ResponseHelper.success(
+      res,
+      { count: result.length, reports: result },
+      `Found ${result.length} reconciliation reports`
+    );
+  }
+);
+
+/**
+ * Admin: Get a reconciliation report
+ * ?format=csv downloads the discrepancies as a CSV file
+ *
+ * Requires admin authentication
+ */
+export const getReconciliationReport = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const reportId = String(req.params.reportId);
+
+    if (req.query.format === "csv") {
+      const csv = await ReconciliationService.getReportCsv(reportId);
+      res.type("text/csv");
+      res.attachment(`reconciliation-${reportId}.csv`);
+      return res.status(200).send(csv);
+    }
+
+    const result = await ReconciliationService.getReport(reportId);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      `Reconciliation report is ${result.status}`
+    );
+  }
+);
+
 export const getAllIssuerRequests = asyncHandler(
   async (req: Request, res: Response) => {
     //
@@ -569,6 +729,170 @@ export const issuerIssueVC = asyncHandler(
   }
 );
 
+/**
+ * Create Bulk Issuance Job Controller (issuer)
+ * Manifest comes from the "manifest" file (CSV / JSON) or from body.rows
+ */
+export const createBulkIssuance = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const authenticatedDid = req.holderDID;
+    if (!authenticatedDid) {
+      throw new BadRequestError(
+        "Authenticated issuer DID not found in request. Make sure JWT token is valid."
+      );
+    }
+
+    let rows: BulkIssuanceManifestRowDTO[] = req.body.rows;
+    if (req.file) {
+      const format = ManifestHelper.detectFormat(
+        req.file.mimetype,
+        req.file.originalname
+      )!;
+      try {
+        rows = ManifestHelper.parse(req.file.buffer.toString("utf8"), format);
+      } catch (error: any) {
+        throw new BadRequestError(`Invalid manifest: ${error.message}`);
+      }
+    }
+
+    const requestData: CreateBulkIssuanceDTO = {
+      issuer_did: req.body.issuer_did,
+      schema_id: req.body.schema_id,
+      schema_version: req.body.schema_version,
+      anchoring_mode: req.body.anchoring_mode,
+      manifest_name: req.file?.originalname,
+      rows,
+    };
+
+    const result = await BulkIssuanceService.createJob(
+      requestData,
+      authenticatedDid
+    );
+
+    return ResponseHelper.created(
+      res,
+      result,
+      `Bulk issuance job created: ${result.progress.pending} rows queued, ${result.progress.invalid} invalid.`
+    );
+  }
+);
+
+/**
+ * Get Bulk Issuance Job Controller (issuer) - status and progress
+ */
+export const getBulkIssuanceJob = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const result = await BulkIssuanceService.getJob(
+      String(req.params.jobId),
+      req.holderDID!
+    );
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "Bulk issuance job retrieved successfully"
+    );
+  }
+);
+
+/**
+ * Get Bulk Issuance Error Report Controller (issuer)
+ * ?format=csv downloads the report as a CSV file
+ */
+export const getBulkIssuanceErrors = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const jobId = String(req.params.jobId);
+
+    if (req.query.format === "csv") {
+      const csv = await BulkIssuanceService.getErrorReportCsv(
+        jobId,
+        req.holderDID!
+      );
+      res.type("text/csv");
+      res.attachment(`bulk-issuance-${jobId}-errors.csv`);
+      return res.status(200).send(csv);
+    }
+
+    const result = await BulkIssuanceService.getErrorReport(
+      jobId,
+      req.holderDID!
+    );
+
+    return ResponseHelper.success(
+      res,
+      { count: result.length, rows: result },
+      `Found ${result.length} rows with errors`
+    );
+  }
+);
+
+/**
+ * Retry Failed Bulk Issuance Rows Controller (issuer)
+ */
+export const retryBulkIssuance = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const result = await BulkIssuanceService.retryFailedRows(
+      String(req.params.jobId),
+      req.holderDID!
+    );
+
+    return ResponseHelper.success(
+      res,
+      result,
+      `Retrying ${result.progress.pending} failed rows`
+    );
+  }
+);
+
+export const prepareSdJwtVC = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const authenticatedDid = req.holderDID;
+    if (!authenticatedDid) {
+      throw new BadRequestError(
+        "Authenticated issuer DID not found in request. Make sure JWT token is valid."
+      );
+    }
+
+    const requestData: PrepareSdJwtVCDTO = req.body;
+
+    const result = await CredentialService.prepareSdJwtVC(
+      requestData,
+      authenticatedDid
+    );
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "SD-JWT VC prepared. Sign signing_input with ES256 and submit to /credentials/issuer/issue-vc."
+    );
+  }
+);
+
 export const issuerUpdateVC = asyncHandler(
   async (req: RequestWithDID, res: Response) => {
     const errors = validationResult(req);
@@ -625,6 +949,56 @@ export const issuerRevokeVC = asyncHandler(
   }
 );
 
+export const issuerSuspendVC = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const authenticatedDid = req.holderDID;
+    if (!authenticatedDid) {
+      throw new BadRequestError(
+        "Authenticated issuer DID not found in request. Make sure JWT token is valid."
+      );
+    }
+
+    const requestData: IssuerSuspendVCDTO = req.body;
+
+    const result = await CredentialService.issuerSuspendVC(
+      requestData,
+      authenticatedDid
+    );
+
+    return ResponseHelper.success(res, result, result.message);
+  }
+);
+
+export const issuerReinstateVC = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const authenticatedDid = req.holderDID;
+    if (!authenticatedDid) {
+      throw new BadRequestError(
+        "Authenticated issuer DID not found in request. Make sure JWT token is valid."
+      );
+    }
+
+    const requestData: IssuerReinstateVCDTO = req.body;
+
+    const result = await CredentialService.issuerReinstateVC(
+      requestData,
+      authenticatedDid
+    );
+
+    return ResponseHelper.success(res, result, result.message);
+  }
+);
+
 export const issuerRenewVC = asyncHandler(
   async (req: RequestWithDID, res: Response) => {
     const errors = validationResult(req);
@@ -708,7 +1082,7 @@ export const confirmIssuerInitiatedVCsBatch = asyncHandler(
 
 /**
  * Validate VC JSON Controller
- * Validates uploaded VC JSON for DID ownership, expiration, and hash
+ * Validates uploaded VC JSON for DID ownership, expiration, hash, status and proof
  */
 export const validateVC = asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
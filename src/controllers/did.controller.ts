@@ -1,9 +1,9 @@
 import { Response } from "express";
 import { validationResult } from "express-validator";
 import { DIDService } from "../services";
-import { ValidationError } from "../utils";
+import { ValidationError, ForbiddenError } from "../utils";
 import { asyncHandler, RequestWithInstitution, RequestWithDID } from "../middlewares";
-import { ResponseHelper } from "../utils/helpers";
+import { ResponseHelper, DIDDocumentHelper, DIDMediaType } from "../utils/helpers";
 
 /**
  * Register DID Controller
@@ -140,15 +140,68 @@ export const deleteDIDByAdmin = asyncHandler(
     const { did } = req.params;
 
     // Deactivate DID and revoke all VCs
-    const result = await DIDService.deactivateDID(did);
+    const result = await DIDService.deactivateDID(did, "admin");
 
     return ResponseHelper.success(res, result, result.message);
   }
 );
 
+/**
+ * Get DID Deactivation Report Controller (User path - requires DID signature)
+ * Only the deactivated DID itself may read its report
+ */
+export const getDeactivationReport = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const { did } = req.params;
+
+    if (req.holderDID !== did) {
+      throw new ForbiddenError(
+        "Authenticated DID does not match the DID in the request path."
+      );
+    }
+
+    const result = await DIDService.getDeactivationReport(did);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "DID deactivation report retrieved successfully"
+    );
+  }
+);
+
+/**
+ * Get DID Deactivation Report Controller (Admin path - requires admin auth)
+ */
+export const getDeactivationReportByAdmin = asyncHandler(
+  async (req: RequestWithInstitution, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const did = String(req.params.did);
+
+    const result = await DIDService.getDeactivationReport(did);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "DID deactivation report retrieved successfully"
+    );
+  }
+);
+
 /**
  * Get DID Document Controller
- * Returns 200 even if DID not found
+ * Content negotiation:
+ * - application/json (default): legacy envelope, returns 200 even if DID not found
+ * - application/did+ld+json / application/did+json: W3C DID document, 404 if not found
  */
 export const getDIDDocument = asyncHandler(
   async (req: RequestWithInstitution, res: Response) => {
@@ -157,7 +210,26 @@ export const getDIDDocument = asyncHandler(
       throw new ValidationError("Validation error", errors.array());
     }
 
-    const { did } = req.params;
+    const did = String(req.params.did);
+
+    const accepted = req.accepts([
+      "application/json",
+      ...DIDDocumentHelper.MEDIA_TYPES,
+    ]);
+
+    if (accepted && accepted !== "application/json") {
+      const mediaType = accepted as DIDMediaType;
+      const w3cResult = await DIDService.getW3CDIDDocument(did, mediaType);
+
+      if (!w3cResult.found) {
+        return res.status(404).json({
+          error: "notFound",
+          message: w3cResult.message,
+        });
+      }
+
+      return res.status(200).type(mediaType).json(w3cResult.didDocument);
+    }
 
     const result = await DIDService.getDIDDocument(did);
 
@@ -0,0 +1,31 @@
+import { Request, Response } from "express";
+import { DIDResolverService } from "../services";
+import { asyncHandler } from "../middlewares";
+import {
+  DID_RESOLUTION,
+  DID_RESOLUTION_HTTP_STATUS,
+} from "../constants/didResolution.constants";
+
+/**
+ * Resolve DID Controller (Universal Resolver driver interface)
+ * Returns the DID resolution result; the HTTP status reflects didResolutionMetadata.error
+ */
+export const resolveDID = asyncHandler(async (req: Request, res: Response) => {
+  const did = String(req.params.did);
+  const { versionId, versionTime } = req.query;
+
+  const result = await DIDResolverService.resolve(did, {
+    versionId: typeof versionId === "string" ? versionId : undefined,
+    versionTime: typeof versionTime === "string" ? versionTime : undefined,
+  });
+
+  const error = result.didResolutionMetadata.error as
+    | keyof typeof DID_RESOLUTION_HTTP_STATUS
+    | undefined;
+  const statusCode = error ? DID_RESOLUTION_HTTP_STATUS[error] : 200;
+
+  return res
+    .status(statusCode)
+    .type(DID_RESOLUTION.RESULT_CONTENT_TYPE)
+    .json(result);
+});
@@ -11,3 +11,6 @@ export * from './schema.controller';
 export * from './presentation.controller';
 export * from './notification.controller';
 export * from './institution.controller';
+export * from './statusList.controller';
+export * from './oid4vci.controller';
+export * from './oid4vp.controller';
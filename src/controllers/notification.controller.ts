@@ -14,12 +14,13 @@ export const registerPushToken = asyncHandler(async (req: Request, res: Response
     throw new ValidationError("Validation error", errors.array());
   }
 
-  const { holder_did, token, deviceInfo } = req.body;
+  const { holder_did, token, deviceInfo, email } = req.body;
 
   const pushToken = await NotificationService.registerPushToken({
     holder_did,
     token,
     deviceInfo,
+    email,
   });
 
   const isNewToken = pushToken.createdAt === pushToken.updatedAt;
@@ -0,0 +1,115 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { OID4VCIService } from "../services";
+import { ValidationError, BadRequestError } from "../utils";
+import { asyncHandler } from "../middlewares";
+import { ResponseHelper } from "../utils/helpers";
+import { RequestWithDID } from "../middlewares/didAuth.middleware";
+import {
+  CreateCredentialOfferDTO,
+  TokenRequestDTO,
+  OID4VCICredentialRequestDTO,
+} from "../dtos";
+
+/**
+ * Credential Issuer Metadata Controller (public)
+ * Returned as-is (no response envelope) as required by OID4VCI
+ */
+export const getCredentialIssuerMetadata = asyncHandler(
+  async (req: Request, res: Response) => {
+    const metadata = await OID4VCIService.getCredentialIssuerMetadata();
+    return res.status(200).json(metadata);
+  }
+);
+
+/**
+ * OAuth Authorization Server Metadata Controller (public)
+ */
+export const getAuthorizationServerMetadata = asyncHandler(
+  async (req: Request, res: Response) => {
+    return res
+      .status(200)
+      .json(OID4VCIService.getAuthorizationServerMetadata());
+  }
+);
+
+/**
+ * Create Credential Offer Controller (issuer)
+ */
+export const createCredentialOffer = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const authenticatedDid = req.holderDID;
+    if (!authenticatedDid) {
+      throw new BadRequestError(
+        "Authenticated issuer DID not found in request. Make sure JWT token is valid."
+      );
+    }
+
+    const data: CreateCredentialOfferDTO = req.body;
+
+    const result = await OID4VCIService.createCredentialOffer(
+      data,
+      authenticatedDid
+    );
+
+    return ResponseHelper.created(
+      res,
+      result,
+      "Credential offer created successfully"
+    );
+  }
+);
+
+/**
+ * Get Credential Offer Controller (public, credential_offer_uri)
+ */
+export const getCredentialOffer = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const offer = await OID4VCIService.getCredentialOffer(
+      String(req.params.offerId)
+    );
+    return res.status(200).json(offer);
+  }
+);
+
+/**
+ * Token Controller (wallet, application/x-www-form-urlencoded)
+ */
+export const exchangeToken = asyncHandler(
+  async (req: Request, res: Response) => {
+    const data: TokenRequestDTO = req.body ?? {};
+
+    const result = await OID4VCIService.exchangeToken(data);
+
+    res.set("Cache-Control", "no-store");
+    return res.status(200).json(result);
+  }
+);
+
+/**
+ * Credential Controller (wallet, Bearer access token)
+ */
+export const issueCredential = asyncHandler(
+  async (req: Request, res: Response) => {
+    const authHeader = req.headers.authorization;
+    const accessToken = authHeader?.startsWith("Bearer ")
+      ? authHeader.substring(7)
+      : undefined;
+    const data: OID4VCICredentialRequestDTO = req.body ?? {};
+
+    const result = await OID4VCIService.issueCredential(accessToken, data);
+
+    res.set("Cache-Control", "no-store");
+    return res.status(200).json(result);
+  }
+);
@@ -0,0 +1,131 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { OID4VPService } from "../services";
+import { ValidationError, BadRequestError } from "../utils";
+import { asyncHandler } from "../middlewares";
+import { ResponseHelper } from "../utils/helpers";
+import { RequestWithDID } from "../middlewares/didAuth.middleware";
+import {
+  CreateAuthorizationRequestDTO,
+  SignAuthorizationRequestDTO,
+  AuthorizationResponseDTO,
+} from "../dtos";
+
+/**
+ * Get the authenticated verifier DID set by verifyDIDSignature
+ */
+const getAuthenticatedDid = (req: RequestWithDID): string => {
+  if (!req.holderDID) {
+    throw new BadRequestError(
+      "Authenticated verifier DID not found in request. Make sure JWT token is valid."
+    );
+  }
+  return req.holderDID;
+};
+
+/**
+ * Create Authorization Request Controller (verifier)
+ */
+export const createAuthorizationRequest = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const data: CreateAuthorizationRequestDTO = req.body;
+
+    const result = await OID4VPService.createAuthorizationRequest(
+      data,
+      getAuthenticatedDid(req)
+    );
+
+    return ResponseHelper.created(
+      res,
+      result,
+      "Authorization request prepared. Sign signing_input to publish it."
+    );
+  }
+);
+
+/**
+ * Sign Authorization Request Controller (verifier)
+ */
+export const signAuthorizationRequest = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const data: SignAuthorizationRequestDTO = req.body;
+
+    const result = await OID4VPService.signAuthorizationRequest(
+      String(req.params.requestId),
+      data,
+      getAuthenticatedDid(req)
+    );
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "Authorization request signed successfully"
+    );
+  }
+);
+
+/**
+ * Get Authorization Request Controller (verifier polling)
+ */
+export const getAuthorizationRequest = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const result = await OID4VPService.getAuthorizationRequest(
+      String(req.params.requestId),
+      getAuthenticatedDid(req)
+    );
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "Authorization request retrieved successfully"
+    );
+  }
+);
+
+/**
+ * Get Request Object Controller (wallet, request_uri)
+ */
+export const getRequestObject = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const requestJwt = await OID4VPService.getRequestObject(
+      String(req.params.requestId)
+    );
+
+    res.type("application/oauth-authz-req+jwt");
+    return res.status(200).send(requestJwt);
+  }
+);
+
+/**
+ * Authorization Response Controller (wallet, direct_post)
+ */
+export const handleAuthorizationResponse = asyncHandler(
+  async (req: Request, res: Response) => {
+    const data: AuthorizationResponseDTO = req.body ?? {};
+
+    const result = await OID4VPService.handleAuthorizationResponse(data);
+
+    res.set("Cache-Control", "no-store");
+    return res.status(200).json(result);
+  }
+);
@@ -15,7 +15,15 @@ export const requestVP = asyncHandler(async (req: RequestWithDID, res: Response)
     throw new ValidationError("Validation error", errors.array());
   }
 
-  const { holder_did, verifier_did, verifier_name, purpose, requested_credentials } = req.body;
+  const {
+    holder_did,
+    verifier_did,
+    verifier_name,
+    purpose,
+    requested_credentials,
+    presentation_definition,
+    expires_at,
+  } = req.body;
 
   const result = await PresentationService.requestVP({
     holder_did,
@@ -23,6 +31,8 @@ export const requestVP = asyncHandler(async (req: RequestWithDID, res: Response)
     verifier_name,
     purpose,
     requested_credentials,
+    presentation_definition,
+    expires_at,
   });
 
   return ResponseHelper.created(res, result, "VP request created successfully");
@@ -194,16 +204,31 @@ export const storeVP = asyncHandler(async (req: RequestWithDID, res: Response) =
     throw new ValidationError("Holder DID not found in authentication token", []);
   }
 
-  const { vp, is_barcode } = req.body;
+  const {
+    vp,
+    format,
+    is_barcode,
+    expires_at,
+    max_verifications,
+    presentation_submission,
+  } = req.body;
 
   const result = await PresentationService.storeVP({
     holder_did,
     vp,
+    format,
     is_barcode,
+    expires_at,
+    max_verifications,
+    presentation_submission,
   });
 
-  // Return only vp_id
-  return ResponseHelper.created(res, { vp_id: result.vp_id }, "VP stored successfully");
+  // Return only vp_id and expiry
+  return ResponseHelper.created(
+    res,
+    { vp_id: result.vp_id, expires_at: result.expires_at },
+    "VP stored successfully"
+  );
 });
 
 /**
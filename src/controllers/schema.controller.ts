@@ -192,6 +192,7 @@ export const createVCSchema = asyncHandler(
       schema: req.body.schema,
       issuer_did: req.body.issuer_did,
       expired_in: req.body.expired_in, // Extracted from schema object by middleware
+      auto_renewal: req.body.auto_renewal,
     };
 
     // Get optional image file from multer
@@ -227,6 +228,7 @@ export const updateVCSchema = asyncHandler(
     const dto: UpdateVCSchemaDTO = {
       schema: req.body.schema,
       expired_in: req.body.expired_in, // Extracted from schema object by middleware
+      auto_renewal: req.body.auto_renewal,
       image_link: req.body.image_link, // Optional: to keep existing background
     };
 
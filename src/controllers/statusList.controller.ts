@@ -0,0 +1,58 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import { StatusListService } from "../services";
+import { ValidationError, ForbiddenError } from "../utils";
+import { asyncHandler } from "../middlewares";
+import { ResponseHelper } from "../utils/helpers";
+import { RequestWithDID } from "../middlewares/didAuth.middleware";
+import { AllocateStatusDTO } from "../dtos";
+
+/**
+ * Get Status List Credential Controller (public)
+ * Returns the signed credential itself so verifiers can dereference
+ * credentialStatus.statusListCredential directly
+ */
+export const getStatusListCredential = asyncHandler(
+  async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const id = String(req.params.id);
+
+    const credential = await StatusListService.getStatusListCredential(id);
+
+    res.type("application/vc+ld+json");
+    return res.status(200).json(credential);
+  }
+);
+
+/**
+ * Allocate Status List Indexes Controller (issuer)
+ * Lets the issuer embed credentialStatus before signing the VC
+ */
+export const allocateStatus = asyncHandler(
+  async (req: RequestWithDID, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new ValidationError("Validation error", errors.array());
+    }
+
+    const { issuer_did, vc_id }: AllocateStatusDTO = req.body;
+
+    if (req.holderDID !== issuer_did) {
+      throw new ForbiddenError(
+        "Authenticated DID does not match the issuer_did in the request body."
+      );
+    }
+
+    const result = await StatusListService.allocateStatus(issuer_did, vc_id);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      "Status list indexes allocated successfully"
+    );
+  }
+);
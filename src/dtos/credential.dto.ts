@@ -1,4 +1,5 @@
 import { RequestType, RequestStatus } from "@prisma/client";
+import { BitstringStatusListEntryDTO } from "./statusList.dto";
 
 /**
  * Credential DTOs
@@ -61,6 +62,8 @@ export interface VCStatusResponseDTO {
   schema_version: number;
   status: boolean;
   hash: string;
+  suspended: boolean; // Suspension bit from the issuer's status list
+  state: "ACTIVE" | "SUSPENDED" | "REVOKED";
 }
 
 export interface ProcessIssuanceVCDTO {
@@ -75,6 +78,7 @@ export interface ProcessIssuanceVCDTO {
   schema_id?: string; // ID of the schema used
   schema_version?: number; // Version of the schema used
   vc_hash?: string; // Hash of the credential data (before encryption)
+  vc_json?: any; // Plaintext VC; when present the hash is recomputed server-side
   encrypted_body?: string; // Encrypted VC data
   expired_at?: string; // Expiration date and time (ISO 8601 format, Required only if action is APPROVED)
 }
@@ -86,6 +90,7 @@ export interface ProcessIssuanceVCResponseDTO {
   vc_response_id?: string; // Only present if approved
   transaction_hash?: string; // Blockchain transaction hash, only if approved
   block_number?: number; // Blockchain block number, only if approved
+  credential_status?: BitstringStatusListEntryDTO[]; // Allocated status list entries, only if approved
 }
 
 export interface HolderCredentialDTO {
@@ -183,9 +188,37 @@ export interface IssuerIssueVCDTO {
   vc_type: string;
   schema_id: string;
   schema_version: number;
-  vc_hash: string;
+  vc_hash?: string; // Optional when vc_json or sd_jwt is provided
+  vc_json?: any; // Plaintext VC; when present the hash is recomputed server-side
+  sd_jwt?: string; // Issuer-signed SD-JWT VC with all disclosures (<jwt>~<d1>~...~)
   encrypted_body: string;
   expiredAt: string; // <-- TAMBAHKAN BARIS INI
+  anchoring_mode?: "direct" | "batch"; // batch = queued into a Merkle batch (VC_BATCH_ANCHORING_ENABLED)
+}
+
+// Request body DTO for POST /credentials/issuer/prepare-sd-jwt
+export interface PrepareSdJwtVCDTO {
+  issuer_did: string;
+  holder_did: string;
+  vc_id: string;
+  vc_type: string;
+  claims: Record<string, unknown>;
+  selectively_disclosable: string[]; // Top-level claim names
+  expiredAt?: string;
+}
+
+// Response body DTO for POST /credentials/issuer/prepare-sd-jwt
+// The issuer signs signing_input with ES256 and issues:
+// <signing_input>.<signature>~<disclosure>~...~
+export interface PrepareSdJwtVCResponseDTO {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signing_input: string;
+  disclosures: Array<{
+    disclosure: string;
+    digest: string;
+    claim: string;
+  }>;
 }
 
 export interface IssuerUpdateVCDTO {
@@ -216,8 +249,165 @@ export interface IssuerUpdateVCResponseDTO {
 export interface IssuerIssueVCResponseDTO {
   message: string;
   record_id: string; // ID dari record baru di tabel VCinitiatedByIssuer
-  transaction_hash: string;
-  block_number: number;
+  transaction_hash?: string; // Not set for batch anchoring (known once the batch is anchored)
+  block_number?: number;
+  credential_status?: BitstringStatusListEntryDTO[]; // Allocated status list entries
+  anchoring?: VCAnchoringDTO;
+}
+
+// Merkle inclusion proof of a batch anchored VC
+// Attached by the holder inside the VC proof object as proof.merkleInclusionProof
+export interface MerkleInclusionProofDTO {
+  type: "MerkleInclusionProof";
+  anchorId: string; // VCManager entry holding the Merkle root
+  merkleRoot: string;
+  leafIndex: number;
+  proof: string[]; // Sibling hashes from the leaf to the root (sorted-pair tree)
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+// Anchoring state of a VC queued for batch anchoring
+export interface VCAnchoringDTO {
+  mode: "direct" | "batch";
+  vc_id: string;
+  status: "QUEUED" | "PENDING" | "ANCHORED" | "FAILED";
+  batch_id?: string;
+  anchored_at?: Date;
+  inclusion_proof?: MerkleInclusionProofDTO;
+}
+
+// One manifest row of POST /credentials/issuer/bulk-issuance (CSV columns / JSON keys)
+export interface BulkIssuanceManifestRowDTO {
+  holder_did?: string;
+  vc_id?: string;
+  vc_hash?: string; // Optional in JSON rows that carry vc_json
+  vc_json?: any; // Plaintext VC (JSON manifests); hash recomputed and credentialSubject checked against the schema
+  encrypted_body?: string;
+  expiredAt?: string;
+}
+
+export interface CreateBulkIssuanceDTO {
+  issuer_did: string;
+  schema_id: string;
+  schema_version: number;
+  anchoring_mode?: "direct" | "batch";
+  manifest_name?: string;
+  rows: BulkIssuanceManifestRowDTO[];
+}
+
+export interface BulkIssuanceProgressDTO {
+  total: number;
+  pending: number;
+  issued: number;
+  invalid: number;
+  failed: number;
+}
+
+export interface BulkIssuanceJobDTO {
+  job_id: string;
+  issuer_did: string;
+  schema_id: string;
+  schema_version: number;
+  vc_type: string;
+  anchoring_mode: string;
+  manifest_name: string | null;
+  status: "PROCESSING" | "COMPLETED" | "COMPLETED_WITH_ERRORS";
+  progress: BulkIssuanceProgressDTO;
+  completed_at: Date | null;
+  createdAt: Date;
+}
+
+export interface BulkIssuanceRowErrorDTO {
+  row_number: number;
+  vc_id: string | null;
+  holder_did: string | null;
+  status: "INVALID" | "FAILED";
+  errors: string[];
+  attempts: number;
+}
+
+// On-chain write persisted in the chain outbox (GET /credentials/admin/outbox)
+export interface ChainOutboxIntentDTO {
+  id: string;
+  operation:
+    | "ISSUE_VC"
+    | "RENEW_VC"
+    | "UPDATE_VC"
+    | "CREATE_VC_SCHEMA"
+    | "REVOKE_VC"
+    | "APPROVE_ISSUANCE"
+    | "REGISTER_DID"
+    | "ROTATE_DID_KEY"
+    | "DEACTIVATE_DID";
+  status:
+    | "PENDING"
+    | "CHAIN_CONFIRMED"
+    | "COMPLETED"
+    | "COMPENSATING"
+    | "COMPENSATED"
+    | "FAILED";
+  vc_id: string | null; // VC (or schema ID) the write targets
+  attempts: number;
+  last_error: string | null;
+  transaction_hash: string | null;
+  block_number: number | null;
+  compensation_tx_hash: string | null;
+  locked_until: Date | null;
+  completed_at: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Reconciliation discrepancy, with the open or failed intent targeting it
+export type ChainOutboxDriftItemDTO = ReconciliationDiscrepancyDTO & {
+  outbox_id?: string;
+};
+
+export interface ChainOutboxDriftReportDTO {
+  generated_at: Date;
+  summary: ReconciliationSummaryDTO;
+  drift: ChainOutboxDriftItemDTO[];
+  open_intents: ChainOutboxIntentDTO[];
+  failed_intents: ChainOutboxIntentDTO[];
+}
+
+// One discrepancy of a chain-vs-database reconciliation report
+export interface ReconciliationDiscrepancyDTO {
+  entity: "vc" | "schema";
+  id: string; // VC ID or schema ID
+  version: number | null; // Schema version
+  kind: "missing-in-db" | "missing-on-chain" | "hash-mismatch" | "status-mismatch";
+  source: string; // Table compared with the chain (IssuerVCData, VCSchema, IndexedVC, ...)
+  chain_hash: string | null;
+  db_hash: string | null;
+  issuer_did: string | null;
+  detail: string;
+  repairable: boolean; // Safe to fix in the database from the on-chain state
+  repaired: boolean;
+  repair_error: string | null;
+}
+
+export interface ReconciliationSummaryDTO {
+  onchain_vcs: number;
+  onchain_schemas: number;
+  db_vcs: number;
+  db_schemas: number;
+  discrepancies: Record<"vc" | "schema", Record<ReconciliationDiscrepancyDTO["kind"], number>>;
+  repairable: number;
+  repaired: number;
+}
+
+export interface ReconciliationReportDTO {
+  report_id: string;
+  status: "RUNNING" | "COMPLETED" | "FAILED";
+  repair: boolean;
+  triggered_by: string;
+  summary: ReconciliationSummaryDTO | null;
+  discrepancies: ReconciliationDiscrepancyDTO[];
+  error: string | null;
+  started_at: Date;
+  completed_at: Date | null;
 }
 
 export interface IssuerRevokeVCDTO {
@@ -231,10 +421,31 @@ export interface IssuerRevokeVCDTO {
 export interface IssuerRevokeVCResponseDTO {
   message: string;
   record_id: string; // [MODIFIED] ID dari record baru di tabel VCinitiatedByIssuer
-  transaction_hash: string;
-  block_number: number;
+  transaction_hash?: string; // Absent when the revocation was found already applied
+  block_number?: number;
+}
+
+// Request body DTO for POST /credentials/issuer/suspend-vc
+// and POST /credentials/issuer/reinstate-vc
+export interface IssuerSuspendVCDTO {
+  issuer_did: string; // DID Issuer yang diautentikasi
+  holder_did: string; // DID Holder pemilik VC
+  vc_id: string;      // ID VC yang akan di-suspend / di-reinstate
+  reason?: string;    // Alasan (opsional), diteruskan ke notifikasi holder
 }
 
+export type IssuerReinstateVCDTO = IssuerSuspendVCDTO;
+
+// Response body DTO for suspend-vc / reinstate-vc
+export interface IssuerSuspendVCResponseDTO {
+  message: string;
+  vc_id: string;
+  suspended: boolean; // Status suspensi setelah aksi
+  log_id: string;     // ID dari record IssuerActionLog
+}
+
+export type IssuerReinstateVCResponseDTO = IssuerSuspendVCResponseDTO;
+
 export interface IssuerRenewVCDTO {
   issuer_did: string;
   holder_did: string;
@@ -281,7 +492,7 @@ export interface ConfirmIssuerInitiatedVCsResponseDTO {
 // VC Validation DTOs
 export interface ValidateVCDTO {
   vc_json: any; // The complete VC JSON object
-  vc_hash: string; // Hash calculated by frontend (Keccak256)
+  vc_hash?: string; // Hash calculated by frontend (optional, recomputed server-side)
   holder_did: string; // DID of the institution uploading (for validation)
 }
 
@@ -290,12 +501,18 @@ export interface VCValidationResult {
   did_valid: boolean;
   expiration_valid: boolean;
   hash_valid: boolean;
+  status_valid: boolean; // VC is active (not revoked) on blockchain
+  issuer_did_valid: boolean; // Issuer DID is registered and active
+  proof_valid: boolean; // ES256 proof verified with the issuer's active key
   errors: string[];
+  computed_hash?: string; // Hash recomputed by the server from vc_json
   vc_id?: string;
   holder_did?: string;
   issuer_did?: string;
   expired_at?: string | null;
   is_expired?: boolean;
+  is_revoked?: boolean;
+  is_issuer_deactivated?: boolean;
 }
 
 /**
@@ -1,3 +1,5 @@
+import { DIDKeyType } from "../types";
+
 /**
  * DID DTOs
  */
@@ -32,3 +34,133 @@ export interface DIDDocumentResponseDTO {
     [key: string]: any;
   };
 }
+
+/**
+ * W3C DID Core representation of a DID
+ * did:dcert documents are rendered by this API (JsonWebKey2020, P-256);
+ * did:key and did:web documents may use Multikey / Ed25519 keys
+ */
+export type PublicKeyJwkDTO =
+  | { kty: "EC"; crv: "P-256"; x: string; y: string }
+  | { kty: "OKP"; crv: "Ed25519"; x: string };
+
+export interface W3CVerificationMethodDTO {
+  id: string; // <did>#<keyId>
+  type: string; // JsonWebKey2020, Multikey, Ed25519VerificationKey2020, ...
+  controller: string;
+  publicKeyJwk?: PublicKeyJwkDTO;
+  publicKeyMultibase?: string;
+  publicKeyBase58?: string;
+}
+
+export interface W3CServiceDTO {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+}
+
+// Verification relationships may embed a verification method (did:web)
+export type W3CVerificationRelationshipDTO = string | W3CVerificationMethodDTO;
+
+export interface W3CDIDDocumentDTO {
+  "@context"?: string | string[]; // Omitted for application/did+json
+  id: string;
+  controller?: string | string[];
+  verificationMethod?: W3CVerificationMethodDTO[];
+  authentication?: W3CVerificationRelationshipDTO[];
+  assertionMethod?: W3CVerificationRelationshipDTO[];
+  keyAgreement?: W3CVerificationRelationshipDTO[];
+  service?: W3CServiceDTO[];
+}
+
+export interface DIDDocumentMetadataDTO {
+  created?: string;
+  updated?: string;
+  deactivated?: boolean;
+  versionId?: string;
+  nextUpdate?: string;
+  nextVersionId?: string;
+  role?: "Individual" | "Institutional";
+}
+
+/**
+ * Public key used to verify a signature by a DID (active or historical key)
+ * validUntil is the rotation time of a historical key
+ */
+export interface VerificationKeyDTO {
+  keyId: string;
+  publicKeyHex: string;
+  keyType: DIDKeyType;
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+export interface KeyValidityDTO {
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+/**
+ * DID Resolution (Universal Resolver driver interface)
+ */
+export interface DIDResolutionOptionsDTO {
+  versionId?: string;
+  versionTime?: string; // ISO 8601
+}
+
+export interface DIDResolutionMetadataDTO {
+  contentType?: string;
+  error?: string;
+  message?: string;
+  retrieved?: string;
+  did?: {
+    didString: string;
+    method: string;
+    methodSpecificId: string;
+  };
+}
+
+export interface DIDResolutionResultDTO {
+  didDocument: W3CDIDDocumentDTO | null;
+  didResolutionMetadata: DIDResolutionMetadataDTO;
+  didDocumentMetadata: DIDDocumentMetadataDTO;
+}
+
+/**
+ * DID deactivation cascade report (GET /dids/:did/deactivation)
+ */
+export interface DIDDeactivationSummaryDTO {
+  total: number;
+  pending: number;
+  requestCreated: number;
+  revoked: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface DIDDeactivationItemDTO {
+  kind: 'HELD' | 'ISSUED';
+  vc_id: string | null;
+  counterparty_did: string | null;
+  outcome: 'PENDING' | 'REQUEST_CREATED' | 'REVOKED' | 'SKIPPED' | 'FAILED';
+  reason: string | null;
+  revoke_request_id: string | null;
+  transaction_hash: string | null;
+  attempts: number;
+  last_attempt_at: Date | null;
+}
+
+export interface DIDDeactivationReportDTO {
+  id: string;
+  did: string;
+  initiated_by: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'INCOMPLETE';
+  transaction_hash: string | null;
+  block_number: number | null;
+  error: string | null;
+  deactivated_at: Date | null;
+  completed_at: Date | null;
+  createdAt: Date;
+  summary: DIDDeactivationSummaryDTO;
+  items: DIDDeactivationItemDTO[];
+}
@@ -11,3 +11,6 @@ export * from './schema.dto';
 export * from './presentation.dto';
 export * from './notification.dto';
 export * from './institution.dto';
+export * from './statusList.dto';
+export * from './oid4vci.dto';
+export * from './oid4vp.dto';
@@ -0,0 +1,123 @@
+/**
+ * OID4VCI DTOs
+ * OpenID for Verifiable Credential Issuance (pre-authorized code flow)
+ */
+
+export type OID4VCIFormat = "ldp_vc" | "vc+sd-jwt";
+
+/**
+ * Request body DTO for POST /oid4vci/offers
+ * The issuer signs the credential beforehand (vc_json or sd_jwt); it is
+ * anchored on blockchain only when the wallet redeems the offer
+ */
+export interface CreateCredentialOfferDTO {
+  issuer_did: string;
+  holder_did: string;
+  vc_id: string;
+  vc_type: string;
+  schema_id: string;
+  schema_version: number;
+  vc_json?: any; // Signed JSON-LD VC (ldp_vc)
+  sd_jwt?: string; // Issuer-signed SD-JWT VC with all disclosures (vc+sd-jwt)
+  expiredAt?: string;
+  tx_code?: boolean; // Require a PIN delivered out-of-band to the holder
+}
+
+/**
+ * Credential offer object (sent to the wallet by value or by reference)
+ */
+export interface CredentialOfferObjectDTO {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants: {
+    "urn:ietf:params:oauth:grant-type:pre-authorized_code": {
+      "pre-authorized_code": string;
+      tx_code?: {
+        input_mode: "numeric";
+        length: number;
+        description?: string;
+      };
+    };
+  };
+}
+
+export interface CreateCredentialOfferResponseDTO {
+  offer_id: string;
+  credential_offer: CredentialOfferObjectDTO;
+  credential_offer_uri: string;
+  credential_offer_link: string; // openid-credential-offer://?credential_offer_uri=...
+  tx_code?: string; // PIN the issuer must share with the holder out-of-band
+  expires_at: string;
+}
+
+/**
+ * Credential issuer metadata (/.well-known/openid-credential-issuer)
+ */
+export interface CredentialIssuerMetadataDTO {
+  credential_issuer: string;
+  authorization_servers: string[];
+  credential_endpoint: string;
+  display?: Array<{ name: string; locale?: string }>;
+  credential_configurations_supported: Record<string, CredentialConfigurationDTO>;
+}
+
+export interface CredentialConfigurationDTO {
+  format: OID4VCIFormat;
+  cryptographic_binding_methods_supported: string[];
+  credential_signing_alg_values_supported: string[];
+  proof_types_supported: {
+    jwt: { proof_signing_alg_values_supported: string[] };
+  };
+  credential_definition?: {
+    "@context": string[];
+    type: string[];
+  };
+  vct?: string;
+  claims?: Record<string, any>;
+  display?: Array<{ name: string; logo?: { uri: string } }>;
+}
+
+/**
+ * OAuth authorization server metadata (/.well-known/oauth-authorization-server)
+ */
+export interface AuthorizationServerMetadataDTO {
+  issuer: string;
+  token_endpoint: string;
+  grant_types_supported: string[];
+  "pre-authorized_grant_anonymous_access_supported": boolean;
+}
+
+/**
+ * Token endpoint (application/x-www-form-urlencoded)
+ */
+export interface TokenRequestDTO {
+  grant_type?: string;
+  "pre-authorized_code"?: string;
+  tx_code?: string;
+}
+
+export interface TokenResponseDTO {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  c_nonce: string;
+  c_nonce_expires_in: number;
+}
+
+/**
+ * Credential endpoint
+ */
+export interface OID4VCICredentialRequestDTO {
+  format?: OID4VCIFormat;
+  credential_configuration_id?: string;
+  proof?: {
+    proof_type: string;
+    jwt?: string;
+  };
+}
+
+export interface OID4VCICredentialResponseDTO {
+  credential: any; // JSON-LD VC object or compact SD-JWT
+  c_nonce: string;
+  c_nonce_expires_in: number;
+}
@@ -0,0 +1,61 @@
+/**
+ * OID4VP DTOs
+ * OpenID for Verifiable Presentations (request_uri + direct_post)
+ */
+
+import { PresentationDefinitionDTO } from "./presentation.dto";
+
+/**
+ * Request body DTO for POST /oid4vp/requests
+ */
+export interface CreateAuthorizationRequestDTO {
+  verifier_did: string;
+  verifier_name: string;
+  purpose: string;
+  presentation_definition: PresentationDefinitionDTO;
+}
+
+/**
+ * Prepared request object; the verifier signs signing_input with its
+ * ES256 DID key and submits the signature to /oid4vp/requests/{id}/sign
+ */
+export interface CreateAuthorizationRequestResponseDTO {
+  authorization_request_id: string;
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signing_input: string;
+  expires_at: string;
+}
+
+export interface SignAuthorizationRequestDTO {
+  verifier_did: string;
+  signature: string; // base64url ES256 signature (r || s) over signing_input
+}
+
+export interface SignAuthorizationRequestResponseDTO {
+  authorization_request_id: string;
+  request_uri: string;
+  authorization_request_uri: string; // openid4vp://?client_id=...&request_uri=... (QR code)
+  expires_at: string;
+}
+
+/**
+ * Wallet response (direct_post, application/x-www-form-urlencoded)
+ */
+export interface AuthorizationResponseDTO {
+  vp_token?: string;
+  presentation_submission?: string; // JSON-encoded presentation submission
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export interface AuthorizationRequestStatusDTO {
+  authorization_request_id: string;
+  status: string;
+  vp_request_id: string | null;
+  vp_id: string | null;
+  verification_result: unknown;
+  error: string | null;
+  expires_at: string;
+}
@@ -11,6 +11,9 @@ export interface RequestVPDTO {
 export interface StoreVPDTO {
   holder_did: string;
   vp: any; // VP object structure
+  expires_at?: string; // ISO 8601, optional lifetime of the shared VP
+  max_verifications?: number; // Barcode VPs only
+  presentation_submission?: PresentationSubmissionDTO; // Defaults to vp.presentation_submission
 }
 
 export interface VPResponseDTO {
@@ -20,9 +23,93 @@ export interface VPResponseDTO {
 export interface VPRequestResponseDTO {
   vp_request_id: string;
   message: string;
+  challenge: string; // Must be signed into the VP proof as proof.challenge
+  domain: string;    // Must be signed into the VP proof as proof.domain
+  expires_at: string; // ISO 8601 - request becomes EXPIRED after this time
+}
+
+export interface ExpireStaleVPsResultDTO {
+  expired_request_count: number;
+  expired_vp_count: number;
 }
 
 export interface VPRequestDetailsDTO {
   verifier_did: string;
   list_schema_id: string[];
 }
+
+/**
+ * DIF Presentation Exchange v2 DTOs
+ * https://identity.foundation/presentation-exchange/spec/v2.0.0/
+ */
+
+export interface PresentationFieldDTO {
+  id?: string;
+  path: string[]; // JSONPath expressions, first match wins
+  purpose?: string;
+  name?: string;
+  filter?: Record<string, any>; // JSON Schema
+  optional?: boolean;
+}
+
+export interface InputDescriptorDTO {
+  id: string;
+  name?: string;
+  purpose?: string;
+  group?: string[];
+  format?: Record<string, any>;
+  constraints: {
+    limit_disclosure?: "required" | "preferred";
+    fields?: PresentationFieldDTO[];
+  };
+}
+
+export interface SubmissionRequirementDTO {
+  name?: string;
+  purpose?: string;
+  rule: "all" | "pick";
+  count?: number;
+  min?: number;
+  max?: number;
+  from?: string;
+  from_nested?: SubmissionRequirementDTO[];
+}
+
+export interface PresentationDefinitionDTO {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, any>;
+  submission_requirements?: SubmissionRequirementDTO[];
+  input_descriptors: InputDescriptorDTO[];
+}
+
+export interface DescriptorMapDTO {
+  id: string; // Input descriptor ID
+  format: string; // e.g. ldp_vc, vc+sd-jwt
+  path: string; // JSONPath into the presentation
+  path_nested?: DescriptorMapDTO;
+}
+
+export interface PresentationSubmissionDTO {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapDTO[];
+}
+
+export interface DescriptorEvaluationDTO {
+  id: string; // Input descriptor ID
+  satisfied: boolean;
+  path?: string; // Submission path that was evaluated
+  errors: string[];
+}
+
+export interface PresentationEvaluationDTO {
+  definition_id: string;
+  submission_id?: string;
+  satisfied: boolean;
+  satisfied_descriptors: string[];
+  failed_descriptors: string[];
+  descriptors: DescriptorEvaluationDTO[];
+  errors: string[];
+}
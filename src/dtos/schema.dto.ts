@@ -17,6 +17,7 @@ export interface CreateVCSchemaDTO {
   schema: Prisma.JsonValue;
   issuer_did: string;
   expired_in?: number; // Expiration in years (0 = lifetime, null/undefined = not set)
+  auto_renewal?: boolean; // Create renewal requests for VCs nearing expiry (default false)
 }
 
 /**
@@ -25,6 +26,7 @@ export interface CreateVCSchemaDTO {
 export interface UpdateVCSchemaDTO {
   schema: Prisma.JsonValue;
   expired_in?: number; // Expiration in years (0 = lifetime, null/undefined = not set)
+  auto_renewal?: boolean; // Omit to keep the current setting
   image_link?: string | null; // Optional: keep existing background by providing old image_link
 }
 
@@ -59,6 +61,7 @@ export interface VCSchemaDTO {
   version: number;
   image_link?: string | null;
   expired_in?: number | null; // Expiration in years (0 = lifetime, null = not set)
+  auto_renewal?: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,62 @@
+/**
+ * Status List DTOs
+ * W3C Bitstring Status List v1.0
+ */
+
+export type StatusPurposeValue = "revocation" | "suspension";
+
+/**
+ * credentialStatus entry embedded in an issued VC
+ */
+export interface BitstringStatusListEntryDTO {
+  id: string; // <statusListCredential>#<statusListIndex>
+  type: "BitstringStatusListEntry";
+  statusPurpose: StatusPurposeValue;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+/**
+ * Published status list credential
+ */
+export interface StatusListCredentialDTO {
+  "@context": string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  credentialSubject: {
+    id: string;
+    type: "BitstringStatusList";
+    statusPurpose: StatusPurposeValue;
+    encodedList: string;
+    issuerDID: string; // DID of the issuer whose credentials are tracked
+  };
+  proof?: {
+    type: string;
+    created: string;
+    verificationMethod: string;
+    proofPurpose: string;
+    proofValue: string;
+  };
+}
+
+// Request body DTO for POST /status-lists/allocate
+export interface AllocateStatusDTO {
+  issuer_did: string;
+  vc_id: string;
+}
+
+export interface AllocateStatusResponseDTO {
+  vc_id: string;
+  credential_status: BitstringStatusListEntryDTO[];
+}
+
+/**
+ * Status of a single VC as recorded in the status lists
+ */
+export interface VCStatusListStateDTO {
+  vc_id: string;
+  revoked: boolean;
+  suspended: boolean;
+}
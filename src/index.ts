@@ -5,8 +5,6 @@ import cors from "cors";
 import {
   env,
   DatabaseService,
-  DIDBlockchainConfig,
-  VCBlockchainConfig,
   logger,
 } from "./config";
 import {
@@ -16,6 +14,7 @@ import {
   apiRateLimit,
 } from "./middlewares";
 import { HealthCheckResponse } from "./types";
+import { TransactionManager, Ledger } from "./services";
 
 // Routes
 import {
@@ -27,10 +26,22 @@ import {
   presentationRoutes,
   notificationRoutes,
   institutionRoutes,
+  statusListRoutes,
+  oid4vciRoutes,
+  oid4vpRoutes,
+  didResolverRoutes,
 } from "./routes";
 
 // Schedulers
 import { scheduleVCCleanup } from "./jobs/vcCleanupScheduler";
+import { scheduleVPExpiry } from "./jobs/vpExpiryScheduler";
+import { scheduleChainIndexer } from "./jobs/chainIndexerScheduler";
+import { scheduleBatchAnchoring } from "./jobs/batchAnchorScheduler";
+import { scheduleDIDDeactivation } from "./jobs/didDeactivationScheduler";
+import { scheduleBulkIssuance } from "./jobs/bulkIssuanceScheduler";
+import { scheduleVCExpiry } from "./jobs/vcExpiryScheduler";
+import { scheduleIdempotencyCleanup } from "./jobs/idempotencyCleanupScheduler";
+import { scheduleChainOutbox } from "./jobs/chainOutboxScheduler";
 
 const app: Application = express();
 const PORT: number = env.PORT;
@@ -120,6 +131,16 @@ const swaggerOptions: swaggerJsdoc.Options = {
       },
     ],
     components: {
+      parameters: {
+        IdempotencyKey: {
+          in: "header",
+          name: "Idempotency-Key",
+          required: false,
+          schema: { type: "string", maxLength: 255 },
+          description:
+            "Unique key (e.g. a UUID) making retries safe: a retry with the same key and body returns the stored response (header Idempotent-Replayed: true); reusing the key for a different request returns 409",
+        },
+      },
       securitySchemes: {
         InstitutionBearerAuth: {
           type: "http",
@@ -145,6 +166,11 @@ const swaggerOptions: swaggerJsdoc.Options = {
           bearerFormat: "JWT",
           description: "Enter JWT token for holder authentication",
         },
+        OID4VCIAccessToken: {
+          type: "http",
+          scheme: "bearer",
+          description: "Access token from the OID4VCI token endpoint",
+        },
       },
     },
   },
@@ -262,17 +288,17 @@ app.get("/", (req: Request, res: Response) => {
  */
 app.get("/api/v1/health", async (req: Request, res: Response) => {
   const dbHealth = await DatabaseService.isConnected();
-  const didBCHealth = await DIDBlockchainConfig.isConnected();
-  const vcBCHealth = await VCBlockchainConfig.isConnected();
+  // DIDManager and VCManager live on the same ledger (EVM node or in-memory)
+  const ledgerHealth = await Ledger.isConnected();
 
   const response: HealthCheckResponse = {
-    success: dbHealth && didBCHealth,
+    success: dbHealth && ledgerHealth,
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     services: {
       database: dbHealth,
-      didblockchain: didBCHealth,
-      vcblockchain: vcBCHealth,
+      didblockchain: ledgerHealth,
+      vcblockchain: ledgerHealth,
     },
   };
 
@@ -289,6 +315,12 @@ app.use("/api/v1/credentials", credentialRoutes);
 app.use("/api/v1/presentations", presentationRoutes);
 app.use("/api/v1/notifications", notificationRoutes);
 app.use("/api/v1/institutions", institutionRoutes);
+app.use("/api/v1/status-lists", statusListRoutes);
+app.use("/api/v1/oid4vci", oid4vciRoutes);
+app.use("/api/v1/oid4vp", oid4vpRoutes);
+
+// DID Resolution (Universal Resolver driver interface, fixed path)
+app.use("/1.0", didResolverRoutes);
 
 // 404 Handler - must be after all routes
 app.use(notFoundHandler);
@@ -308,22 +340,55 @@ const startServer = async () => {
     // Connect to Database
     await DatabaseService.connect();
 
-    // Test DID Blockchain Connection
-    const didBlockchainConnected = await DIDBlockchainConfig.testConnection();
-    if (!didBlockchainConnected) {
-      logger.warn("DID Blockchain connection failed, but server will continue");
-    }
-
-    // Test VC Blockchain Connection
-    const vcBlockchainConnected = await DIDBlockchainConfig.testConnection();
-    if (!vcBlockchainConnected) {
-      logger.warn("VC Blockchain connection failed, but server will continue");
+    // Test Ledger Connection (DIDManager + VCManager, or the in-memory ledger)
+    logger.info(`   Ledger: ${Ledger.driver}`);
+    const ledgerConnected = await Ledger.testConnection();
+    if (!ledgerConnected) {
+      logger.warn("Ledger connection failed, but server will continue");
     }
+    const evmLedgerConnected = ledgerConnected && Ledger.driver === "evm";
 
     // Initialize Background Jobs
     logger.info("⏰ Initializing background jobs...");
     scheduleVCCleanup();
     logger.success("   ✓ VC cleanup scheduler started (runs every 5 minutes)");
+    scheduleVPExpiry();
+    logger.success("   ✓ VP expiry scheduler started (runs every 5 minutes)");
+    scheduleDIDDeactivation();
+    logger.success("   ✓ DID deactivation scheduler started (runs every minute)");
+    scheduleBulkIssuance();
+    logger.success("   ✓ Bulk issuance scheduler started (runs every minute)");
+    scheduleIdempotencyCleanup();
+    logger.success("   ✓ Idempotency cleanup scheduler started (runs every hour)");
+    scheduleChainOutbox();
+    logger.success("   ✓ Chain outbox scheduler started (runs every minute)");
+
+    if (env.INDEXER_ENABLED && Ledger.driver !== "evm") {
+      logger.warn("   Chain indexer needs LEDGER_DRIVER=evm, scheduler not started");
+    } else if (env.INDEXER_ENABLED) {
+      scheduleChainIndexer();
+      logger.success("   ✓ Chain indexer scheduler started (runs every minute)");
+    }
+
+    if (env.VC_BATCH_ANCHORING_ENABLED) {
+      scheduleBatchAnchoring();
+      logger.success("   ✓ Batch anchoring scheduler started (runs every minute)");
+    }
+
+    if (env.VC_EXPIRY_REMINDERS_ENABLED) {
+      scheduleVCExpiry();
+      logger.success("   ✓ VC expiry reminder scheduler started (runs every hour)");
+    }
+
+    // Settle / re-broadcast transactions left PENDING by the previous run
+    if (evmLedgerConnected) {
+      try {
+        await TransactionManager.reconcilePending();
+        logger.success("   ✓ Pending blockchain transactions reconciled");
+      } catch (error) {
+        logger.error("Failed to reconcile pending transactions:", error);
+      }
+    }
 
     // Start Express Server
     app.listen(PORT, () => {
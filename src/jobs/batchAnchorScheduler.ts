@@ -0,0 +1,59 @@
+/**
+ * Batch Anchor Scheduler
+ *
+ * Background job for Merkle batch anchoring:
+ * - Builds a batch per issuer + schema version when VC_BATCH_MAX_SIZE VCs are queued
+ *   or the oldest queued VC waited VC_BATCH_MAX_WAIT_SECONDS, and anchors its root
+ * - Retries batches whose anchoring transaction failed
+ *
+ * Schedule: Runs every minute (only when VC_BATCH_ANCHORING_ENABLED=true)
+ */
+
+import cron from "node-cron";
+import BatchAnchorService from "../services/blockchain/batchAnchor.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the batch anchoring job
+ * Runs every minute (cron: star star star star star)
+ */
+export const scheduleBatchAnchoring = () => {
+  // Run every minute
+  const cronExpression = "* * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await BatchAnchorService.runOnce();
+
+      if (result.batches > 0) {
+        logger.info(
+          `[Scheduler] Batch anchoring: ${result.anchored} anchored, ${result.failed} failed`
+        );
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] Batch anchoring job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] Batch anchoring job scheduled: ${cronExpression} (every minute)`
+  );
+
+  return task;
+};
+
+/**
+ * Run batch anchoring immediately (for testing or manual trigger)
+ */
+export const runBatchAnchoringNow = async () => {
+  logger.info("[Scheduler] Running batch anchoring manually");
+  try {
+    return await BatchAnchorService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual batch anchoring run failed: ${error}`);
+    throw error;
+  }
+};
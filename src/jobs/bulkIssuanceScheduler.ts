@@ -0,0 +1,56 @@
+/**
+ * Bulk Issuance Scheduler
+ *
+ * Background job for bulk issuer-initiated issuance:
+ * - Resumes jobs whose pending rows were interrupted (e.g. by a restart)
+ * - New jobs and retries are processed right away, this job only picks up leftovers
+ *
+ * Schedule: Runs every minute
+ */
+
+import cron from "node-cron";
+import BulkIssuanceService from "../services/bulkIssuance.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the bulk issuance job
+ * Runs every minute (cron: star star star star star)
+ */
+export const scheduleBulkIssuance = () => {
+  // Run every minute
+  const cronExpression = "* * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await BulkIssuanceService.runOnce();
+
+      if (result.jobs > 0) {
+        logger.info(`[Scheduler] Bulk issuance: ${result.jobs} jobs processed`);
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] Bulk issuance job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] Bulk issuance job scheduled: ${cronExpression} (every minute)`
+  );
+
+  return task;
+};
+
+/**
+ * Run bulk issuance immediately (for testing or manual trigger)
+ */
+export const runBulkIssuanceNow = async () => {
+  logger.info("[Scheduler] Running bulk issuance manually");
+  try {
+    return await BulkIssuanceService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual bulk issuance run failed: ${error}`);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * Chain Indexer Scheduler
+ *
+ * Background job that tails DIDManager and VCManager into Postgres:
+ * - Indexes confirmed blocks (INDEXER_CONFIRMATIONS) after the checkpoint
+ * - Rewinds and rebuilds the index when a reorg is detected
+ * - Invalidates cached DID documents changed by indexed DIDManager calls
+ *
+ * Schedule: Runs every minute (only when INDEXER_ENABLED=true)
+ */
+
+import cron from "node-cron";
+import ChainIndexerService from "../services/blockchain/chainIndexer.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the chain indexer job
+ * Runs every minute (cron: star star star star star)
+ */
+export const scheduleChainIndexer = () => {
+  // Run every minute
+  const cronExpression = "* * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await ChainIndexerService.runOnce();
+
+      if (result.reorg_detected) {
+        logger.warn("[Scheduler] Chain indexer rewound after a reorg");
+      } else if (result.to_block >= result.from_block) {
+        logger.info(
+          `[Scheduler] Chain indexer indexed blocks ${result.from_block}-${result.to_block} (${result.indexed_calls} contract calls)`
+        );
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] Chain indexer job failed: ${error}`);
+    }
+
+    // Separate from runOnce: another instance may have indexed the blocks
+    try {
+      const invalidated = await ChainIndexerService.syncDIDCache();
+      if (invalidated > 0) {
+        logger.info(`[Scheduler] DID cache invalidated for ${invalidated} DID(s)`);
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] DID cache sync failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] Chain indexer job scheduled: ${cronExpression} (every minute)`
+  );
+
+  return task;
+};
+
+/**
+ * Run the indexer immediately (for testing or manual trigger)
+ */
+export const runChainIndexerNow = async () => {
+  logger.info("[Scheduler] Running chain indexer manually");
+  try {
+    return await ChainIndexerService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual chain indexer run failed: ${error}`);
+    throw error;
+  }
+};
@@ -0,0 +1,60 @@
+/**
+ * Chain Outbox Scheduler
+ *
+ * Background job for the chain outbox:
+ * - Resumes intents left open by a crashed request once their lease expired
+ * - Retries failed database steps and compensates the on-chain write when they
+ *   keep failing
+ *
+ * Schedule: Runs every minute
+ */
+
+import cron from "node-cron";
+// Imported through the services index so the credential and schema handlers are registered
+import { ChainOutboxService } from "../services";
+import logger from "../config/logger";
+
+/**
+ * Schedule the chain outbox job
+ * Runs every minute (cron: star star star star star)
+ */
+export const scheduleChainOutbox = () => {
+  // Run every minute
+  const cronExpression = "* * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await ChainOutboxService.runOnce();
+
+      if (result.processed > 0) {
+        logger.info(
+          `[Scheduler] Chain outbox: ${result.processed} intents processed (${result.completed} completed, ${result.compensated} compensated, ${result.failed} failed, ${result.retrying} retrying)`
+        );
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] Chain outbox job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] Chain outbox job scheduled: ${cronExpression} (every minute)`
+  );
+
+  return task;
+};
+
+/**
+ * Run the chain outbox immediately (for testing or manual trigger)
+ */
+export const runChainOutboxNow = async () => {
+  logger.info("[Scheduler] Running chain outbox manually");
+  try {
+    return await ChainOutboxService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual chain outbox run failed: ${error}`);
+    throw error;
+  }
+};
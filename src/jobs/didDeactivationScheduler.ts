@@ -0,0 +1,59 @@
+/**
+ * DID Deactivation Scheduler
+ *
+ * Background job for the DID deactivation cascade:
+ * - Resumes deactivations interrupted before all their VCs were processed
+ * - Retries FAILED items (revoke request / issued VC revocation) up to
+ *   DID_DEACTIVATION_MAX_ATTEMPTS times
+ *
+ * Schedule: Runs every minute
+ */
+
+import cron from "node-cron";
+import DIDDeactivationService from "../services/didDeactivation.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the DID deactivation retry job
+ * Runs every minute (cron: star star star star star)
+ */
+export const scheduleDIDDeactivation = () => {
+  // Run every minute
+  const cronExpression = "* * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await DIDDeactivationService.runOnce();
+
+      if (result.deactivations > 0) {
+        logger.info(
+          `[Scheduler] DID deactivation: ${result.deactivations} resumed, ${result.completed} completed`
+        );
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] DID deactivation job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] DID deactivation job scheduled: ${cronExpression} (every minute)`
+  );
+
+  return task;
+};
+
+/**
+ * Run the DID deactivation retry immediately (for testing or manual trigger)
+ */
+export const runDIDDeactivationNow = async () => {
+  logger.info("[Scheduler] Running DID deactivation retry manually");
+  try {
+    return await DIDDeactivationService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual DID deactivation run failed: ${error}`);
+    throw error;
+  }
+};
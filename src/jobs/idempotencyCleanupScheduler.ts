@@ -0,0 +1,55 @@
+/**
+ * Idempotency Cleanup Scheduler
+ *
+ * Background job that deletes Idempotency-Key records (stored responses)
+ * older than IDEMPOTENCY_KEY_TTL_HOURS
+ *
+ * Schedule: Runs every hour
+ */
+
+import cron from "node-cron";
+import IdempotencyService from "../services/idempotency.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the idempotency key cleanup job
+ * Runs every hour (cron: 30 star star star star)
+ */
+export const scheduleIdempotencyCleanup = () => {
+  // Run every hour, at minute 30
+  const cronExpression = "30 * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const purged = await IdempotencyService.purgeExpired();
+
+      if (purged > 0) {
+        logger.info(`[Scheduler] Idempotency cleanup: ${purged} expired keys deleted`);
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] Idempotency cleanup job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] Idempotency cleanup job scheduled: ${cronExpression} (every hour)`
+  );
+
+  return task;
+};
+
+/**
+ * Run the idempotency key cleanup immediately (for testing or manual trigger)
+ */
+export const runIdempotencyCleanupNow = async () => {
+  logger.info("[Scheduler] Running idempotency cleanup manually");
+  try {
+    return await IdempotencyService.purgeExpired();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual idempotency cleanup failed: ${error}`);
+    throw error;
+  }
+};
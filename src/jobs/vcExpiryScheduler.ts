@@ -0,0 +1,59 @@
+/**
+ * VC Expiry Scheduler
+ *
+ * Background job that reminds holders of credentials nearing expiry:
+ * - Push notification (and email, when registered) VC_EXPIRY_REMINDER_DAYS
+ *   days before the on-chain expiredAt, and an expired notice afterwards
+ * - Automatic renewal requests for schemas with auto_renewal enabled
+ *
+ * Schedule: Runs every hour
+ */
+
+import cron from "node-cron";
+import VCExpiryService from "../services/vcExpiry.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the VC expiry reminder job
+ * Runs every hour (cron: 0 star star star star)
+ */
+export const scheduleVCExpiry = () => {
+  // Run every hour, on the hour
+  const cronExpression = "0 * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      const result = await VCExpiryService.runOnce();
+
+      if (result.reminders > 0) {
+        logger.info(
+          `[Scheduler] VC expiry: ${result.reminders} reminders sent, ${result.renewal_requests} renewal requests created (${result.scanned} VCs scanned)`
+        );
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] VC expiry job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] VC expiry job scheduled: ${cronExpression} (every hour)`
+  );
+
+  return task;
+};
+
+/**
+ * Run the VC expiry scan immediately (for testing or manual trigger)
+ */
+export const runVCExpiryNow = async () => {
+  logger.info("[Scheduler] Running VC expiry scan manually");
+  try {
+    return await VCExpiryService.runOnce();
+  } catch (error) {
+    logger.error(`[Scheduler] Manual VC expiry scan failed: ${error}`);
+    throw error;
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * VP Expiry Scheduler
+ *
+ * Background job that periodically expires stale presentations:
+ * - PENDING VP requests past expires_at are set to EXPIRED
+ * - Shared VPs (VPSharing) past expires_at are soft deleted
+ *
+ * Schedule: Runs every 5 minutes
+ */
+
+import cron from "node-cron";
+import PresentationService from "../services/presentation.service";
+import logger from "../config/logger";
+
+/**
+ * Schedule the VP expiry job
+ * Runs every 5 minutes (cron: star-slash-5 star star star star)
+ */
+export const scheduleVPExpiry = () => {
+  // Run every 5 minutes
+  const cronExpression = "*/5 * * * *";
+
+  const task = cron.schedule(cronExpression, async () => {
+    try {
+      logger.info("[Scheduler] Starting VP expiry job");
+      const result = await PresentationService.expireStaleVPs();
+
+      if (result.expired_request_count > 0 || result.expired_vp_count > 0) {
+        logger.warn(
+          `[Scheduler] VP expiry completed: ${result.expired_request_count} VP requests set to EXPIRED, ${result.expired_vp_count} shared VPs soft deleted`
+        );
+      } else {
+        logger.info("[Scheduler] VP expiry completed: nothing to expire");
+      }
+    } catch (error) {
+      logger.error(`[Scheduler] VP expiry job failed: ${error}`);
+    }
+  });
+
+  // Start the task
+  task.start();
+
+  logger.info(
+    `[Scheduler] VP expiry job scheduled: ${cronExpression} (every 5 minutes)`
+  );
+
+  return task;
+};
+
+/**
+ * Run expiry job immediately (for testing or manual trigger)
+ */
+export const runVPExpiryNow = async () => {
+  logger.info("[Scheduler] Running VP expiry job manually");
+  try {
+    const result = await PresentationService.expireStaleVPs();
+    return result;
+  } catch (error) {
+    logger.error(`[Scheduler] Manual VP expiry failed: ${error}`);
+    throw error;
+  }
+};
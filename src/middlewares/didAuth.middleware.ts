@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { HTTP_STATUS } from "../constants";
 import { logger } from "../config";
 import DIDService from "../services/did.service";
+import DIDMethodRegistry from "../services/didMethods/didMethodRegistry.service";
 import * as crypto from "crypto";
 
 /**
@@ -157,6 +158,31 @@ function derSignatureToRaw(derSignature: Buffer): Buffer {
   return Buffer.concat([r.slice(-32), s.slice(-32)]);
 }
 
+/**
+ * Verify an EdDSA (Ed25519) JWS signature over "header.payload"
+ */
+function verifyEd25519Signature(
+  message: string,
+  signature: string,
+  publicKeyHex: string
+): boolean {
+  const publicKey = crypto.createPublicKey({
+    key: {
+      kty: "OKP",
+      crv: "Ed25519",
+      x: Buffer.from(publicKeyHex.replace(/^0x/, ""), "hex").toString("base64url"),
+    },
+    format: "jwk",
+  });
+
+  return crypto.verify(
+    null, // Ed25519 hashes internally
+    Buffer.from(message, "utf8"),
+    publicKey,
+    Buffer.from(signature, "base64url")
+  );
+}
+
 /**
  * Validate JWT claims (expiration, not before, issued at)
  */
@@ -203,17 +229,19 @@ function validateJWTClaims(payload: any): { valid: boolean; errors: string[] } {
 }
 
 /**
- * DID Authentication Middleware - ES256 Signature Verification
- * Verifies JWT token signed with ES256 (ECDSA with P-256 curve and SHA-256)
+ * DID Authentication Middleware - ES256 / EdDSA Signature Verification
+ * Verifies JWT token signed with ES256 (ECDSA with P-256 curve and SHA-256),
+ * or EdDSA for Ed25519 keys of did:key / did:web DIDs
  *
  * Header format: Bearer <JWT_TOKEN>
  * JWT payload must contain: { iss: "did:dcert:...", sub: "did:dcert:...", ... }
+ * (did:key and did:web DIDs are accepted as well)
  *
  * Process:
  * 1. Extract and decode JWT token
  * 2. Get DID from 'iss' claim in payload
- * 3. Get public key from DID document on blockchain
- * 4. Verify JWT signature using ES256 algorithm
+ * 3. Get public key from DID document (on blockchain for did:dcert)
+ * 4. Verify JWT signature with the algorithm of the key
  * 5. Validate iss matches sub and token not expired
  */
 export const verifyDIDSignature = async (
@@ -257,10 +285,11 @@ export const verifyDIDSignature = async (
     logger.debug(`Signature (base64url): ${signature}`);
 
     // Validate JWT header
-    if (header.alg !== "ES256" || header.typ !== "JWT") {
+    if (!["ES256", "EdDSA"].includes(header.alg) || header.typ !== "JWT") {
       res.status(HTTP_STATUS.UNAUTHORIZED).json({
         success: false,
-        message: "Invalid JWT header. Expected alg: ES256, typ: JWT",
+        message:
+          "Invalid JWT header. Expected alg: ES256 (EdDSA for Ed25519 keys), typ: JWT",
       });
       return;
     }
@@ -277,10 +306,12 @@ export const verifyDIDSignature = async (
     const holderDID = payload.iss;
 
     // Validate DID format
-    if (!holderDID.startsWith("did:dcert:")) {
+    if (typeof holderDID !== "string" || !DIDMethodRegistry.supports(holderDID)) {
       res.status(HTTP_STATUS.UNAUTHORIZED).json({
         success: false,
-        message: "Invalid DID format in 'iss' claim. Expected did:dcert:...",
+        message: `Invalid DID format in 'iss' claim. Supported methods: ${DIDMethodRegistry.methods
+          .map((method) => `did:${method}`)
+          .join(", ")}`,
       });
       return;
     }
@@ -314,7 +345,7 @@ export const verifyDIDSignature = async (
     if (!didDocument.found) {
       res.status(HTTP_STATUS.UNAUTHORIZED).json({
         success: false,
-        message: "DID not found on blockchain",
+        message: didDocument.message || "DID not found on blockchain",
         did: holderDID,
       });
       return;
@@ -330,9 +361,22 @@ export const verifyDIDSignature = async (
       return;
     }
 
-    // Get public key from DID document
-    const keyId = didDocument.keyId;
-    const publicKeyHex = didDocument[keyId];
+    // Get public key from DID document (kid must reference the active key)
+    const verificationKey = await DIDService.getVerificationKey(
+      didDocument,
+      header.kid
+    );
+
+    if ("error" in verificationKey) {
+      res.status(HTTP_STATUS.UNAUTHORIZED).json({
+        success: false,
+        message: verificationKey.error,
+        did: holderDID,
+      });
+      return;
+    }
+
+    const publicKeyHex = verificationKey.publicKeyHex;
 
     if (!publicKeyHex) {
       res.status(HTTP_STATUS.UNAUTHORIZED).json({
@@ -345,6 +389,51 @@ export const verifyDIDSignature = async (
 
     logger.debug(`Public key retrieved: ${publicKeyHex}`);
 
+    // The JWT algorithm must match the curve of the DID key
+    const expectedAlg = verificationKey.keyType === "Ed25519" ? "EdDSA" : "ES256";
+    if (header.alg !== expectedAlg) {
+      res.status(HTTP_STATUS.UNAUTHORIZED).json({
+        success: false,
+        message: `JWT alg ${header.alg} does not match the ${verificationKey.keyType} key ${verificationKey.keyId}. Expected alg: ${expectedAlg}`,
+        did: holderDID,
+      });
+      return;
+    }
+
+    // Step 4a: Verify EdDSA signature (Ed25519 keys of did:key / did:web)
+    if (verificationKey.keyType === "Ed25519") {
+      const parts = token.split(".");
+      let isValid = false;
+      try {
+        isValid = verifyEd25519Signature(
+          `${parts[0]}.${parts[1]}`,
+          signature,
+          publicKeyHex
+        );
+      } catch (error) {
+        logger.error("Error verifying EdDSA JWT signature", error);
+      }
+
+      if (!isValid) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: "Invalid JWT signature. Token verification failed",
+          did: holderDID,
+        });
+        return;
+      }
+
+      logger.info(`✅ JWT signature verified successfully for DID: ${holderDID}`);
+
+      req.holderDID = holderDID;
+      req.holderPublicKey = publicKeyHex;
+      req.holderRole = payload.role;
+      req.tokenPayload = payload;
+
+      next();
+      return;
+    }
+
     // Step 4: Verify JWT signature using ES256
     try {
       // Get the message to verify: header.payload (as string, not bytes)
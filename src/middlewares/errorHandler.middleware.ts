@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from "express";
-import { AppError, ValidationError } from "../utils";
+import { AppError, ValidationError, OAuthError } from "../utils";
 import { env, logger } from "../config";
 import { TransformHelper } from "../utils/helpers";
 
@@ -32,6 +32,24 @@ export const errorHandler = (
     method: req.method,
   });
 
+  // OAuth 2.0 / OID4VCI endpoints answer wallets in the RFC 6749 format
+  if (error instanceof OAuthError) {
+    logger.warn("OAuth Error:", {
+      error: error.error,
+      message: error.message,
+      statusCode: error.statusCode,
+      url: req.originalUrl,
+      method: req.method,
+    });
+
+    res.status(error.statusCode).json({
+      error: error.error,
+      error_description: error.message,
+      ...error.extra,
+    });
+    return;
+  }
+
   // Handle operational errors
   if (error instanceof AppError) {
     message = error.message;
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../config";
+import IdempotencyService from "../services/idempotency.service";
+import { BadRequestError } from "../utils/errors/AppError";
+import { RequestWithDID } from "./didAuth.middleware";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Caller a key is scoped to (set by the authentication middleware before this one)
+ * null on unauthenticated routes: their callers would all share one key space
+ */
+function getCaller(req: Request): string | null {
+  const { holderDID } = req as RequestWithDID;
+
+  if (holderDID) {
+    return holderDID;
+  }
+  if (req.adminId) {
+    return `admin:${req.adminId}`;
+  }
+  if (req.institutionId) {
+    return `institution:${req.institutionId}`;
+  }
+  return null;
+}
+
+/**
+ * Idempotency-Key Middleware
+ * Makes retries of a mutating request safe: a request repeated with the same
+ * Idempotency-Key header gets the stored response instead of running again
+ *
+ * Requests without the header are not affected. Place it after the route's
+ * authentication and upload middleware so the caller and body are known; keys
+ * are scoped per caller, so it is only mounted on authenticated routes.
+ * Replayed responses carry the header "Idempotent-Replayed: true".
+ */
+export const idempotency = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.get("Idempotency-Key");
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestError(
+        `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`
+      );
+    }
+
+    const caller = getCaller(req);
+    if (!caller) {
+      throw new BadRequestError(
+        "Idempotency-Key is only supported on authenticated routes"
+      );
+    }
+
+    const claim = await IdempotencyService.claim({
+      key,
+      caller,
+      method: req.method,
+      path: `${req.baseUrl}${req.path}`,
+      body: req.body,
+      file: req.file?.buffer,
+    });
+
+    if (claim.replay) {
+      logger.debug(`Replaying stored response for Idempotency-Key ${key}`);
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(claim.statusCode).json(claim.body);
+      return;
+    }
+
+    let settled = false;
+    const sendJson = res.json.bind(res);
+
+    // Store the response before it is sent, so a retry never finds the key in use
+    res.json = (body?: any) => {
+      if (settled) {
+        return sendJson(body);
+      }
+      settled = true;
+
+      const store =
+        res.statusCode < 500
+          ? IdempotencyService.complete(claim.recordId, res.statusCode, body)
+          : IdempotencyService.release(claim.recordId);
+
+      store
+        .catch((error) =>
+          logger.error(`Failed to store response for Idempotency-Key ${key}`, error)
+        )
+        .finally(() => sendJson(body));
+
+      return res;
+    };
+
+    // Responses that are not JSON are not stored: the key is released once sent.
+    // A dropped connection does not release it, the handler is still running and
+    // stores its response through res.json; a crashed request is recovered by the
+    // lock timeout takeover in IdempotencyService.claim
+    res.on("finish", () => {
+      if (!settled) {
+        settled = true;
+        IdempotencyService.release(claim.recordId).catch((error) =>
+          logger.error(`Failed to release Idempotency-Key ${key}`, error)
+        );
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
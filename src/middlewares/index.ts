@@ -11,6 +11,7 @@ export * from './requestLogger.middleware';
 export * from './rateLimit.middleware';
 export * from './upload.middleware';
 export * from './parseMultipartJson.middleware';
+export * from './idempotency.middleware';
 
 // Export asyncHandler separately for convenience
 export { asyncHandler } from './errorHandler.middleware';
@@ -1,6 +1,8 @@
 import multer from "multer";
 import { Request, Response, NextFunction } from "express";
 import { BadRequestError } from "../utils/errors/AppError";
+import { BULK_ISSUANCE } from "../constants/bulkIssuance.constants";
+import { ManifestHelper } from "../utils/helpers/manifest.helper";
 
 /**
  * Multer Middleware for File Uploads
@@ -98,3 +100,18 @@ export const uploadSingleFile = multer({
     fileSize: 10 * 1024 * 1024, // 10MB max file size
   },
 }).single("file"); // Field name is "file"
+
+// Configure multer instance for optional bulk issuance manifest (CSV or JSON)
+// Without a file the rows are read from a JSON request body
+export const uploadOptionalManifest = multer({
+  storage: storage,
+  fileFilter: (req, file, cb) => {
+    if (!ManifestHelper.detectFormat(file.mimetype, file.originalname)) {
+      return cb(new BadRequestError("Manifest must be a CSV or JSON file"));
+    }
+    cb(null, true);
+  },
+  limits: {
+    fileSize: BULK_ISSUANCE.MANIFEST_MAX_SIZE,
+  },
+}).single(BULK_ISSUANCE.MANIFEST_FIELD); // Field name is "manifest"
@@ -1,7 +1,14 @@
 import express, { Router } from "express";
 import * as credentialController from "../controllers/credential.controller";
-import { verifyDIDSignature, adminAuthMiddleware } from "../middlewares";
-import { uploadSingleFile } from "../middlewares/upload.middleware";
+import {
+  verifyDIDSignature,
+  adminAuthMiddleware,
+  idempotency,
+} from "../middlewares";
+import {
+  uploadSingleFile,
+  uploadOptionalManifest,
+} from "../middlewares/upload.middleware";
 import {
   requestCredentialValidator,
   getCredentialRequestsByTypeValidator,
@@ -21,9 +28,18 @@ import {
   issuerRenewVCValidator,
   confirmVCsBatchValidator,
   issuerRevokeVCValidator,
+  issuerSuspendVCValidator,
+  issuerReinstateVCValidator,
   resetStuckVCsValidator,
+  getChainOutboxIntentsValidator,
+  startReconciliationValidator,
+  reconciliationReportValidator,
   getAllIssuerRequestsValidator,
   issuerIssueVCValidator,
+  createBulkIssuanceValidator,
+  bulkIssuanceJobValidator,
+  getVCAnchoringValidator,
+  prepareSdJwtVCValidator,
   issuerUpdateVCValidator,
   claimIssuerInitiatedVCsBatchValidator,
   confirmIssuerInitiatedVCsBatchValidator,
@@ -56,6 +72,8 @@ const router: Router = express.Router();
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -113,6 +131,7 @@ const router: Router = express.Router();
 router.post(
   "/requests",
   verifyDIDSignature,
+  idempotency,
   requestCredentialValidator,
   credentialController.requestCredential
 );
@@ -292,6 +311,8 @@ router.get("/", getHolderVCsValidator, credentialController.getHolderVCs);
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -343,6 +364,7 @@ router.get("/", getHolderVCsValidator, credentialController.getHolderVCs);
 router.post(
   "/update-request",
   verifyDIDSignature,
+  idempotency,
   credentialUpdateRequestValidator,
   credentialController.requestCredentialUpdate
 );
@@ -357,6 +379,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -408,6 +432,7 @@ router.post(
 router.post(
   "/renew-request",
   verifyDIDSignature,
+  idempotency,
   credentialRenewalRequestValidator,
   credentialController.requestCredentialRenewal
 );
@@ -422,6 +447,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -473,6 +500,7 @@ router.post(
 router.post(
   "/revoke-request",
   verifyDIDSignature,
+  idempotency,
   credentialRevocationRequestValidator,
   credentialController.requestCredentialRevocation
 );
@@ -482,7 +510,12 @@ router.post(
  * /credentials/{vcId}/status:
  *   get:
  *     summary: Get VC status from Blockchain
- *     description: Retrieve the current status record of a Verifiable Credential directly from the blockchain using its ID.
+ *     description: |
+ *       Retrieve the current status record of a Verifiable Credential using its ID.
+ *
+ *       When the chain indexer is enabled (INDEXER_ENABLED=true) the record is served from the
+ *       index, which trails the chain by INDEXER_CONFIRMATIONS blocks; VCs that are not indexed
+ *       yet are read directly from the blockchain.
  *     tags:
  *       - Verifiable Credential (VC) Lifecycle
  *     parameters:
@@ -527,6 +560,13 @@ router.post(
  *                     hash:
  *                       type: string
  *                       description: Stored hash of the VC on the blockchain.
+ *                     suspended:
+ *                       type: boolean
+ *                       description: Whether the VC is suspended in the issuer's status list.
+ *                     state:
+ *                       type: string
+ *                       enum: [ACTIVE, SUSPENDED, REVOKED]
+ *                       description: Combined lifecycle state (blockchain status + suspension).
  *       400:
  *         description: Invalid vcId format in URL.
  *       404:
@@ -540,6 +580,87 @@ router.get(
   credentialController.getVCStatus
 );
 
+/**
+ * @swagger
+ * /credentials/{vcId}/anchoring:
+ *   get:
+ *     summary: Get batch anchoring state and Merkle inclusion proof of a VC
+ *     description: |
+ *       VCs issued with `anchoring_mode: batch` are not written on-chain one by one. Their hashes are
+ *       grouped per issuer and schema version into a Merkle tree whose root is anchored as a single
+ *       VCManager entry (`vcType: MerkleBatchRoot`).
+ *
+ *       Once the batch is ANCHORED the response contains the `inclusion_proof`. Holders may attach it
+ *       to the JSON-LD VC as `proof.merkleInclusionProof`; it is excluded from the VC hash and the
+ *       signature, and lets `/credentials/validate-vc` and VP verification check the VC against the
+ *       anchored root. Without it the stored proof is used.
+ *
+ *       Leaf = Keccak256(VC hash), node = Keccak256 of the sorted pair of children.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     parameters:
+ *       - in: path
+ *         name: vcId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Anchoring state
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     mode:
+ *                       type: string
+ *                       example: batch
+ *                     vc_id:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [QUEUED, PENDING, ANCHORED, FAILED]
+ *                     batch_id:
+ *                       type: string
+ *                     anchored_at:
+ *                       type: string
+ *                       format: date-time
+ *                     inclusion_proof:
+ *                       type: object
+ *                       properties:
+ *                         type:
+ *                           type: string
+ *                           example: MerkleInclusionProof
+ *                         anchorId:
+ *                           type: string
+ *                           example: "urn:dcert:anchor-batch:3f1c..."
+ *                         merkleRoot:
+ *                           type: string
+ *                         leafIndex:
+ *                           type: integer
+ *                         proof:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         transactionHash:
+ *                           type: string
+ *                         blockNumber:
+ *                           type: integer
+ *       404:
+ *         description: VC is not batch anchored
+ */
+router.get(
+  "/:vcId/anchoring",
+  getVCAnchoringValidator,
+  credentialController.getVCAnchoring
+);
+
 /**
  * @swagger
  * /credentials/issue-vc:
@@ -581,7 +702,10 @@ router.get(
  *               vc_hash:
  *                 type: string
  *                 example: "string_hash"
- *                 description: Hash of the VC data (Required if action is APPROVED)
+ *                 description: Hash of the VC data (Required if action is APPROVED and vc_json is not provided)
+ *               vc_json:
+ *                 type: object
+ *                 description: Plaintext signed VC (optional). When provided, the hash is recomputed server-side (JCS/RDFC + Keccak256) and must match vc_hash if both are sent. Its credentialStatus must embed the entries from /status-lists/allocate
  *               encrypted_body:
  *                 type: string
  *                 description: Encrypted VC data (Required if action is APPROVED)
@@ -713,6 +837,8 @@ router.get(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - InstitutionBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -778,6 +904,7 @@ router.get(
 router.post(
   "/revoke-vc",
   verifyDIDSignature,
+  idempotency,
   revokeVCValidator,
   credentialController.revokeVC
 );
@@ -985,6 +1112,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1031,6 +1160,7 @@ router.post(
 router.post(
   "/claim",
   verifyDIDSignature,
+  idempotency,
   claimVCValidator,
   credentialController.claimVC
 );
@@ -1045,6 +1175,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1095,6 +1227,7 @@ router.post(
 router.post(
   "/confirm",
   verifyDIDSignature,
+  idempotency,
   confirmVCValidator,
   credentialController.confirmVC
 );
@@ -1109,6 +1242,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1183,6 +1318,7 @@ router.post(
 router.post(
   "/claim-batch",
   verifyDIDSignature,
+  idempotency,
   claimVCsBatchValidator,
   credentialController.claimVCsBatch
 );
@@ -1197,6 +1333,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1258,6 +1396,7 @@ router.post(
 router.post(
   "/confirm-batch",
   verifyDIDSignature,
+  idempotency,
   confirmVCsBatchValidator,
   credentialController.confirmVCsBatch
 );
@@ -1278,6 +1417,8 @@ router.post(
  *       - Admin
  *     security:
  *       - AdminBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: false
  *       content:
@@ -1333,38 +1474,97 @@ router.post(
 router.post(
   "/admin/reset-stuck",
   adminAuthMiddleware,
+  idempotency,
   resetStuckVCsValidator,
   credentialController.resetStuckVCs
 );
 
 /**
  * @swagger
- * /credentials/issuer-history:
+ * components:
+ *   schemas:
+ *     ChainOutboxIntent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         operation:
+ *           type: string
+ *           enum: [ISSUE_VC, RENEW_VC, UPDATE_VC, CREATE_VC_SCHEMA, REVOKE_VC, APPROVE_ISSUANCE, REGISTER_DID, ROTATE_DID_KEY, DEACTIVATE_DID]
+ *         status:
+ *           type: string
+ *           enum: [PENDING, CHAIN_CONFIRMED, COMPLETED, COMPENSATING, COMPENSATED, FAILED]
+ *         vc_id:
+ *           type: string
+ *           nullable: true
+ *           description: VC (new VC for UPDATE_VC, schema ID for CREATE_VC_SCHEMA, DID for the DID operations) targeted by the write
+ *         attempts:
+ *           type: integer
+ *           description: Failed database step (or compensation) attempts
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *         transaction_hash:
+ *           type: string
+ *           nullable: true
+ *         block_number:
+ *           type: integer
+ *           nullable: true
+ *         compensation_tx_hash:
+ *           type: string
+ *           nullable: true
+ *         locked_until:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Lease of the request / worker executing the intent, or next retry
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *
+ * /credentials/admin/outbox:
  *   get:
- *     summary: Get all requests and actions for an issuer (Aggregated History)
- *     description: Retrieve a combined history of all actions performed by an issuer. This includes (1) Holder-Initiated Requests (ISSUANCE, RENEWAL, UPDATE, REVOKE) from holders, and (2) Issuer-Initiated Actions (direct issue, update, renew, revoke) logged in IssuerActionLog. Filtering by status PENDING/APPROVED/REJECTED will ONLY return Holder-Initiated Requests. Using status=ALL or omitting it will return BOTH Requests and direct Actions.
+ *     summary: (Admin) List chain outbox intents
+ *     description: |
+ *       Direct issuance (issue-vc), renewal / update approval and schema creation store every
+ *       on-chain write as an intent before sending it. The database writes run after the
+ *       on-chain write is confirmed; when they fail they are retried every minute, and after
+ *       CHAIN_OUTBOX_MAX_ATTEMPTS attempts the on-chain write is compensated (e.g. the issued
+ *       VC is revoked). FAILED intents need manual reconciliation (see /credentials/admin/outbox/drift).
  *     tags:
  *       - Verifiable Credential (VC) Lifecycle
+ *       - Admin
  *     security:
- *       - InstitutionBearerAuth: []
+ *       - AdminBearerAuth: []
  *     parameters:
  *       - in: query
- *         name: issuer_did
- *         required: true
+ *         name: status
  *         schema:
  *           type: string
- *         description: The DID of the issuer.
- *         example: did:dcert:i...
+ *           enum: [PENDING, CHAIN_CONFIRMED, COMPLETED, COMPENSATING, COMPENSATED, FAILED]
  *       - in: query
- *         name: status
- *         required: false
+ *         name: operation
  *         schema:
  *           type: string
- *           enum: [PENDING, APPROVED, REJECTED, ALL]
- *         description: Filter requests by status. Use 'ALL' or omit to include direct actions.
+ *           enum: [ISSUE_VC, RENEW_VC, UPDATE_VC, CREATE_VC_SCHEMA, REVOKE_VC, APPROVE_ISSUANCE, REGISTER_DID, ROTATE_DID_KEY, DEACTIVATE_DID]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
  *     responses:
  *       200:
- *         description: A combined list of all requests and actions, sorted by date (newest first).
+ *         description: Intents, newest first
  *         content:
  *           application/json:
  *             schema:
@@ -1373,137 +1573,47 @@ router.post(
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Successfully retrieved 30 total history items for issuer."
  *                 data:
  *                   type: object
  *                   properties:
  *                     count:
  *                       type: integer
- *                       example: 30
- *                     requests:
+ *                     intents:
  *                       type: array
  *                       items:
- *                         type: object
- *                         properties:
- *                           id:
- *                             type: string
- *                             format: uuid
- *                           history_type:
- *                             type: string
- *                             enum: [REQUEST, DIRECT_ACTION]
- *                             description: REQUEST (from holder) or DIRECT_ACTION (by issuer).
- *                           request_type:
- *                             type: string
- *                             enum: [ISSUANCE, RENEWAL, UPDATE, REVOKE]
- *                           issuer_did:
- *                             type: string
- *                           holder_did:
- *                             type: string
- *                             nullable: true
- *                           status:
- *                             type: string
- *                             enum: [PENDING, APPROVED, REJECTED]
- *                             nullable: true
- *                             description: Null for DIRECT_ACTION types.
- *                           encrypted_body:
- *                             type: string
- *                             nullable: true
- *                             description: Null for DIRECT_ACTION types.
- *                           vc_id:
- *                             type: string
- *                             nullable: true
- *                             description: The associated VC ID. For UPDATE, this is the OLD VC ID (if DIRECT_ACTION) or NEW VC ID (if REQUEST).
- *                           new_vc_id:
- *                             type: string
- *                             nullable: true
- *                             description: The NEW VC ID (only for UPDATE type from DIRECT_ACTION).
- *                           transaction_hash:
- *                             type: string
- *                             nullable: true
- *                             description: Blockchain TX hash (only for DIRECT_ACTION types).
- *                           createdAt:
- *                             type: string
- *                             format: date-time
+ *                         $ref: '#/components/schemas/ChainOutboxIntent'
  *       400:
- *         description: Validation error (e.g., missing issuer_did).
+ *         description: Validation error
  *       401:
- *         description: Unauthorized (Invalid or missing JWT token).
- *       500:
- *         description: Internal server error.
+ *         description: Unauthorized - Invalid or missing admin token
+ *       403:
+ *         description: Forbidden - User is not an admin
  */
 router.get(
-  "/issuer-history",
-  verifyDIDSignature,
-  getAllIssuerRequestsValidator,
-  credentialController.getAllIssuerRequests
+  "/admin/outbox",
+  adminAuthMiddleware,
+  getChainOutboxIntentsValidator,
+  credentialController.getChainOutboxIntents
 );
 
 /**
  * @swagger
- * /credentials/issuer/issue-vc:
- *   post:
- *     summary: (Issuer) Direct Issue VC
- *     description: Endpoint khusus Issuer untuk menerbitkan VC secara langsung ke blockchain dan menyimpannya di DB (tabel VCinitiatedByIssuer) agar siap di-claim oleh holder. Ini melewati alur permintaan VCIssuanceRequest.
+ * /credentials/admin/outbox/drift:
+ *   get:
+ *     summary: (Admin) Drift report between blockchain and database
+ *     description: |
+ *       Runs the reconciliation comparison (see POST /credentials/admin/reconciliation)
+ *       without storing a report or repairing anything, and lists the open and failed
+ *       outbox intents. Discrepancies targeted by one of those intents carry its outbox_id.
+ *       Reads every VC and schema from the chain, so it may be slow on large registries.
  *     tags:
  *       - Verifiable Credential (VC) Lifecycle
+ *       - Admin
  *     security:
- *       - HolderBearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - issuer_did
- *               - holder_did
- *               - vc_id
- *               - vc_type
- *               - schema_id
- *               - schema_version
- *               - vc_hash
- *               - encrypted_body
- *               - expiredAt
- *             properties:
- *               issuer_did:
- *                 type: string
- *                 example: "did:dcert:i..."
- *                 description: DID Issuer (harus cocok dengan DID di token JWT)
- *               holder_did:
- *                 type: string
- *                 example: "did:dcert:u..."
- *                 description: DID Holder yang akan menerima
- *               vc_id:
- *                 type: string
- *                 description: ID unik untuk VC ini
- *               vc_type:
- *                 type: string
- *                 example: "UniversityDegreeCredential"
- *               schema_id:
- *                 type: string
- *                 format: uuid
- *                 description: ID Schema yang divalidasi
- *               schema_version:
- *                 type: integer
- *                 example: 1
- *                 description: Versi Schema yang divalidasi
- *               vc_hash:
- *                 type: string
- *                 example: "0x..."
- *                 description: Hash (Keccak256) dari data VC
- *               encrypted_body:
- *                 type: string
- *                 description: Data VC yang sudah dienkripsi untuk holder
- *               expiredAt:
- *                 type: string
- *                 format: date-time
- *                 description: Tanggal kadaluwarsa VC (format ISO 8601)
- *                 example: "2026-11-04T10:00:00.000Z"
+ *       - AdminBearerAuth: []
  *     responses:
- *       201:
- *         description: VC berhasil diterbitkan di blockchain dan disimpan di DB.
+ *       200:
+ *         description: Drift report
  *         content:
  *           application/json:
  *             schema:
@@ -1512,41 +1622,978 @@ router.get(
  *                 success:
  *                   type: boolean
  *                   example: true
- *                 message:
- *                   type: string
- *                   example: "VC successfully issued on blockchain and saved to database."
  *                 data:
  *                   type: object
  *                   properties:
- *                     vc_id:
- *                       type: string
- *                     transaction_hash:
- *                       type: string
- *                       description: Blockchain transaction hash
- *                     block_number:
- *                       type: integer
- *                       description: Blockchain block number
- *                     db_record_id:
+ *                     generated_at:
  *                       type: string
- *                       format: uuid
- *                       description: ID record di tabel VCinitiatedByIssuer
- *       400:
- *         description: Validation error, schema validation failed, or blockchain error.
+ *                       format: date-time
+ *                     summary:
+ *                       $ref: '#/components/schemas/ReconciliationReport/properties/summary'
+ *                     drift:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/ReconciliationReport/properties/discrepancies/items'
+ *                           - type: object
+ *                             properties:
+ *                               outbox_id:
+ *                                 type: string
+ *                                 format: uuid
+ *                     open_intents:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ChainOutboxIntent'
+ *                     failed_intents:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ChainOutboxIntent'
  *       401:
- *         description: Unauthorized (Invalid or missing JWT token, or issuer_did mismatch).
+ *         description: Unauthorized - Invalid or missing admin token
+ *       403:
+ *         description: Forbidden - User is not an admin
  *       500:
- *         description: Internal server error.
+ *         description: Blockchain query failed
  */
-router.post(
-  "/issuer/issue-vc",
-  verifyDIDSignature,
-  issuerIssueVCValidator,
-  credentialController.issuerIssueVC
+router.get(
+  "/admin/outbox/drift",
+  adminAuthMiddleware,
+  credentialController.getChainOutboxDrift
 );
 
 /**
  * @swagger
- * /credentials/issuer/update-vc:
+ * components:
+ *   schemas:
+ *     ReconciliationReport:
+ *       type: object
+ *       properties:
+ *         report_id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [RUNNING, COMPLETED, FAILED]
+ *         repair:
+ *           type: boolean
+ *         triggered_by:
+ *           type: string
+ *           example: "admin:8f14e45f-ceea-4e7a-9b1c-2d1a6f0f5c3e"
+ *         summary:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             onchain_vcs:
+ *               type: integer
+ *             onchain_schemas:
+ *               type: integer
+ *             db_vcs:
+ *               type: integer
+ *             db_schemas:
+ *               type: integer
+ *             discrepancies:
+ *               type: object
+ *               description: Count per entity (vc, schema) and kind
+ *               example: { vc: { missing-in-db: 0, missing-on-chain: 1, hash-mismatch: 2, status-mismatch: 0 }, schema: { missing-in-db: 1, missing-on-chain: 0, hash-mismatch: 0, status-mismatch: 0 } }
+ *             repairable:
+ *               type: integer
+ *             repaired:
+ *               type: integer
+ *         discrepancies:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               entity:
+ *                 type: string
+ *                 enum: [vc, schema]
+ *               id:
+ *                 type: string
+ *               version:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Schema version (null for VCs)
+ *               kind:
+ *                 type: string
+ *                 enum: [missing-in-db, missing-on-chain, hash-mismatch, status-mismatch]
+ *               source:
+ *                 type: string
+ *                 description: Table compared with the chain
+ *                 example: IndexedVC
+ *               chain_hash:
+ *                 type: string
+ *                 nullable: true
+ *               db_hash:
+ *                 type: string
+ *                 nullable: true
+ *               issuer_did:
+ *                 type: string
+ *                 nullable: true
+ *               detail:
+ *                 type: string
+ *               repairable:
+ *                 type: boolean
+ *               repaired:
+ *                 type: boolean
+ *               repair_error:
+ *                 type: string
+ *                 nullable: true
+ *         error:
+ *           type: string
+ *           nullable: true
+ *         started_at:
+ *           type: string
+ *           format: date-time
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /credentials/admin/reconciliation:
+ *   post:
+ *     summary: (Admin) Start a blockchain vs database reconciliation
+ *     description: |
+ *       Compares getAllVCsFromBlockchain and getAllSchemasFromBlockchain with Postgres in the
+ *       background and stores the result as a report. Each discrepancy is classified as:
+ *       - missing-in-db: on chain, but no IssuerVCData / VCSchema row
+ *       - missing-on-chain: in the database, but not on chain (batch anchored VCs excluded)
+ *       - hash-mismatch: the hash in IndexedVC, CredentialOffer, BulkIssuanceRow or VCSchema
+ *         differs from the on-chain hash (schemas are compared per version)
+ *       - status-mismatch: the latest REVOKE / UPDATE / RENEWAL in IssuerActionLog disagrees
+ *         with the on-chain VC status
+ *
+ *       With repair=true the safe cases are fixed in the database from the on-chain state:
+ *       missing or different schema versions of the same issuer, and stale IndexedVC hashes.
+ *       The blockchain is never written, and items with an open outbox intent are skipped.
+ *       The same audit is available as `npm run reconcile-chain`.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *       - Admin
+ *     security:
+ *       - AdminBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               repair:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Reconciliation started (status RUNNING)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ReconciliationReport'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized - Invalid or missing admin token
+ *       403:
+ *         description: Forbidden - User is not an admin
+ *       409:
+ *         description: Another reconciliation is still running
+ *   get:
+ *     summary: (Admin) List recent reconciliation reports
+ *     description: Newest first, without the discrepancy lists
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *       - Admin
+ *     security:
+ *       - AdminBearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reports
+ *       401:
+ *         description: Unauthorized - Invalid or missing admin token
+ *       403:
+ *         description: Forbidden - User is not an admin
+ */
+router.post(
+  "/admin/reconciliation",
+  adminAuthMiddleware,
+  idempotency,
+  startReconciliationValidator,
+  credentialController.startReconciliation
+);
+
+router.get(
+  "/admin/reconciliation",
+  adminAuthMiddleware,
+  credentialController.listReconciliationReports
+);
+
+/**
+ * @swagger
+ * /credentials/admin/reconciliation/{reportId}:
+ *   get:
+ *     summary: (Admin) Get or download a reconciliation report
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *       - Admin
+ *     security:
+ *       - AdminBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *         description: csv downloads the discrepancies as a CSV file
+ *     responses:
+ *       200:
+ *         description: Report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ReconciliationReport'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized - Invalid or missing admin token
+ *       403:
+ *         description: Forbidden - User is not an admin
+ *       404:
+ *         description: Report not found
+ */
+router.get(
+  "/admin/reconciliation/:reportId",
+  adminAuthMiddleware,
+  reconciliationReportValidator,
+  credentialController.getReconciliationReport
+);
+
+/**
+ * @swagger
+ * /credentials/issuer-history:
+ *   get:
+ *     summary: Get all requests and actions for an issuer (Aggregated History)
+ *     description: Retrieve a combined history of all actions performed by an issuer. This includes (1) Holder-Initiated Requests (ISSUANCE, RENEWAL, UPDATE, REVOKE) from holders, and (2) Issuer-Initiated Actions (direct issue, update, renew, revoke) logged in IssuerActionLog. Filtering by status PENDING/APPROVED/REJECTED will ONLY return Holder-Initiated Requests. Using status=ALL or omitting it will return BOTH Requests and direct Actions.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - InstitutionBearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: issuer_did
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The DID of the issuer.
+ *         example: did:dcert:i...
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED, ALL]
+ *         description: Filter requests by status. Use 'ALL' or omit to include direct actions.
+ *     responses:
+ *       200:
+ *         description: A combined list of all requests and actions, sorted by date (newest first).
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Successfully retrieved 30 total history items for issuer."
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *                       example: 30
+ *                     requests:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           history_type:
+ *                             type: string
+ *                             enum: [REQUEST, DIRECT_ACTION]
+ *                             description: REQUEST (from holder) or DIRECT_ACTION (by issuer).
+ *                           request_type:
+ *                             type: string
+ *                             enum: [ISSUANCE, RENEWAL, UPDATE, REVOKE]
+ *                           issuer_did:
+ *                             type: string
+ *                           holder_did:
+ *                             type: string
+ *                             nullable: true
+ *                           status:
+ *                             type: string
+ *                             enum: [PENDING, APPROVED, REJECTED]
+ *                             nullable: true
+ *                             description: Null for DIRECT_ACTION types.
+ *                           encrypted_body:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Null for DIRECT_ACTION types.
+ *                           vc_id:
+ *                             type: string
+ *                             nullable: true
+ *                             description: The associated VC ID. For UPDATE, this is the OLD VC ID (if DIRECT_ACTION) or NEW VC ID (if REQUEST).
+ *                           new_vc_id:
+ *                             type: string
+ *                             nullable: true
+ *                             description: The NEW VC ID (only for UPDATE type from DIRECT_ACTION).
+ *                           transaction_hash:
+ *                             type: string
+ *                             nullable: true
+ *                             description: Blockchain TX hash (only for DIRECT_ACTION types).
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *       400:
+ *         description: Validation error (e.g., missing issuer_did).
+ *       401:
+ *         description: Unauthorized (Invalid or missing JWT token).
+ *       500:
+ *         description: Internal server error.
+ */
+router.get(
+  "/issuer-history",
+  verifyDIDSignature,
+  getAllIssuerRequestsValidator,
+  credentialController.getAllIssuerRequests
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/issue-vc:
+ *   post:
+ *     summary: (Issuer) Direct Issue VC
+ *     description: Endpoint khusus Issuer untuk menerbitkan VC secara langsung ke blockchain dan menyimpannya di DB (tabel VCinitiatedByIssuer) agar siap di-claim oleh holder. Ini melewati alur permintaan VCIssuanceRequest.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - holder_did
+ *               - vc_id
+ *               - vc_type
+ *               - schema_id
+ *               - schema_version
+ *               - encrypted_body
+ *               - expiredAt
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:i..."
+ *                 description: DID Issuer (harus cocok dengan DID di token JWT)
+ *               holder_did:
+ *                 type: string
+ *                 example: "did:dcert:u..."
+ *                 description: DID Holder yang akan menerima
+ *               vc_id:
+ *                 type: string
+ *                 description: ID unik untuk VC ini
+ *               vc_type:
+ *                 type: string
+ *                 example: "UniversityDegreeCredential"
+ *               schema_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID Schema yang divalidasi
+ *               schema_version:
+ *                 type: integer
+ *                 example: 1
+ *                 description: Versi Schema yang divalidasi
+ *               vc_hash:
+ *                 type: string
+ *                 example: "0x..."
+ *                 description: Hash (Keccak256) dari data VC (wajib jika vc_json dan sd_jwt tidak dikirim)
+ *               vc_json:
+ *                 type: object
+ *                 description: VC plaintext (opsional). Jika dikirim, hash dihitung ulang di server (JCS/RDFC + Keccak256) dan harus cocok dengan vc_hash. credentialStatus harus memuat entri dari /status-lists/allocate
+ *               sd_jwt:
+ *                 type: string
+ *                 example: "eyJhbGciOiJFUzI1NiJ9.eyJpc3MiOi...~WyJzYWx0IiwiYWdlIiwyMV0~"
+ *                 description: SD-JWT VC yang sudah ditandatangani issuer beserta semua disclosure (opsional, alternatif dari vc_json). Signature ES256, iss/sub/jti, dan digest disclosure diverifikasi; hash yang di-anchor adalah Keccak256 dari issuer-signed JWT. Lihat /credentials/issuer/prepare-sd-jwt
+ *               encrypted_body:
+ *                 type: string
+ *                 description: Data VC yang sudah dienkripsi untuk holder
+ *               expiredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Tanggal kadaluwarsa VC (format ISO 8601)
+ *                 example: "2026-11-04T10:00:00.000Z"
+ *               anchoring_mode:
+ *                 type: string
+ *                 enum: [direct, batch]
+ *                 default: direct
+ *                 description: |
+ *                   `batch` queues the VC hash into a Merkle batch instead of sending one transaction per VC
+ *                   (requires VC_BATCH_ANCHORING_ENABLED). The response then has no transaction_hash; poll
+ *                   /credentials/{vcId}/anchoring for the inclusion proof.
+ *     responses:
+ *       201:
+ *         description: VC berhasil diterbitkan di blockchain (atau masuk antrean batch anchoring) dan disimpan di DB.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "VC successfully issued on blockchain and saved to database."
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     vc_id:
+ *                       type: string
+ *                     transaction_hash:
+ *                       type: string
+ *                       description: Blockchain transaction hash
+ *                     block_number:
+ *                       type: integer
+ *                       description: Blockchain block number
+ *                     db_record_id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: ID record di tabel VCinitiatedByIssuer
+ *                     credential_status:
+ *                       type: array
+ *                       description: Status list entries (revocation + suspension) allocated for the VC. See /status-lists/allocate
+ *                       items:
+ *                         type: object
+ *                     anchoring:
+ *                       type: object
+ *                       description: Only for anchoring_mode batch (status QUEUED)
+ *       400:
+ *         description: Validation error, schema validation failed, or blockchain error.
+ *       401:
+ *         description: Unauthorized (Invalid or missing JWT token, or issuer_did mismatch).
+ *       500:
+ *         description: Internal server error.
+ */
+router.post(
+  "/issuer/issue-vc",
+  verifyDIDSignature,
+  idempotency,
+  issuerIssueVCValidator,
+  credentialController.issuerIssueVC
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BulkIssuanceJob:
+ *       type: object
+ *       properties:
+ *         job_id:
+ *           type: string
+ *           format: uuid
+ *         issuer_did:
+ *           type: string
+ *         schema_id:
+ *           type: string
+ *           format: uuid
+ *         schema_version:
+ *           type: integer
+ *         vc_type:
+ *           type: string
+ *           description: Nama VCSchema
+ *         anchoring_mode:
+ *           type: string
+ *           enum: [direct, batch]
+ *         manifest_name:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [PROCESSING, COMPLETED, COMPLETED_WITH_ERRORS]
+ *         progress:
+ *           type: object
+ *           properties:
+ *             total:
+ *               type: integer
+ *               example: 1200
+ *             pending:
+ *               type: integer
+ *               example: 300
+ *             issued:
+ *               type: integer
+ *               example: 890
+ *             invalid:
+ *               type: integer
+ *               example: 8
+ *               description: Baris yang ditolak validasi manifest / schema (tidak di-anchor)
+ *             failed:
+ *               type: integer
+ *               example: 2
+ *               description: Baris yang gagal di-anchor atau disimpan (dapat di-retry)
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /credentials/issuer/bulk-issuance:
+ *   post:
+ *     summary: (Issuer) Bulk Issue VCs from a Manifest
+ *     description: |
+ *       Versi bulk dari /credentials/issuer/issue-vc. Issuer mengunggah manifest (CSV atau JSON)
+ *       berisi satu baris per VC; setiap baris divalidasi terhadap VCSchema yang direferensikan
+ *       lalu di-anchor dan disimpan (VCinitiatedByIssuer) di background dengan status per baris.
+ *
+ *       **Kolom CSV (header wajib):** `holder_did, vc_id, vc_hash, encrypted_body, expiredAt`
+ *
+ *       **JSON:** array baris (atau `{ "rows": [...] }`) dengan key yang sama; `vc_json`
+ *       (plaintext VC) opsional menggantikan `vc_hash` — hash dihitung ulang dan
+ *       `credentialSubject` divalidasi terhadap schema. Tanpa file, baris dapat dikirim
+ *       sebagai `rows` di body JSON.
+ *
+ *       **Validasi per baris:** format holder DID, vc_id unik (dalam manifest, belum pernah
+ *       diterbitkan, tidak ada di job lain), format hash, expiredAt di masa depan dan tidak
+ *       melebihi `expired_in` schema. Baris yang tidak valid disimpan sebagai INVALID dan
+ *       tidak menggagalkan job. Schema harus aktif dan milik issuer.
+ *
+ *       Pantau progres dengan GET /credentials/issuer/bulk-issuance/{jobId}.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - schema_id
+ *               - schema_version
+ *               - manifest
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *               schema_id:
+ *                 type: string
+ *                 format: uuid
+ *               schema_version:
+ *                 type: integer
+ *                 example: 1
+ *               anchoring_mode:
+ *                 type: string
+ *                 enum: [direct, batch]
+ *                 default: direct
+ *               manifest:
+ *                 type: string
+ *                 format: binary
+ *                 description: File manifest CSV atau JSON (maks. BULK_ISSUANCE_MAX_ROWS baris)
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - schema_id
+ *               - schema_version
+ *               - rows
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *               schema_id:
+ *                 type: string
+ *                 format: uuid
+ *               schema_version:
+ *                 type: integer
+ *               anchoring_mode:
+ *                 type: string
+ *                 enum: [direct, batch]
+ *               rows:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     holder_did:
+ *                       type: string
+ *                     vc_id:
+ *                       type: string
+ *                     vc_hash:
+ *                       type: string
+ *                     vc_json:
+ *                       type: object
+ *                     encrypted_body:
+ *                       type: string
+ *                     expiredAt:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       201:
+ *         description: Job dibuat; baris valid diproses di background.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Bulk issuance job created: 1192 rows queued, 8 invalid."
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkIssuanceJob'
+ *       400:
+ *         description: Validation error, invalid manifest, too many rows, or inactive schema.
+ *       401:
+ *         description: Unauthorized (Invalid or missing JWT token).
+ *       403:
+ *         description: issuer_did mismatch or the schema belongs to another issuer.
+ *       404:
+ *         description: Schema not found.
+ */
+router.post(
+  "/issuer/bulk-issuance",
+  verifyDIDSignature,
+  uploadOptionalManifest,
+  idempotency,
+  createBulkIssuanceValidator,
+  credentialController.createBulkIssuance
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/bulk-issuance/{jobId}:
+ *   get:
+ *     summary: (Issuer) Get Bulk Issuance Job Progress
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Status dan progres job.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkIssuanceJob'
+ *       403:
+ *         description: Job milik issuer lain.
+ *       404:
+ *         description: Job not found.
+ */
+router.get(
+  "/issuer/bulk-issuance/:jobId",
+  verifyDIDSignature,
+  bulkIssuanceJobValidator,
+  credentialController.getBulkIssuanceJob
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/bulk-issuance/{jobId}/errors:
+ *   get:
+ *     summary: (Issuer) Download Bulk Issuance Error Report
+ *     description: Baris INVALID dan FAILED beserta pesan error-nya, urut sesuai manifest. `format=csv` mengunduh laporan sebagai file CSV.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Error report.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           row_number:
+ *                             type: integer
+ *                             example: 17
+ *                           vc_id:
+ *                             type: string
+ *                             nullable: true
+ *                           holder_did:
+ *                             type: string
+ *                             nullable: true
+ *                           status:
+ *                             type: string
+ *                             enum: [INVALID, FAILED]
+ *                           errors:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                             example: ["expiredAt must be in the future"]
+ *                           attempts:
+ *                             type: integer
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *               example: "row_number,vc_id,holder_did,status,errors"
+ *       403:
+ *         description: Job milik issuer lain.
+ *       404:
+ *         description: Job not found.
+ */
+router.get(
+  "/issuer/bulk-issuance/:jobId/errors",
+  verifyDIDSignature,
+  bulkIssuanceJobValidator,
+  credentialController.getBulkIssuanceErrors
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/bulk-issuance/{jobId}/retry:
+ *   post:
+ *     summary: (Issuer) Retry Failed Bulk Issuance Rows
+ *     description: |
+ *       Memproses ulang baris FAILED. Baris yang sudah ter-anchor hanya mengulang penyimpanan
+ *       ke DB, dan VC yang ternyata sudah ada di blockchain dengan issuer dan hash yang sama
+ *       dipakai kembali, sehingga tidak ada entri on-chain ganda. Baris INVALID tidak di-retry
+ *       (perbaiki dan unggah sebagai manifest baru).
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Baris FAILED diantrekan ulang.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BulkIssuanceJob'
+ *       400:
+ *         description: Job tidak memiliki baris FAILED.
+ *       403:
+ *         description: Job milik issuer lain.
+ *       404:
+ *         description: Job not found.
+ */
+router.post(
+  "/issuer/bulk-issuance/:jobId/retry",
+  verifyDIDSignature,
+  idempotency,
+  bulkIssuanceJobValidator,
+  credentialController.retryBulkIssuance
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/prepare-sd-jwt:
+ *   post:
+ *     summary: (Issuer) Prepare SD-JWT VC
+ *     description: |
+ *       Membuat salted disclosure untuk klaim yang dapat diungkap secara selektif (SD-JWT VC) dan
+ *       mengembalikan header/payload JWT yang harus ditandatangani issuer.
+ *
+ *       Alur: issuer menandatangani `signing_input` dengan kunci ES256 (signature r||s, base64url), lalu
+ *       mengirim `<signing_input>.<signature>~<disclosure>~...~` sebagai `sd_jwt` ke /credentials/issuer/issue-vc.
+ *       Server tidak menyimpan disclosure; disclosure dikirim ke holder di dalam encrypted_body.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - holder_did
+ *               - vc_id
+ *               - vc_type
+ *               - claims
+ *               - selectively_disclosable
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:i..."
+ *                 description: DID Issuer (harus cocok dengan DID di token JWT)
+ *               holder_did:
+ *                 type: string
+ *                 example: "did:dcert:u..."
+ *                 description: DID Holder (menjadi klaim sub dan cnf.kid)
+ *               vc_id:
+ *                 type: string
+ *                 description: ID unik untuk VC ini (menjadi klaim jti)
+ *               vc_type:
+ *                 type: string
+ *                 example: "StudentIDCredential"
+ *                 description: Tipe VC (menjadi klaim vct)
+ *               claims:
+ *                 type: object
+ *                 example: { "name": "Budi", "birthdate": "2000-01-01", "age_over_18": true }
+ *                 description: Klaim credential subject (nama klaim terdaftar seperti iss/sub/exp tidak diperbolehkan)
+ *               selectively_disclosable:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["name", "birthdate", "age_over_18"]
+ *                 description: Nama klaim top-level yang disembunyikan di balik digest
+ *               expiredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Tanggal kedaluwarsa (opsional, menjadi klaim exp)
+ *     responses:
+ *       200:
+ *         description: SD-JWT VC berhasil disiapkan.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     header:
+ *                       type: object
+ *                     payload:
+ *                       type: object
+ *                       description: Payload JWT dengan _sd (digest) dan _sd_alg
+ *                     signing_input:
+ *                       type: string
+ *                       description: base64url(header).base64url(payload) yang harus ditandatangani issuer
+ *                     disclosures:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           disclosure:
+ *                             type: string
+ *                           digest:
+ *                             type: string
+ *                           claim:
+ *                             type: string
+ *       400:
+ *         description: Validasi gagal (klaim tidak valid atau nama klaim terdaftar).
+ *       401:
+ *         description: Unauthorized (Token JWT Issuer tidak valid/hilang).
+ *       403:
+ *         description: Forbidden (Token JWT tidak cocok dengan issuer_did di body).
+ */
+router.post(
+  "/issuer/prepare-sd-jwt",
+  verifyDIDSignature,
+  idempotency,
+  prepareSdJwtVCValidator,
+  credentialController.prepareSdJwtVC
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/update-vc:
  *   post:
  *     summary: (Issuer) Direct Update VC
  *     description: Endpoint khusus Issuer untuk memperbarui VC secara langsung di blockchain. Ini akan menandai VC lama sebagai tidak aktif dan membuat VC baru, lalu menyimpannya di DB (VCinitiatedByIssuer) agar siap di-claim oleh holder.
@@ -1554,6 +2601,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1648,6 +2697,7 @@ router.post(
 router.post(
   "/issuer/update-vc",
   verifyDIDSignature,
+  idempotency,
   issuerUpdateVCValidator,
   credentialController.issuerUpdateVC
 );
@@ -1662,6 +2712,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1726,10 +2778,175 @@ router.post(
 router.post(
   "/issuer/revoke-vc",
   verifyDIDSignature,
+  idempotency,
   issuerRevokeVCValidator,
   credentialController.issuerRevokeVC
 );
 
+/**
+ * @swagger
+ * /credentials/issuer/suspend-vc:
+ *   post:
+ *     summary: (Issuer) Suspend VC
+ *     description: Endpoint khusus Issuer untuk menangguhkan (suspend) VC sementara. Berbeda dengan revoke, suspensi dapat dibatalkan melalui reinstate-vc. Status disimpan di suspension status list milik issuer (VC tetap aktif di blockchain), dan VC yang di-suspend dianggap tidak valid saat verifikasi VP.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - holder_did
+ *               - vc_id
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:i..."
+ *                 description: DID Issuer (harus cocok dengan DID di token JWT)
+ *               holder_did:
+ *                 type: string
+ *                 example: "did:dcert:u..."
+ *                 description: DID Holder pemilik VC
+ *               vc_id:
+ *                 type: string
+ *                 description: ID dari VC yang akan di-suspend
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Alasan (opsional), dikirim ke holder melalui push notification
+ *     responses:
+ *       200:
+ *         description: VC berhasil di-suspend.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "VC suspended. It will be treated as invalid until reinstated."
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     vc_id:
+ *                       type: string
+ *                     suspended:
+ *                       type: boolean
+ *                     log_id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: ID dari record IssuerActionLog
+ *       400:
+ *         description: Validasi gagal (data tidak lengkap, VC sudah dicabut, atau VC sudah di-suspend).
+ *       401:
+ *         description: Unauthorized (Token JWT Issuer tidak valid/hilang).
+ *       403:
+ *         description: Forbidden (Token JWT tidak cocok dengan issuer_did di body, atau issuer/holder bukan pemilik VC).
+ *       404:
+ *         description: Error (misal VC tidak ditemukan di blockchain).
+ *       500:
+ *         description: Internal Server Error.
+ */
+router.post(
+  "/issuer/suspend-vc",
+  verifyDIDSignature,
+  idempotency,
+  issuerSuspendVCValidator,
+  credentialController.issuerSuspendVC
+);
+
+/**
+ * @swagger
+ * /credentials/issuer/reinstate-vc:
+ *   post:
+ *     summary: (Issuer) Reinstate VC
+ *     description: Endpoint khusus Issuer untuk mengaktifkan kembali (reinstate) VC yang sebelumnya di-suspend. Bit suspensi di status list issuer dihapus.
+ *     tags:
+ *       - Verifiable Credential (VC) Lifecycle
+ *     security:
+ *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - holder_did
+ *               - vc_id
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:i..."
+ *                 description: DID Issuer (harus cocok dengan DID di token JWT)
+ *               holder_did:
+ *                 type: string
+ *                 example: "did:dcert:u..."
+ *                 description: DID Holder pemilik VC
+ *               vc_id:
+ *                 type: string
+ *                 description: ID dari VC yang akan di-reinstate
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Alasan (opsional), dikirim ke holder melalui push notification
+ *     responses:
+ *       200:
+ *         description: VC berhasil di-reinstate.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "VC reinstated and valid again."
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     vc_id:
+ *                       type: string
+ *                     suspended:
+ *                       type: boolean
+ *                     log_id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: ID dari record IssuerActionLog
+ *       400:
+ *         description: Validasi gagal (data tidak lengkap, VC sudah dicabut, atau VC tidak sedang di-suspend).
+ *       401:
+ *         description: Unauthorized (Token JWT Issuer tidak valid/hilang).
+ *       403:
+ *         description: Forbidden (Token JWT tidak cocok dengan issuer_did di body, atau issuer/holder bukan pemilik VC).
+ *       404:
+ *         description: Error (misal VC tidak ditemukan di blockchain).
+ *       500:
+ *         description: Internal Server Error.
+ */
+router.post(
+  "/issuer/reinstate-vc",
+  verifyDIDSignature,
+  idempotency,
+  issuerReinstateVCValidator,
+  credentialController.issuerReinstateVC
+);
+
 /**
  * @swagger
  * /credentials/issuer/renew-vc:
@@ -1740,6 +2957,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1816,6 +3035,7 @@ router.post(
 router.post(
   "/issuer/renew-vc",
   verifyDIDSignature,
+  idempotency,
   issuerRenewVCValidator,
   credentialController.issuerRenewVC
 );
@@ -1830,6 +3050,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1890,6 +3112,7 @@ router.post(
 router.post(
   "/claim-vc/issuer-init",
   verifyDIDSignature,
+  idempotency,
   claimIssuerInitiatedVCsBatchValidator,
   credentialController.claimIssuerInitiatedVCsBatch
 );
@@ -1904,6 +3127,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1970,6 +3195,7 @@ router.post(
 router.post(
   "/confirm-vc/issuer-init",
   verifyDIDSignature,
+  idempotency,
   confirmIssuerInitiatedVCsBatchValidator,
   credentialController.confirmIssuerInitiatedVCsBatch
 );
@@ -1981,16 +3207,24 @@ router.post(
  *     summary: Validate VC JSON for ownership
  *     description: |
  *       Validates a VC JSON file uploaded by an institution acting as a holder.
- *       This endpoint performs three validations:
+ *       This endpoint performs six validations:
  *       1. **DID Validation**: Verifies the VC belongs to the institution (credentialSubject.id matches holder_did)
  *       2. **Expiration Validation**: Checks if the VC has not expired (skipped if expiredAt is null - lifetime validity)
- *       3. **Hash Validation**: Compares the frontend-calculated hash with the blockchain hash
+ *       3. **Hash Validation**: Recomputes the hash from vc_json (canonical JSON + Keccak256) and compares it with the blockchain hash
+ *       4. **Status Validation**: Checks the VC is not revoked/inactive on blockchain
+ *       5. **Issuer DID Validation**: Resolves the issuer DID document and checks it is not deactivated
+ *       6. **Proof Validation**: Verifies the ES256 proof with the issuer's active public key
+ *
+ *       Batch anchored VCs (not on-chain by themselves) are checked against their anchored Merkle root,
+ *       using `proof.merkleInclusionProof` when present (see /credentials/{vcId}/anchoring).
  *
  *       This is useful before requesting update, renew, or revoke operations on a VC.
  *     tags:
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -1999,7 +3233,6 @@ router.post(
  *             type: object
  *             required:
  *               - vc_json
- *               - vc_hash
  *               - holder_did
  *             properties:
  *               vc_json:
@@ -2017,7 +3250,7 @@ router.post(
  *                     example: "2125-11-06T09:18:38.178Z"
  *               vc_hash:
  *                 type: string
- *                 description: Keccak256 hash of the VC data (calculated by frontend, 64-character hex string)
+ *                 description: Keccak256 hash of the VC data (optional). The server always recomputes the hash from vc_json; if provided, it must match the computed hash
  *                 example: "a1b2c3d4e5f6789012345678901234567890123456789012345678901234abcd"
  *               holder_did:
  *                 type: string
@@ -2056,12 +3289,28 @@ router.post(
  *                       type: boolean
  *                       example: true
  *                       description: Whether the hash matches blockchain
+ *                     status_valid:
+ *                       type: boolean
+ *                       example: true
+ *                       description: Whether the VC is active (not revoked) on blockchain
+ *                     issuer_did_valid:
+ *                       type: boolean
+ *                       example: true
+ *                       description: Whether the issuer DID is registered and active
+ *                     proof_valid:
+ *                       type: boolean
+ *                       example: true
+ *                       description: Whether the ES256 proof verifies against the issuer's active key
  *                     errors:
  *                       type: array
  *                       items:
  *                         type: string
  *                       example: []
  *                       description: Array of validation error messages (empty if all valid)
+ *                     computed_hash:
+ *                       type: string
+ *                       description: Hash recomputed by the server from vc_json
+ *                       example: "a1b2c3d4e5f6789012345678901234567890123456789012345678901234abcd"
  *                     vc_id:
  *                       type: string
  *                       example: "1c6247bb-f7bc-4d25-bf5c-4bc82f1d0376:12:did:dcert:..."
@@ -2080,6 +3329,12 @@ router.post(
  *                     is_expired:
  *                       type: boolean
  *                       example: false
+ *                     is_revoked:
+ *                       type: boolean
+ *                       example: false
+ *                     is_issuer_deactivated:
+ *                       type: boolean
+ *                       example: false
  *       400:
  *         description: Validation error (invalid request body)
  *       500:
@@ -2088,6 +3343,7 @@ router.post(
 router.post(
   "/validate-vc",
   verifyDIDSignature,
+  idempotency,
   validateVCValidator,
   credentialController.validateVC
 );
@@ -2111,6 +3367,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2166,6 +3424,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2212,12 +3472,14 @@ router.post(
   "/file",
   verifyDIDSignature,
   uploadSingleFile,
+  idempotency,
   credentialController.uploadVCDocumentFile
 );
 
 router.delete(
   "/file",
   verifyDIDSignature,
+  idempotency,
   deleteVCDocumentValidator,
   credentialController.deleteVCDocumentFile
 );
@@ -2232,6 +3494,8 @@ router.delete(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2341,6 +3605,7 @@ router.delete(
 router.post(
   "/claim-combined-batch",
   verifyDIDSignature,
+  idempotency,
   claimCombinedVCsBatchValidator,
   credentialController.claimCombinedVCsBatch
 );
@@ -2355,6 +3620,8 @@ router.post(
  *       - Verifiable Credential (VC) Lifecycle
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2430,6 +3697,7 @@ router.post(
 router.post(
   "/confirm-combined-batch",
   verifyDIDSignature,
+  idempotency,
   confirmCombinedVCsBatchValidator,
   credentialController.confirmCombinedVCsBatch
 );
@@ -2443,6 +3711,8 @@ router.post(
  *     tags: [Verifiable Credential (VC) Lifecycle]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -2518,6 +3788,7 @@ router.post(
 router.post(
   "/issuer/vc",
   verifyDIDSignature,
+  idempotency,
   storeIssuerVCDataValidator,
   credentialController.storeIssuerVCData
 );
@@ -2625,6 +3896,7 @@ router.get(
  *     security:
  *       - HolderBearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: id
  *         required: true
@@ -2692,6 +3964,7 @@ router.get(
 router.put(
   "/issuer/vc/:id",
   verifyDIDSignature,
+  idempotency,
   updateIssuerVCDataValidator,
   credentialController.updateIssuerVCData
 );
@@ -12,6 +12,7 @@ import {
   keyRotationValidator,
   deleteDIDValidator,
   deleteDIDByAdminValidator,
+  getDeactivationReportValidator,
   getDIDDocumentValidator,
 } from "../validators/did.validator";
 
@@ -85,6 +86,83 @@ const router: Router = express.Router();
  *           format: date-time
  *           example: "2025-10-21T10:30:00Z"
  *
+ *     W3CDIDDocument:
+ *       type: object
+ *       description: W3C DID Core document rendered from the on-chain DID record (application/did+ld+json or application/did+json)
+ *       properties:
+ *         '@context':
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["https://www.w3.org/ns/did/v1", "https://w3id.org/security/suites/jws-2020/v1"]
+ *           description: JSON-LD context (omitted for application/did+json)
+ *         id:
+ *           type: string
+ *           example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *         controller:
+ *           type: string
+ *           example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *         verificationMethod:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: "did:dcert:iABCD...#key-1"
+ *               type:
+ *                 type: string
+ *                 example: "JsonWebKey2020"
+ *               controller:
+ *                 type: string
+ *                 example: "did:dcert:iABCD..."
+ *               publicKeyJwk:
+ *                 type: object
+ *                 properties:
+ *                   kty:
+ *                     type: string
+ *                     example: "EC"
+ *                   crv:
+ *                     type: string
+ *                     example: "P-256"
+ *                   x:
+ *                     type: string
+ *                     example: "u34R_4zcpFSQHRZVDNKNQCzNe3QNdDz0PpN-gIVkA1k"
+ *                   y:
+ *                     type: string
+ *                     example: "--cs1S9R6toPVpqjUl8KTwBXlxKgLyqaWASteVMBIZE"
+ *         authentication:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["did:dcert:iABCD...#key-1"]
+ *         assertionMethod:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["did:dcert:iABCD...#key-1"]
+ *         keyAgreement:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["did:dcert:iABCD...#key-1"]
+ *           description: The same P-256 key is used for ECIES encryption of VCs
+ *         service:
+ *           type: array
+ *           description: Only present for institutions with a website
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 example: "did:dcert:iABCD...#linked-domain"
+ *               type:
+ *                 type: string
+ *                 example: "LinkedDomains"
+ *               serviceEndpoint:
+ *                 type: string
+ *                 example: "https://ui.ac.id"
+ *
  *     DIDMetadata:
  *       type: object
  *       properties:
@@ -496,6 +574,11 @@ router.get("/check/:did", checkDIDValidator, did.checkDID);
  *                       type: integer
  *                       example: 12345
  *                       description: Total number of blocks in the chain
+ *                     indexedBlock:
+ *                       type: integer
+ *                       nullable: true
+ *                       example: 12342
+ *                       description: Last block indexed by the chain indexer (only when INDEXER_ENABLED=true)
  *       500:
  *         description: Internal server error or blockchain connection failure
  */
@@ -523,6 +606,11 @@ router.get("/blocks", did.numberofBlocks);
  *       4. Update DID document
  *
  *       **Important:** Keep the old private key secure until rotation is complete.
+ *
+ *       **Historical keys:** The previous key stays on blockchain (`#key-N`) and the rotation time is
+ *       recorded. Only issuer VC proofs that reference it via `verificationMethod` / `kid` remain
+ *       verifiable, if they were created (`proof.created` / `iat`) before the rotation. Request
+ *       authentication, VP proofs and key-binding JWTs must use the active key.
  *     tags:
  *       - DID Management
  *     security:
@@ -642,11 +730,16 @@ router.put(
  *
  *       **Deactivation process:**
  *       1. Verify JWT token contains valid DID signature
- *       2. Query all VCs owned by the holder (from IssuerVCData table)
- *       3. Create revoke requests to each issuer (encrypted with issuer's public key)
- *       4. Mark DID as deactivated on blockchain
- *       5. **Important:** Deactivation is permanent and cannot be reversed
- *       6. **Note:** VCs will be revoked after issuer approves the revoke requests
+ *       2. Record the deactivation with every VC held or issued by the DID (from IssuerVCData table)
+ *       3. Mark DID as deactivated on blockchain
+ *       4. Create revoke requests to each issuer of a held VC (encrypted with issuer's public key)
+ *       5. Institutions: revoke the VCs they issued on blockchain and in the status list
+ *          (unless DID_DEACTIVATION_REVOKE_ISSUED=false)
+ *       6. **Important:** Deactivation is permanent and cannot be reversed
+ *       7. **Note:** Held VCs will be revoked after issuer approves the revoke requests
+ *
+ *       Failed items are retried in the background; calling this endpoint again for a
+ *       deactivated DID resumes the cascade. Progress: `GET /dids/{did}/deactivation`.
  *
  *       **Use cases:**
  *       - Account closure
@@ -691,10 +784,23 @@ router.put(
  *                     did:
  *                       type: string
  *                       example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *                     deactivationId:
+ *                       type: string
+ *                       format: uuid
+ *                     status:
+ *                       type: string
+ *                       enum: [PROCESSING, COMPLETED, INCOMPLETE]
+ *                       example: "COMPLETED"
  *                     revokeRequestsCount:
  *                       type: integer
  *                       example: 3
  *                       description: Number of revoke requests that were created
+ *                     revokedIssuedCount:
+ *                       type: integer
+ *                       example: 0
+ *                       description: Number of VCs issued by the DID that were revoked
+ *                     summary:
+ *                       $ref: '#/components/schemas/DIDDeactivationSummary'
  *                     transactionHash:
  *                       type: string
  *                       example: "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210"
@@ -725,11 +831,16 @@ router.delete("/:did", verifyDIDSignature, deleteDIDValidator, did.deleteDID);
  *
  *       **Deactivation process:**
  *       1. Verify admin authentication
- *       2. Query all VCs owned by the holder (from IssuerVCData table)
- *       3. Create revoke requests to each issuer (encrypted with issuer's public key)
- *       4. Mark DID as deactivated on blockchain
- *       5. **Important:** Deactivation is permanent and cannot be reversed
- *       6. **Note:** VCs will be revoked after issuer approves the revoke requests
+ *       2. Record the deactivation with every VC held or issued by the DID (from IssuerVCData table)
+ *       3. Mark DID as deactivated on blockchain
+ *       4. Create revoke requests to each issuer of a held VC (encrypted with issuer's public key)
+ *       5. Institutions: revoke the VCs they issued on blockchain and in the status list
+ *          (unless DID_DEACTIVATION_REVOKE_ISSUED=false)
+ *       6. **Important:** Deactivation is permanent and cannot be reversed
+ *       7. **Note:** Held VCs will be revoked after issuer approves the revoke requests
+ *
+ *       Failed items are retried in the background; calling this endpoint again for a
+ *       deactivated DID resumes the cascade. Progress: `GET /dids/admin/{did}/deactivation`.
  *
  *       **Use cases:**
  *       - Admin-initiated account deactivation
@@ -774,10 +885,23 @@ router.delete("/:did", verifyDIDSignature, deleteDIDValidator, did.deleteDID);
  *                     did:
  *                       type: string
  *                       example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *                     deactivationId:
+ *                       type: string
+ *                       format: uuid
+ *                     status:
+ *                       type: string
+ *                       enum: [PROCESSING, COMPLETED, INCOMPLETE]
+ *                       example: "COMPLETED"
  *                     revokeRequestsCount:
  *                       type: integer
  *                       example: 3
  *                       description: Number of revoke requests that were created
+ *                     revokedIssuedCount:
+ *                       type: integer
+ *                       example: 0
+ *                       description: Number of VCs issued by the DID that were revoked
+ *                     summary:
+ *                       $ref: '#/components/schemas/DIDDeactivationSummary'
  *                     transactionHash:
  *                       type: string
  *                       example: "fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210"
@@ -800,6 +924,216 @@ router.delete(
   did.deleteDIDByAdmin
 );
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DIDDeactivationSummary:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           example: 4
+ *         pending:
+ *           type: integer
+ *           example: 0
+ *         requestCreated:
+ *           type: integer
+ *           example: 2
+ *           description: Held VCs with a revoke request to their issuer
+ *         revoked:
+ *           type: integer
+ *           example: 1
+ *           description: Issued VCs revoked on blockchain / status list
+ *         skipped:
+ *           type: integer
+ *           example: 1
+ *         failed:
+ *           type: integer
+ *           example: 0
+ *     DIDDeactivationReport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         did:
+ *           type: string
+ *           example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *         initiated_by:
+ *           type: string
+ *           enum: [holder, admin]
+ *         status:
+ *           type: string
+ *           enum: [PENDING, PROCESSING, COMPLETED, INCOMPLETE]
+ *           description: |
+ *             - PENDING: DID not deactivated on blockchain yet (see error)
+ *             - PROCESSING: DID deactivated, VCs pending or waiting for a retry
+ *             - COMPLETED: every VC processed
+ *             - INCOMPLETE: VCs still failing after the retry limit (deactivate again to resume)
+ *         transaction_hash:
+ *           type: string
+ *           nullable: true
+ *         block_number:
+ *           type: integer
+ *           nullable: true
+ *         error:
+ *           type: string
+ *           nullable: true
+ *         deactivated_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         summary:
+ *           $ref: '#/components/schemas/DIDDeactivationSummary'
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [HELD, ISSUED]
+ *                 description: VC held by the DID (revoke request) or issued by it (revocation)
+ *               vc_id:
+ *                 type: string
+ *                 nullable: true
+ *               counterparty_did:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Issuer of a HELD VC, holder of an ISSUED VC
+ *               outcome:
+ *                 type: string
+ *                 enum: [PENDING, REQUEST_CREATED, REVOKED, SKIPPED, FAILED]
+ *               reason:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "Issuer DID did:dcert:i... is deactivated"
+ *               revoke_request_id:
+ *                 type: string
+ *                 nullable: true
+ *               transaction_hash:
+ *                 type: string
+ *                 nullable: true
+ *               attempts:
+ *                 type: integer
+ *                 example: 1
+ *               last_attempt_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ */
+
+/**
+ * @swagger
+ * /dids/{did}/deactivation:
+ *   get:
+ *     summary: Get DID deactivation report (User)
+ *     description: |
+ *       Progress of the deactivation cascade of the authenticated DID: the on-chain
+ *       deactivation and the outcome of every VC it held or issued.
+ *       The JWT must be signed by the DID in the path.
+ *     tags:
+ *       - DID Management
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: did
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$'
+ *         example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *     responses:
+ *       200:
+ *         description: Deactivation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "DID deactivation report retrieved successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/DIDDeactivationReport'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized (Invalid or missing JWT token)
+ *       403:
+ *         description: Authenticated DID does not match the DID in the path
+ *       404:
+ *         description: No deactivation found for this DID
+ */
+router.get(
+  "/:did/deactivation",
+  verifyDIDSignature,
+  getDeactivationReportValidator,
+  did.getDeactivationReport
+);
+
+/**
+ * @swagger
+ * /dids/admin/{did}/deactivation:
+ *   get:
+ *     summary: Get DID deactivation report (Admin)
+ *     description: |
+ *       Progress of the deactivation cascade of a DID: the on-chain deactivation and
+ *       the outcome of every VC it held or issued.
+ *     tags:
+ *       - DID Management
+ *     security:
+ *       - AdminBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: did
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$'
+ *         example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *     responses:
+ *       200:
+ *         description: Deactivation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "DID deactivation report retrieved successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/DIDDeactivationReport'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized (Invalid or missing admin token)
+ *       404:
+ *         description: No deactivation found for this DID
+ */
+router.get(
+  "/admin/:did/deactivation",
+  adminAuthMiddleware,
+  getDeactivationReportValidator,
+  did.getDeactivationReportByAdmin
+);
+
 /**
  * @swagger
  * /dids/{did}/document:
@@ -819,6 +1153,13 @@ router.delete(
  *       - Service endpoints
  *       - Created/Updated timestamps
  *
+ *       **Content negotiation (`Accept` header):**
+ *       - `application/json` (default): DID record wrapped in the standard response envelope; returns 200 even if the DID is not found
+ *       - `application/did+ld+json`: W3C DID Core document with `@context` (JsonWebKey2020 keys, keyAgreement, LinkedDomains service for institutions)
+ *       - `application/did+json`: same document without `@context`
+ *
+ *       W3C representations return 404 `{ error: "notFound" }` for unknown DIDs.
+ *
  *       **Standards:**
  *       - Follows W3C DID Core specification
  *       - JSON-LD format with proper context
@@ -890,6 +1231,14 @@ router.delete(
  *                     error: "Not Found"
  *                     message: "DID not found on blockchain"
  *                     did: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *           application/did+ld+json:
+ *             schema:
+ *               $ref: '#/components/schemas/W3CDIDDocument'
+ *           application/did+json:
+ *             schema:
+ *               $ref: '#/components/schemas/W3CDIDDocument'
+ *       404:
+ *         description: DID not found (application/did+ld+json and application/did+json only)
  *       500:
  *         description: Internal server error or blockchain failure
  */
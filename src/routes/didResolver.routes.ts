@@ -0,0 +1,111 @@
+import express, { Router } from "express";
+import * as didResolverController from "../controllers/didResolver.controller";
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: DID Resolution
+ *   description: DID resolution endpoint compatible with the Universal Resolver driver interface
+ */
+
+/**
+ * @swagger
+ * /1.0/identifiers/{did}:
+ *   servers:
+ *     - url: /
+ *       description: Served at the server root (not under /api/v1)
+ *   get:
+ *     summary: Resolve a did:dcert, did:key or did:web DID
+ *     description: |
+ *       Resolves a DID to a DID resolution result (`didDocument`, `didResolutionMetadata`,
+ *       `didDocumentMetadata`) following the Universal Resolver driver interface, so the method can
+ *       be plugged into a Universal Resolver instance.
+ *
+ *       The DID document is built from the blockchain record (see `/dids/{did}/document` with
+ *       `Accept: application/did+ld+json`). `created`, `updated` and `versionId` come from the DID
+ *       version history recorded on registration, key rotation and deactivation; DIDs registered
+ *       before the history was introduced have no version metadata.
+ *
+ *       `did:key` (P-256 / Ed25519 Multikey) documents are derived from the identifier and `did:web`
+ *       documents are fetched from the domain; neither supports `versionId` / `versionTime`.
+ *
+ *       **Errors** (`didResolutionMetadata.error`):
+ *       - `invalidDid` (400), `invalidOptions` (400)
+ *       - `notFound` (404) - DID or requested version does not exist
+ *       - `deactivated` (410) - the DID document is still returned with `deactivated: true`
+ *       - `methodNotSupported` (501) - methods other than `did:dcert`, `did:key` and `did:web`
+ *     tags:
+ *       - DID Resolution
+ *     parameters:
+ *       - in: path
+ *         name: did
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *       - in: query
+ *         name: versionId
+ *         schema:
+ *           type: string
+ *           example: "2"
+ *         description: Resolve a specific version (cannot be combined with versionTime)
+ *       - in: query
+ *         name: versionTime
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Resolve the version that was current at this time
+ *     responses:
+ *       200:
+ *         description: DID resolved
+ *         content:
+ *           application/ld+json;profile="https://w3id.org/did-resolution":
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 didDocument:
+ *                   $ref: '#/components/schemas/W3CDIDDocument'
+ *                 didResolutionMetadata:
+ *                   type: object
+ *                   properties:
+ *                     contentType:
+ *                       type: string
+ *                       example: "application/did+ld+json"
+ *                     retrieved:
+ *                       type: string
+ *                       format: date-time
+ *                     error:
+ *                       type: string
+ *                 didDocumentMetadata:
+ *                   type: object
+ *                   properties:
+ *                     created:
+ *                       type: string
+ *                       format: date-time
+ *                     updated:
+ *                       type: string
+ *                       format: date-time
+ *                     deactivated:
+ *                       type: boolean
+ *                     versionId:
+ *                       type: string
+ *                       example: "2"
+ *                     nextUpdate:
+ *                       type: string
+ *                       format: date-time
+ *                     nextVersionId:
+ *                       type: string
+ *       400:
+ *         description: invalidDid or invalidOptions
+ *       404:
+ *         description: notFound
+ *       410:
+ *         description: deactivated
+ *       501:
+ *         description: methodNotSupported
+ */
+router.get("/identifiers/:did", didResolverController.resolveDID);
+
+export default router;
@@ -11,3 +11,7 @@ export { default as schemaRoutes } from './schema.routes';
 export { default as presentationRoutes } from './presentation.routes';
 export { default as notificationRoutes } from './notification.routes';
 export { default as institutionRoutes } from './institution.routes';
+export { default as statusListRoutes } from './statusList.routes';
+export { default as oid4vciRoutes } from './oid4vci.routes';
+export { default as oid4vpRoutes } from './oid4vp.routes';
+export { default as didResolverRoutes } from './didResolver.routes';
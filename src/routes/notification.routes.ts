@@ -57,6 +57,11 @@ const router = Router();
  *                 type: string
  *                 example: Samsung Galaxy S21
  *                 description: Optional device name
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: holder@example.com
+ *                 description: Optional email for credential expiry reminders (re-register without it to opt out)
  *     responses:
  *       201:
  *         description: Push token registered successfully
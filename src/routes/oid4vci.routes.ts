@@ -0,0 +1,356 @@
+import express, { Router } from "express";
+import * as oid4vciController from "../controllers/oid4vci.controller";
+import { verifyDIDSignature } from "../middlewares";
+import {
+  createCredentialOfferValidator,
+  getCredentialOfferValidator,
+} from "../validators/oid4vci.validator";
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: OID4VCI
+ *   description: OpenID for Verifiable Credential Issuance (pre-authorized code flow) for third-party wallets
+ */
+
+/**
+ * @swagger
+ * /oid4vci/.well-known/openid-credential-issuer:
+ *   get:
+ *     summary: Credential issuer metadata
+ *     description: |
+ *       Public OID4VCI credential issuer metadata. Every active VC schema is advertised as two
+ *       credential configurations: `<schema_id>_v<version>_ldp_vc` and `<schema_id>_v<version>_sd_jwt`.
+ *       The response body is the metadata document itself (no response envelope).
+ *     tags:
+ *       - OID4VCI
+ *     responses:
+ *       200:
+ *         description: Credential issuer metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 credential_issuer:
+ *                   type: string
+ *                   example: "https://api.example.com/api/v1/oid4vci"
+ *                 authorization_servers:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 credential_endpoint:
+ *                   type: string
+ *                   example: "https://api.example.com/api/v1/oid4vci/credential"
+ *                 credential_configurations_supported:
+ *                   type: object
+ */
+router.get(
+  "/.well-known/openid-credential-issuer",
+  oid4vciController.getCredentialIssuerMetadata
+);
+
+/**
+ * @swagger
+ * /oid4vci/.well-known/oauth-authorization-server:
+ *   get:
+ *     summary: OAuth authorization server metadata
+ *     description: Public metadata advertising the token endpoint and the pre-authorized code grant
+ *     tags:
+ *       - OID4VCI
+ *     responses:
+ *       200:
+ *         description: Authorization server metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 issuer:
+ *                   type: string
+ *                 token_endpoint:
+ *                   type: string
+ *                 grant_types_supported:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     example: "urn:ietf:params:oauth:grant-type:pre-authorized_code"
+ *                 pre-authorized_grant_anonymous_access_supported:
+ *                   type: boolean
+ *                   example: true
+ */
+router.get(
+  "/.well-known/oauth-authorization-server",
+  oid4vciController.getAuthorizationServerMetadata
+);
+
+/**
+ * @swagger
+ * /oid4vci/offers:
+ *   post:
+ *     summary: (Issuer) Create a credential offer
+ *     description: |
+ *       Creates an OID4VCI credential offer with a pre-authorized code for a VC the issuer has
+ *       already signed. Provide either `vc_json` (signed JSON-LD VC, ES256 proof) or `sd_jwt`
+ *       (issuer-signed SD-JWT VC with all disclosures, see `/credentials/issuer/prepare-sd-jwt`).
+ *
+ *       The VC is validated now and anchored on blockchain only when the wallet requests it from the
+ *       credential endpoint. A `vc_json` must embed the status list entries allocated with
+ *       `/status-lists/allocate` (before signing) in `credentialStatus`.
+ *
+ *       Share `credential_offer_link` (e.g. as a QR code) with the holder's wallet. When `tx_code`
+ *       is true the returned PIN must be delivered to the holder out-of-band.
+ *     tags:
+ *       - OID4VCI
+ *     security:
+ *       - HolderBearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - holder_did
+ *               - vc_id
+ *               - vc_type
+ *               - schema_id
+ *               - schema_version
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 description: DID Issuer (must match the DID in the JWT token)
+ *               holder_did:
+ *                 type: string
+ *                 description: DID of the holder; the wallet must prove possession of its key
+ *               vc_id:
+ *                 type: string
+ *               vc_type:
+ *                 type: string
+ *               schema_id:
+ *                 type: string
+ *                 format: uuid
+ *               schema_version:
+ *                 type: integer
+ *                 minimum: 1
+ *               vc_json:
+ *                 type: object
+ *                 description: Signed JSON-LD VC (ldp_vc). Required unless sd_jwt is provided.
+ *               sd_jwt:
+ *                 type: string
+ *                 description: Issuer-signed SD-JWT VC with all disclosures (vc+sd-jwt)
+ *               expiredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: VC expiry anchored on blockchain (optional)
+ *               tx_code:
+ *                 type: boolean
+ *                 description: Require a 6-digit PIN in the token request (optional, defaults to false)
+ *     responses:
+ *       201:
+ *         description: Credential offer created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Credential offer created successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     offer_id:
+ *                       type: string
+ *                       format: uuid
+ *                     credential_offer:
+ *                       type: object
+ *                       description: Credential offer object (by value)
+ *                     credential_offer_uri:
+ *                       type: string
+ *                     credential_offer_link:
+ *                       type: string
+ *                       example: "openid-credential-offer://?credential_offer_uri=https%3A%2F%2Fapi.example.com%2Fapi%2Fv1%2Foid4vci%2Foffers%2F..."
+ *                     tx_code:
+ *                       type: string
+ *                       description: PIN to share with the holder (only when tx_code was requested)
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Invalid credential (hash, subject or signature) or inactive schema
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Token DID does not match issuer_did
+ *       404:
+ *         description: Schema not found
+ *       409:
+ *         description: An offer for this vc_id already exists
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+  "/offers",
+  verifyDIDSignature,
+  createCredentialOfferValidator,
+  oid4vciController.createCredentialOffer
+);
+
+/**
+ * @swagger
+ * /oid4vci/offers/{offerId}:
+ *   get:
+ *     summary: Get credential offer (credential_offer_uri)
+ *     description: Public endpoint dereferenced by wallets from `credential_offer_uri`. Returns the credential offer object itself.
+ *     tags:
+ *       - OID4VCI
+ *     parameters:
+ *       - in: path
+ *         name: offerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credential offer object
+ *       410:
+ *         description: Offer has expired or has already been redeemed
+ */
+router.get(
+  "/offers/:offerId",
+  getCredentialOfferValidator,
+  oid4vciController.getCredentialOffer
+);
+
+/**
+ * @swagger
+ * /oid4vci/token:
+ *   post:
+ *     summary: (Wallet) Token endpoint
+ *     description: |
+ *       Exchanges a pre-authorized code (and the PIN, if the offer requires one) for an access token
+ *       and a `c_nonce`. Each code can be redeemed once. Errors use the OAuth 2.0 format
+ *       `{ error, error_description }`.
+ *     tags:
+ *       - OID4VCI
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - grant_type
+ *               - pre-authorized_code
+ *             properties:
+ *               grant_type:
+ *                 type: string
+ *                 example: "urn:ietf:params:oauth:grant-type:pre-authorized_code"
+ *               pre-authorized_code:
+ *                 type: string
+ *               tx_code:
+ *                 type: string
+ *                 description: Required when the offer has a PIN; the offer is invalidated after 5 wrong attempts
+ *     responses:
+ *       200:
+ *         description: Access token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 access_token:
+ *                   type: string
+ *                 token_type:
+ *                   type: string
+ *                   example: Bearer
+ *                 expires_in:
+ *                   type: integer
+ *                   example: 300
+ *                 c_nonce:
+ *                   type: string
+ *                 c_nonce_expires_in:
+ *                   type: integer
+ *                   example: 300
+ *       400:
+ *         description: invalid_request, invalid_grant or unsupported_grant_type
+ */
+router.post(
+  "/token",
+  express.urlencoded({ extended: false }),
+  oid4vciController.exchangeToken
+);
+
+/**
+ * @swagger
+ * /oid4vci/credential:
+ *   post:
+ *     summary: (Wallet) Credential endpoint
+ *     description: |
+ *       Delivers the offered credential. Requires the access token from the token endpoint and a
+ *       proof JWT (`typ: openid4vci-proof+jwt`, ES256) signed with the holder DID key, with
+ *       `kid` = `<holder_did>#<key>`, `aud` = the credential issuer and `nonce` = the current `c_nonce`.
+ *       On success the VC is anchored on blockchain and returned; `ldp_vc` credentials are returned
+ *       as JSON objects, `vc+sd-jwt` credentials in compact form.
+ *
+ *       An `invalid_proof` error carries a fresh `c_nonce` to retry with.
+ *     tags:
+ *       - OID4VCI
+ *     security:
+ *       - OID4VCIAccessToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - proof
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [ldp_vc, vc+sd-jwt]
+ *               credential_configuration_id:
+ *                 type: string
+ *               proof:
+ *                 type: object
+ *                 properties:
+ *                   proof_type:
+ *                     type: string
+ *                     example: jwt
+ *                   jwt:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Credential issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 credential:
+ *                   oneOf:
+ *                     - type: object
+ *                     - type: string
+ *                 c_nonce:
+ *                   type: string
+ *                 c_nonce_expires_in:
+ *                   type: integer
+ *       400:
+ *         description: invalid_proof, unsupported_credential_type or unsupported_credential_format
+ *       401:
+ *         description: invalid_token - missing, expired or already used access token
+ *       500:
+ *         description: Blockchain anchoring failed (the wallet may retry with the same access token)
+ */
+router.post("/credential", oid4vciController.issueCredential);
+
+export default router;
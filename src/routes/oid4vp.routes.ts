@@ -0,0 +1,316 @@
+import express, { Router } from "express";
+import * as oid4vpController from "../controllers/oid4vp.controller";
+import { verifyDIDSignature } from "../middlewares";
+import {
+  createAuthorizationRequestValidator,
+  signAuthorizationRequestValidator,
+  authorizationRequestIdValidator,
+} from "../validators/oid4vp.validator";
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: OID4VP
+ *   description: OpenID for Verifiable Presentations (request_uri + direct_post) so standard wallets can present to verifiers via QR code
+ */
+
+/**
+ * @swagger
+ * /oid4vp/requests:
+ *   post:
+ *     summary: (Verifier) Prepare an OID4VP authorization request
+ *     description: |
+ *       Creates an authorization request for a DIF Presentation Exchange definition and returns the
+ *       request object to sign. The verifier signs `signing_input` with the ES256 key of its DID
+ *       (JWS, `typ: oauth-authz-req+jwt`) and submits the signature to `/oid4vp/requests/{requestId}/sign`.
+ *
+ *       The request uses `client_id_scheme: did` (client_id = verifier DID), `response_mode: direct_post`
+ *       and a fresh `nonce`, which the wallet must bind into the VP proof `challenge` (LDP) or the
+ *       KB-JWT `nonce` (SD-JWT), with the verifier DID as `domain` / `aud`.
+ *     tags:
+ *       - OID4VP
+ *     security:
+ *       - VerifierBearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - verifier_did
+ *               - verifier_name
+ *               - purpose
+ *               - presentation_definition
+ *             properties:
+ *               verifier_did:
+ *                 type: string
+ *                 description: DID of the verifier (must match the DID in the JWT token)
+ *               verifier_name:
+ *                 type: string
+ *                 example: PT. ABC Company
+ *               purpose:
+ *                 type: string
+ *                 example: Employment verification
+ *               presentation_definition:
+ *                 type: object
+ *                 description: DIF Presentation Exchange v2 definition (see /presentations/request)
+ *     responses:
+ *       201:
+ *         description: Request object prepared
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorization_request_id:
+ *                       type: string
+ *                       format: uuid
+ *                     header:
+ *                       type: object
+ *                     payload:
+ *                       type: object
+ *                     signing_input:
+ *                       type: string
+ *                       description: base64url(header).base64url(payload) to sign with ES256
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Verifier DID not found or not active
+ *       403:
+ *         description: Token DID does not match verifier_did
+ *       422:
+ *         description: Validation error
+ */
+router.post(
+  "/requests",
+  verifyDIDSignature,
+  createAuthorizationRequestValidator,
+  oid4vpController.createAuthorizationRequest
+);
+
+/**
+ * @swagger
+ * /oid4vp/requests/{requestId}/sign:
+ *   post:
+ *     summary: (Verifier) Publish a signed authorization request
+ *     description: |
+ *       Attaches the verifier's ES256 signature (base64url, r || s) to the prepared request object.
+ *       Returns the `authorization_request_uri` (`openid4vp://?client_id=...&request_uri=...`) to
+ *       render as a QR code for the wallet.
+ *     tags:
+ *       - OID4VP
+ *     security:
+ *       - VerifierBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - verifier_did
+ *               - signature
+ *             properties:
+ *               verifier_did:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *                 description: base64url ES256 signature over signing_input
+ *     responses:
+ *       200:
+ *         description: Authorization request signed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorization_request_id:
+ *                       type: string
+ *                     request_uri:
+ *                       type: string
+ *                     authorization_request_uri:
+ *                       type: string
+ *                       example: "openid4vp://?client_id=did%3Adcert%3Ai...&request_uri=https%3A%2F%2Fapi.example.com%2Fapi%2Fv1%2Foid4vp%2Frequests%2F...%2Frequest-object"
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Invalid signature or request already signed
+ *       403:
+ *         description: Request belongs to another verifier
+ *       404:
+ *         description: Authorization request not found
+ *       410:
+ *         description: Authorization request has expired
+ */
+router.post(
+  "/requests/:requestId/sign",
+  verifyDIDSignature,
+  signAuthorizationRequestValidator,
+  oid4vpController.signAuthorizationRequest
+);
+
+/**
+ * @swagger
+ * /oid4vp/requests/{requestId}:
+ *   get:
+ *     summary: (Verifier) Get authorization request status and verification result
+ *     description: |
+ *       Polled by the verifier after showing the QR code. Once the wallet responds the status is
+ *       RESPONDED and `verification_result` holds the `verifyVP` result (including
+ *       `presentation_evaluation`); DECLINED means the wallet returned an error.
+ *     tags:
+ *       - OID4VP
+ *     security:
+ *       - VerifierBearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Authorization request status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     authorization_request_id:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [CREATED, PENDING, RESPONDED, DECLINED, EXPIRED]
+ *                     vp_request_id:
+ *                       type: string
+ *                       nullable: true
+ *                     vp_id:
+ *                       type: string
+ *                       nullable: true
+ *                     verification_result:
+ *                       type: object
+ *                       nullable: true
+ *                     error:
+ *                       type: string
+ *                       nullable: true
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *       403:
+ *         description: Request belongs to another verifier
+ */
+router.get(
+  "/requests/:requestId",
+  verifyDIDSignature,
+  authorizationRequestIdValidator,
+  oid4vpController.getAuthorizationRequest
+);
+
+/**
+ * @swagger
+ * /oid4vp/requests/{requestId}/request-object:
+ *   get:
+ *     summary: (Wallet) Get signed request object (request_uri)
+ *     description: Returns the verifier-signed request object JWT with content type `application/oauth-authz-req+jwt`.
+ *     tags:
+ *       - OID4VP
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Signed request object
+ *         content:
+ *           application/oauth-authz-req+jwt:
+ *             schema:
+ *               type: string
+ *       410:
+ *         description: Request has expired or has already been answered
+ */
+router.get(
+  "/requests/:requestId/request-object",
+  authorizationRequestIdValidator,
+  oid4vpController.getRequestObject
+);
+
+/**
+ * @swagger
+ * /oid4vp/response:
+ *   post:
+ *     summary: (Wallet) direct_post response endpoint
+ *     description: |
+ *       Receives the wallet's authorization response. The `vp_token` (JSON-LD VP or compact SD-JWT
+ *       presentation) is stored in VPSharing, linked to a VPRequest whose challenge/domain are the
+ *       request nonce and verifier DID, and verified with the standard VP verification.
+ *       Errors use the OAuth 2.0 format `{ error, error_description }`.
+ *     tags:
+ *       - OID4VP
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - state
+ *             properties:
+ *               vp_token:
+ *                 type: string
+ *               presentation_submission:
+ *                 type: string
+ *                 description: JSON-encoded presentation submission
+ *               state:
+ *                 type: string
+ *               error:
+ *                 type: string
+ *                 description: Set instead of vp_token when the wallet declines
+ *               error_description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Response accepted
+ *       400:
+ *         description: invalid_request - unknown state, expired request or invalid vp_token
+ */
+router.post(
+  "/response",
+  express.urlencoded({ extended: false }),
+  oid4vpController.handleAuthorizationResponse
+);
+
+export default router;
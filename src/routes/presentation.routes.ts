@@ -11,6 +11,7 @@ import {
   deleteVPValidator,
 } from "../validators/presentation.validator";
 import { verifyDIDSignature } from "../middlewares/didAuth.middleware";
+import { idempotency } from "../middlewares/idempotency.middleware";
 
 const router: Router = express.Router();
 
@@ -31,6 +32,8 @@ const router: Router = express.Router();
  *       - Verification & Presentation (VP) Flow
  *     security:
  *       - VerifierBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -42,7 +45,6 @@ const router: Router = express.Router();
  *               - verifier_name
  *               - holder_did
  *               - purpose
- *               - requested_credentials
  *             properties:
  *               verifier_did:
  *                 type: string
@@ -82,7 +84,67 @@ const router: Router = express.Router();
  *                       type: number
  *                       example: 1
  *                       description: Version of the credential schema
- *                 description: List of credential schemas being requested (verifier only specifies schema, not specific VCs)
+ *                 description: List of credential schemas being requested (verifier only specifies schema, not specific VCs). Required unless presentation_definition is provided.
+ *               presentation_definition:
+ *                 type: object
+ *                 description: |
+ *                   DIF Presentation Exchange v2 presentation definition (optional).
+ *                   Supported field paths: JSONPath with `$`, `.name`, `['name']`, `[n]`, `[*]`.
+ *                   Supported filters: type, const, enum, pattern, min/maxLength, minimum/maximum,
+ *                   format date/date-time with formatMinimum/formatMaximum, contains, min/maxItems, not, allOf, anyOf.
+ *                   submission_requirements support rule all/pick with from groups and from_nested.
+ *                 required:
+ *                   - id
+ *                   - input_descriptors
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                     example: employment-check
+ *                   input_descriptors:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       required:
+ *                         - id
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           example: diploma
+ *                         group:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         constraints:
+ *                           type: object
+ *                           properties:
+ *                             limit_disclosure:
+ *                               type: string
+ *                               enum: [required, preferred]
+ *                             fields:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 required:
+ *                                   - path
+ *                                 properties:
+ *                                   path:
+ *                                     type: array
+ *                                     items:
+ *                                       type: string
+ *                                     example: ["$.credentialSubject.degree"]
+ *                                   filter:
+ *                                     type: object
+ *                                     example: { "type": "string", "const": "Bachelor" }
+ *                                   optional:
+ *                                     type: boolean
+ *                   submission_requirements:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the request expires (optional, must be in the future). Defaults to now + VP_REQUEST_TTL_MINUTES. PENDING requests past this time become EXPIRED.
  *     responses:
  *       201:
  *         description: VP request created successfully
@@ -106,6 +168,15 @@ const router: Router = express.Router();
  *                     message:
  *                       type: string
  *                       example: VP request sent successfully. Awaiting Holder's response.
+ *                     challenge:
+ *                       type: string
+ *                       description: One-time nonce the holder must sign into the VP proof as proof.challenge
+ *                     domain:
+ *                       type: string
+ *                       description: Value the holder must sign into the VP proof as proof.domain (the verifier DID)
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
  *       400:
  *         description: Invalid request data
  *       401:
@@ -113,7 +184,7 @@ const router: Router = express.Router();
  *       500:
  *         description: Internal server error
  */
-router.post("/request", verifyDIDSignature, requestVPValidator, vp.requestVP);
+router.post("/request", verifyDIDSignature, idempotency, requestVPValidator, vp.requestVP);
 
 /**
  * @swagger
@@ -141,7 +212,7 @@ router.post("/request", verifyDIDSignature, requestVPValidator, vp.requestVP);
  *         name: status
  *         schema:
  *           type: string
- *           enum: [PENDING, ACCEPT, DECLINE]
+ *           enum: [PENDING, ACCEPT, DECLINE, EXPIRED]
  *         description: Optional filter by request status
  *     responses:
  *       200:
@@ -175,7 +246,7 @@ router.post("/request", verifyDIDSignature, requestVPValidator, vp.requestVP);
  *                             type: string
  *                           status:
  *                             type: string
- *                             enum: [PENDING, ACCEPT, DECLINE]
+ *                             enum: [PENDING, ACCEPT, DECLINE, EXPIRED]
  *                           requested_credentials:
  *                             type: array
  *                             description: List of credentials requested by verifier
@@ -264,7 +335,7 @@ router.get("/request", verifyDIDSignature, vp.getVPRequests);
  *                       description: Purpose of VP request
  *                     status:
  *                       type: string
- *                       enum: [PENDING, ACCEPT, DECLINE]
+ *                       enum: [PENDING, ACCEPT, DECLINE, EXPIRED]
  *                       description: Request status
  *                     requested_credentials:
  *                       type: array
@@ -325,6 +396,8 @@ router.get(
  *       - Verification & Presentation (VP) Flow
  *     security:
  *       - HolderBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -336,12 +409,53 @@ router.get(
  *             properties:
  *               vp:
  *                 type: string
- *                 description: Signed Verifiable Presentation as JSON string
+ *                 description: Signed Verifiable Presentation as JSON string, or a compact SD-JWT presentation (<issuer-jwt>~<disclosures>~<kb-jwt>) when format is SD_JWT
  *                 example: '{"@context":["https://www.w3.org/2018/credentials/v1"],"type":["VerifiablePresentation"],"holder":"did:dcert:holder123","verifiableCredential":[...],"proof":{"type":"DataIntegrityProof","cryptosuite":"eddsa-rdfc-2022","created":"2024-01-01T00:00:00Z","verificationMethod":"did:dcert:holder123#key-1","proofPurpose":"authentication","proofValue":"z..."}}'
+ *               format:
+ *                 type: string
+ *                 enum: [LDP_VP, SD_JWT]
+ *                 description: |
+ *                   Presentation format (optional, defaults to LDP_VP).
+ *                   For SD_JWT the holder includes only the disclosures they choose to reveal, followed by a
+ *                   key-binding JWT (typ kb+jwt, ES256 with the holder DID key) whose payload contains sd_hash,
+ *                   iat and - when answering a VP request - nonce (the request challenge) and aud (the request domain).
+ *                   Every disclosure must match a digest in the issuer-signed JWT.
  *               is_barcode:
  *                 type: boolean
  *                 description: Indicates whether the VP sharing is from a barcode scan (optional, defaults to false)
  *                 example: true
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the shared VP expires (optional, must be in the future). Expired VPs cannot be retrieved or verified.
+ *               max_verifications:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Maximum number of verifications (optional, barcode VPs only). The VP is soft deleted when the limit is reached.
+ *               presentation_submission:
+ *                 type: object
+ *                 description: |
+ *                   DIF Presentation Exchange submission mapping the request's input descriptors to credentials
+ *                   (optional). For LDP_VP it defaults to `vp.presentation_submission`; for SD_JWT the descriptor_map
+ *                   paths are resolved against the disclosed claims (e.g. `$`).
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   definition_id:
+ *                     type: string
+ *                   descriptor_map:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         format:
+ *                           type: string
+ *                           example: ldp_vc
+ *                         path:
+ *                           type: string
+ *                           example: $.verifiableCredential[0]
  *     responses:
  *       201:
  *         description: VP stored successfully
@@ -363,6 +477,10 @@ router.get(
  *                       type: string
  *                       format: uuid
  *                       description: ID of the stored VP for QR code generation
+ *                     expires_at:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
  *       400:
  *         description: Invalid request data or invalid JSON string
  *       401:
@@ -370,7 +488,7 @@ router.get(
  *       500:
  *         description: Internal server error
  */
-router.post("/", verifyDIDSignature, storeVPValidator, vp.storeVP);
+router.post("/", verifyDIDSignature, idempotency, storeVPValidator, vp.storeVP);
 
 /**
  * @swagger
@@ -383,6 +501,7 @@ router.post("/", verifyDIDSignature, storeVPValidator, vp.storeVP);
  *     security:
  *       - HolderBearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: query
  *         name: vpReqId
  *         required: true
@@ -446,10 +565,12 @@ router.post("/", verifyDIDSignature, storeVPValidator, vp.storeVP);
  *         description: Unauthorized - invalid or missing JWT token
  *       404:
  *         description: VP request not found
+ *       410:
+ *         description: VP request has expired
  *       500:
  *         description: Internal server error
  */
-router.post("/accept", verifyDIDSignature, acceptVPRequestValidator, vp.acceptVPRequest);
+router.post("/accept", verifyDIDSignature, idempotency, acceptVPRequestValidator, vp.acceptVPRequest);
 
 /**
  * @swagger
@@ -462,6 +583,7 @@ router.post("/accept", verifyDIDSignature, acceptVPRequestValidator, vp.acceptVP
  *     security:
  *       - HolderBearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: query
  *         name: vpReqId
  *         required: true
@@ -489,10 +611,12 @@ router.post("/accept", verifyDIDSignature, acceptVPRequestValidator, vp.acceptVP
  *         description: Unauthorized - invalid or missing JWT token
  *       404:
  *         description: VP request not found
+ *       410:
+ *         description: VP request has expired
  *       500:
  *         description: Internal server error
  */
-router.post("/decline", verifyDIDSignature, vp.declineVPRequest);
+router.post("/decline", verifyDIDSignature, idempotency, vp.declineVPRequest);
 
 /**
  * @swagger
@@ -504,6 +628,8 @@ router.post("/decline", verifyDIDSignature, vp.declineVPRequest);
  *       - Verification & Presentation (VP) Flow
  *     security:
  *       - VerifierBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -566,6 +692,9 @@ router.post("/decline", verifyDIDSignature, vp.declineVPRequest);
  *                           purpose:
  *                             type: string
  *                             description: Purpose of Verifiable Presentation (VP)
+ *                           format:
+ *                             type: string
+ *                             enum: [LDP_VP, SD_JWT]
  *                           created_at:
  *                             type: string
  *                             format: date-time
@@ -576,7 +705,7 @@ router.post("/decline", verifyDIDSignature, vp.declineVPRequest);
  *       500:
  *         description: Internal server error
  */
-router.post("/claim", verifyDIDSignature, vp.claimVP);
+router.post("/claim", verifyDIDSignature, idempotency, vp.claimVP);
 
 /**
  * @swagger
@@ -588,6 +717,8 @@ router.post("/claim", verifyDIDSignature, vp.claimVP);
  *       - Verification & Presentation (VP) Flow
  *     security:
  *       - VerifierBearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -639,7 +770,7 @@ router.post("/claim", verifyDIDSignature, vp.claimVP);
  *       500:
  *         description: Internal server error
  */
-router.post("/confirm", verifyDIDSignature, confirmVPValidator, vp.confirmVP);
+router.post("/confirm", verifyDIDSignature, idempotency, confirmVPValidator, vp.confirmVP);
 
 /**
  * @swagger
@@ -676,6 +807,10 @@ router.post("/confirm", verifyDIDSignature, confirmVPValidator, vp.confirmVP);
  *                     vp_id:
  *                       type: string
  *                       format: uuid
+ *                     format:
+ *                       type: string
+ *                       enum: [LDP_VP, SD_JWT]
+ *                       description: Presentation format (for SD_JWT, vp is the compact SD-JWT presentation string)
  *                     '@context':
  *                       type: string
  *                       example: https://www.w3.org/2018/credentials/v1
@@ -717,6 +852,8 @@ router.post("/confirm", verifyDIDSignature, confirmVPValidator, vp.confirmVP);
  *         description: Forbidden - unauthorized to access this VP
  *       404:
  *         description: VP not found
+ *       410:
+ *         description: VP has expired or reached its maximum number of verifications
  *       500:
  *         description: Internal server error
  */
@@ -739,6 +876,15 @@ router.get("/:vpId", verifyDIDSignature, getVPValidator, vp.getVP);
  *
  *       This allows barcode-based VPs to be scanned and verified repeatedly while maintaining
  *       security for traditional one-time VP sharing.
+ *
+ *       **Challenge binding**: If the VP answers a VP request that carries a challenge, the VP proof
+ *       must contain the request's `challenge` and `domain`, and the signature is verified over the
+ *       JCS-canonicalized VP including the proof options (the proof without `proofValue`).
+ *       A mismatch makes `vp_valid` false and is reported in `challenge_valid` / `domain_valid`.
+ *
+ *       **Presentation Exchange**: If the VP request carries a `presentation_definition`, the VP is
+ *       evaluated against it using the presentation submission. The result is reported in
+ *       `presentation_evaluation`, and the request is only VALID_VERIFICATION if it is satisfied.
  *     tags:
  *       - Verification & Presentation (VP) Flow
  *     parameters:
@@ -764,14 +910,35 @@ router.get("/:vpId", verifyDIDSignature, getVPValidator, vp.getVP);
  *                   type: object
  *                   properties:
  *                     vp:
+ *                       oneOf:
+ *                         - type: object
+ *                         - type: string
+ *                       description: The Verifiable Presentation (compact string for SD-JWT presentations)
+ *                     format:
+ *                       type: string
+ *                       enum: [LDP_VP, SD_JWT]
+ *                     disclosed_claims:
  *                       type: object
- *                       description: The Verifiable Presentation
+ *                       description: SD-JWT only - claims revealed by the holder's disclosures
  *                     vp_valid:
  *                       type: boolean
  *                       description: Whether the VP signature is valid
+ *                     vp_error:
+ *                       type: string
+ *                       description: Reason the VP is invalid
  *                     holder_did:
  *                       type: string
  *                       description: DID of the holder who signed the VP
+ *                     vp_request_id:
+ *                       type: string
+ *                       format: uuid
+ *                       description: VP request answered by this VP (if any)
+ *                     challenge_valid:
+ *                       type: boolean
+ *                       description: Whether proof.challenge matches the VP request (only for challenge-bound requests)
+ *                     domain_valid:
+ *                       type: boolean
+ *                       description: Whether proof.domain matches the VP request (only for challenge-bound requests)
  *                     credentials_verification:
  *                       type: array
  *                       items:
@@ -785,12 +952,51 @@ router.get("/:vpId", verifyDIDSignature, getVPValidator, vp.getVP);
  *                             type: boolean
  *                           error:
  *                             type: string
+ *                     presentation_evaluation:
+ *                       type: object
+ *                       description: Only set when the VP request has a presentation_definition
+ *                       properties:
+ *                         definition_id:
+ *                           type: string
+ *                         submission_id:
+ *                           type: string
+ *                         satisfied:
+ *                           type: boolean
+ *                         satisfied_descriptors:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         failed_descriptors:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         descriptors:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                               satisfied:
+ *                                 type: boolean
+ *                               path:
+ *                                 type: string
+ *                               errors:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                         errors:
+ *                           type: array
+ *                           items:
+ *                             type: string
  *       400:
  *         description: Invalid VP ID
  *       401:
  *         description: Unauthorized - invalid or missing JWT token
  *       404:
  *         description: VP not found, or already verified and deleted (for one-time use VPs only)
+ *       410:
+ *         description: VP has expired or reached its maximum number of verifications
  *       500:
  *         description: Internal server error
  */
@@ -807,6 +1013,7 @@ router.get("/:vpId/verify", verifyVPValidator, vp.verifyVP);
  *     security:
  *       - HolderBearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *       - in: path
  *         name: vpId
  *         required: true
@@ -843,6 +1050,6 @@ router.get("/:vpId/verify", verifyVPValidator, vp.verifyVP);
  *       500:
  *         description: Internal server error
  */
-router.delete("/:vpId", verifyDIDSignature, deleteVPValidator, vp.deleteVP);
+router.delete("/:vpId", verifyDIDSignature, idempotency, deleteVPValidator, vp.deleteVP);
 
 export default router;
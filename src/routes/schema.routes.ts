@@ -72,6 +72,10 @@ const router: Router = express.Router();
  *           format: uri
  *           description: URL to the background image for the VC schema (optional)
  *           example: "https://minio.example.com/bucket/background/uuid-filename?X-Amz-..."
+ *         auto_renewal:
+ *           type: boolean
+ *           description: Whether a renewal request is created automatically for VCs of this schema nearing expiry
+ *           example: false
  *         isActive:
  *           type: boolean
  *           description: Whether the schema is active
@@ -501,6 +505,10 @@ router.get(
  *                 pattern: '^did:dcert:i[a-zA-Z0-9_-]{44}$'
  *                 description: DID of institution issuer (must start with 'i' followed by 44 chars)
  *                 example: "did:dcert:iABCD1234567890-xyz_12345678901234567890abcd"
+ *               auto_renewal:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Automatically create a renewal request (to the issuer) for VCs of this schema nearing expiry
  *           examples:
  *             diplomaSchema:
  *               summary: Diploma Certificate Schema
@@ -735,6 +743,9 @@ router.post(
  *
  *                   **Important:** Either `image` or `image_link` must be provided.
  *                 example: "https://dev-dcert.ganeshait.com/dcert-storage/background/550e8400-e29b-41d4-a716-446655440000?X-Amz-Algorithm=..."
+ *               auto_renewal:
+ *                 type: boolean
+ *                 description: Automatic renewal requests for VCs nearing expiry (omit to keep the current setting)
  *           examples:
  *             addHonorsField:
  *               summary: Add honors field to diploma schema
@@ -0,0 +1,197 @@
+import express, { Router } from "express";
+import * as statusListController from "../controllers/statusList.controller";
+import { verifyDIDSignature } from "../middlewares";
+import {
+  getStatusListValidator,
+  allocateStatusValidator,
+} from "../validators/statusList.validator";
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Status Lists
+ *   description: W3C Bitstring Status List credentials for revocation and suspension
+ */
+
+/**
+ * @swagger
+ * /status-lists/allocate:
+ *   post:
+ *     summary: (Issuer) Allocate status list indexes for a VC
+ *     description: |
+ *       Allocates one index in the issuer's revocation list and one in the issuer's suspension list
+ *       for the given VC. The call is idempotent - calling it again for the same vc_id returns the
+ *       same entries. Issuers embed the returned entries as `credentialStatus` before signing the VC.
+ *
+ *       Indexes are also allocated automatically when a VC is issued.
+ *     tags:
+ *       - Status Lists
+ *     security:
+ *       - HolderBearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - issuer_did
+ *               - vc_id
+ *             properties:
+ *               issuer_did:
+ *                 type: string
+ *                 example: "did:dcert:i..."
+ *                 description: DID Issuer (must match the DID in the JWT token)
+ *               vc_id:
+ *                 type: string
+ *                 description: ID of the VC to allocate indexes for
+ *     responses:
+ *       200:
+ *         description: Indexes allocated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Status list indexes allocated successfully"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     vc_id:
+ *                       type: string
+ *                     credential_status:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             example: "https://api.example.com/api/v1/status-lists/6f1c...#94567"
+ *                           type:
+ *                             type: string
+ *                             example: "BitstringStatusListEntry"
+ *                           statusPurpose:
+ *                             type: string
+ *                             enum: [revocation, suspension]
+ *                           statusListIndex:
+ *                             type: string
+ *                             example: "94567"
+ *                           statusListCredential:
+ *                             type: string
+ *                             example: "https://api.example.com/api/v1/status-lists/6f1c..."
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Token DID does not match issuer_did
+ */
+router.post(
+  "/allocate",
+  verifyDIDSignature,
+  allocateStatusValidator,
+  statusListController.allocateStatus
+);
+
+/**
+ * @swagger
+ * /status-lists/{id}:
+ *   get:
+ *     summary: Get status list credential
+ *     description: |
+ *       Public endpoint returning the `BitstringStatusListCredential` referenced by
+ *       `credentialStatus.statusListCredential`. The response body is the credential itself
+ *       (not wrapped), so verifiers can check revocation/suspension without a blockchain RPC call.
+ *
+ *       `encodedList` is the GZIP-compressed, base64url-encoded bitstring (multibase `u` prefix).
+ *       The credential is signed by the registry account that anchors VC status on blockchain:
+ *       `proof.type` is `EthereumEip191Signature`, an EIP-191 `personal_sign` signature over the
+ *       JCS-canonical credential without `proof`. Recover the signer (e.g. `ethers.verifyMessage`)
+ *       and compare it with the account in the `did:pkh` issuer.
+ *     tags:
+ *       - Status Lists
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Status list ID
+ *     responses:
+ *       200:
+ *         description: Status list credential
+ *         content:
+ *           application/vc+ld+json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 "@context":
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["https://www.w3.org/ns/credentials/v2"]
+ *                 id:
+ *                   type: string
+ *                 type:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: ["VerifiableCredential", "BitstringStatusListCredential"]
+ *                 issuer:
+ *                   type: string
+ *                   example: "did:pkh:eip155:1337:0xAbC..."
+ *                 validFrom:
+ *                   type: string
+ *                   format: date-time
+ *                 credentialSubject:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     type:
+ *                       type: string
+ *                       example: "BitstringStatusList"
+ *                     statusPurpose:
+ *                       type: string
+ *                       enum: [revocation, suspension]
+ *                     encodedList:
+ *                       type: string
+ *                       example: "uH4sIAAAAAAAAA-3BMQEAAADCoPVPbQwfoAAAAAAAAAAAAAAAAAAAAIC3AYbSVKsAQAAA"
+ *                     issuerDID:
+ *                       type: string
+ *                 proof:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       example: "EthereumEip191Signature"
+ *                     created:
+ *                       type: string
+ *                       format: date-time
+ *                     verificationMethod:
+ *                       type: string
+ *                       example: "did:pkh:eip155:1337:0xAbC...#blockchainAccountId"
+ *                     proofPurpose:
+ *                       type: string
+ *                       example: "assertionMethod"
+ *                     proofValue:
+ *                       type: string
+ *                       description: 0x-hex EIP-191 signature
+ *       400:
+ *         description: Invalid status list ID
+ */
+router.get(
+  "/:id",
+  getStatusListValidator,
+  statusListController.getStatusListCredential
+);
+
+export default router;
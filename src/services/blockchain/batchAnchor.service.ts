@@ -0,0 +1,447 @@
+import {
+  PrismaClient,
+  AnchorBatch,
+  AnchorBatchStatus,
+  RequestType,
+} from "@prisma/client";
+import { prisma } from "../../config/database";
+import { env } from "../../config/env";
+import logger from "../../config/logger";
+import VCBlockchainService from "./vcBlockchain.service";
+import StatusListService from "../statusList.service";
+import { MerkleHelper } from "../../utils/helpers/merkle.helper";
+import { CanonicalizationHelper } from "../../utils/helpers/canonicalization.helper";
+import { MERKLE_ANCHOR } from "../../constants/merkleAnchor.constants";
+import {
+  MerkleInclusionProofDTO,
+  VCAnchoringDTO,
+} from "../../dtos/credential.dto";
+import { BadRequestError, NotFoundError } from "../../utils/errors/AppError";
+
+/**
+ * VC status record of a batch anchored VC, shaped like VCManager.getVCStatus
+ * status is false when the anchored root or the VC itself (its REVOCATION
+ * status list bit) is revoked, hash is the (verified) VC hash
+ */
+export interface AnchoredVCStatus {
+  id: string;
+  issuerDID: string;
+  holderDID?: string;
+  vcType?: string;
+  schemaID: string;
+  schemaVersion: number;
+  status: boolean;
+  hash: string;
+  anchorId: string;
+  merkleRoot: string;
+}
+
+/**
+ * Batch Anchor Service with Dependency Injection
+ * Anchors many VCs with one transaction: VC hashes issued with anchoring_mode "batch"
+ * are queued in AnchoredVC, grouped per issuer + schema version into a Merkle tree,
+ * and only the root is written on-chain (VCManager.issueVC with vcType MerkleBatchRoot,
+ * holder = issuer, hash = root). Revoking the root entry revokes the whole batch;
+ * single VCs are revoked / suspended through the issuer's status list.
+ *
+ * A batch is built when VC_BATCH_MAX_SIZE VCs are queued or the oldest queued VC
+ * waited VC_BATCH_MAX_WAIT_SECONDS (batchAnchorScheduler). Holders fetch the
+ * inclusion proof and may attach it to the VC as proof.merkleInclusionProof so it
+ * can be verified against the chain alone.
+ */
+class BatchAnchorService {
+  private db: PrismaClient;
+  private blockchainService: typeof VCBlockchainService;
+  private statusListService: typeof StatusListService;
+  private isRunning = false;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    blockchainService?: typeof VCBlockchainService;
+    statusListService?: typeof StatusListService;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.blockchainService =
+      dependencies?.blockchainService || VCBlockchainService;
+    this.statusListService =
+      dependencies?.statusListService || StatusListService;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Read a VCManager entry, null if it does not exist
+   */
+  private async findOnChain(vcId: string): Promise<any | null> {
+    try {
+      return await this.blockchainService.getVCStatusFromBlockchain(vcId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build a batch from queued VCs of one issuer + schema version
+   * Leaves are claimed with batch_id: null so a VC is never in two batches
+   */
+  private async buildBatch(group: {
+    issuer_did: string;
+    schema_id: string;
+    schema_version: number;
+  }): Promise<AnchorBatch | null> {
+    const queued = await this.db.anchoredVC.findMany({
+      where: { ...group, batch_id: null },
+      orderBy: { createdAt: "asc" },
+      take: env.VC_BATCH_MAX_SIZE,
+    });
+    if (queued.length === 0) {
+      return null;
+    }
+
+    const { root, proofs } = MerkleHelper.buildTree(
+      queued.map((leaf) => leaf.vc_hash)
+    );
+
+    return this.db.$transaction(
+      async (tx) => {
+        const batch = await tx.anchorBatch.create({
+          data: {
+            anchor_id: `${MERKLE_ANCHOR.ANCHOR_ID_PREFIX}${root}`,
+            ...group,
+            merkle_root: root,
+            leaf_count: queued.length,
+          },
+        });
+
+        for (const [index, leaf] of queued.entries()) {
+          const claimed = await tx.anchoredVC.updateMany({
+            where: { vc_id: leaf.vc_id, batch_id: null },
+            data: {
+              batch_id: batch.id,
+              leaf_index: index,
+              merkle_proof: proofs[index],
+            },
+          });
+          if (claimed.count === 0) {
+            throw new Error(`VC ${leaf.vc_id} was claimed by another batch`);
+          }
+        }
+
+        return batch;
+      },
+      { timeout: 120000 }
+    );
+  }
+
+  /**
+   * Anchor the root of a built batch and link the issuance logs to the transaction
+   */
+  private async anchorBatch(batch: AnchorBatch): Promise<boolean> {
+    try {
+      // A previous run may have anchored the root before failing to record it
+      const existing = await this.findOnChain(batch.anchor_id);
+      let transactionHash: string | null = batch.transaction_hash;
+      let blockNumber: number | null = batch.block_number;
+
+      if (!existing) {
+        const receipt = await this.blockchainService.issueVCInBlockchain(
+          batch.anchor_id,
+          batch.issuer_did,
+          batch.issuer_did,
+          MERKLE_ANCHOR.ANCHOR_VC_TYPE,
+          batch.schema_id,
+          batch.schema_version,
+          undefined,
+          batch.merkle_root
+        );
+        transactionHash = receipt.hash;
+        blockNumber = receipt.blockNumber;
+      }
+
+      await this.db.anchorBatch.update({
+        where: { id: batch.id },
+        data: {
+          status: AnchorBatchStatus.ANCHORED,
+          transaction_hash: transactionHash,
+          block_number: blockNumber,
+          error: null,
+          anchored_at: new Date(),
+        },
+      });
+
+      if (transactionHash) {
+        const leaves = await this.db.anchoredVC.findMany({
+          where: { batch_id: batch.id },
+          select: { vc_id: true },
+        });
+        await this.db.issuerActionLog.updateMany({
+          where: {
+            action_type: RequestType.ISSUANCE,
+            vc_id: { in: leaves.map((leaf) => leaf.vc_id) },
+            transaction_hash: null,
+          },
+          data: { transaction_hash: transactionHash },
+        });
+      }
+
+      logger.success(
+        `[BatchAnchor] Anchored ${batch.leaf_count} VCs of ${batch.issuer_did} (root ${batch.merkle_root}, TX: ${transactionHash})`
+      );
+      return true;
+    } catch (error: any) {
+      logger.error(`[BatchAnchor] Failed to anchor batch ${batch.id}:`, error);
+      await this.db.anchorBatch.update({
+        where: { id: batch.id },
+        data: { status: AnchorBatchStatus.FAILED, error: error.message },
+      });
+      return false;
+    }
+  }
+
+  private toInclusionProof(
+    leaf: { leaf_index: number | null; merkle_proof: string[] },
+    batch: AnchorBatch
+  ): MerkleInclusionProofDTO {
+    return {
+      type: MERKLE_ANCHOR.PROOF_TYPE,
+      anchorId: batch.anchor_id,
+      merkleRoot: batch.merkle_root,
+      leafIndex: leaf.leaf_index!,
+      proof: leaf.merkle_proof,
+      ...(batch.transaction_hash && { transactionHash: batch.transaction_hash }),
+      ...(batch.block_number !== null && { blockNumber: batch.block_number }),
+    };
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  get enabled(): boolean {
+    return env.VC_BATCH_ANCHORING_ENABLED;
+  }
+
+  /**
+   * Queue a VC hash for the next batch of its issuer + schema version
+   */
+  async enqueue(data: {
+    vc_id: string;
+    issuer_did: string;
+    holder_did: string;
+    vc_type: string;
+    schema_id: string;
+    schema_version: number;
+    expiredAt?: string;
+    vc_hash: string;
+  }): Promise<VCAnchoringDTO> {
+    if (!this.enabled) {
+      throw new BadRequestError(
+        "Batch anchoring is disabled (VC_BATCH_ANCHORING_ENABLED=false)."
+      );
+    }
+
+    const alreadyQueued = await this.db.anchoredVC.findUnique({
+      where: { vc_id: data.vc_id },
+    });
+    if (alreadyQueued || (await this.findOnChain(data.vc_id))) {
+      throw new BadRequestError(`VC ${data.vc_id} is already anchored or queued.`);
+    }
+
+    await this.db.anchoredVC.create({
+      data: {
+        vc_id: data.vc_id,
+        issuer_did: data.issuer_did,
+        holder_did: data.holder_did,
+        vc_type: data.vc_type,
+        schema_id: data.schema_id,
+        schema_version: data.schema_version,
+        expired_at: data.expiredAt || null,
+        vc_hash: data.vc_hash.toLowerCase().replace(/^0x/, ""),
+      },
+    });
+
+    // Anchor right away once the batch is full instead of waiting for the job
+    const queuedCount = await this.db.anchoredVC.count({
+      where: {
+        issuer_did: data.issuer_did,
+        schema_id: data.schema_id,
+        schema_version: data.schema_version,
+        batch_id: null,
+      },
+    });
+    if (queuedCount >= env.VC_BATCH_MAX_SIZE) {
+      this.runOnce().catch((error) =>
+        logger.error("[BatchAnchor] Anchoring full batch failed:", error)
+      );
+    }
+
+    logger.info(`[BatchAnchor] VC ${data.vc_id} queued for batch anchoring`);
+    return { mode: "batch", vc_id: data.vc_id, status: "QUEUED" };
+  }
+
+  /**
+   * Build and anchor due batches, and retry batches that failed or were
+   * interrupted (PENDING) in a previous run
+   */
+  async runOnce(): Promise<{ batches: number; anchored: number; failed: number }> {
+    const result = { batches: 0, anchored: 0, failed: 0 };
+
+    if (this.isRunning) {
+      return result;
+    }
+    this.isRunning = true;
+
+    try {
+      const unfinished = await this.db.anchorBatch.findMany({
+        where: {
+          status: { in: [AnchorBatchStatus.PENDING, AnchorBatchStatus.FAILED] },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+
+      const waitCutoff = new Date(
+        Date.now() - env.VC_BATCH_MAX_WAIT_SECONDS * 1000
+      );
+      const groups = await this.db.anchoredVC.groupBy({
+        by: ["issuer_did", "schema_id", "schema_version"],
+        where: { batch_id: null },
+        _count: { _all: true },
+        _min: { createdAt: true },
+      });
+
+      const built: AnchorBatch[] = [];
+      for (const group of groups) {
+        const isFull = group._count._all >= env.VC_BATCH_MAX_SIZE;
+        const isDue = group._min.createdAt! <= waitCutoff;
+        if (!isFull && !isDue) continue;
+
+        const batch = await this.buildBatch({
+          issuer_did: group.issuer_did,
+          schema_id: group.schema_id,
+          schema_version: group.schema_version,
+        });
+        if (batch) built.push(batch);
+      }
+
+      for (const batch of [...unfinished, ...built]) {
+        result.batches++;
+        if (await this.anchorBatch(batch)) {
+          result.anchored++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Anchoring state and inclusion proof of a batch anchored VC
+   */
+  async getAnchoring(vcId: string): Promise<VCAnchoringDTO> {
+    const leaf = await this.db.anchoredVC.findUnique({
+      where: { vc_id: vcId },
+      include: { batch: true },
+    });
+    if (!leaf) {
+      throw new NotFoundError(`VC ${vcId} is not batch anchored.`);
+    }
+
+    if (!leaf.batch) {
+      return { mode: "batch", vc_id: vcId, status: "QUEUED" };
+    }
+
+    return {
+      mode: "batch",
+      vc_id: vcId,
+      status: leaf.batch.status,
+      batch_id: leaf.batch.id,
+      ...(leaf.batch.anchored_at && { anchored_at: leaf.batch.anchored_at }),
+      ...(leaf.batch.status === AnchorBatchStatus.ANCHORED && {
+        inclusion_proof: this.toInclusionProof(leaf, leaf.batch),
+      }),
+    };
+  }
+
+  /**
+   * Status of a VC that is not on-chain by itself, through its Merkle batch
+   * The inclusion proof attached to the VC is used when given, otherwise the
+   * stored one; without vcHash the stored VC hash is trusted (status lookups).
+   * Returns null when the VC is not (or not provably) batch anchored.
+   */
+  async getAnchoredVCStatus(
+    vcId: string,
+    options: { vcHash?: string; inclusionProof?: MerkleInclusionProofDTO } = {}
+  ): Promise<AnchoredVCStatus | null> {
+    const leaf = await this.db.anchoredVC.findUnique({
+      where: { vc_id: vcId },
+      include: { batch: true },
+    });
+    const storedProof =
+      leaf?.batch?.status === AnchorBatchStatus.ANCHORED
+        ? this.toInclusionProof(leaf, leaf.batch)
+        : undefined;
+
+    const inclusionProof = options.inclusionProof || storedProof;
+    const vcHash = options.vcHash || leaf?.vc_hash;
+    if (!inclusionProof || !vcHash) {
+      return null;
+    }
+
+    if (
+      !Array.isArray(inclusionProof.proof) ||
+      !MerkleHelper.verifyProof(
+        vcHash,
+        inclusionProof.proof,
+        inclusionProof.merkleRoot
+      )
+    ) {
+      logger.warn(`[BatchAnchor] Merkle inclusion proof of VC ${vcId} is invalid`);
+      return null;
+    }
+
+    // The root must be anchored under the claimed entry
+    const rootEntry = await this.findOnChain(inclusionProof.anchorId);
+    if (
+      !rootEntry ||
+      rootEntry.vcType !== MERKLE_ANCHOR.ANCHOR_VC_TYPE ||
+      !CanonicalizationHelper.hashesEqual(rootEntry.hash, inclusionProof.merkleRoot)
+    ) {
+      logger.warn(
+        `[BatchAnchor] Merkle root of VC ${vcId} is not anchored at ${inclusionProof.anchorId}`
+      );
+      return null;
+    }
+
+    // The root stays active when single VCs of the batch are revoked
+    const statusListState = await this.statusListService.getStatus(vcId);
+
+    return {
+      id: vcId,
+      issuerDID: rootEntry.issuerDID,
+      holderDID: leaf?.holder_did,
+      vcType: leaf?.vc_type,
+      schemaID: rootEntry.schemaID,
+      schemaVersion: Number(rootEntry.schemaVersion),
+      status: rootEntry.status && !statusListState?.revoked,
+      hash: vcHash,
+      anchorId: inclusionProof.anchorId,
+      merkleRoot: inclusionProof.merkleRoot,
+    };
+  }
+}
+
+export default new BatchAnchorService();
+export { BatchAnchorService };
@@ -0,0 +1,465 @@
+import { ethers } from "ethers";
+import { PrismaClient, Prisma, IndexedVC } from "@prisma/client";
+import { prisma } from "../../config/database";
+import { env } from "../../config/env";
+import logger from "../../config/logger";
+import DIDBlockchainConfig, {
+  iface as didManagerInterface,
+} from "../../config/didblockchain";
+import { iface as vcManagerInterface } from "../../config/vcblockchain";
+import DIDDocumentCache from "./didDocumentCache.service";
+
+const CHECKPOINT_ID = "default";
+
+type IndexedContract = "DIDManager" | "VCManager";
+
+interface DecodedCall {
+  contract: IndexedContract;
+  functionName: string;
+  args: Record<string, string>;
+  txHash: string;
+  txIndex: number;
+  blockNumber: number;
+  blockHash: string;
+  blockTime: Date;
+}
+
+/**
+ * Chain Indexer Service with Dependency Injection
+ * Tails DIDManager and VCManager into Postgres (IndexedDID, IndexedVC, IndexedVCSchema)
+ * so read APIs do not have to pull the full chain state (getAllVCs, getAllSchemas, ...)
+ *
+ * - The contracts emit no events, so successful transactions sent to the contract
+ *   addresses are decoded from calldata with the contract ABIs and stored in ChainEvent
+ * - Only blocks with INDEXER_CONFIRMATIONS confirmations are indexed; the checkpoint
+ *   stores the last block hash, and a mismatch (reorg) rewinds the index by the
+ *   confirmation depth and rebuilds the derived tables from ChainEvent
+ * - DIDManager calls in ChainEvent invalidate the DID document cache of every
+ *   instance that runs the indexer (syncDIDCache), whichever instance indexed them
+ */
+class ChainIndexerService {
+  private db: PrismaClient;
+  private provider: ethers.Provider;
+  private contracts: Record<string, { name: IndexedContract; iface: ethers.Interface }>;
+  private cache: typeof DIDDocumentCache;
+  private isRunning = false;
+  private cacheSyncedBlock?: number;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    provider?: ethers.Provider;
+    cache?: typeof DIDDocumentCache;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.provider = dependencies?.provider || DIDBlockchainConfig.provider;
+    this.cache = dependencies?.cache || DIDDocumentCache;
+    this.contracts = {
+      [env.DID_CONTRACT_ADDRESS.trim().toLowerCase()]: {
+        name: "DIDManager",
+        iface: didManagerInterface,
+      },
+      [env.VC_CONTRACT_ADDRESS.trim().toLowerCase()]: {
+        name: "VCManager",
+        iface: vcManagerInterface,
+      },
+    };
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Decode the successful contract calls of a block
+   */
+  private async decodeBlock(blockNumber: number): Promise<{
+    block: ethers.Block;
+    calls: DecodedCall[];
+  }> {
+    const block = await this.provider.getBlock(blockNumber, true);
+    if (!block || !block.hash) {
+      throw new Error(`Block ${blockNumber} not available`);
+    }
+
+    const calls: DecodedCall[] = [];
+    for (const tx of block.prefetchedTransactions) {
+      const contract = tx.to ? this.contracts[tx.to.toLowerCase()] : undefined;
+      if (!contract) continue;
+
+      const receipt = await this.provider.getTransactionReceipt(tx.hash);
+      if (!receipt || receipt.status !== 1) continue;
+
+      const parsed = contract.iface.parseTransaction({
+        data: tx.data,
+        value: tx.value,
+      });
+      if (!parsed) continue;
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name.replace(/^_/, "")] = parsed.args[i].toString();
+      });
+
+      calls.push({
+        contract: contract.name,
+        functionName: parsed.name,
+        args,
+        txHash: tx.hash,
+        txIndex: tx.index,
+        blockNumber,
+        blockHash: block.hash,
+        blockTime: new Date(block.timestamp * 1000),
+      });
+    }
+
+    return { block, calls };
+  }
+
+  /**
+   * Apply a decoded DIDManager / VCManager call to the derived tables
+   */
+  private async applyCall(
+    tx: Prisma.TransactionClient,
+    call: DecodedCall
+  ): Promise<void> {
+    const { args, blockNumber, blockTime } = call;
+
+    switch (call.functionName) {
+      // DIDManager
+      case "registerIndividual":
+      case "registerInstitution":
+        await tx.indexedDID.upsert({
+          where: { did: args.did },
+          create: {
+            did: args.did,
+            role:
+              call.functionName === "registerIndividual"
+                ? "Individual"
+                : "Institutional",
+            active_key_id: args.keyId,
+            registered_block: blockNumber,
+            registered_at: blockTime,
+            updated_block: blockNumber,
+          },
+          update: {},
+        });
+        break;
+
+      case "registerNewKey":
+        await tx.indexedDID.updateMany({
+          where: { did: args.did },
+          data: { active_key_id: args.keyId, updated_block: blockNumber },
+        });
+        break;
+
+      case "deactivate":
+        await tx.indexedDID.updateMany({
+          where: { did: args.did },
+          data: { deactivated: true, updated_block: blockNumber },
+        });
+        break;
+
+      // VCManager
+      case "createVCSchema":
+      case "updateVCSchema": {
+        const latest = await tx.indexedVCSchema.findFirst({
+          where: { schema_id: args.id },
+          orderBy: { version: "desc" },
+        });
+        if (call.functionName === "updateVCSchema" && !latest) break;
+
+        await tx.indexedVCSchema.create({
+          data: {
+            schema_id: args.id,
+            version: (latest?.version ?? 0) + 1,
+            name: args.name ?? latest!.name,
+            issuer_did: args.issuerDID ?? latest!.issuer_did,
+            created_block: blockNumber,
+            updated_block: blockNumber,
+          },
+        });
+        break;
+      }
+
+      case "deactivateVCSchema":
+      case "reactivateVCSchema":
+        await tx.indexedVCSchema.updateMany({
+          where: { schema_id: args.id, version: Number(args.version) },
+          data: {
+            active: call.functionName === "reactivateVCSchema",
+            updated_block: blockNumber,
+          },
+        });
+        break;
+
+      case "issueVC":
+      case "updateVC": {
+        const vcId = call.functionName === "issueVC" ? args.id : args.newID;
+        const data = {
+          issuer_did: args.issuerDID,
+          holder_did: args.holderDID,
+          vc_type: args.vcType,
+          schema_id: args.schemaID,
+          schema_version: Number(args.schemaVersion),
+          expired_at: args.expiredAt || null,
+          hash: args.hash,
+          issued_block: blockNumber,
+          issued_at: blockTime,
+          updated_block: blockNumber,
+        };
+
+        await tx.indexedVC.upsert({
+          where: { vc_id: vcId },
+          create: { vc_id: vcId, ...data },
+          update: data,
+        });
+
+        if (call.functionName === "updateVC") {
+          await tx.indexedVC.updateMany({
+            where: { vc_id: args.oldID },
+            data: { replaced_by: vcId, updated_block: blockNumber },
+          });
+        }
+        break;
+      }
+
+      case "renewVC":
+        await tx.indexedVC.updateMany({
+          where: { vc_id: args.id },
+          data: {
+            expired_at: args.expiredAt || null,
+            hash: args.hash,
+            updated_block: blockNumber,
+          },
+        });
+        break;
+
+      case "revokeVC":
+        await tx.indexedVC.updateMany({
+          where: { vc_id: args.id },
+          data: { revoked: true, updated_block: blockNumber },
+        });
+        break;
+
+      default:
+        // Institution detail setters are recorded in ChainEvent only
+        break;
+    }
+  }
+
+  /**
+   * Index one block atomically (events, derived tables and checkpoint)
+   */
+  private async indexBlock(blockNumber: number): Promise<number> {
+    const { block, calls } = await this.decodeBlock(blockNumber);
+
+    await this.db.$transaction(async (tx) => {
+      for (const call of calls) {
+        await tx.chainEvent.create({
+          data: {
+            contract: call.contract,
+            function_name: call.functionName,
+            args: call.args,
+            tx_hash: call.txHash,
+            tx_index: call.txIndex,
+            block_number: call.blockNumber,
+            block_hash: call.blockHash,
+            block_time: call.blockTime,
+          },
+        });
+        await this.applyCall(tx, call);
+      }
+
+      await tx.chainIndexCheckpoint.upsert({
+        where: { id: CHECKPOINT_ID },
+        create: {
+          id: CHECKPOINT_ID,
+          block_number: blockNumber,
+          block_hash: block.hash!,
+        },
+        update: { block_number: blockNumber, block_hash: block.hash! },
+      });
+    });
+
+    return calls.length;
+  }
+
+  /**
+   * Rewind the index after a reorg and rebuild the derived tables from ChainEvent
+   */
+  private async rewind(toBlock: number): Promise<void> {
+    const block = toBlock >= 0 ? await this.provider.getBlock(toBlock) : null;
+
+    await this.db.$transaction(
+      async (tx) => {
+        await tx.chainEvent.deleteMany({
+          where: { block_number: { gt: toBlock } },
+        });
+        await tx.indexedDID.deleteMany({});
+        await tx.indexedVC.deleteMany({});
+        await tx.indexedVCSchema.deleteMany({});
+
+        const events = await tx.chainEvent.findMany({
+          orderBy: [{ block_number: "asc" }, { tx_index: "asc" }],
+        });
+        for (const event of events) {
+          await this.applyCall(tx, {
+            contract: event.contract as IndexedContract,
+            functionName: event.function_name,
+            args: event.args as Record<string, string>,
+            txHash: event.tx_hash,
+            txIndex: event.tx_index,
+            blockNumber: event.block_number,
+            blockHash: event.block_hash,
+            blockTime: event.block_time,
+          });
+        }
+
+        if (block?.hash) {
+          await tx.chainIndexCheckpoint.update({
+            where: { id: CHECKPOINT_ID },
+            data: { block_number: toBlock, block_hash: block.hash },
+          });
+        } else {
+          await tx.chainIndexCheckpoint.deleteMany({});
+        }
+      },
+      { timeout: 120000 }
+    );
+
+    // Rebuilt DIDs may have changed in any way
+    this.cache.clear();
+    this.cacheSyncedBlock = toBlock;
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Index confirmed blocks after the checkpoint (at most INDEXER_BATCH_SIZE)
+   */
+  async runOnce(): Promise<{
+    from_block: number;
+    to_block: number;
+    indexed_calls: number;
+    reorg_detected: boolean;
+  }> {
+    const result = {
+      from_block: 0,
+      to_block: 0,
+      indexed_calls: 0,
+      reorg_detected: false,
+    };
+
+    if (this.isRunning) {
+      return result;
+    }
+    this.isRunning = true;
+
+    try {
+      const checkpoint = await this.db.chainIndexCheckpoint.findUnique({
+        where: { id: CHECKPOINT_ID },
+      });
+
+      if (checkpoint) {
+        const indexedBlock = await this.provider.getBlock(
+          checkpoint.block_number
+        );
+        if (indexedBlock?.hash !== checkpoint.block_hash) {
+          const rewindTo = Math.max(
+            checkpoint.block_number - env.INDEXER_CONFIRMATIONS,
+            env.INDEXER_START_BLOCK - 1
+          );
+          logger.warn(
+            `[Indexer] Reorg detected at block ${checkpoint.block_number}, rewinding to ${rewindTo}`
+          );
+          await this.rewind(rewindTo);
+          result.reorg_detected = true;
+          return result;
+        }
+      }
+
+      const head = await this.provider.getBlockNumber();
+      const target = head - env.INDEXER_CONFIRMATIONS;
+      const from = checkpoint
+        ? checkpoint.block_number + 1
+        : env.INDEXER_START_BLOCK;
+      const to = Math.min(target, from + env.INDEXER_BATCH_SIZE - 1);
+
+      result.from_block = from;
+      result.to_block = to;
+
+      for (let blockNumber = from; blockNumber <= to; blockNumber++) {
+        result.indexed_calls += await this.indexBlock(blockNumber);
+      }
+
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Invalidate cached DID documents touched by DIDManager calls indexed since
+   * the last sync (by this or another instance)
+   * The first sync only records the position: the cache starts empty.
+   * @returns Number of invalidated DIDs
+   */
+  async syncDIDCache(): Promise<number> {
+    if (!this.cache.enabled) {
+      return 0;
+    }
+
+    if (this.cacheSyncedBlock === undefined) {
+      const checkpoint = await this.getCheckpoint();
+      this.cacheSyncedBlock = checkpoint?.block_number ?? env.INDEXER_START_BLOCK - 1;
+      return 0;
+    }
+
+    const events = await this.db.chainEvent.findMany({
+      where: {
+        contract: "DIDManager",
+        block_number: { gt: this.cacheSyncedBlock },
+      },
+      select: { args: true, block_number: true },
+      orderBy: { block_number: "asc" },
+    });
+
+    const dids = new Set<string>();
+    for (const event of events) {
+      const did = (event.args as Record<string, string>).did;
+      if (did) {
+        dids.add(did);
+      }
+      this.cacheSyncedBlock = event.block_number;
+    }
+
+    dids.forEach((did) => this.cache.invalidate(did));
+    return dids.size;
+  }
+
+  /**
+   * Last indexed block (null if the indexer has not run yet)
+   */
+  async getCheckpoint(): Promise<{ block_number: number; updated_at: Date } | null> {
+    const checkpoint = await this.db.chainIndexCheckpoint.findUnique({
+      where: { id: CHECKPOINT_ID },
+    });
+
+    return checkpoint
+      ? { block_number: checkpoint.block_number, updated_at: checkpoint.updatedAt }
+      : null;
+  }
+
+  async getIndexedVC(vcId: string): Promise<IndexedVC | null> {
+    return this.db.indexedVC.findUnique({ where: { vc_id: vcId } });
+  }
+}
+
+export default new ChainIndexerService();
+export { ChainIndexerService };
@@ -0,0 +1,600 @@
+import {
+  ChainOutbox,
+  ChainOutboxOperation,
+  ChainOutboxStatus,
+  ChainTransactionStatus,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { prisma } from "../../config/database";
+import { env } from "../../config/env";
+import logger from "../../config/logger";
+import ReconciliationService from "../reconciliation.service";
+import {
+  ChainOutboxDriftReportDTO,
+  ChainOutboxIntentDTO,
+} from "../../dtos/credential.dto";
+import { BlockchainError, ConflictError } from "../../utils/errors/AppError";
+import {
+  ChainOutboxHandler,
+  ChainOutboxReceipt,
+  ChainOutboxRunResult,
+} from "../../types";
+
+// Intents the worker still has to move forward
+const OPEN_STATUSES: ChainOutboxStatus[] = [
+  ChainOutboxStatus.PENDING,
+  ChainOutboxStatus.CHAIN_CONFIRMED,
+  ChainOutboxStatus.COMPENSATING,
+];
+const RUN_BATCH_SIZE = 50;
+const RETRY_DELAY_MS = 60 * 1000; // Multiplied by the attempt number
+const REPORT_INTENT_LIMIT = 100;
+
+/**
+ * Chain Outbox Service with Dependency Injection
+ * Keeps the blockchain and Postgres consistent for writes that touch both
+ * (VC issuance, revocation, renewal / update approval, schema creation,
+ * DID registration, key rotation and deactivation)
+ *
+ * Every write is stored as an intent before anything is sent:
+ * - PENDING: the on-chain write is submitted; a write that reverts ends FAILED,
+ *   one not confirmed in time keeps its transaction hash and is not resent
+ *   while TransactionManager still tracks that transaction as PENDING
+ * - CHAIN_CONFIRMED: the database writes run in one transaction with the step
+ *   to COMPLETED; on failure they are retried (the on-chain write is not repeated)
+ * - after CHAIN_OUTBOX_MAX_ATTEMPTS failed database attempts the on-chain write
+ *   is compensated (COMPENSATING -> COMPENSATED), or FAILED when it has no inverse
+ *
+ * Requests execute their intent inline; intents left open by a crash or a
+ * failed attempt are resumed by chainOutboxScheduler once their lease expires.
+ * The services owning an operation register its handler at module load.
+ */
+class ChainOutboxService {
+  private db: PrismaClient;
+  private reconciliationService: typeof ReconciliationService;
+  private handlers = new Map<ChainOutboxOperation, ChainOutboxHandler>();
+  private running = false;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    reconciliationService?: typeof ReconciliationService;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.reconciliationService =
+      dependencies?.reconciliationService || ReconciliationService;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  private getHandler(operation: ChainOutboxOperation): ChainOutboxHandler {
+    const handler = this.handlers.get(operation);
+    if (!handler) {
+      throw new Error(`No chain outbox handler registered for ${operation}`);
+    }
+    return handler;
+  }
+
+  private leaseUntil(): Date {
+    return new Date(Date.now() + env.CHAIN_OUTBOX_LEASE_SECONDS * 1000);
+  }
+
+  private retryAt(attempts: number): Date {
+    return new Date(Date.now() + attempts * RETRY_DELAY_MS);
+  }
+
+  private errorMessage(error: any): string {
+    return String(error?.message ?? error).slice(0, 1000);
+  }
+
+  private receiptOf(intent: ChainOutbox): ChainOutboxReceipt {
+    return {
+      transaction_hash: intent.transaction_hash,
+      block_number: intent.block_number,
+    };
+  }
+
+  /**
+   * Tracked transaction of an earlier submission (by its latest or a replaced hash)
+   */
+  private async findSubmission(transactionHash: string) {
+    return this.db.chainTransaction.findFirst({
+      where: {
+        OR: [
+          { tx_hash: transactionHash },
+          { replaced_hashes: { has: transactionHash } },
+        ],
+      },
+      select: { tx_hash: true, status: true, block_number: true },
+    });
+  }
+
+  /**
+   * VC, schema or DID an intent targets, from its payload
+   */
+  private targetOf(intent: ChainOutbox): string | null {
+    const payload = (intent.payload ?? {}) as Record<string, any>;
+    return payload.new_vc_id ?? payload.vc_id ?? payload.id ?? payload.did ?? null;
+  }
+
+  private toIntentDTO(intent: ChainOutbox): ChainOutboxIntentDTO {
+    return {
+      id: intent.id,
+      operation: intent.operation,
+      status: intent.status,
+      vc_id: this.targetOf(intent),
+      attempts: intent.attempts,
+      last_error: intent.last_error,
+      transaction_hash: intent.transaction_hash,
+      block_number: intent.block_number,
+      compensation_tx_hash: intent.compensation_tx_hash,
+      locked_until: intent.locked_until,
+      completed_at: intent.completed_at,
+      createdAt: intent.createdAt,
+      updatedAt: intent.updatedAt,
+    };
+  }
+
+  /**
+   * On-chain step of a PENDING intent
+   * A resumed intent is checked first, the request that crashed may have sent it;
+   * a submission that is still unconfirmed is waited for (the lease is renewed)
+   * @throws The submit error when the write did not happen
+   */
+  private async submitStep(
+    intent: ChainOutbox,
+    handler: ChainOutboxHandler,
+    resuming: boolean
+  ): Promise<ChainOutbox> {
+    let receipt: ChainOutboxReceipt = { transaction_hash: null, block_number: null };
+
+    if (resuming && intent.transaction_hash) {
+      const submission = await this.findSubmission(intent.transaction_hash);
+
+      if (submission?.status === ChainTransactionStatus.PENDING) {
+        logger.info(
+          `Chain outbox ${intent.operation} ${intent.id}: TX ${submission.tx_hash} still pending`
+        );
+        return this.db.chainOutbox.update({
+          where: { id: intent.id },
+          data: { locked_until: this.leaseUntil() },
+        });
+      }
+      if (submission?.status === ChainTransactionStatus.CONFIRMED) {
+        receipt = {
+          transaction_hash: submission.tx_hash,
+          block_number: submission.block_number,
+        };
+      }
+    }
+
+    if (!resuming || !(await handler.isApplied(intent.payload))) {
+      try {
+        const ledgerReceipt = await handler.submit(intent.payload);
+        receipt = {
+          transaction_hash: ledgerReceipt.hash,
+          block_number: ledgerReceipt.blockNumber,
+        };
+      } catch (error: any) {
+        const applied = await handler
+          .isApplied(intent.payload)
+          .catch(() => false);
+
+        if (!applied) {
+          await this.db.chainOutbox.update({
+            where: { id: intent.id },
+            data: this.isUnconfirmed(error)
+              ? {
+                  transaction_hash: error.transactionHash ?? null,
+                  last_error: this.errorMessage(error),
+                  locked_until: this.leaseUntil(),
+                }
+              : {
+                  status: ChainOutboxStatus.FAILED,
+                  last_error: this.errorMessage(error),
+                  lock_key: null,
+                  locked_until: null,
+                },
+          });
+          throw error;
+        }
+      }
+    }
+
+    logger.info(
+      `Chain outbox ${intent.operation} ${intent.id} confirmed on chain (TX: ${receipt.transaction_hash ?? "already applied"})`
+    );
+
+    return this.db.chainOutbox.update({
+      where: { id: intent.id },
+      data: {
+        status: ChainOutboxStatus.CHAIN_CONFIRMED,
+        transaction_hash: receipt.transaction_hash,
+        block_number: receipt.block_number,
+        last_error: null,
+      },
+    });
+  }
+
+  /**
+   * Database step of a CHAIN_CONFIRMED intent, committed together with the
+   * step to COMPLETED; failures are retried, then compensated
+   */
+  private async applyStep(
+    intent: ChainOutbox,
+    handler: ChainOutboxHandler
+  ): Promise<ChainOutbox> {
+    const receipt = this.receiptOf(intent);
+    let result: unknown;
+
+    try {
+      result = await this.db.$transaction(async (tx) => {
+        const { count } = await tx.chainOutbox.updateMany({
+          where: { id: intent.id, status: ChainOutboxStatus.CHAIN_CONFIRMED },
+          data: {
+            status: ChainOutboxStatus.COMPLETED,
+            completed_at: new Date(),
+            locked_until: null,
+            last_error: null,
+          },
+        });
+        if (count === 0) {
+          throw new Error(`Chain outbox intent ${intent.id} is no longer CHAIN_CONFIRMED`);
+        }
+
+        const output = await handler.apply(tx, intent.payload, receipt);
+        await tx.chainOutbox.update({
+          where: { id: intent.id },
+          data: {
+            result:
+              output === undefined ? Prisma.DbNull : (output as Prisma.InputJsonValue),
+          },
+        });
+        return output;
+      });
+    } catch (error: any) {
+      const attempts = intent.attempts + 1;
+      logger.error(
+        `Chain outbox ${intent.operation} ${intent.id}: database step failed (attempt ${attempts}/${env.CHAIN_OUTBOX_MAX_ATTEMPTS}):`,
+        error
+      );
+
+      if (attempts < env.CHAIN_OUTBOX_MAX_ATTEMPTS) {
+        return this.db.chainOutbox.update({
+          where: { id: intent.id },
+          data: {
+            attempts,
+            last_error: this.errorMessage(error),
+            locked_until: this.retryAt(attempts),
+          },
+        });
+      }
+
+      const compensating = await this.db.chainOutbox.update({
+        where: { id: intent.id },
+        data: {
+          status: ChainOutboxStatus.COMPENSATING,
+          attempts: 0,
+          last_error: `Database step failed ${attempts} times: ${this.errorMessage(error)}`,
+        },
+      });
+      return this.compensateStep(compensating, handler);
+    }
+
+    if (handler.afterCommit) {
+      try {
+        await handler.afterCommit(intent.payload, result, receipt);
+      } catch (error: any) {
+        logger.error(
+          `Chain outbox ${intent.operation} ${intent.id}: post-commit step failed:`,
+          error
+        );
+      }
+    }
+
+    logger.success(`Chain outbox ${intent.operation} ${intent.id} completed`);
+    return this.db.chainOutbox.findUniqueOrThrow({ where: { id: intent.id } });
+  }
+
+  /**
+   * Undo the on-chain write of an intent whose database step kept failing
+   */
+  private async compensateStep(
+    intent: ChainOutbox,
+    handler: ChainOutboxHandler
+  ): Promise<ChainOutbox> {
+    if (!handler.compensate) {
+      logger.error(
+        `Chain outbox ${intent.operation} ${intent.id} cannot be compensated, reconcile it manually`
+      );
+      return this.db.chainOutbox.update({
+        where: { id: intent.id },
+        data: {
+          status: ChainOutboxStatus.FAILED,
+          last_error: `${intent.last_error} (no compensation for ${intent.operation})`,
+          lock_key: null,
+          locked_until: null,
+        },
+      });
+    }
+
+    try {
+      const ledgerReceipt = await handler.compensate(intent.payload);
+      logger.warn(
+        `Chain outbox ${intent.operation} ${intent.id} compensated (TX: ${ledgerReceipt.hash})`
+      );
+
+      return this.db.chainOutbox.update({
+        where: { id: intent.id },
+        data: {
+          status: ChainOutboxStatus.COMPENSATED,
+          compensation_tx_hash: ledgerReceipt.hash,
+          completed_at: new Date(),
+          lock_key: null,
+          locked_until: null,
+        },
+      });
+    } catch (error: any) {
+      const attempts = intent.attempts + 1;
+      logger.error(
+        `Chain outbox ${intent.operation} ${intent.id}: compensation failed (attempt ${attempts}/${env.CHAIN_OUTBOX_MAX_ATTEMPTS}):`,
+        error
+      );
+
+      return this.db.chainOutbox.update({
+        where: { id: intent.id },
+        data:
+          attempts < env.CHAIN_OUTBOX_MAX_ATTEMPTS
+            ? {
+                attempts,
+                last_error: `Compensation failed: ${this.errorMessage(error)}`,
+                locked_until: this.retryAt(attempts),
+              }
+            : {
+                status: ChainOutboxStatus.FAILED,
+                attempts,
+                last_error: `Compensation failed ${attempts} times: ${this.errorMessage(error)}`,
+                lock_key: null,
+                locked_until: null,
+              },
+      });
+    }
+  }
+
+  /**
+   * Move an intent as far as it goes (the caller holds its lease)
+   */
+  private async advance(intent: ChainOutbox, resuming: boolean): Promise<ChainOutbox> {
+    const handler = this.getHandler(intent.operation);
+    let current = intent;
+
+    if (current.status === ChainOutboxStatus.PENDING) {
+      current = await this.submitStep(current, handler, resuming);
+    }
+
+    if (current.status === ChainOutboxStatus.CHAIN_CONFIRMED) {
+      current = await this.applyStep(current, handler);
+    } else if (current.status === ChainOutboxStatus.COMPENSATING) {
+      current = await this.compensateStep(current, handler);
+    }
+
+    return current;
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * A submit that timed out waiting for confirmation may still be mined
+   * (TransactionManager keeps the transaction PENDING, the outbox completes
+   * the intent once it is)
+   */
+  isUnconfirmed(error: any): boolean {
+    return error instanceof BlockchainError && /not confirmed/i.test(error.message);
+  }
+
+  /**
+   * Register the handler of an operation
+   */
+  register<P, R>(
+    operation: ChainOutboxOperation,
+    handler: ChainOutboxHandler<P, R>
+  ): void {
+    this.handlers.set(operation, handler);
+  }
+
+  /**
+   * Persist an intent and execute it inline
+   * @param lockKey - Target of the write; a second intent for it is rejected
+   *   until the first one failed or was compensated
+   * @throws ConflictError for a duplicate intent, or the on-chain write error
+   *   (an unconfirmed write is left to the worker, see isUnconfirmed)
+   */
+  async run<P, R>(
+    operation: ChainOutboxOperation,
+    lockKey: string,
+    payload: P
+  ): Promise<ChainOutboxRunResult<R>> {
+    let intent: ChainOutbox;
+    try {
+      intent = await this.db.chainOutbox.create({
+        data: {
+          operation,
+          lock_key: lockKey,
+          payload: payload as Prisma.InputJsonValue,
+          locked_until: this.leaseUntil(),
+        },
+      });
+    } catch (error: any) {
+      if (error.code === "P2002") {
+        throw new ConflictError(
+          `An on-chain write for ${lockKey} is already in progress or completed`
+        );
+      }
+      throw error;
+    }
+
+    let settled: ChainOutbox;
+    try {
+      settled = await this.advance(intent, false);
+    } catch (error: any) {
+      if (this.isUnconfirmed(error)) {
+        throw new BlockchainError(
+          `${error.message}; ${operation} is completed in the background (outbox ${intent.id})`,
+          error.transactionHash
+        );
+      }
+      throw error;
+    }
+
+    return {
+      outbox_id: settled.id,
+      status: settled.status,
+      receipt: this.receiptOf(settled),
+      result: settled.result as R | null,
+      last_error: settled.last_error,
+    };
+  }
+
+  /**
+   * Resume the open intents whose lease expired (crashed requests, retries)
+   * (skipped while a previous run is still going)
+   */
+  async runOnce(): Promise<{
+    processed: number;
+    completed: number;
+    compensated: number;
+    failed: number;
+    retrying: number;
+  }> {
+    const result = { processed: 0, completed: 0, compensated: 0, failed: 0, retrying: 0 };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const due: { id: string; locked_until: Date | null }[] =
+        await this.db.chainOutbox.findMany({
+          where: {
+            status: { in: OPEN_STATUSES },
+            OR: [{ locked_until: null }, { locked_until: { lte: new Date() } }],
+          },
+          select: { id: true, locked_until: true },
+          orderBy: { createdAt: "asc" },
+          take: RUN_BATCH_SIZE,
+        });
+
+      for (const { id, locked_until } of due) {
+        // Take the lease, unless a request or another worker took it meanwhile
+        const { count } = await this.db.chainOutbox.updateMany({
+          where: { id, status: { in: OPEN_STATUSES }, locked_until },
+          data: { locked_until: this.leaseUntil() },
+        });
+        if (count === 0) {
+          continue;
+        }
+
+        result.processed++;
+        try {
+          const intent = await this.db.chainOutbox.findUniqueOrThrow({ where: { id } });
+          const settled = await this.advance(intent, true);
+
+          if (settled.status === ChainOutboxStatus.COMPLETED) {
+            result.completed++;
+          } else if (settled.status === ChainOutboxStatus.COMPENSATED) {
+            result.compensated++;
+          } else if (settled.status === ChainOutboxStatus.FAILED) {
+            result.failed++;
+          } else {
+            result.retrying++;
+          }
+        } catch (error: any) {
+          logger.error(`Chain outbox intent ${id} failed:`, error);
+          if (this.isUnconfirmed(error)) {
+            result.retrying++;
+          } else {
+            result.failed++;
+          }
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * List intents, newest first
+   */
+  async listIntents(filter: {
+    status?: ChainOutboxStatus;
+    operation?: ChainOutboxOperation;
+    limit?: number;
+  } = {}): Promise<ChainOutboxIntentDTO[]> {
+    const intents = await this.db.chainOutbox.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.operation && { operation: filter.operation }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: filter.limit ?? REPORT_INTENT_LIMIT,
+    });
+
+    return intents.map((intent: ChainOutbox) => this.toIntentDTO(intent));
+  }
+
+  /**
+   * Discrepancies of a reconciliation run (not stored, nothing repaired), each
+   * with the open or failed outbox intent targeting it, plus those intents
+   */
+  async getDriftReport(): Promise<ChainOutboxDriftReportDTO> {
+    const [{ summary, discrepancies }, intents] = await Promise.all([
+      this.reconciliationService.compare(),
+      this.db.chainOutbox.findMany({
+        where: {
+          status: { in: [...OPEN_STATUSES, ChainOutboxStatus.FAILED] },
+        },
+        orderBy: { createdAt: "desc" },
+        take: REPORT_INTENT_LIMIT * 2,
+      }),
+    ]);
+
+    const intentByTarget = new Map<string, string>();
+    for (const intent of intents) {
+      const target = this.targetOf(intent);
+      if (target && !intentByTarget.has(target)) {
+        intentByTarget.set(target, intent.id);
+      }
+    }
+
+    return {
+      generated_at: new Date(),
+      summary,
+      drift: discrepancies.map((item) => {
+        const outboxId = intentByTarget.get(item.id);
+        return outboxId ? { ...item, outbox_id: outboxId } : item;
+      }),
+      open_intents: intents
+        .filter((intent: ChainOutbox) => intent.status !== ChainOutboxStatus.FAILED)
+        .slice(0, REPORT_INTENT_LIMIT)
+        .map((intent: ChainOutbox) => this.toIntentDTO(intent)),
+      failed_intents: intents
+        .filter((intent: ChainOutbox) => intent.status === ChainOutboxStatus.FAILED)
+        .slice(0, REPORT_INTENT_LIMIT)
+        .map((intent: ChainOutbox) => this.toIntentDTO(intent)),
+    };
+  }
+}
+
+export default new ChainOutboxService();
+export { ChainOutboxService };
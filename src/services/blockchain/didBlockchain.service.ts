@@ -1,21 +1,27 @@
-import { ethers, TransactionReceipt } from "ethers";
-import DIDBlockchainConfig from "../../config/didblockchain";
 import { BlockchainError, NotFoundError } from "../../utils/errors/AppError";
 import logger from "../../config/logger";
+import { LedgerAdapter, LedgerReceipt } from "../../types";
+import DIDDocumentCache from "./didDocumentCache.service";
+import Ledger from "./ledger";
 
 /**
  * Blockchain Service with Dependency Injection
  * Handles all blockchain interactions with proper error handling
  */
 class DIDBlockchainService {
-  private contract: ethers.Contract;
+  private ledger: LedgerAdapter;
+  private cache: typeof DIDDocumentCache;
 
   /**
    * Constructor with dependency injection
    * @param dependencies - Optional dependencies for testing
    */
-  constructor(dependencies?: { contract?: ethers.Contract }) {
-    this.contract = dependencies?.contract || DIDBlockchainConfig.contract;
+  constructor(dependencies?: {
+    ledger?: LedgerAdapter;
+    cache?: typeof DIDDocumentCache;
+  }) {
+    this.ledger = dependencies?.ledger || Ledger;
+    this.cache = dependencies?.cache || DIDDocumentCache;
   }
 
   /**
@@ -24,14 +30,13 @@ class DIDBlockchainService {
   async registerIndividualDID(
     did: string,
     publicKey: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.registerIndividual(
+      const receipt = await this.ledger.registerIndividual(
         did,
         "#key-1",
         publicKey
       );
-      const receipt = await tx.wait();
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -40,6 +45,7 @@ class DIDBlockchainService {
         );
       }
 
+      this.cache.invalidate(did);
       logger.success(`Individual DID registered: ${did} (TX: ${receipt.hash})`);
       return receipt;
     } catch (error: any) {
@@ -67,22 +73,22 @@ class DIDBlockchainService {
     country: string,
     website: string,
     address: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.registerInstitution(
+      const receipt = await this.ledger.registerInstitution(
         did,
         "#key-1",
         publicKey,
-        email,
-        name,
-        phone,
-        country,
-        website,
-        address
+        {
+          email,
+          name,
+          phone,
+          country,
+          website,
+          addressInfo: address,
+        }
       );
 
-      const receipt = await tx.wait();
-
       if (receipt.status !== 1) {
         throw new BlockchainError(
           "Transaction failed on blockchain",
@@ -90,6 +96,7 @@ class DIDBlockchainService {
         );
       }
 
+      this.cache.invalidate(did);
       logger.success(
         `Institutional DID registered: ${did} (TX: ${receipt.hash})`
       );
@@ -113,18 +120,17 @@ class DIDBlockchainService {
   async registerNewKey(
     did: string,
     newPublicKey: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const currentKeyId = await this.contract.getActiveKeyId(did);
+      const currentKeyId = await this.ledger.getActiveKeyId(did);
       const keyNumber = parseInt(currentKeyId.split("-").pop() || "1", 10);
       const newKeyId = `#key-${keyNumber + 1}`;
 
-      const tx = await this.contract.registerNewKey(
+      const receipt = await this.ledger.registerNewKey(
         did,
         newKeyId,
         newPublicKey
       );
-      const receipt = await tx.wait();
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -133,6 +139,7 @@ class DIDBlockchainService {
         );
       }
 
+      this.cache.invalidate(did);
       logger.success(`Key rotated for DID: ${did} (New KeyID: ${newKeyId})`);
       return receipt;
     } catch (error: any) {
@@ -151,22 +158,41 @@ class DIDBlockchainService {
    */
   async isDIDRegistered(did: string): Promise<boolean> {
     try {
-      return await this.contract.isRegistered(did);
+      return await this.ledger.isRegistered(did);
     } catch (error: any) {
       logger.error("Failed to check DID:", error);
       throw new BlockchainError(`Failed to check DID: ${error.message}`);
     }
   }
 
+  /**
+   * Check if DID is deactivated on Blockchain (read past the document cache)
+   */
+  async isDIDDeactivated(did: string): Promise<boolean> {
+    try {
+      const document = await this.ledger.getDIDDocument(did);
+      return document.status == 1;
+    } catch (error: any) {
+      logger.error("Failed to check DID status:", error);
+      throw new BlockchainError(`Failed to check DID status: ${error.message}`);
+    }
+  }
+
   /**
    * Get DID Public Key
    */
   async getDIDKey(did: string, keyId?: string): Promise<string> {
     try {
-      const key = keyId
-        ? await this.contract.getKey(did, keyId)
-        : await this.contract.getKey(did);
+      const cachedKey = keyId ? this.cache.getKey(did, keyId) : undefined;
+      if (cachedKey) {
+        return cachedKey;
+      }
+
+      const key = await this.ledger.getKey(did, keyId);
 
+      if (keyId) {
+        this.cache.setKey(did, keyId, key);
+      }
       return key;
     } catch (error: any) {
       logger.error("Failed to get DID key:", error);
@@ -174,12 +200,24 @@ class DIDBlockchainService {
     }
   }
 
+  /**
+   * Get Active Key ID of a DID (e.g. #key-2)
+   */
+  async getActiveKeyId(did: string): Promise<string> {
+    try {
+      return await this.ledger.getActiveKeyId(did);
+    } catch (error: any) {
+      logger.error("Failed to get active key ID:", error);
+      throw new BlockchainError(`Failed to get active key ID: ${error.message}`);
+    }
+  }
+
   /**
    * Get Total DID Count
    */
   async getDIDCount(): Promise<bigint> {
     try {
-      return await this.contract.getDIDCount();
+      return await this.ledger.getDIDCount();
     } catch (error: any) {
       logger.error("Failed to get DID count:", error);
       throw new BlockchainError(`Failed to get DID count: ${error.message}`);
@@ -191,7 +229,7 @@ class DIDBlockchainService {
    */
   async getBlockNumber(): Promise<number> {
     try {
-      return await DIDBlockchainConfig.provider.getBlockNumber();
+      return await this.ledger.getBlockNumber();
     } catch (error: any) {
       logger.error("Failed to get block number:", error);
       throw new BlockchainError(`Failed to get block number: ${error.message}`);
@@ -201,10 +239,9 @@ class DIDBlockchainService {
   /**
    * Deactivate DID
    */
-  async deactivateDID(did: string): Promise<TransactionReceipt> {
+  async deactivateDID(did: string): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.deactivate(did);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.deactivateDID(did);
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -213,6 +250,7 @@ class DIDBlockchainService {
         );
       }
 
+      this.cache.invalidate(did);
       logger.success(`DID deactivated: ${did} (TX: ${receipt.hash})`);
       return receipt;
     } catch (error: any) {
@@ -232,6 +270,11 @@ class DIDBlockchainService {
    */
   async getDIDDocument(did: string): Promise<any> {
     try {
+      const cachedDocument = this.cache.getDocument(did);
+      if (cachedDocument) {
+        return { ...cachedDocument };
+      }
+
       const isRegistered = await this.isDIDRegistered(did);
 
       if (!isRegistered) {
@@ -244,33 +287,33 @@ class DIDBlockchainService {
         };
       }
 
-      const document = await this.contract.getDIDDocument(did);
-      const keyId = await this.contract.getActiveKeyId(did);
+      const document = await this.ledger.getDIDDocument(did);
+      const keyId = await this.ledger.getActiveKeyId(did);
       const publicKey = await this.getDIDKey(did, keyId);
 
-      let institutionalDetails: any[] = [];
       const jsonDetails: any = {};
-      if (document[1] == 2) {
-        institutionalDetails = await this.contract.getInstitutionDetails(did);
-        if (institutionalDetails && institutionalDetails.length > 1) {
-          jsonDetails["email"] = institutionalDetails[1];
-          jsonDetails["name"] = institutionalDetails[2];
-          jsonDetails["phone"] = institutionalDetails[3];
-          jsonDetails["country"] = institutionalDetails[4];
-          jsonDetails["website"] = institutionalDetails[5];
-          jsonDetails["address"] = institutionalDetails[6];
-        }
+      if (document.role == 2) {
+        const institutionalDetails = await this.ledger.getInstitutionDetails(did);
+        jsonDetails["email"] = institutionalDetails.email;
+        jsonDetails["name"] = institutionalDetails.name;
+        jsonDetails["phone"] = institutionalDetails.phone;
+        jsonDetails["country"] = institutionalDetails.country;
+        jsonDetails["website"] = institutionalDetails.website;
+        jsonDetails["address"] = institutionalDetails.addressInfo;
       }
 
-      return {
+      const didDocument = {
         found: true,
         id: did,
-        status: document[0] == 1 ? "InActive" : "Active",
-        role: document[1] == 1 ? "Individual" : "Institutional",
+        status: document.status == 1 ? "InActive" : "Active",
+        role: document.role == 1 ? "Individual" : "Institutional",
         keyId: keyId,
         [keyId]: publicKey,
         details: jsonDetails,
       };
+
+      this.cache.setDocument(did, didDocument);
+      return didDocument;
     } catch (error: any) {
       logger.error("Failed to get DID document:", error);
       throw new BlockchainError(`Failed to get DID document: ${error.message}`);
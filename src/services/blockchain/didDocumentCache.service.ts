@@ -0,0 +1,140 @@
+import { env } from "../../config/env";
+import logger from "../../config/logger";
+
+interface DIDCacheEntry {
+  document?: Record<string, any>;
+  keys: Record<string, string>; // keyId -> public key (historical keys included)
+  expiresAt: number;
+}
+
+/**
+ * DID Document Cache
+ * In-memory TTL cache in front of DIDBlockchainService reads
+ * (getDIDDocument = isRegistered + getDIDDocument + getActiveKeyId + getKey RPC calls)
+ *
+ * Entries are invalidated:
+ * - on every DID write made by this server (register, key rotation, deactivation)
+ * - when the chain indexer has indexed a DIDManager call for the DID
+ *   (ChainIndexerService.syncDIDCache, instances with INDEXER_ENABLED only; the
+ *   contract emits no events)
+ * - after DID_CACHE_TTL_SECONDS, which bounds staleness for writes made elsewhere
+ *
+ * Only registered DIDs are cached; DID_CACHE_TTL_SECONDS=0 disables the cache.
+ */
+class DIDDocumentCache {
+  private entries = new Map<string, DIDCacheEntry>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Constructor with dependency injection
+   * @param options - Optional TTL / size overrides for testing
+   */
+  constructor(options?: { ttlSeconds?: number; maxEntries?: number }) {
+    this.ttlMs = (options?.ttlSeconds ?? env.DID_CACHE_TTL_SECONDS) * 1000;
+    this.maxEntries = options?.maxEntries ?? env.DID_CACHE_MAX_ENTRIES;
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Get a live entry, dropping it if expired
+   */
+  private getEntry(did: string): DIDCacheEntry | undefined {
+    const entry = this.entries.get(did);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(did);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Get or create an entry (evicts the oldest entry when full)
+   */
+  private upsertEntry(did: string): DIDCacheEntry {
+    const existing = this.getEntry(did);
+    if (existing) {
+      return existing;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+
+    const entry: DIDCacheEntry = {
+      keys: {},
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.entries.set(did, entry);
+    return entry;
+  }
+
+  getDocument(did: string): Record<string, any> | undefined {
+    if (!this.enabled) return undefined;
+
+    const document = this.getEntry(did)?.document;
+    if (document) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return document;
+  }
+
+  setDocument(did: string, document: Record<string, any>): void {
+    if (!this.enabled || !document.found) return;
+
+    const entry = this.upsertEntry(did);
+    entry.document = document;
+    entry.keys[document.keyId] = document[document.keyId];
+  }
+
+  getKey(did: string, keyId: string): string | undefined {
+    if (!this.enabled) return undefined;
+
+    const key = this.getEntry(did)?.keys[keyId];
+    if (key) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return key;
+  }
+
+  setKey(did: string, keyId: string, publicKey: string): void {
+    if (!this.enabled || !publicKey) return;
+
+    this.upsertEntry(did).keys[keyId] = publicKey;
+  }
+
+  invalidate(did: string): void {
+    if (this.entries.delete(did)) {
+      logger.debug(`DID cache invalidated: ${did}`);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats() {
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      ttlSeconds: this.ttlMs / 1000,
+    };
+  }
+}
+
+export default new DIDDocumentCache();
+export { DIDDocumentCache };
@@ -0,0 +1,286 @@
+import { ethers } from "ethers";
+import DIDBlockchainConfig from "../../../config/didblockchain";
+import VCBlockchainConfig from "../../../config/vcblockchain";
+import TransactionManager from "../transactionManager.service";
+import {
+  LedgerAdapter,
+  LedgerDIDRecord,
+  LedgerInstitutionDetails,
+  LedgerReceipt,
+  LedgerVCRecord,
+  LedgerVCSchema,
+} from "../../../types";
+
+/**
+ * EVM Ledger Adapter with Dependency Injection
+ * LedgerAdapter over the DIDManager / VCManager contracts
+ *
+ * - Writes go through the TransactionManager nonce queue
+ * - Reads are normalized from ethers Result tuples into plain objects
+ */
+class EvmLedgerAdapter implements LedgerAdapter {
+  readonly driver = "evm" as const;
+  readonly didContract: ethers.Contract;
+  readonly vcContract: ethers.Contract;
+  private txManager: typeof TransactionManager;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    didContract?: ethers.Contract;
+    vcContract?: ethers.Contract;
+    txManager?: typeof TransactionManager;
+  }) {
+    this.didContract = dependencies?.didContract || DIDBlockchainConfig.contract;
+    this.vcContract = dependencies?.vcContract || VCBlockchainConfig.contract;
+    this.txManager = dependencies?.txManager || TransactionManager;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  private toSchema(schema: any): LedgerVCSchema {
+    return {
+      id: schema.id,
+      name: schema.name,
+      schema: schema.schema,
+      issuerDID: schema.issuerDID,
+      version: Number(schema.version),
+      isActive: schema.isActive,
+    };
+  }
+
+  private toVCRecord(vc: any): LedgerVCRecord {
+    return {
+      id: vc.id,
+      issuerDID: vc.issuerDID,
+      holderDID: vc.holderDID,
+      vcType: vc.vcType,
+      schemaID: vc.schemaID,
+      schemaVersion: Number(vc.schemaVersion),
+      status: vc.status,
+      expiredAt: vc.expiredAt,
+      hash: vc.hash,
+    };
+  }
+
+  // ============================================
+  // 🔹 CONNECTION
+  // ============================================
+
+  async testConnection(): Promise<boolean> {
+    const didConnected = await DIDBlockchainConfig.testConnection();
+    const vcConnected = await VCBlockchainConfig.testConnection();
+    return didConnected && vcConnected;
+  }
+
+  async isConnected(): Promise<boolean> {
+    const didConnected = await DIDBlockchainConfig.isConnected();
+    const vcConnected = await VCBlockchainConfig.isConnected();
+    return didConnected && vcConnected;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return DIDBlockchainConfig.provider.getBlockNumber();
+  }
+
+  async getChainId(): Promise<bigint> {
+    const network = await VCBlockchainConfig.provider.getNetwork();
+    return network.chainId;
+  }
+
+  // ============================================
+  // 🔹 DID REGISTRY
+  // ============================================
+
+  async registerIndividual(
+    did: string,
+    keyId: string,
+    publicKey: string
+  ): Promise<LedgerReceipt> {
+    return this.txManager.send(this.didContract, "registerIndividual", [
+      did,
+      keyId,
+      publicKey,
+    ]);
+  }
+
+  async registerInstitution(
+    did: string,
+    keyId: string,
+    publicKey: string,
+    details: Omit<LedgerInstitutionDetails, "did">
+  ): Promise<LedgerReceipt> {
+    return this.txManager.send(this.didContract, "registerInstitution", [
+      did,
+      keyId,
+      publicKey,
+      details.email,
+      details.name,
+      details.phone,
+      details.country,
+      details.website,
+      details.addressInfo,
+    ]);
+  }
+
+  async registerNewKey(
+    did: string,
+    keyId: string,
+    publicKey: string
+  ): Promise<LedgerReceipt> {
+    return this.txManager.send(this.didContract, "registerNewKey", [
+      did,
+      keyId,
+      publicKey,
+    ]);
+  }
+
+  async deactivateDID(did: string): Promise<LedgerReceipt> {
+    return this.txManager.send(this.didContract, "deactivate", [did]);
+  }
+
+  async isRegistered(did: string): Promise<boolean> {
+    return this.didContract.isRegistered(did);
+  }
+
+  async getDIDDocument(did: string): Promise<LedgerDIDRecord> {
+    const document = await this.didContract.getDIDDocument(did);
+    return {
+      status: Number(document[0]),
+      role: Number(document[1]),
+      activeKeyId: document[2],
+    };
+  }
+
+  async getActiveKeyId(did: string): Promise<string> {
+    return this.didContract.getActiveKeyId(did);
+  }
+
+  async getKey(did: string, keyId?: string): Promise<string> {
+    return keyId
+      ? this.didContract.getKey(did, keyId)
+      : this.didContract.getKey(did);
+  }
+
+  async getInstitutionDetails(did: string): Promise<LedgerInstitutionDetails> {
+    const details = await this.didContract.getInstitutionDetails(did);
+    return {
+      did: details[0],
+      email: details[1],
+      name: details[2],
+      phone: details[3],
+      country: details[4],
+      website: details[5],
+      addressInfo: details[6],
+    };
+  }
+
+  async getDIDCount(): Promise<bigint> {
+    return this.didContract.getDIDCount();
+  }
+
+  // ============================================
+  // 🔹 VC SCHEMA REGISTRY
+  // ============================================
+
+  async createVCSchema(
+    id: string,
+    name: string,
+    schema: string,
+    issuerDID: string
+  ): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "createVCSchema", [
+      id,
+      name,
+      schema,
+      issuerDID,
+    ]);
+  }
+
+  async updateVCSchema(id: string, newSchema: string): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "updateVCSchema", [
+      id,
+      newSchema,
+    ]);
+  }
+
+  async deactivateVCSchema(id: string, version: number): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "deactivateVCSchema", [
+      id,
+      version,
+    ]);
+  }
+
+  async reactivateVCSchema(id: string, version: number): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "reactivateVCSchema", [
+      id,
+      version,
+    ]);
+  }
+
+  async getAllSchemas(): Promise<LedgerVCSchema[]> {
+    const schemas = await this.vcContract.getAllSchemas();
+    return schemas.map((schema: any) => this.toSchema(schema));
+  }
+
+  // ============================================
+  // 🔹 VC REGISTRY
+  // ============================================
+
+  async issueVC(vc: Omit<LedgerVCRecord, "status">): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "issueVC", [
+      vc.id,
+      vc.issuerDID,
+      vc.holderDID,
+      vc.vcType,
+      vc.schemaID,
+      vc.schemaVersion,
+      vc.expiredAt,
+      vc.hash,
+    ]);
+  }
+
+  async renewVC(id: string, expiredAt: string, hash: string): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "renewVC", [id, expiredAt, hash]);
+  }
+
+  async updateVC(
+    oldId: string,
+    vc: Omit<LedgerVCRecord, "status">
+  ): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "updateVC", [
+      oldId,
+      vc.id,
+      vc.issuerDID,
+      vc.holderDID,
+      vc.vcType,
+      vc.schemaID,
+      vc.schemaVersion,
+      vc.expiredAt,
+      vc.hash,
+    ]);
+  }
+
+  async revokeVC(id: string): Promise<LedgerReceipt> {
+    return this.txManager.send(this.vcContract, "revokeVC", [id]);
+  }
+
+  async verifyVC(id: string, hash: string): Promise<boolean> {
+    return this.vcContract.verifyVC(id, hash);
+  }
+
+  async getVCStatus(id: string): Promise<LedgerVCRecord> {
+    return this.toVCRecord(await this.vcContract.getVCStatus(id));
+  }
+
+  async getAllVCs(): Promise<LedgerVCRecord[]> {
+    const vcs = await this.vcContract.getAllVCs();
+    return vcs.map((vc: any) => this.toVCRecord(vc));
+  }
+}
+
+export { EvmLedgerAdapter };
@@ -0,0 +1,25 @@
+import { env } from "../../../config/env";
+import { LedgerAdapter, LedgerDriver } from "../../../types";
+import { MemoryLedgerAdapter } from "./memoryLedger.adapter";
+
+/**
+ * Ledger Adapters
+ * DIDBlockchainService and VCBlockchainService talk to the ledger only through
+ * LedgerAdapter; LEDGER_DRIVER selects the backend
+ *
+ * The EVM adapter is loaded on first use: it pulls in the contract configs,
+ * TransactionManager and Prisma, which the memory ledger (and its offline
+ * test) must not depend on
+ */
+export function createLedgerAdapter(driver: LedgerDriver): LedgerAdapter {
+  if (driver === "memory") {
+    return new MemoryLedgerAdapter();
+  }
+
+  const { EvmLedgerAdapter } =
+    require("./evmLedger.adapter") as typeof import("./evmLedger.adapter");
+  return new EvmLedgerAdapter();
+}
+
+export default createLedgerAdapter(env.LEDGER_DRIVER);
+export { MemoryLedgerAdapter };
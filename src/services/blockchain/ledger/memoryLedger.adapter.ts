@@ -0,0 +1,315 @@
+import { ethers } from "ethers";
+import { env } from "../../../config/env";
+import logger from "../../../config/logger";
+import {
+  LedgerAdapter,
+  LedgerDIDRecord,
+  LedgerInstitutionDetails,
+  LedgerReceipt,
+  LedgerVCRecord,
+  LedgerVCSchema,
+} from "../../../types";
+
+interface MemoryDID extends LedgerDIDRecord {
+  keys: Map<string, string>;
+  institution?: LedgerInstitutionDetails;
+}
+
+/**
+ * In-Memory Ledger Adapter
+ * In-process stand-in chain with the DIDManager / VCManager semantics, so the API
+ * (and local development) runs without an RPC node (LEDGER_DRIVER=memory)
+ *
+ * - Every write is one "block": it gets a fake transaction hash and the next block number
+ * - Writes the contracts would revert throw an Error with the revert reason and change nothing
+ * - State lives in the API process only and is lost on restart
+ */
+class MemoryLedgerAdapter implements LedgerAdapter {
+  readonly driver = "memory" as const;
+  private chainId: bigint;
+  private blockNumber = 0;
+  private dids = new Map<string, MemoryDID>();
+  private schemas = new Map<string, LedgerVCSchema[]>();
+  private vcs = new Map<string, LedgerVCRecord>();
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { chainId?: number }) {
+    this.chainId = BigInt(dependencies?.chainId ?? env.LEDGER_MEMORY_CHAIN_ID);
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Mine a write into the next block
+   */
+  private mine(method: string, args: any[]): LedgerReceipt {
+    this.blockNumber++;
+    const hash = ethers.id(
+      `${this.blockNumber}:${method}:${JSON.stringify(args)}`
+    );
+    return { hash, blockNumber: this.blockNumber, status: 1 };
+  }
+
+  private requireDID(did: string): MemoryDID {
+    const entry = this.dids.get(did);
+    if (!entry) {
+      throw new Error("DID not registered");
+    }
+    return entry;
+  }
+
+  private requireActiveDID(did: string): MemoryDID {
+    const entry = this.requireDID(did);
+    if (entry.status === 1) {
+      throw new Error("DID is deactivated");
+    }
+    return entry;
+  }
+
+  private requireSchemaVersion(id: string, version: number): LedgerVCSchema {
+    const schema = this.schemas.get(id)?.find((s) => s.version === version);
+    if (!schema) {
+      throw new Error("Schema version not found");
+    }
+    return schema;
+  }
+
+  private requireVC(id: string): LedgerVCRecord {
+    const vc = this.vcs.get(id);
+    if (!vc) {
+      throw new Error("VC not found");
+    }
+    return vc;
+  }
+
+  private register(did: string, keyId: string, publicKey: string, role: number) {
+    if (this.dids.has(did)) {
+      throw new Error("DID already registered");
+    }
+
+    const entry: MemoryDID = {
+      status: 0,
+      role,
+      activeKeyId: keyId,
+      keys: new Map([[keyId, publicKey]]),
+    };
+    this.dids.set(did, entry);
+    return entry;
+  }
+
+  // ============================================
+  // 🔹 CONNECTION
+  // ============================================
+
+  async testConnection(): Promise<boolean> {
+    logger.success("In-memory ledger ready");
+    logger.info("Ledger Details", {
+      driver: this.driver,
+      chainId: this.chainId.toString(),
+      blockNumber: this.blockNumber,
+    });
+    return true;
+  }
+
+  async isConnected(): Promise<boolean> {
+    return true;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blockNumber;
+  }
+
+  async getChainId(): Promise<bigint> {
+    return this.chainId;
+  }
+
+  // ============================================
+  // 🔹 DID REGISTRY
+  // ============================================
+
+  async registerIndividual(
+    did: string,
+    keyId: string,
+    publicKey: string
+  ): Promise<LedgerReceipt> {
+    this.register(did, keyId, publicKey, 1);
+    return this.mine("registerIndividual", [did, keyId, publicKey]);
+  }
+
+  async registerInstitution(
+    did: string,
+    keyId: string,
+    publicKey: string,
+    details: Omit<LedgerInstitutionDetails, "did">
+  ): Promise<LedgerReceipt> {
+    const entry = this.register(did, keyId, publicKey, 2);
+    entry.institution = { did, ...details };
+    return this.mine("registerInstitution", [did, keyId, publicKey, details]);
+  }
+
+  async registerNewKey(
+    did: string,
+    keyId: string,
+    publicKey: string
+  ): Promise<LedgerReceipt> {
+    const entry = this.requireActiveDID(did);
+    if (entry.keys.has(keyId)) {
+      throw new Error("Key ID already exists");
+    }
+
+    entry.keys.set(keyId, publicKey);
+    entry.activeKeyId = keyId;
+    return this.mine("registerNewKey", [did, keyId, publicKey]);
+  }
+
+  async deactivateDID(did: string): Promise<LedgerReceipt> {
+    this.requireActiveDID(did).status = 1;
+    return this.mine("deactivate", [did]);
+  }
+
+  async isRegistered(did: string): Promise<boolean> {
+    return this.dids.has(did);
+  }
+
+  async getDIDDocument(did: string): Promise<LedgerDIDRecord> {
+    const { status, role, activeKeyId } = this.requireDID(did);
+    return { status, role, activeKeyId };
+  }
+
+  async getActiveKeyId(did: string): Promise<string> {
+    return this.requireDID(did).activeKeyId;
+  }
+
+  async getKey(did: string, keyId?: string): Promise<string> {
+    const entry = this.requireDID(did);
+    const key = entry.keys.get(keyId || entry.activeKeyId);
+    if (key === undefined) {
+      throw new Error("Key not found");
+    }
+    return key;
+  }
+
+  async getInstitutionDetails(did: string): Promise<LedgerInstitutionDetails> {
+    const entry = this.requireDID(did);
+    if (!entry.institution) {
+      throw new Error("DID is not an institution");
+    }
+    return { ...entry.institution };
+  }
+
+  async getDIDCount(): Promise<bigint> {
+    return BigInt(this.dids.size);
+  }
+
+  // ============================================
+  // 🔹 VC SCHEMA REGISTRY
+  // ============================================
+
+  async createVCSchema(
+    id: string,
+    name: string,
+    schema: string,
+    issuerDID: string
+  ): Promise<LedgerReceipt> {
+    if (this.schemas.has(id)) {
+      throw new Error("Schema already exists");
+    }
+
+    this.schemas.set(id, [
+      { id, name, schema, issuerDID, version: 1, isActive: true },
+    ]);
+    return this.mine("createVCSchema", [id, name, schema, issuerDID]);
+  }
+
+  async updateVCSchema(id: string, newSchema: string): Promise<LedgerReceipt> {
+    const versions = this.schemas.get(id);
+    if (!versions) {
+      throw new Error("Schema not found");
+    }
+
+    const latest = versions[versions.length - 1];
+    versions.push({
+      ...latest,
+      schema: newSchema,
+      version: latest.version + 1,
+      isActive: true,
+    });
+    return this.mine("updateVCSchema", [id, newSchema]);
+  }
+
+  async deactivateVCSchema(id: string, version: number): Promise<LedgerReceipt> {
+    this.requireSchemaVersion(id, version).isActive = false;
+    return this.mine("deactivateVCSchema", [id, version]);
+  }
+
+  async reactivateVCSchema(id: string, version: number): Promise<LedgerReceipt> {
+    this.requireSchemaVersion(id, version).isActive = true;
+    return this.mine("reactivateVCSchema", [id, version]);
+  }
+
+  async getAllSchemas(): Promise<LedgerVCSchema[]> {
+    return Array.from(this.schemas.values())
+      .flat()
+      .map((schema) => ({ ...schema }));
+  }
+
+  // ============================================
+  // 🔹 VC REGISTRY
+  // ============================================
+
+  async issueVC(vc: Omit<LedgerVCRecord, "status">): Promise<LedgerReceipt> {
+    if (this.vcs.has(vc.id)) {
+      throw new Error("VC already exists");
+    }
+
+    this.vcs.set(vc.id, { ...vc, status: true });
+    return this.mine("issueVC", [vc]);
+  }
+
+  async renewVC(id: string, expiredAt: string, hash: string): Promise<LedgerReceipt> {
+    const vc = this.requireVC(id);
+    vc.status = true;
+    vc.expiredAt = expiredAt;
+    vc.hash = hash;
+    return this.mine("renewVC", [id, expiredAt, hash]);
+  }
+
+  async updateVC(
+    oldId: string,
+    vc: Omit<LedgerVCRecord, "status">
+  ): Promise<LedgerReceipt> {
+    const oldVC = this.requireVC(oldId);
+    if (this.vcs.has(vc.id)) {
+      throw new Error("VC already exists");
+    }
+
+    oldVC.status = false;
+    this.vcs.set(vc.id, { ...vc, status: true });
+    return this.mine("updateVC", [oldId, vc]);
+  }
+
+  async revokeVC(id: string): Promise<LedgerReceipt> {
+    this.requireVC(id).status = false;
+    return this.mine("revokeVC", [id]);
+  }
+
+  async verifyVC(id: string, hash: string): Promise<boolean> {
+    const vc = this.vcs.get(id);
+    return !!vc && vc.status && vc.hash === hash;
+  }
+
+  async getVCStatus(id: string): Promise<LedgerVCRecord> {
+    return { ...this.requireVC(id) };
+  }
+
+  async getAllVCs(): Promise<LedgerVCRecord[]> {
+    return Array.from(this.vcs.values()).map((vc) => ({ ...vc }));
+  }
+}
+
+export { MemoryLedgerAdapter };
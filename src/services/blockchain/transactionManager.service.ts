@@ -0,0 +1,514 @@
+import { ethers, TransactionReceipt } from "ethers";
+import {
+  PrismaClient,
+  ChainTransaction,
+  ChainTransactionStatus,
+} from "@prisma/client";
+import { prisma } from "../../config/database";
+import { env } from "../../config/env";
+import logger from "../../config/logger";
+import DIDBlockchainConfig from "../../config/didblockchain";
+import { BlockchainError } from "../../utils/errors/AppError";
+
+interface FeeFields {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+/**
+ * Transaction Manager with Dependency Injection
+ * Sends every DIDManager / VCManager write through a single nonce queue
+ *
+ * DIDBlockchainConfig and VCBlockchainConfig sign with the same ACCOUNT_PRIVATE_KEY,
+ * so concurrent contract calls used to race for the same nonce. Here:
+ * - nonces are assigned locally (serialized), seeded from the pending transaction count
+ *   and resynced from the node after nonce errors and on startup
+ * - each transaction is signed, stored in ChainTransaction (with the raw transaction)
+ *   and only then broadcast, so a crash never loses track of a sent transaction
+ * - a transaction without a receipt after TX_STUCK_TIMEOUT_SECONDS is replaced with
+ *   the same nonce and fees bumped by TX_FEE_BUMP_PERCENT (EIP-1559, legacy gasPrice
+ *   on chains without a base fee), at most TX_MAX_REPLACEMENTS times
+ * - reconcilePending() settles / re-broadcasts PENDING transactions after a restart
+ */
+class TransactionManager {
+  private db: PrismaClient;
+  private signer: ethers.Wallet;
+  private provider: ethers.Provider;
+  private nonce: number | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { db?: PrismaClient; signer?: ethers.Wallet }) {
+    this.db = dependencies?.db || prisma;
+    this.signer = dependencies?.signer || DIDBlockchainConfig.signer;
+    this.provider = this.signer.provider!;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Run a task after all previously queued tasks (nonce critical section)
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private isNonceError(error: any): boolean {
+    return (
+      error?.code === "NONCE_EXPIRED" ||
+      /nonce too low|nonce has already been used|already known/i.test(
+        error?.message || ""
+      )
+    );
+  }
+
+  private async nextNonce(): Promise<number> {
+    if (this.nonce === null) {
+      this.nonce = await this.provider.getTransactionCount(
+        this.signer.address,
+        "pending"
+      );
+    }
+    return this.nonce;
+  }
+
+  private gweiCap(value?: string): bigint | null {
+    return value ? ethers.parseUnits(value, "gwei") : null;
+  }
+
+  /**
+   * Initial fees: EIP-1559 when the node reports a base fee, legacy gasPrice otherwise
+   */
+  private async initialFees(): Promise<FeeFields> {
+    const feeData = await this.provider.getFeeData();
+    const cap = this.gweiCap(env.TX_MAX_FEE_GWEI);
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const maxPriorityFeePerGas =
+        this.gweiCap(env.TX_PRIORITY_FEE_GWEI) ?? feeData.maxPriorityFeePerGas;
+      let maxFeePerGas =
+        feeData.maxFeePerGas > maxPriorityFeePerGas
+          ? feeData.maxFeePerGas
+          : maxPriorityFeePerGas;
+      if (cap !== null && maxFeePerGas > cap) maxFeePerGas = cap;
+
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas:
+          maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+      };
+    }
+
+    const gasPrice = feeData.gasPrice ?? BigInt(0);
+    return { gasPrice: cap !== null && gasPrice > cap ? cap : gasPrice };
+  }
+
+  /**
+   * Bump fees for a replacement; returns null when TX_MAX_FEE_GWEI prevents a bump
+   */
+  private bumpFees(record: ChainTransaction): FeeFields | null {
+    const cap = this.gweiCap(env.TX_MAX_FEE_GWEI);
+    const bump = (value: bigint): bigint => {
+      const bumped = (value * BigInt(100 + env.TX_FEE_BUMP_PERCENT)) / BigInt(100);
+      return bumped > value ? bumped : value + BigInt(1);
+    };
+
+    if (record.max_fee_per_gas && record.max_priority_fee_per_gas) {
+      const current = BigInt(record.max_fee_per_gas);
+      if (cap !== null && current >= cap) return null;
+
+      const maxFeePerGas = cap !== null && bump(current) > cap ? cap : bump(current);
+      const maxPriorityFeePerGas = bump(BigInt(record.max_priority_fee_per_gas));
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas:
+          maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas,
+      };
+    }
+
+    const current = BigInt(record.gas_price || "0");
+    if (cap !== null && current >= cap) return null;
+    return { gasPrice: cap !== null && bump(current) > cap ? cap : bump(current) };
+  }
+
+  private feeColumns(fees: FeeFields) {
+    return {
+      max_fee_per_gas: fees.maxFeePerGas?.toString() ?? null,
+      max_priority_fee_per_gas: fees.maxPriorityFeePerGas?.toString() ?? null,
+      gas_price: fees.gasPrice?.toString() ?? null,
+    };
+  }
+
+  /**
+   * Sign a transaction request and return the raw transaction and its hash
+   */
+  private async sign(
+    request: ethers.TransactionRequest
+  ): Promise<{ rawTx: string; hash: string }> {
+    const populated = await this.signer.populateTransaction(request);
+    const rawTx = await this.signer.signTransaction(populated);
+    return { rawTx, hash: ethers.Transaction.from(rawTx).hash! };
+  }
+
+  /**
+   * Assign a nonce, sign, persist and broadcast a contract call
+   * Must run inside enqueue()
+   */
+  private async submit(
+    contract: ethers.Contract,
+    method: string,
+    args: any[],
+    retryOnNonceError = true
+  ): Promise<ChainTransaction> {
+    const fn = contract.getFunction(method);
+    // Reverts surface here, before a nonce is consumed
+    const gasLimit = await fn.estimateGas(...args);
+    const populated = await fn.populateTransaction(...args);
+
+    const nonce = await this.nextNonce();
+    const fees = await this.initialFees();
+    const { rawTx, hash } = await this.sign({
+      to: populated.to,
+      data: populated.data,
+      nonce,
+      gasLimit: (gasLimit * BigInt(120)) / BigInt(100),
+      ...fees,
+    });
+
+    const record = await this.db.chainTransaction.create({
+      data: {
+        from_address: this.signer.address,
+        contract_address: populated.to,
+        function_name: method,
+        args: JSON.parse(
+          JSON.stringify(args, (_, value) =>
+            typeof value === "bigint" ? value.toString() : value
+          )
+        ),
+        nonce,
+        tx_hash: hash,
+        raw_tx: rawTx,
+        ...this.feeColumns(fees),
+      },
+    });
+
+    try {
+      await this.provider.broadcastTransaction(rawTx);
+    } catch (error: any) {
+      // The nonce was not used by this transaction, resync it from the node
+      this.nonce = null;
+      await this.db.chainTransaction.update({
+        where: { id: record.id },
+        data: {
+          status: this.isNonceError(error)
+            ? ChainTransactionStatus.DROPPED
+            : ChainTransactionStatus.FAILED,
+          error: error.message,
+        },
+      });
+
+      if (retryOnNonceError && this.isNonceError(error)) {
+        logger.warn(
+          `[TxManager] Nonce ${nonce} already used, resyncing and retrying ${method}`
+        );
+        return this.submit(contract, method, args, false);
+      }
+      throw error;
+    }
+
+    this.nonce = nonce + 1;
+    logger.info(`[TxManager] ${method} sent (nonce ${nonce}, TX: ${hash})`);
+    return record;
+  }
+
+  /**
+   * Re-sign the same nonce with bumped fees
+   * Returns the unchanged record when no replacement was broadcast
+   */
+  private async replace(record: ChainTransaction): Promise<ChainTransaction> {
+    const fees = this.bumpFees(record);
+    if (!fees) {
+      logger.warn(
+        `[TxManager] ${record.tx_hash} is stuck but fees are capped by TX_MAX_FEE_GWEI`
+      );
+      return record;
+    }
+
+    const previous = ethers.Transaction.from(record.raw_tx);
+    const { rawTx, hash } = await this.sign({
+      to: previous.to,
+      data: previous.data,
+      nonce: previous.nonce,
+      gasLimit: previous.gasLimit,
+      chainId: previous.chainId,
+      ...fees,
+    });
+
+    try {
+      await this.provider.broadcastTransaction(rawTx);
+    } catch (error: any) {
+      // Mined in the meantime (nonce too low) or replacement underpriced:
+      // keep tracking the transactions already sent
+      logger.warn(
+        `[TxManager] Replacement of ${record.tx_hash} rejected: ${error.message}`
+      );
+      return record;
+    }
+
+    logger.warn(
+      `[TxManager] Replaced stuck ${record.function_name} ${record.tx_hash} -> ${hash} (nonce ${record.nonce})`
+    );
+    return this.db.chainTransaction.update({
+      where: { id: record.id },
+      data: {
+        tx_hash: hash,
+        replaced_hashes: { push: record.tx_hash },
+        raw_tx: rawTx,
+        attempts: { increment: 1 },
+        ...this.feeColumns(fees),
+      },
+    });
+  }
+
+  /**
+   * Receipt of any submission (original or replacement) of a transaction
+   */
+  private async findReceipt(
+    record: ChainTransaction
+  ): Promise<TransactionReceipt | null> {
+    for (const hash of [record.tx_hash, ...record.replaced_hashes]) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+    }
+    return null;
+  }
+
+  private async isNonceConsumed(record: ChainTransaction): Promise<boolean> {
+    const minedCount = await this.provider.getTransactionCount(
+      record.from_address,
+      "latest"
+    );
+    return minedCount > record.nonce;
+  }
+
+  private async settle(
+    record: ChainTransaction,
+    receipt: TransactionReceipt
+  ): Promise<void> {
+    const replacedHashes = [record.tx_hash, ...record.replaced_hashes].filter(
+      (hash) => hash !== receipt.hash
+    );
+
+    await this.db.chainTransaction.update({
+      where: { id: record.id },
+      data: {
+        tx_hash: receipt.hash,
+        replaced_hashes: replacedHashes,
+        status:
+          receipt.status === 1
+            ? ChainTransactionStatus.CONFIRMED
+            : ChainTransactionStatus.FAILED,
+        block_number: receipt.blockNumber,
+        ...(receipt.status !== 1 && { error: "Transaction reverted" }),
+      },
+    });
+  }
+
+  private async markDropped(record: ChainTransaction): Promise<void> {
+    await this.db.chainTransaction.update({
+      where: { id: record.id },
+      data: {
+        status: ChainTransactionStatus.DROPPED,
+        error: "Nonce was used by another transaction",
+      },
+    });
+  }
+
+  /**
+   * Poll for a receipt, replacing the transaction while it is stuck
+   */
+  private async waitForReceipt(
+    initial: ChainTransaction
+  ): Promise<TransactionReceipt> {
+    let record = initial;
+    let lastSubmittedAt = Date.now();
+    const deadline = Date.now() + env.TX_CONFIRMATION_TIMEOUT_SECONDS * 1000;
+
+    while (Date.now() < deadline) {
+      const receipt = await this.findReceipt(record);
+      if (receipt) {
+        await this.settle(record, receipt);
+        return receipt;
+      }
+
+      if (Date.now() - lastSubmittedAt >= env.TX_STUCK_TIMEOUT_SECONDS * 1000) {
+        if (await this.isNonceConsumed(record)) {
+          // Receipt may have landed between the two calls
+          const lateReceipt = await this.findReceipt(record);
+          if (lateReceipt) {
+            await this.settle(record, lateReceipt);
+            return lateReceipt;
+          }
+
+          await this.markDropped(record);
+          throw new BlockchainError(
+            `Transaction dropped: nonce ${record.nonce} was used by another transaction`,
+            record.tx_hash
+          );
+        }
+
+        if (record.attempts <= env.TX_MAX_REPLACEMENTS) {
+          record = await this.enqueue(() => this.replace(record));
+        }
+        lastSubmittedAt = Date.now();
+      }
+
+      await this.sleep(env.TX_POLL_INTERVAL_MS);
+    }
+
+    throw new BlockchainError(
+      `Transaction not confirmed after ${env.TX_CONFIRMATION_TIMEOUT_SECONDS}s; it stays PENDING and is settled on the next reconciliation`,
+      record.tx_hash
+    );
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Send a contract write and wait for its receipt
+   * Replaces `await (await contract.method(...args)).wait()`. Unlike tx.wait() in
+   * ethers v6, which throws CALL_EXCEPTION, a transaction reverted when mined
+   * resolves with receipt.status === 0; callers check receipt.status (most
+   * reverts already surface from estimateGas, before anything is sent)
+   *
+   * The caller waits at most TX_REQUEST_WAIT_SECONDS so an HTTP request is not
+   * held for the whole TX_CONFIRMATION_TIMEOUT_SECONDS: after that a "not
+   * confirmed" BlockchainError is thrown while the transaction keeps being
+   * tracked (and fee bumped) in the background; the chain outbox resumes the
+   * write once it is settled
+   */
+  async send(
+    contract: ethers.Contract,
+    method: string,
+    args: any[] = []
+  ): Promise<TransactionReceipt> {
+    const record = await this.enqueue(() => this.submit(contract, method, args));
+    const tracking = this.waitForReceipt(record);
+    const notConfirmed = new BlockchainError(
+      `Transaction not confirmed within ${env.TX_REQUEST_WAIT_SECONDS}s; it stays PENDING and is tracked in the background`,
+      record.tx_hash
+    );
+
+    let timer: NodeJS.Timeout | undefined;
+    const requestTimeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(notConfirmed),
+        env.TX_REQUEST_WAIT_SECONDS * 1000
+      );
+    });
+
+    try {
+      return await Promise.race([tracking, requestTimeout]);
+    } catch (error) {
+      if (error === notConfirmed) {
+        tracking.catch((trackingError) =>
+          logger.error(
+            `[TxManager] ${method} ${record.tx_hash} not confirmed:`,
+            trackingError
+          )
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Reconcile PENDING transactions after a restart
+   * Settles mined ones, drops those whose nonce was consumed, re-broadcasts
+   * the rest and keeps tracking them (with fee bumping) in the background
+   */
+  async reconcilePending(): Promise<{
+    confirmed: number;
+    failed: number;
+    dropped: number;
+    resubmitted: number;
+  }> {
+    const result = { confirmed: 0, failed: 0, dropped: 0, resubmitted: 0 };
+
+    const pending = await this.db.chainTransaction.findMany({
+      where: {
+        from_address: this.signer.address,
+        status: ChainTransactionStatus.PENDING,
+      },
+      orderBy: { nonce: "asc" },
+    });
+
+    for (const record of pending) {
+      const receipt = await this.findReceipt(record);
+      if (receipt) {
+        await this.settle(record, receipt);
+        if (receipt.status === 1) {
+          result.confirmed++;
+        } else {
+          result.failed++;
+        }
+        continue;
+      }
+
+      if (await this.isNonceConsumed(record)) {
+        await this.markDropped(record);
+        result.dropped++;
+        continue;
+      }
+
+      try {
+        await this.provider.broadcastTransaction(record.raw_tx);
+      } catch (error: any) {
+        // "already known" means the node still has it in its mempool
+        logger.debug(
+          `[TxManager] Re-broadcast of ${record.tx_hash}: ${error.message}`
+        );
+      }
+      result.resubmitted++;
+
+      this.waitForReceipt(record).catch((error) =>
+        logger.error(
+          `[TxManager] Recovered transaction ${record.tx_hash} not confirmed:`,
+          error
+        )
+      );
+    }
+
+    // Local nonce is re-read from the node on the next send
+    this.nonce = null;
+
+    if (pending.length > 0) {
+      logger.info(
+        `[TxManager] Reconciled ${pending.length} pending transactions: ${JSON.stringify(result)}`
+      );
+    }
+    return result;
+  }
+}
+
+export default new TransactionManager();
+export { TransactionManager };
@@ -1,6 +1,11 @@
-import { ethers, TransactionReceipt } from "ethers";
-import VCBlockchainConfig from "../../config/vcblockchain";
 import { BlockchainError, NotFoundError } from "../../utils/errors/AppError";
+import {
+  LedgerAdapter,
+  LedgerReceipt,
+  LedgerVCRecord,
+  LedgerVCSchema,
+} from "../../types";
+import Ledger from "./ledger";
 
 /**
  * VC Blockchain Service
@@ -8,14 +13,14 @@ import { BlockchainError, NotFoundError } from "../../utils/errors/AppError";
  * Updated to support Schema Versioning
  */
 class VCBlockchainService {
-  private contract: ethers.Contract;
+  private ledger: LedgerAdapter;
 
   /**
    * Constructor with dependency injection
    * @param dependencies - Optional dependencies for testing
    */
-  constructor(dependencies?: { contract?: ethers.Contract }) {
-    this.contract = dependencies?.contract || VCBlockchainConfig.contract;
+  constructor(dependencies?: { ledger?: LedgerAdapter }) {
+    this.ledger = dependencies?.ledger || Ledger;
   }
 
   // ============================================
@@ -31,15 +36,14 @@ class VCBlockchainService {
     name: string,
     schema: string,
     issuerDID: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.createVCSchema(
+      const receipt = await this.ledger.createVCSchema(
         id,
         name,
         schema,
         issuerDID
       );
-      const receipt = await tx.wait();
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -68,10 +72,9 @@ class VCBlockchainService {
   async updateVCSchemaInBlockchain(
     id: string,
     newSchema: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.updateVCSchema(id, newSchema);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.updateVCSchema(id, newSchema);
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -99,10 +102,9 @@ class VCBlockchainService {
   async deactivateVCSchemaInBlockchain(
     id: string,
     version: number
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.deactivateVCSchema(id, version);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.deactivateVCSchema(id, version);
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -132,10 +134,9 @@ class VCBlockchainService {
   async reactivateVCSchemaInBlockchain(
     id: string,
     version: number
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.reactivateVCSchema(id, version);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.reactivateVCSchema(id, version);
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -162,9 +163,9 @@ class VCBlockchainService {
   /**
    * Get All VC Schemas from Blockchain (all versions)
    */
-  async getAllSchemasFromBlockchain(): Promise<any[]> {
+  async getAllSchemasFromBlockchain(): Promise<LedgerVCSchema[]> {
     try {
-      const schemas = await this.contract.getAllSchemas();
+      const schemas = await this.ledger.getAllSchemas();
 
       console.log(`✅ Retrieved ${schemas.length} VC Schema versions from blockchain`);
       return schemas;
@@ -190,19 +191,18 @@ class VCBlockchainService {
     schemaVersion: number,
     expiredAt: string | undefined,
     hash: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.issueVC(
+      const receipt = await this.ledger.issueVC({
         id,
         issuerDID,
         holderDID,
         vcType,
         schemaID,
         schemaVersion,
-        expiredAt || "", // Use empty string if undefined
-        hash
-      );
-      const receipt = await tx.wait();
+        expiredAt: expiredAt || "", // Use empty string if undefined
+        hash,
+      });
 
       if (receipt.status !== 1) {
         throw new BlockchainError(
@@ -228,10 +228,9 @@ class VCBlockchainService {
    * Renew VC on Blockchain
    * Reactivates VC with new expiration date and hash
    */
-  async renewVCInBlockchain(id: string, expiredAt: string | undefined, hash: string): Promise<TransactionReceipt> {
+  async renewVCInBlockchain(id: string, expiredAt: string | undefined, hash: string): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.renewVC(id, expiredAt || "", hash);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.renewVC(id, expiredAt || "", hash);
 
       if (receipt.status !== 1) {
         throw new BlockchainError("Renew transaction failed", receipt.hash);
@@ -264,20 +263,18 @@ class VCBlockchainService {
     schemaVersion: number,
     expiredAt: string | undefined,
     hash: string
-  ): Promise<TransactionReceipt> {
+  ): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.updateVC(
-        oldID,
-        newID,
+      const receipt = await this.ledger.updateVC(oldID, {
+        id: newID,
         issuerDID,
         holderDID,
         vcType,
         schemaID,
         schemaVersion,
-        expiredAt || "", // Use empty string if undefined
-        hash
-      );
-      const receipt = await tx.wait();
+        expiredAt: expiredAt || "", // Use empty string if undefined
+        hash,
+      });
 
       if (receipt.status !== 1) {
         throw new BlockchainError("Update transaction failed", receipt.hash);
@@ -300,10 +297,9 @@ class VCBlockchainService {
    * Revoke VC on Blockchain
    * Deactivates VC
    */
-  async revokeVCInBlockchain(id: string): Promise<TransactionReceipt> {
+  async revokeVCInBlockchain(id: string): Promise<LedgerReceipt> {
     try {
-      const tx = await this.contract.revokeVC(id);
-      const receipt = await tx.wait();
+      const receipt = await this.ledger.revokeVC(id);
 
       if (receipt.status !== 1) {
         throw new BlockchainError("Revoke transaction failed", receipt.hash);
@@ -328,7 +324,7 @@ class VCBlockchainService {
    */
   async verifyVCInBlockchain(id: string, hash: string): Promise<boolean> {
     try {
-      const isValid = await this.contract.verifyVC(id, hash);
+      const isValid = await this.ledger.verifyVC(id, hash);
 
       console.log(`✅ VC verification result for ${id}: ${isValid}`);
       return isValid;
@@ -346,9 +342,9 @@ class VCBlockchainService {
    * Get All VCs from Blockchain
    * Note: This method may be expensive for large number of VCs
    */
-  async getAllVCsFromBlockchain(): Promise<any[]> {
+  async getAllVCsFromBlockchain(): Promise<LedgerVCRecord[]> {
     try {
-      const vcs = await this.contract.getAllVCs();
+      const vcs = await this.ledger.getAllVCs();
 
       console.log(`✅ Retrieved ${vcs.length} VCs from blockchain`);
       return vcs;
@@ -361,9 +357,9 @@ class VCBlockchainService {
   /**
    * Get VC Status by ID from Blockchain
    */
-  async getVCStatusFromBlockchain(vcId: string): Promise<any> {
+  async getVCStatusFromBlockchain(vcId: string): Promise<LedgerVCRecord> {
     try {
-      const vcStatus = await this.contract.getVCStatus(vcId);
+      const vcStatus = await this.ledger.getVCStatus(vcId);
 
       console.log(`✅ Retrieved VC status for: ${vcId}`);
       return vcStatus;
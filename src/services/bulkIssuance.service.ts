@@ -0,0 +1,732 @@
+import {
+  PrismaClient,
+  BulkIssuanceJob,
+  BulkIssuanceJobStatus,
+  BulkIssuanceRow,
+  BulkIssuanceRowStatus,
+  RequestType,
+  VCResponseStatus,
+  VCSchema,
+} from "@prisma/client";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import BatchAnchorService from "./blockchain/batchAnchor.service";
+import StatusListService from "./statusList.service";
+import NotificationService from "./notification.service";
+import { CanonicalizationHelper } from "../utils/helpers/canonicalization.helper";
+import { JsonSchemaHelper } from "../utils/helpers/jsonSchema.helper";
+import { ManifestHelper } from "../utils/helpers/manifest.helper";
+import { ANCHORING_MODE } from "../constants/merkleAnchor.constants";
+import { BULK_ISSUANCE } from "../constants/bulkIssuance.constants";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors/AppError";
+import {
+  BulkIssuanceJobDTO,
+  BulkIssuanceManifestRowDTO,
+  BulkIssuanceProgressDTO,
+  BulkIssuanceRowErrorDTO,
+  CreateBulkIssuanceDTO,
+} from "../dtos/credential.dto";
+
+/**
+ * Validated manifest row, ready to be stored as a BulkIssuanceRow
+ */
+interface ValidatedRow {
+  row_number: number;
+  holder_did: string | null;
+  vc_id: string | null;
+  vc_hash: string | null;
+  encrypted_body: string | null;
+  expired_at: string | null;
+  status: BulkIssuanceRowStatus;
+  errors: string[];
+}
+
+/**
+ * Bulk Issuance Service with Dependency Injection
+ * Issuer-initiated issuance of many VCs from one manifest (CSV or JSON), the bulk
+ * counterpart of CredentialService.issuerIssueVC:
+ *
+ * - Every row is validated up front (holder DID, hash, expiry, duplicates) against
+ *   the referenced VCSchema; invalid rows are kept as INVALID with their errors
+ * - Valid rows are anchored (directly or into a Merkle batch) and stored for the holder
+ *   claim in the background, one row at a time, with a per-row status
+ * - A row is never anchored twice: anchored_at is recorded first, and an on-chain
+ *   entry left by an interrupted attempt is adopted when its issuer and hash match
+ * - FAILED rows are retried on request; unfinished jobs are resumed by bulkIssuanceScheduler
+ */
+class BulkIssuanceService {
+  private db: PrismaClient;
+  private vcBlockchainService: typeof VCBlockchainService;
+  private batchAnchorService: typeof BatchAnchorService;
+  private statusListService: typeof StatusListService;
+  private notificationService: typeof NotificationService;
+  private processing = new Set<string>();
+  private isRunning = false;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    vcBlockchainService?: typeof VCBlockchainService;
+    batchAnchorService?: typeof BatchAnchorService;
+    statusListService?: typeof StatusListService;
+    notificationService?: typeof NotificationService;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.vcBlockchainService =
+      dependencies?.vcBlockchainService || VCBlockchainService;
+    this.batchAnchorService =
+      dependencies?.batchAnchorService || BatchAnchorService;
+    this.statusListService =
+      dependencies?.statusListService || StatusListService;
+    this.notificationService =
+      dependencies?.notificationService || NotificationService;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Job of the authenticated issuer
+   */
+  private async requireJob(
+    jobId: string,
+    authenticatedDid: string
+  ): Promise<BulkIssuanceJob> {
+    const job = await this.db.bulkIssuanceJob.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new NotFoundError(`Bulk issuance job ${jobId} not found`);
+    }
+    if (job.issuer_did !== authenticatedDid) {
+      throw new ForbiddenError(
+        "Authenticated DID is not the issuer of this bulk issuance job."
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Validate one manifest row against the schema
+   * @param usedVcIds - vc_ids issued before or claimed by earlier rows / active jobs
+   */
+  private async validateRow(
+    row: BulkIssuanceManifestRowDTO,
+    rowNumber: number,
+    issuerDid: string,
+    schema: VCSchema,
+    usedVcIds: Map<string, string>
+  ): Promise<ValidatedRow> {
+    const errors: string[] = [];
+    const text = (value: unknown) =>
+      typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+    const holderDid = text(row.holder_did);
+    const vcId = text(row.vc_id);
+    const encryptedBody = text(row.encrypted_body);
+    const expiredAt = text(row.expiredAt);
+    let vcHash = text(row.vc_hash);
+
+    if (!holderDid) {
+      errors.push("holder_did is required");
+    } else if (!DID_RESOLUTION.SUPPORTED_DID_REGEX.test(holderDid)) {
+      errors.push("Invalid holder DID format");
+    } else if (holderDid === issuerDid) {
+      errors.push("Issuer DID and Holder DID cannot be the same.");
+    }
+
+    if (!vcId) {
+      errors.push("vc_id is required");
+    } else if (usedVcIds.has(vcId)) {
+      errors.push(usedVcIds.get(vcId)!);
+    }
+
+    if (!encryptedBody) {
+      errors.push("encrypted_body is required");
+    }
+
+    if (!expiredAt) {
+      errors.push("expiredAt is required");
+    } else if (!/^\d{4}-\d{2}-\d{2}/.test(expiredAt) || isNaN(Date.parse(expiredAt))) {
+      errors.push("expiredAt must be a valid ISO 8601 date string");
+    } else {
+      const expiry = new Date(expiredAt);
+      const maxExpiry = new Date();
+      maxExpiry.setFullYear(maxExpiry.getFullYear() + (schema.expired_in ?? 0));
+
+      if (expiry.getTime() <= Date.now()) {
+        errors.push("expiredAt must be in the future");
+      } else if (schema.expired_in && expiry > maxExpiry) {
+        errors.push(
+          `expiredAt exceeds the schema validity of ${schema.expired_in} year(s)`
+        );
+      }
+    }
+
+    if (row.vc_json !== undefined) {
+      const vcJson = row.vc_json;
+      const subject = vcJson?.credentialSubject;
+
+      if (!vcJson || typeof vcJson !== "object" || Array.isArray(vcJson)) {
+        errors.push("vc_json must be a valid JSON object");
+      } else if (vcJson.id !== vcId) {
+        errors.push(`vc_json.id (${vcJson.id}) does not match vc_id (${vcId})`);
+      } else {
+        errors.push(...JsonSchemaHelper.validate(schema.schema, subject));
+        if (subject?.id && subject.id !== holderDid) {
+          errors.push("credentialSubject.id does not match holder_did");
+        }
+
+        try {
+          const computedHash = await CanonicalizationHelper.hashCredential(vcJson);
+          if (vcHash && !CanonicalizationHelper.hashesEqual(vcHash, computedHash)) {
+            errors.push(
+              `vc_hash does not match the hash computed from vc_json (${computedHash})`
+            );
+          }
+          vcHash = computedHash;
+        } catch (error: any) {
+          errors.push(`Failed to canonicalize vc_json: ${error.message}`);
+        }
+
+        // The signed VC must embed the entries allocated for it before signing
+        if (errors.length === 0) {
+          const allocation = await this.statusListService.allocateStatus(issuerDid, vcId!);
+          const missing = this.statusListService.getMissingEntries(
+            vcJson,
+            allocation.credential_status
+          );
+          if (missing.length > 0) {
+            errors.push(
+              `vc_json.credentialStatus must embed the allocated status list entries (${missing
+                .map((entry) => entry.id)
+                .join(", ")})`
+            );
+          }
+        }
+      }
+    } else if (!vcHash) {
+      errors.push("vc_hash is required (unless vc_json is provided)");
+    } else if (!/^[a-fA-F0-9]{64}$/.test(vcHash)) {
+      errors.push("Invalid vc_hash format (must be a 64-character hex string)");
+    }
+
+    if (vcId && !usedVcIds.has(vcId)) {
+      usedVcIds.set(vcId, `vc_id ${vcId} is duplicated in the manifest (row ${rowNumber})`);
+    }
+
+    return {
+      row_number: rowNumber,
+      holder_did: holderDid,
+      vc_id: vcId,
+      vc_hash: vcHash,
+      encrypted_body: encryptedBody,
+      expired_at: expiredAt,
+      status:
+        errors.length > 0 ? BulkIssuanceRowStatus.INVALID : BulkIssuanceRowStatus.PENDING,
+      errors,
+    };
+  }
+
+  /**
+   * vc_ids that cannot be issued again: already issued by an issuer, or
+   * claimed by a row of another job that is pending or issued
+   */
+  private async findUsedVcIds(vcIds: string[]): Promise<Map<string, string>> {
+    const used = new Map<string, string>();
+    if (vcIds.length === 0) {
+      return used;
+    }
+
+    const [issued, jobRows] = await Promise.all([
+      this.db.vCinitiatedByIssuer.findMany({
+        where: { vc_id: { in: vcIds } },
+        select: { vc_id: true },
+      }),
+      this.db.bulkIssuanceRow.findMany({
+        where: {
+          vc_id: { in: vcIds },
+          status: { in: [BulkIssuanceRowStatus.PENDING, BulkIssuanceRowStatus.ISSUED] },
+        },
+        select: { vc_id: true, job_id: true },
+      }),
+    ]);
+
+    for (const row of jobRows) {
+      used.set(row.vc_id!, `vc_id ${row.vc_id} is already part of bulk issuance job ${row.job_id}`);
+    }
+    for (const record of issued) {
+      used.set(record.vc_id!, `vc_id ${record.vc_id} has already been issued`);
+    }
+    return used;
+  }
+
+  /**
+   * Read a VCManager entry, null if it does not exist
+   */
+  private async findOnChain(vcId: string): Promise<any | null> {
+    try {
+      return await this.vcBlockchainService.getVCStatusFromBlockchain(vcId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Anchor a row on-chain or queue it into a Merkle batch
+   * An existing entry with the same issuer and hash (interrupted attempt) is adopted
+   */
+  private async anchorRow(
+    job: BulkIssuanceJob,
+    row: BulkIssuanceRow
+  ): Promise<{ transaction_hash?: string; block_number?: number }> {
+    const vcId = row.vc_id!;
+    const existing =
+      job.anchoring_mode === ANCHORING_MODE.BATCH
+        ? await this.db.anchoredVC
+            .findUnique({ where: { vc_id: vcId } })
+            .then((queued) => queued && { issuerDID: queued.issuer_did, hash: queued.vc_hash })
+        : await this.findOnChain(vcId);
+
+    if (existing) {
+      if (
+        existing.issuerDID !== job.issuer_did ||
+        !CanonicalizationHelper.hashesEqual(existing.hash, row.vc_hash!)
+      ) {
+        throw new Error(`VC ${vcId} is already anchored with a different issuer or hash`);
+      }
+      logger.info(`[BulkIssuance] VC ${vcId} already anchored, adopting it`);
+      return {};
+    }
+
+    if (job.anchoring_mode === ANCHORING_MODE.BATCH) {
+      await this.batchAnchorService.enqueue({
+        vc_id: vcId,
+        issuer_did: job.issuer_did,
+        holder_did: row.holder_did!,
+        vc_type: job.vc_type,
+        schema_id: job.schema_id,
+        schema_version: job.schema_version,
+        expiredAt: row.expired_at ?? undefined,
+        vc_hash: row.vc_hash!,
+      });
+      return {};
+    }
+
+    const receipt = await this.vcBlockchainService.issueVCInBlockchain(
+      vcId,
+      job.issuer_did,
+      row.holder_did!,
+      job.vc_type,
+      job.schema_id,
+      job.schema_version,
+      row.expired_at ?? undefined,
+      row.vc_hash!
+    );
+    return { transaction_hash: receipt.hash, block_number: receipt.blockNumber };
+  }
+
+  /**
+   * Anchor and store one row; the row ends ISSUED or FAILED
+   */
+  private async issueRow(job: BulkIssuanceJob, row: BulkIssuanceRow): Promise<void> {
+    try {
+      let transactionHash = row.transaction_hash;
+
+      // Status list indexes exist before the VC is anchored
+      await this.statusListService.allocateStatus(job.issuer_did, row.vc_id!);
+
+      if (!row.anchored_at) {
+        const anchoring = await this.anchorRow(job, row);
+        transactionHash = anchoring.transaction_hash ?? null;
+
+        await this.db.bulkIssuanceRow.update({
+          where: { id: row.id },
+          data: { anchored_at: new Date(), ...anchoring },
+        });
+      }
+
+      const record = await this.db.$transaction(async (tx) => {
+        const newRecord = await tx.vCinitiatedByIssuer.create({
+          data: {
+            request_type: RequestType.ISSUANCE,
+            issuer_did: job.issuer_did,
+            holder_did: row.holder_did!,
+            vc_id: row.vc_id,
+            encrypted_body: row.encrypted_body!,
+            status: VCResponseStatus.PENDING,
+          },
+        });
+        await tx.issuerActionLog.create({
+          data: {
+            action_type: RequestType.ISSUANCE,
+            issuer_did: job.issuer_did,
+            holder_did: row.holder_did,
+            vc_id: row.vc_id!,
+            transaction_hash: transactionHash,
+          },
+        });
+        await tx.bulkIssuanceRow.update({
+          where: { id: row.id },
+          data: {
+            status: BulkIssuanceRowStatus.ISSUED,
+            record_id: newRecord.id,
+            errors: [],
+            attempts: { increment: 1 },
+          },
+        });
+        return newRecord;
+      });
+
+      await this.notificationService.sendVCStatusNotification(
+        row.holder_did!,
+        "New Credential Issued",
+        "A new verifiable credential has been issued to you and is ready to be claimed.",
+        {
+          type: "VC_ISSUED_BY_ISSUER",
+          record_id: record.id,
+          request_type: RequestType.ISSUANCE,
+        }
+      );
+    } catch (error: any) {
+      logger.error(
+        `[BulkIssuance] Job ${job.id} row ${row.row_number} (VC ${row.vc_id}) failed: ${error.message}`
+      );
+      await this.db.bulkIssuanceRow.update({
+        where: { id: row.id },
+        data: {
+          status: BulkIssuanceRowStatus.FAILED,
+          errors: [error.message],
+          attempts: { increment: 1 },
+        },
+      });
+    }
+  }
+
+  private async getProgress(jobId: string): Promise<BulkIssuanceProgressDTO> {
+    const groups = await this.db.bulkIssuanceRow.groupBy({
+      by: ["status"],
+      where: { job_id: jobId },
+      _count: { _all: true },
+    });
+    const count = (status: BulkIssuanceRowStatus) =>
+      groups.find((group) => group.status === status)?._count._all ?? 0;
+
+    const progress = {
+      pending: count(BulkIssuanceRowStatus.PENDING),
+      issued: count(BulkIssuanceRowStatus.ISSUED),
+      invalid: count(BulkIssuanceRowStatus.INVALID),
+      failed: count(BulkIssuanceRowStatus.FAILED),
+    };
+    return {
+      total: progress.pending + progress.issued + progress.invalid + progress.failed,
+      ...progress,
+    };
+  }
+
+  /**
+   * Final job status from its row statuses
+   */
+  private async settle(jobId: string): Promise<BulkIssuanceJob> {
+    const progress = await this.getProgress(jobId);
+    const status =
+      progress.pending > 0
+        ? BulkIssuanceJobStatus.PROCESSING
+        : progress.invalid + progress.failed > 0
+        ? BulkIssuanceJobStatus.COMPLETED_WITH_ERRORS
+        : BulkIssuanceJobStatus.COMPLETED;
+
+    return this.db.bulkIssuanceJob.update({
+      where: { id: jobId },
+      data: {
+        status,
+        completed_at: status === BulkIssuanceJobStatus.PROCESSING ? null : new Date(),
+      },
+    });
+  }
+
+  private async toJobDTO(job: BulkIssuanceJob): Promise<BulkIssuanceJobDTO> {
+    return {
+      job_id: job.id,
+      issuer_did: job.issuer_did,
+      schema_id: job.schema_id,
+      schema_version: job.schema_version,
+      vc_type: job.vc_type,
+      anchoring_mode: job.anchoring_mode,
+      manifest_name: job.manifest_name,
+      status: job.status,
+      progress: await this.getProgress(job.id),
+      completed_at: job.completed_at,
+      createdAt: job.createdAt,
+    };
+  }
+
+  /**
+   * Process the job in the background (the request returns right away)
+   */
+  private processInBackground(jobId: string): void {
+    this.process(jobId).catch((error) =>
+      logger.error(`[BulkIssuance] Processing job ${jobId} failed:`, error)
+    );
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Validate a manifest and create its job; valid rows are issued in the background
+   */
+  async createJob(
+    data: CreateBulkIssuanceDTO,
+    authenticatedDid: string
+  ): Promise<BulkIssuanceJobDTO> {
+    const { issuer_did, schema_id, schema_version, rows } = data;
+    const anchoringMode = data.anchoring_mode || ANCHORING_MODE.DIRECT;
+
+    if (issuer_did !== authenticatedDid) {
+      throw new ForbiddenError(
+        "Authenticated DID does not match the issuer_did in the request body."
+      );
+    }
+    if (rows.length === 0) {
+      throw new BadRequestError("The manifest has no rows.");
+    }
+    if (rows.length > env.BULK_ISSUANCE_MAX_ROWS) {
+      throw new BadRequestError(
+        `The manifest has ${rows.length} rows, the maximum is ${env.BULK_ISSUANCE_MAX_ROWS}.`
+      );
+    }
+    if (anchoringMode === ANCHORING_MODE.BATCH && !env.VC_BATCH_ANCHORING_ENABLED) {
+      throw new BadRequestError(
+        "Batch anchoring is disabled (VC_BATCH_ANCHORING_ENABLED=false)."
+      );
+    }
+
+    const schema = await this.db.vCSchema.findUnique({
+      where: { id_version: { id: schema_id, version: schema_version } },
+    });
+    if (!schema) {
+      throw new NotFoundError(`Schema not found: ${schema_id} v${schema_version}`);
+    }
+    if (schema.issuer_did !== issuer_did) {
+      throw new ForbiddenError("The schema does not belong to this issuer.");
+    }
+    if (!schema.isActive) {
+      throw new BadRequestError(
+        `Schema ${schema_id} v${schema_version} is deactivated.`
+      );
+    }
+
+    const usedVcIds = await this.findUsedVcIds(
+      rows
+        .map((row) => (typeof row.vc_id === "string" ? row.vc_id.trim() : ""))
+        .filter((vcId) => vcId !== "")
+    );
+
+    const validatedRows: ValidatedRow[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      validatedRows.push(
+        await this.validateRow(rows[i], i + 1, issuer_did, schema, usedVcIds)
+      );
+    }
+
+    const job = await this.db.$transaction(
+      async (tx) => {
+        const newJob = await tx.bulkIssuanceJob.create({
+          data: {
+            issuer_did,
+            schema_id,
+            schema_version,
+            vc_type: schema.name,
+            anchoring_mode: anchoringMode,
+            manifest_name: data.manifest_name,
+            total_rows: rows.length,
+          },
+        });
+
+        for (let i = 0; i < validatedRows.length; i += 1000) {
+          await tx.bulkIssuanceRow.createMany({
+            data: validatedRows
+              .slice(i, i + 1000)
+              .map((row) => ({ ...row, job_id: newJob.id })),
+          });
+        }
+        return newJob;
+      },
+      { timeout: 60000 }
+    );
+
+    const invalidCount = validatedRows.filter(
+      (row) => row.status === BulkIssuanceRowStatus.INVALID
+    ).length;
+    logger.info(
+      `[BulkIssuance] Job ${job.id} created by ${issuer_did}: ${rows.length} rows, ${invalidCount} invalid`
+    );
+
+    if (invalidCount === rows.length) {
+      return this.toJobDTO(await this.settle(job.id));
+    }
+
+    this.processInBackground(job.id);
+    return this.toJobDTO(job);
+  }
+
+  /**
+   * Issue the PENDING rows of a job, in manifest order
+   */
+  async process(jobId: string): Promise<void> {
+    if (this.processing.has(jobId)) {
+      return;
+    }
+    this.processing.add(jobId);
+
+    try {
+      const job = await this.db.bulkIssuanceJob.findUnique({ where: { id: jobId } });
+      if (!job || job.status !== BulkIssuanceJobStatus.PROCESSING) {
+        return;
+      }
+
+      for (;;) {
+        const rows = await this.db.bulkIssuanceRow.findMany({
+          where: { job_id: jobId, status: BulkIssuanceRowStatus.PENDING },
+          orderBy: { row_number: "asc" },
+          take: BULK_ISSUANCE.PROCESS_CHUNK_SIZE,
+        });
+        if (rows.length === 0) {
+          break;
+        }
+
+        for (const row of rows) {
+          await this.issueRow(job, row);
+        }
+      }
+
+      const settled = await this.settle(jobId);
+      logger.info(`[BulkIssuance] Job ${jobId} finished: ${settled.status}`);
+    } finally {
+      this.processing.delete(jobId);
+    }
+  }
+
+  /**
+   * Resume jobs left PROCESSING (e.g. by a restart) (bulkIssuanceScheduler)
+   */
+  async runOnce(): Promise<{ jobs: number }> {
+    if (this.isRunning) {
+      return { jobs: 0 };
+    }
+    this.isRunning = true;
+
+    try {
+      const jobs = await this.db.bulkIssuanceJob.findMany({
+        where: { status: BulkIssuanceJobStatus.PROCESSING },
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+      });
+
+      for (const { id } of jobs) {
+        await this.process(id);
+      }
+      return { jobs: jobs.length };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Job status and progress
+   */
+  async getJob(jobId: string, authenticatedDid: string): Promise<BulkIssuanceJobDTO> {
+    return this.toJobDTO(await this.requireJob(jobId, authenticatedDid));
+  }
+
+  /**
+   * INVALID and FAILED rows with their errors, in manifest order
+   */
+  async getErrorReport(
+    jobId: string,
+    authenticatedDid: string
+  ): Promise<BulkIssuanceRowErrorDTO[]> {
+    await this.requireJob(jobId, authenticatedDid);
+
+    const rows = await this.db.bulkIssuanceRow.findMany({
+      where: {
+        job_id: jobId,
+        status: { in: [BulkIssuanceRowStatus.INVALID, BulkIssuanceRowStatus.FAILED] },
+      },
+      orderBy: { row_number: "asc" },
+    });
+
+    return rows.map((row) => ({
+      row_number: row.row_number,
+      vc_id: row.vc_id,
+      holder_did: row.holder_did,
+      status: row.status as BulkIssuanceRowErrorDTO["status"],
+      errors: row.errors,
+      attempts: row.attempts,
+    }));
+  }
+
+  /**
+   * Error report as CSV (errors joined with "; ")
+   */
+  async getErrorReportCsv(jobId: string, authenticatedDid: string): Promise<string> {
+    const rows = await this.getErrorReport(jobId, authenticatedDid);
+
+    return ManifestHelper.toCsv(
+      BULK_ISSUANCE.ERROR_REPORT_COLUMNS,
+      rows.map((row) => [
+        row.row_number,
+        row.vc_id,
+        row.holder_did,
+        row.status,
+        row.errors.join("; "),
+      ])
+    );
+  }
+
+  /**
+   * Queue the FAILED rows of a job again
+   * Rows that were already anchored only redo the database part
+   */
+  async retryFailedRows(
+    jobId: string,
+    authenticatedDid: string
+  ): Promise<BulkIssuanceJobDTO> {
+    await this.requireJob(jobId, authenticatedDid);
+
+    const { count } = await this.db.bulkIssuanceRow.updateMany({
+      where: { job_id: jobId, status: BulkIssuanceRowStatus.FAILED },
+      data: { status: BulkIssuanceRowStatus.PENDING },
+    });
+    if (count === 0) {
+      throw new BadRequestError(`Bulk issuance job ${jobId} has no failed rows to retry.`);
+    }
+
+    const job = await this.db.bulkIssuanceJob.update({
+      where: { id: jobId },
+      data: { status: BulkIssuanceJobStatus.PROCESSING, completed_at: null },
+    });
+    logger.info(`[BulkIssuance] Retrying ${count} failed rows of job ${jobId}`);
+
+    this.processInBackground(jobId);
+    return this.toJobDTO(job);
+  }
+}
+
+export default new BulkIssuanceService();
+export { BulkIssuanceService };
@@ -1,9 +1,13 @@
 import {
+  Prisma,
   PrismaClient,
   RequestType,
   RequestStatus,
   VCResponseStatus,
-} from "@prisma/client"; // Removed Prisma import
+  StatusPurpose,
+  ChainOutboxOperation,
+  ChainOutboxStatus,
+} from "@prisma/client";
 import { prisma } from "../config/database";
 import {
   BadRequestError,
@@ -11,6 +15,7 @@ import {
   BlockchainError,
   ForbiddenError,
   InternalServerError,
+  ConflictError,
 } from "../utils/errors/AppError";
 import logger from "../config/logger";
 import {
@@ -36,6 +41,12 @@ import {
   IssuerRevokeVCResponseDTO,
   IssuerRenewVCDTO,
   IssuerRenewVCResponseDTO,
+  IssuerSuspendVCDTO,
+  IssuerSuspendVCResponseDTO,
+  PrepareSdJwtVCDTO,
+  PrepareSdJwtVCResponseDTO,
+  IssuerReinstateVCDTO,
+  IssuerReinstateVCResponseDTO,
   ClaimIssuerInitiatedVCsDTO,
   ClaimIssuerInitiatedVCsResponseDTO,
   ConfirmIssuerInitiatedVCsDTO,
@@ -50,12 +61,164 @@ import {
   UploadVCDocumentResponseDTO,
   DeleteVCDocumentResponseDTO,
   VCSchemaData,
+  BitstringStatusListEntryDTO,
+  VCAnchoringDTO,
 } from "../dtos";
+import { ANCHORING_MODE } from "../constants/merkleAnchor.constants";
 import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import DIDBlockchainService from "./blockchain/didBlockchain.service";
+import DIDService from "./did.service";
+import BatchAnchorService from "./blockchain/batchAnchor.service";
+import ChainOutboxService from "./blockchain/chainOutbox.service";
 import NotificationService from "./notification.service";
 import StorageService from "./storage.service";
 import SchemaService from "./schema.service";
+import StatusListService from "./statusList.service";
 import { v4 as uuidv4 } from "uuid";
+import { ProofHelper } from "../utils/helpers/proof.helper";
+import { CanonicalizationHelper } from "../utils/helpers/canonicalization.helper";
+import { SdJwtHelper } from "../utils/helpers/sdJwt.helper";
+import { DIDDocumentHelper } from "../utils/helpers/didDocument.helper";
+import { MerkleHelper } from "../utils/helpers/merkle.helper";
+import { ChainOutboxRunResult, LedgerVCRecord } from "../types";
+
+/**
+ * Chain outbox payload of a direct issuance (issuerIssueVC)
+ */
+interface IssueVCIntent {
+  vc_id: string;
+  issuer_did: string;
+  holder_did: string;
+  vc_type: string;
+  schema_id: string;
+  schema_version: number;
+  expiredAt?: string;
+  vc_hash: string;
+  encrypted_body: string;
+}
+
+/**
+ * Chain outbox payload of an approved renewal request (processRenewalVC)
+ * previous = on-chain state before the renewal, restored by the compensation
+ */
+interface RenewVCIntent {
+  request_id: string;
+  vc_id: string;
+  issuer_did: string;
+  holder_did: string;
+  expired_at?: string;
+  hash: string;
+  encrypted_body: string;
+  previous: { status: boolean; expiredAt: string; hash: string };
+}
+
+/**
+ * Chain outbox payload of an approved update request (processUpdateVC)
+ * previous = on-chain state of the old VC, reactivated by the compensation
+ */
+interface UpdateVCIntent {
+  request_id: string;
+  vc_id: string;
+  new_vc_id: string;
+  issuer_did: string;
+  holder_did: string;
+  vc_type: string;
+  schema_id: string;
+  schema_version: number;
+  expired_at?: string;
+  new_vc_hash: string;
+  encrypted_body: string;
+  previous: { expiredAt: string; hash: string };
+}
+
+/**
+ * Chain outbox payload of an approved issuance request (processIssuanceVC)
+ */
+interface ApproveIssuanceIntent {
+  request_id: string;
+  vc_id: string;
+  issuer_did: string;
+  holder_did: string;
+  vc_type: string;
+  schema_id: string;
+  schema_version: number;
+  expired_at?: string;
+  vc_hash: string;
+  encrypted_body: string;
+}
+
+/**
+ * Chain outbox payload of a direct revocation (issuerRevokeVC)
+ * notice_id = ID of the VCinitiatedByIssuer revocation notice
+ */
+interface RevokeVCIntent {
+  notice_id: string;
+  vc_id: string;
+  issuer_did: string;
+  holder_did: string;
+  encrypted_body: string;
+}
+
+/**
+ * Store a VC issued by the issuer for holder claim, with its action log entry
+ */
+async function storeIssuerInitiatedVC(
+  client: Prisma.TransactionClient | PrismaClient,
+  intent: IssueVCIntent,
+  transaction_hash?: string
+): Promise<{ id: string }> {
+  const newRecord = await client.vCinitiatedByIssuer.create({
+    data: {
+      request_type: RequestType.ISSUANCE, // Hardcode sebagai ISSUANCE
+      issuer_did: intent.issuer_did,
+      holder_did: intent.holder_did,
+      vc_id: intent.vc_id, // Store vc_id for schema parsing
+      encrypted_body: intent.encrypted_body,
+      status: VCResponseStatus.PENDING, // Status default PENDING
+      // processing_at, createdAt, updatedAt, deletedAt akan di-handle oleh Prisma
+    },
+  });
+  await client.issuerActionLog.create({
+    data: {
+      action_type: RequestType.ISSUANCE,
+      issuer_did: intent.issuer_did,
+      holder_did: intent.holder_did,
+      vc_id: intent.vc_id, // Log VC ID yang baru
+      // Batch anchored VCs get the root transaction once the batch is anchored
+      transaction_hash,
+    },
+  });
+
+  logger.success(`New VC record created in VCinitiatedByIssuer: ${newRecord.id}`);
+  return newRecord;
+}
+
+/**
+ * Tell the holder a VC issued by the issuer is ready to be claimed (non-critical)
+ */
+async function notifyIssuedByIssuer(
+  holder_did: string,
+  record_id: string
+): Promise<void> {
+  try {
+    await NotificationService.sendVCStatusNotification(
+      holder_did,
+      "New Credential Issued",
+      "A new verifiable credential has been issued to you and is ready to be claimed.",
+      {
+        type: "VC_ISSUED_BY_ISSUER",
+        record_id,
+        request_type: RequestType.ISSUANCE,
+      }
+    );
+    logger.success(`Push notification sent to holder (direct issue): ${holder_did}`);
+  } catch (notifError: any) {
+    logger.error(
+      `Failed to send push notification (direct issue) to ${holder_did}:`,
+      notifError
+    );
+  }
+}
 
 /**
  * Credential Service with Dependency Injection
@@ -88,6 +251,176 @@ class CredentialService {
     return now.toISOString();
   }
 
+  /**
+   * Resolve the hash to anchor on blockchain for a VC
+   * When the plaintext VC is supplied, the hash is recomputed server-side
+   * with the configured canonicalization and must match the client hash (if any)
+   */
+  private async resolveVCHash(
+    vc_id: string,
+    vc_hash?: string,
+    vc_json?: any
+  ): Promise<string | undefined> {
+    if (!vc_json) {
+      return vc_hash;
+    }
+
+    if (vc_json.id !== vc_id) {
+      throw new BadRequestError(
+        `vc_json.id (${vc_json.id}) does not match vc_id (${vc_id}).`
+      );
+    }
+
+    let computedHash: string;
+    try {
+      computedHash = await CanonicalizationHelper.hashCredential(vc_json);
+    } catch (error: any) {
+      throw new BadRequestError(
+        `Failed to canonicalize vc_json: ${error.message}`
+      );
+    }
+
+    if (vc_hash && !CanonicalizationHelper.hashesEqual(vc_hash, computedHash)) {
+      throw new BadRequestError(
+        `vc_hash does not match the hash computed from vc_json (${computedHash}).`
+      );
+    }
+
+    return computedHash;
+  }
+
+  /**
+   * Resolve the hash to anchor on blockchain for an SD-JWT VC
+   * Verifies the issuer signature, the subject/ID binding and that every
+   * disclosure matches a digest before hashing the issuer-signed JWT
+   */
+  private async resolveSdJwtHash(
+    sd_jwt: string,
+    issuer_did: string,
+    holder_did: string,
+    vc_id: string,
+    vc_hash?: string
+  ): Promise<string> {
+    let parsed;
+    try {
+      parsed = SdJwtHelper.parse(sd_jwt);
+      SdJwtHelper.resolveClaims(parsed.payload, parsed.disclosures);
+    } catch (error: any) {
+      throw new BadRequestError(`Invalid sd_jwt: ${error.message}`);
+    }
+
+    if (parsed.kbJwt) {
+      throw new BadRequestError(
+        "sd_jwt must be the issued form without a key-binding JWT."
+      );
+    }
+
+    const { payload } = parsed;
+    if (payload.iss !== issuer_did) {
+      throw new BadRequestError(
+        `sd_jwt iss (${payload.iss}) does not match issuer_did (${issuer_did}).`
+      );
+    }
+    if (payload.sub !== holder_did) {
+      throw new BadRequestError(
+        `sd_jwt sub (${payload.sub}) does not match holder_did (${holder_did}).`
+      );
+    }
+    if (payload.jti !== vc_id) {
+      throw new BadRequestError(
+        `sd_jwt jti (${payload.jti}) does not match vc_id (${vc_id}).`
+      );
+    }
+
+    const issuerDocument = await DIDBlockchainService.getDIDDocument(issuer_did);
+    const publicKeyHex = issuerDocument.found
+      ? issuerDocument[issuerDocument.keyId]
+      : undefined;
+
+    if (!publicKeyHex) {
+      throw new BadRequestError(
+        `Public key for issuer ${issuer_did} not found on blockchain.`
+      );
+    }
+
+    let signatureValid = false;
+    try {
+      signatureValid = SdJwtHelper.verifyES256JWT(parsed.issuerJwt, publicKeyHex);
+    } catch (error: any) {
+      logger.error(`SD-JWT signature verification error for VC ${vc_id}:`, error);
+    }
+
+    if (!signatureValid) {
+      throw new BadRequestError(
+        "sd_jwt signature verification failed (must be ES256 by the issuer)."
+      );
+    }
+
+    const computedHash = SdJwtHelper.hashIssuerJwt(parsed.issuerJwt);
+
+    if (vc_hash && !CanonicalizationHelper.hashesEqual(vc_hash, computedHash)) {
+      throw new BadRequestError(
+        `vc_hash does not match the hash computed from sd_jwt (${computedHash}).`
+      );
+    }
+
+    return computedHash;
+  }
+
+  /**
+   * Allocate status list indexes for a VC before it is anchored
+   * Issuers allocate them (POST /status-lists/allocate) before signing; this
+   * returns the same entries. A plaintext VC must embed them in credentialStatus.
+   */
+  private async allocateStatusList(
+    issuer_did: string,
+    vc_id: string,
+    vc_json?: any
+  ): Promise<BitstringStatusListEntryDTO[]> {
+    let credential_status: BitstringStatusListEntryDTO[];
+    try {
+      const allocation = await StatusListService.allocateStatus(
+        issuer_did,
+        vc_id
+      );
+      credential_status = allocation.credential_status;
+    } catch (error: any) {
+      logger.error(`Failed to allocate status list index for VC ${vc_id}:`, error);
+      throw new InternalServerError(
+        `Failed to allocate status list indexes: ${error.message}`
+      );
+    }
+
+    if (vc_json) {
+      const missing = StatusListService.getMissingEntries(vc_json, credential_status);
+      if (missing.length > 0) {
+        throw new BadRequestError(
+          `vc_json.credentialStatus must embed the allocated status list entries (${missing
+            .map((entry) => entry.id)
+            .join(", ")}). Allocate them with POST /status-lists/allocate before signing.`
+        );
+      }
+    }
+
+    return credential_status;
+  }
+
+  /**
+   * Set or clear a VC's bit in the issuer's status list (non-critical)
+   * Blockchain remains the source of truth if this fails
+   */
+  private async updateStatusList(
+    vc_id: string,
+    purpose: StatusPurpose,
+    value: boolean
+  ): Promise<void> {
+    try {
+      await StatusListService.setStatus(vc_id, purpose, value);
+    } catch (error: any) {
+      logger.error(`Failed to update ${purpose} status list for VC ${vc_id}:`, error);
+    }
+  }
+
   /**
    * Request credential issuance
    */
@@ -418,9 +751,23 @@ class CredentialService {
     logger.info(`Checking VC status from blockchain for: ${vcId}`);
 
     try {
-      // Call the blockchain service to get the status struct
-      const blockchainStatus =
-        await VCBlockchainService.getVCStatusFromBlockchain(vcId);
+      // Always read from the blockchain: the chain index lags by
+      // INDEXER_CONFIRMATIONS blocks and must not decide revocation
+      let blockchainStatus: any;
+
+      try {
+        blockchainStatus =
+          await VCBlockchainService.getVCStatusFromBlockchain(vcId);
+      } catch (error) {
+        // Batch anchored VCs take their status from the anchored Merkle root
+        blockchainStatus =
+          error instanceof NotFoundError
+            ? await BatchAnchorService.getAnchoredVCStatus(vcId)
+            : null;
+        if (!blockchainStatus) {
+          throw error;
+        }
+      }
 
       // Map the blockchain response (which is likely an array/tuple or object from ethers)
       // to our DTO. Adjust indexing/property names based on the actual return structure
@@ -436,8 +783,26 @@ class CredentialService {
         schema_version: Number(blockchainStatus.schemaVersion),
         status: blockchainStatus.status, // boolean (true=active, false=revoked/inactive)
         hash: blockchainStatus.hash,
+        suspended: false,
+        state: blockchainStatus.status ? "ACTIVE" : "REVOKED",
       };
 
+      // Suspension is tracked off-chain in the issuer's status list
+      try {
+        const statusListState = await StatusListService.getStatus(vcId);
+        if (statusListState?.suspended) {
+          response.suspended = true;
+          if (response.status) {
+            response.state = "SUSPENDED";
+          }
+        }
+      } catch (statusListError: any) {
+        logger.error(
+          `Failed to read status list state for VC ${vcId}:`,
+          statusListError
+        );
+      }
+
       logger.info(`Successfully retrieved status for VC: ${vcId}`);
       return response;
     } catch (error: any) {
@@ -468,6 +833,7 @@ class CredentialService {
       schema_id,
       schema_version,
       vc_hash,
+      vc_json,
       encrypted_body,
       expired_at,
     } = data;
@@ -534,13 +900,27 @@ class CredentialService {
         !vc_id ||
         !schema_id ||
         !schema_version ||
-        !vc_hash
+        (!vc_hash && !vc_json)
       ) {
         throw new BadRequestError(
-          "When action is APPROVED, vc_id, schema_id, schema_version, vc_hash, and encrypted_body are required."
+          "When action is APPROVED, vc_id, schema_id, schema_version, vc_hash (or vc_json), and encrypted_body are required."
         );
       }
 
+      // Recompute the hash server-side when the plaintext VC is provided
+      const anchoredHash = (await this.resolveVCHash(
+        vc_id,
+        vc_hash,
+        vc_json
+      )) as string;
+
+      // Status list indexes exist before the VC is anchored
+      const credential_status = await this.allocateStatusList(
+        issuer_did,
+        vc_id,
+        vc_json
+      );
+
       // Query VCSchema to get the name (vc_type) based on schema_id and schema_version
       const vcSchema = await this.db.vCSchema.findUnique({
         where: {
@@ -588,6 +968,11 @@ class CredentialService {
             try {
               const revokeReceipt =
                 await VCBlockchainService.revokeVCInBlockchain(existingVC.id);
+              await this.updateStatusList(
+                existingVC.id,
+                StatusPurpose.REVOCATION,
+                true
+              );
               logger.info(
                 `✅ Revoked existing VC ${existingVC.id}. TX: ${revokeReceipt.hash}`
               );
@@ -613,10 +998,14 @@ class CredentialService {
         // The new VC can still be issued
       }
 
-      // --- Blockchain Call (Directly, similar to did.service.ts) ---
-      let blockchainReceipt: any;
+      // --- Issue on blockchain, then approve the request in one DB transaction (chain outbox) ---
+      let outcome: ChainOutboxRunResult<{ vc_response_id: string }>;
       try {
-        blockchainReceipt = await VCBlockchainService.issueVCInBlockchain(
+        outcome = await ChainOutboxService.run<
+          ApproveIssuanceIntent,
+          { vc_response_id: string }
+        >(ChainOutboxOperation.APPROVE_ISSUANCE, `APPROVE_ISSUANCE:${request_id}`, {
+          request_id,
           vc_id,
           issuer_did,
           holder_did,
@@ -624,94 +1013,38 @@ class CredentialService {
           schema_id,
           schema_version,
           expired_at,
-          vc_hash
-        );
-        logger.info(
-          `Blockchain issuance successful for ${vc_id}. TX: ${blockchainReceipt?.hash}`
-        );
+          vc_hash: anchoredHash,
+          encrypted_body,
+        });
       } catch (blockchainError: any) {
         logger.error("Blockchain issuance failed:", blockchainError);
-        // Decide how to handle this: rethrow or just log and potentially skip DB updates?
-        // Rethrowing is safer to indicate the overall operation failed.
+        if (
+          blockchainError instanceof ConflictError ||
+          ChainOutboxService.isUnconfirmed(blockchainError)
+        ) {
+          throw blockchainError;
+        }
         throw new BadRequestError(
           `Blockchain issuance failed: ${blockchainError.message}`
         );
       }
-      // ----------------------------------------------------------------
-
-      // --- Database Updates (Perform AFTER successful blockchain call) ---
-      // !! Note: If these fail, the blockchain entry exists but DB is inconsistent !!
-      let updatedRequest;
-      let newVCResponse;
-      try {
-        updatedRequest = await this.db.vCIssuanceRequest.update({
-          where: { id: request_id },
-          data: {
-            status: RequestStatus.APPROVED,
-            vc_id: vc_id, // <-- SIMPAN VC_ID DI SINI
-          },
-        });
 
-        newVCResponse = await this.db.vCResponse.create({
-          data: {
-            request_id: request_id,
-            request_type: RequestType.ISSUANCE,
-            issuer_did: issuer_did,
-            holder_did: holder_did,
-            encrypted_body: encrypted_body,
-          },
-        });
-        logger.success(
-          `Database updated for approved request: ${request_id}. VCResponse created: ${newVCResponse.id}`
+      if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+        throw new InternalServerError(
+          `VC ${vc_id} issued on blockchain (TX: ${outcome.receipt.transaction_hash}), but the database update failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
         );
-
-        // Send push notification to holder
-        try {
-          await NotificationService.sendVCStatusNotification(
-            holder_did,
-            "Credential Issued Successfully",
-            "Your verifiable credential has been issued and is now available for use.",
-            {
-              type: "VC_ISSUED",
-              vc_response_id: newVCResponse.id,
-              request_id: request_id,
-              request_type: RequestType.ISSUANCE,
-              transaction_hash: blockchainReceipt?.hash,
-            }
-          );
-          logger.success(`Push notification sent to holder: ${holder_did}`);
-        } catch (notifError: any) {
-          // Don't fail the issuance if notification fails
-          logger.error(
-            `Failed to send push notification to ${holder_did}:`,
-            notifError
-          );
-        }
-      } catch (dbError: any) {
-        logger.error(
-          `Database update failed for approved request ${request_id} after successful blockchain TX ${blockchainReceipt?.hash}:`,
-          dbError
-        );
-        return {
-          message:
-            "Blockchain issuance succeeded, but database update failed. Please check logs.",
-          request_id: request_id, // Return original request ID
-          status: RequestStatus.APPROVED, // Reflect intended status
-          vc_response_id: undefined, // Indicate DB write failure
-          transaction_hash: blockchainReceipt?.hash,
-          block_number: blockchainReceipt?.blockNumber,
-        };
       }
-      // ------------------------------------------------------------------
+      // ----------------------------------------------------------------
 
       return {
         message:
           "Verifiable Credential issued successfully on blockchain and database.",
-        request_id: updatedRequest.id,
-        status: updatedRequest.status,
-        vc_response_id: newVCResponse.id,
-        transaction_hash: blockchainReceipt?.hash,
-        block_number: blockchainReceipt?.blockNumber,
+        request_id: request_id,
+        status: RequestStatus.APPROVED,
+        vc_response_id: outcome.result!.vc_response_id,
+        transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+        block_number: outcome.receipt.block_number ?? undefined,
+        credential_status,
       };
     } else {
       throw new BadRequestError(
@@ -890,6 +1223,8 @@ class CredentialService {
       }
       // ---------------------------------
 
+      await this.updateStatusList(vc_id, StatusPurpose.REVOCATION, true);
+
       // --- Update DB Status and Create VCResponse ---
       const updatedRequest = await this.db.vCRevokeRequest.update({
         where: { id: request_id },
@@ -1033,23 +1368,11 @@ class CredentialService {
       }
 
       // --- Blockchain Call ---
-      let blockchainReceipt: any;
+      // Current on-chain state, restored if the renewal has to be compensated
+      let previous: LedgerVCRecord;
       try {
-        // Call the renew function on the blockchain
-        blockchainReceipt = await VCBlockchainService.renewVCInBlockchain(
-          vc_id,
-          expired_at,
-          data.hash
-        );
-        logger.success(
-          `VC ${vc_id} renewed successfully on blockchain. TX: ${blockchainReceipt?.hash}`
-        );
+        previous = await VCBlockchainService.getVCStatusFromBlockchain(vc_id);
       } catch (blockchainError: any) {
-        logger.error(
-          `Blockchain renewal failed during approval for request ${request_id} (VC ${vc_id}):`,
-          blockchainError
-        );
-        // Handle specific errors like NotFoundError if the service throws them
         if (blockchainError instanceof NotFoundError) {
           throw new NotFoundError(
             `VC with ID ${vc_id} not found on the blockchain. Cannot process renewal request ${request_id}.`
@@ -1059,68 +1382,62 @@ class CredentialService {
           `Blockchain renewal failed: ${blockchainError.message}`
         );
       }
-      // -------------------------
-
-      // --- Database Updates ---
-      // Use a transaction for atomicity
-      const result = await this.db.$transaction(async (tx) => {
-        // Update renewal request status
-        const updatedRequest = await tx.vCRenewalRequest.update({
-          where: { id: request_id },
-          data: {
-            status: RequestStatus.APPROVED,
-            vc_id: vc_id, // <-- SIMPAN VC_ID DI SINI
-          },
-        });
-
-        // Create a new VCResponse record for the renewal
-        const newVCResponse = await tx.vCResponse.create({
-          data: {
-            request_id: request_id, // Link to the VCRenewalRequest
-            request_type: RequestType.RENEWAL, // Set type to RENEWAL
-            issuer_did: issuer_did,
-            holder_did: holder_did,
-            encrypted_body: encrypted_body, // Store the new encrypted body
-          },
-        });
-
-        logger.info(
-          `Renewal request ${request_id} status updated to APPROVED. New VCResponse created: ${newVCResponse.id}`
-        );
-        return { updatedRequest, newVCResponse };
-      });
-      // ------------------------
 
-      // Send push notification to holder
+      // Renew on blockchain, then approve the request in one DB transaction (chain outbox)
+      let outcome: ChainOutboxRunResult<{ vc_response_id: string }>;
       try {
-        await NotificationService.sendVCStatusNotification(
-          holder_did,
-          "Credential Renewed Successfully",
-          "Your verifiable credential has been renewed and is ready for continued use.",
+        outcome = await ChainOutboxService.run<
+          RenewVCIntent,
+          { vc_response_id: string }
+        >(
+          ChainOutboxOperation.RENEW_VC,
+          `RENEW_VC:${request_id}`,
           {
-            type: "VC_RENEWED",
-            vc_response_id: result.newVCResponse.id,
-            request_id: request_id,
-            request_type: RequestType.RENEWAL,
-            transaction_hash: blockchainReceipt?.hash,
+            request_id,
+            vc_id,
+            issuer_did,
+            holder_did,
+            expired_at,
+            hash: data.hash,
+            encrypted_body,
+            previous: {
+              status: previous.status,
+              expiredAt: previous.expiredAt,
+              hash: previous.hash,
+            },
           }
         );
-        logger.success(`Push notification sent to holder: ${holder_did}`);
-      } catch (notifError: any) {
+      } catch (blockchainError: any) {
         logger.error(
-          `Failed to send push notification to ${holder_did}:`,
-          notifError
+          `Blockchain renewal failed during approval for request ${request_id} (VC ${vc_id}):`,
+          blockchainError
+        );
+        if (
+          blockchainError instanceof ConflictError ||
+          ChainOutboxService.isUnconfirmed(blockchainError)
+        ) {
+          throw blockchainError;
+        }
+        throw new BadRequestError(
+          `Blockchain renewal failed: ${blockchainError.message}`
+        );
+      }
+
+      if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+        throw new InternalServerError(
+          `VC ${vc_id} renewed on blockchain (TX: ${outcome.receipt.transaction_hash}), but the database update failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
         );
       }
+      // -------------------------
 
       return {
         message:
           "Verifiable Credential renewal request approved and VC renewed on blockchain.",
-        request_id: result.updatedRequest.id,
-        status: result.updatedRequest.status,
-        vc_response_id: result.newVCResponse.id, // Include the new VCResponse ID
-        transaction_hash: blockchainReceipt?.hash,
-        block_number: blockchainReceipt?.blockNumber,
+        request_id: request_id,
+        status: RequestStatus.APPROVED,
+        vc_response_id: outcome.result!.vc_response_id, // Include the new VCResponse ID
+        transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+        block_number: outcome.receipt.block_number ?? undefined,
       };
     } else {
       throw new BadRequestError(`Invalid action specified: ${action}.`);
@@ -1221,8 +1538,9 @@ class CredentialService {
       );
 
       // --- Pre-Update Blockchain Check ---
+      let currentVcStatus: LedgerVCRecord;
       try {
-        const currentVcStatus =
+        currentVcStatus =
           await VCBlockchainService.getVCStatusFromBlockchain(vc_id);
         if (currentVcStatus && currentVcStatus.status === false) {
           logger.warn(
@@ -1252,94 +1570,64 @@ class CredentialService {
       }
       // ------------------------------------
 
-      // --- Blockchain Update Call ---
-      let blockchainReceipt: any;
+      // --- Blockchain Update, then DB transaction (chain outbox) ---
+      let outcome: ChainOutboxRunResult<{ vc_response_id: string }>;
       try {
-        // Call the update function on the blockchain
-        blockchainReceipt = await VCBlockchainService.updateVCInBlockchain(
-          vc_id,
-          new_vc_id,
-          issuer_did,
-          holder_did,
-          vc_type,
-          schema_id,
-          schema_version,
-          expired_at,
-          new_vc_hash
-        );
-        logger.success(
-          `VC ${vc_id} updated successfully on blockchain with new hash. TX: ${blockchainReceipt?.hash}`
+        outcome = await ChainOutboxService.run<
+          UpdateVCIntent,
+          { vc_response_id: string }
+        >(
+          ChainOutboxOperation.UPDATE_VC,
+          `UPDATE_VC:${request_id}`,
+          {
+            request_id,
+            vc_id,
+            new_vc_id,
+            issuer_did,
+            holder_did,
+            vc_type,
+            schema_id,
+            schema_version,
+            expired_at,
+            new_vc_hash,
+            encrypted_body,
+            previous: {
+              expiredAt: currentVcStatus.expiredAt,
+              hash: currentVcStatus.hash,
+            },
+          }
         );
       } catch (blockchainError: any) {
         logger.error(
           `Blockchain update failed during approval for request ${request_id} (VC ${vc_id}):`,
           blockchainError
         );
+        if (
+          blockchainError instanceof ConflictError ||
+          ChainOutboxService.isUnconfirmed(blockchainError)
+        ) {
+          throw blockchainError;
+        }
         throw new BadRequestError(
           `Blockchain update failed: ${blockchainError.message}`
         );
       }
-      // -----------------------------
-
-      // --- Database Updates ---
-      const result = await this.db.$transaction(async (tx) => {
-        // Update update request status
-        const updatedRequest = await tx.vCUpdateRequest.update({
-          where: { id: request_id },
-          data: {
-            status: RequestStatus.APPROVED,
-            vc_id: new_vc_id, // <-- SIMPAN NEW_VC_ID DI SINI
-          },
-        });
-
-        // Create a new VCResponse record for the update
-        const newVCResponse = await tx.vCResponse.create({
-          data: {
-            request_id: request_id, // Link to the VCUpdateRequest
-            request_type: RequestType.UPDATE, // Set type to UPDATE
-            issuer_did: issuer_did,
-            holder_did: holder_did,
-            encrypted_body: encrypted_body, // Store the new encrypted body
-          },
-        });
 
-        logger.info(
-          `Update request ${request_id} status updated to APPROVED. New VCResponse created: ${newVCResponse.id}`
+      if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+        throw new InternalServerError(
+          `VC ${vc_id} updated on blockchain (TX: ${outcome.receipt.transaction_hash}), but the database update failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
         );
-        return { updatedRequest, newVCResponse };
-      });
-      // ------------------------
-
-      // Send push notification to holder
-      try {
-        await NotificationService.sendVCStatusNotification(
-          holder_did,
-          "Credential Updated Successfully",
-          "Your verifiable credential has been updated with the latest information.",
-          {
-            type: "VC_UPDATED",
-            vc_response_id: result.newVCResponse.id,
-            request_id: request_id,
-            request_type: RequestType.UPDATE,
-            transaction_hash: blockchainReceipt?.hash,
-          }
-        );
-        logger.success(`Push notification sent to holder: ${holder_did}`);
-      } catch (notifError: any) {
-        logger.error(
-          `Failed to send push notification to ${holder_did}:`,
-          notifError
-        );
-      }
+      }
+      // -----------------------------
 
       return {
         message:
           "Verifiable Credential update request approved and VC updated on blockchain.",
-        request_id: result.updatedRequest.id,
-        status: result.updatedRequest.status,
-        vc_response_id: result.newVCResponse.id, // Include the new VCResponse ID
-        transaction_hash: blockchainReceipt?.hash,
-        block_number: blockchainReceipt?.blockNumber,
+        request_id: request_id,
+        status: RequestStatus.APPROVED,
+        vc_response_id: outcome.result!.vc_response_id, // Include the new VCResponse ID
+        transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+        block_number: outcome.receipt.block_number ?? undefined,
       };
     } else {
       throw new BadRequestError(`Invalid action specified: ${action}.`);
@@ -1810,31 +2098,63 @@ class CredentialService {
       schema_id,
       schema_version,
       vc_hash,
+      vc_json,
+      sd_jwt,
       encrypted_body,
       expiredAt,
+      anchoring_mode,
     } = data;
 
     logger.info(
       `Attempting direct issue by issuer ${issuer_did} for VC ${vc_id}`
     );
 
-    // 1. Panggil Blockchain
-    let blockchainReceipt: any;
+    // Recompute the hash server-side when the plaintext VC (JSON-LD or SD-JWT) is provided
+    const anchoredHash = sd_jwt
+      ? await this.resolveSdJwtHash(sd_jwt, issuer_did, holder_did, vc_id, vc_hash)
+      : await this.resolveVCHash(vc_id, vc_hash, vc_json);
+    if (!anchoredHash) {
+      throw new BadRequestError("One of vc_hash, vc_json or sd_jwt is required.");
+    }
+
+    // Status list indexes exist before the VC is anchored
+    const credential_status = await this.allocateStatusList(
+      issuer_did,
+      vc_id,
+      sd_jwt ? undefined : vc_json
+    );
+
+    const intent: IssueVCIntent = {
+      vc_id,
+      issuer_did,
+      holder_did,
+      vc_type,
+      schema_id,
+      schema_version,
+      expiredAt,
+      vc_hash: anchoredHash,
+      encrypted_body,
+    };
+
+    if (anchoring_mode === ANCHORING_MODE.BATCH) {
+      return this.issueVCInBatch(intent, credential_status);
+    }
+
+    // 1. Panggil Blockchain, lalu simpan ke VCinitiatedByIssuer (chain outbox)
+    let outcome: ChainOutboxRunResult<{ record_id: string }>;
     try {
-      blockchainReceipt = await VCBlockchainService.issueVCInBlockchain(
-        vc_id,
-        issuer_did,
-        holder_did,
-        vc_type,
-        schema_id,
-        schema_version,
-        expiredAt, // Menggunakan parameter expiredAt yang baru
-        vc_hash
-      );
-      logger.info(
-        `Blockchain issue successful for ${vc_id}. TX: ${blockchainReceipt?.hash}`
+      outcome = await ChainOutboxService.run<IssueVCIntent, { record_id: string }>(
+        ChainOutboxOperation.ISSUE_VC,
+        `ISSUE_VC:${vc_id}`,
+        intent
       );
     } catch (blockchainError: any) {
+      if (
+        blockchainError instanceof ConflictError ||
+        ChainOutboxService.isUnconfirmed(blockchainError)
+      ) {
+        throw blockchainError;
+      }
       logger.error(
         `Blockchain direct issue failed for ${vc_id}:`,
         blockchainError
@@ -1844,74 +2164,280 @@ class CredentialService {
       );
     }
 
-    // 2. Simpan ke tabel VCinitiatedByIssuer
+    if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+      // Blockchain berhasil tapi DB gagal: the outbox retries the save, then revokes the VC
+      throw new InternalServerError(
+        `Blockchain succeeded (TX: ${outcome.receipt.transaction_hash}), but database save failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
+      );
+    }
+
+    return {
+      message: "VC issued directly to blockchain and stored for holder claim.",
+      record_id: outcome.result!.record_id,
+      transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+      block_number: outcome.receipt.block_number ?? undefined,
+      credential_status,
+    };
+  }
+
+  /**
+   * Queue a VC for Merkle batch anchoring and store it for holder claim
+   * (nothing is written on chain here, so no outbox intent is needed)
+   */
+  private async issueVCInBatch(
+    intent: IssueVCIntent,
+    credential_status: BitstringStatusListEntryDTO[]
+  ): Promise<IssuerIssueVCResponseDTO> {
+    const { vc_id, issuer_did, holder_did } = intent;
+
+    let anchoring: VCAnchoringDTO;
     try {
-      const newRecord = await this.db.vCinitiatedByIssuer.create({
-        data: {
-          request_type: RequestType.ISSUANCE, // Hardcode sebagai ISSUANCE
-          issuer_did: issuer_did,
-          holder_did: holder_did,
-          vc_id: vc_id, // Store vc_id for schema parsing
-          encrypted_body: encrypted_body,
-          // --- MENGGUNAKAN VCResponseStatus YANG DIIMPOR ---
-          status: VCResponseStatus.PENDING, // Status default PENDING
-          // processing_at, createdAt, updatedAt, deletedAt akan di-handle oleh Prisma
-        },
-      });
-      await this.db.issuerActionLog.create({
-        data: {
-          action_type: RequestType.ISSUANCE,
-          issuer_did: issuer_did,
-          holder_did: holder_did,
-          vc_id: vc_id, // Log VC ID yang baru
-          transaction_hash: blockchainReceipt.hash,
-        },
+      anchoring = await BatchAnchorService.enqueue({
+        vc_id,
+        issuer_did,
+        holder_did,
+        vc_type: intent.vc_type,
+        schema_id: intent.schema_id,
+        schema_version: intent.schema_version,
+        expiredAt: intent.expiredAt,
+        vc_hash: intent.vc_hash,
       });
-
-      logger.success(
-        `New VC record created in VCinitiatedByIssuer: ${newRecord.id}`
+    } catch (blockchainError: any) {
+      logger.error(
+        `Blockchain direct issue failed for ${vc_id}:`,
+        blockchainError
+      );
+      throw new BadRequestError(
+        `Blockchain issuance failed: ${blockchainError.message}`
       );
+    }
 
-      // (Opsional) Kirim notifikasi push ke holder
-      try {
-        await NotificationService.sendVCStatusNotification(
-          holder_did,
-          "New Credential Issued",
-          "A new verifiable credential has been issued to you and is ready to be claimed.",
-          {
-            type: "VC_ISSUED_BY_ISSUER",
-            record_id: newRecord.id,
-            request_type: RequestType.ISSUANCE,
-          }
-        );
-        logger.success(
-          `Push notification sent to holder (direct issue): ${holder_did}`
-        );
-      } catch (notifError: any) {
-        logger.error(
-          `Failed to send push notification (direct issue) to ${holder_did}:`,
-          notifError
-        );
-      }
+    try {
+      const newRecord = await storeIssuerInitiatedVC(this.db, intent);
+      await notifyIssuedByIssuer(holder_did, newRecord.id);
 
       return {
-        message:
-          "VC issued directly to blockchain and stored for holder claim.",
+        message: "VC queued for batch anchoring and stored for holder claim.",
         record_id: newRecord.id,
-        transaction_hash: blockchainReceipt.hash,
-        block_number: blockchainReceipt.blockNumber,
+        credential_status,
+        anchoring,
       };
     } catch (dbError: any) {
       logger.error(
-        `Database storage failed for VCinitiatedByIssuer (VC ${vc_id}) after successful TX ${blockchainReceipt?.hash}:`,
+        `Database storage failed for VCinitiatedByIssuer (VC ${vc_id}) after queueing it for batch anchoring:`,
         dbError
       );
-      // Ini adalah error kritis. Blockchain berhasil tapi DB gagal.
-      // --- MENGGUNAKAN InternalServerError YANG DIIMPOR ---
       throw new InternalServerError(
-        `Blockchain succeeded (TX: ${blockchainReceipt.hash}), but database save failed. Please contact support. Error: ${dbError.message}`
+        `Blockchain succeeded (TX: batch anchoring queued), but database save failed. Please contact support. Error: ${dbError.message}`
+      );
+    }
+  }
+
+  /**
+   * Prepare an SD-JWT VC for the issuer to sign
+   * Generates salted disclosures for the selectively disclosable claims and
+   * returns the JWT header/payload; the issuer signs signing_input with its
+   * ES256 key and submits the result to /credentials/issuer/issue-vc as sd_jwt
+   */
+  async prepareSdJwtVC(
+    data: PrepareSdJwtVCDTO,
+    authenticatedDid: string
+  ): Promise<PrepareSdJwtVCResponseDTO> {
+    if (data.issuer_did !== authenticatedDid) {
+      logger.warn(
+        `Auth mismatch: Token DID (${authenticatedDid}) != Issuer DID (${data.issuer_did})`
+      );
+      throw new ForbiddenError(
+        "Authenticated DID does not match the issuer_did in the request body."
+      );
+    }
+
+    const {
+      issuer_did,
+      holder_did,
+      vc_id,
+      vc_type,
+      claims,
+      selectively_disclosable,
+      expiredAt,
+    } = data;
+
+    let prepared;
+    try {
+      prepared = SdJwtHelper.prepareClaims(claims, selectively_disclosable);
+    } catch (error: any) {
+      throw new BadRequestError(error.message);
+    }
+
+    // kid pins the issuer key so the VC stays verifiable after key rotation
+    const activeKeyId = await DIDBlockchainService.getActiveKeyId(issuer_did);
+    const header = {
+      alg: "ES256",
+      typ: "vc+sd-jwt",
+      kid: DIDDocumentHelper.verificationMethodId(issuer_did, activeKeyId),
+    };
+    const payload: Record<string, unknown> = {
+      iss: issuer_did,
+      sub: holder_did,
+      jti: vc_id,
+      vct: vc_type,
+      iat: Math.floor(Date.now() / 1000),
+      ...(expiredAt && {
+        exp: Math.floor(new Date(expiredAt).getTime() / 1000),
+      }),
+      cnf: { kid: holder_did }, // Holder key is resolved from the holder DID
+      ...prepared.claims,
+      _sd_alg: SdJwtHelper.SD_ALG,
+    };
+
+    logger.info(
+      `Prepared SD-JWT VC ${vc_id} for issuer ${issuer_did} with ${prepared.disclosures.length} disclosures`
+    );
+
+    return {
+      header,
+      payload,
+      signing_input: `${SdJwtHelper.encodeJSON(header)}.${SdJwtHelper.encodeJSON(payload)}`,
+      disclosures: prepared.disclosures.map((d) => ({
+        disclosure: d.disclosure,
+        digest: d.digest,
+        claim: d.name,
+      })),
+    };
+  }
+
+  /**
+   * Resolve (and check) the hash to anchor for an issuer-signed VC
+   * Used by issuance flows that deliver the signed VC itself (e.g. OID4VCI)
+   */
+  async resolveIssuedVCHash(data: {
+    issuer_did: string;
+    holder_did: string;
+    vc_id: string;
+    vc_json?: any;
+    sd_jwt?: string;
+  }): Promise<string> {
+    const { issuer_did, holder_did, vc_id, vc_json, sd_jwt } = data;
+
+    if (sd_jwt) {
+      return this.resolveSdJwtHash(sd_jwt, issuer_did, holder_did, vc_id);
+    }
+
+    if (!vc_json) {
+      throw new BadRequestError("One of vc_json or sd_jwt is required.");
+    }
+
+    const vcIssuer =
+      typeof vc_json.issuer === "string" ? vc_json.issuer : vc_json.issuer?.id;
+    if (vcIssuer !== issuer_did) {
+      throw new BadRequestError(
+        `vc_json.issuer (${vcIssuer}) does not match issuer_did (${issuer_did}).`
+      );
+    }
+    if (vc_json.credentialSubject?.id !== holder_did) {
+      throw new BadRequestError(
+        `vc_json.credentialSubject.id (${vc_json.credentialSubject?.id}) does not match holder_did (${holder_did}).`
+      );
+    }
+    if (!vc_json.proof) {
+      throw new BadRequestError("vc_json must be signed by the issuer (proof is missing).");
+    }
+
+    const issuerDocument = await DIDBlockchainService.getDIDDocument(issuer_did);
+    const publicKeyHex = issuerDocument.found
+      ? issuerDocument[issuerDocument.keyId]
+      : undefined;
+
+    if (!publicKeyHex) {
+      throw new BadRequestError(
+        `Public key for issuer ${issuer_did} not found on blockchain.`
+      );
+    }
+    if (!ProofHelper.verifyES256Proof(vc_json, publicKeyHex)) {
+      throw new BadRequestError(
+        "vc_json proof verification failed (must be ES256 by the issuer)."
+      );
+    }
+
+    // The signed VC must already embed its status list entries
+    await this.allocateStatusList(issuer_did, vc_id, vc_json);
+
+    return (await this.resolveVCHash(vc_id, undefined, vc_json)) as string;
+  }
+
+  /**
+   * Anchor a VC that is delivered directly to the holder's wallet
+   * (no VCinitiatedByIssuer record / claim step), allocate its status list
+   * indexes and log the issuer action
+   */
+  async anchorIssuedVC(data: {
+    issuer_did: string;
+    holder_did: string;
+    vc_id: string;
+    vc_type: string;
+    schema_id: string;
+    schema_version: number;
+    expiredAt?: string;
+    vc_hash: string;
+  }): Promise<{
+    transaction_hash: string;
+    block_number: number;
+    credential_status: BitstringStatusListEntryDTO[];
+  }> {
+    // Status list indexes exist before the VC is anchored
+    const credential_status = await this.allocateStatusList(
+      data.issuer_did,
+      data.vc_id
+    );
+
+    let blockchainReceipt: any;
+    try {
+      blockchainReceipt = await VCBlockchainService.issueVCInBlockchain(
+        data.vc_id,
+        data.issuer_did,
+        data.holder_did,
+        data.vc_type,
+        data.schema_id,
+        data.schema_version,
+        data.expiredAt,
+        data.vc_hash
+      );
+      logger.info(
+        `Blockchain issue successful for ${data.vc_id}. TX: ${blockchainReceipt?.hash}`
+      );
+    } catch (blockchainError: any) {
+      logger.error(
+        `Blockchain issue failed for ${data.vc_id}:`,
+        blockchainError
+      );
+      throw new BlockchainError(
+        `Blockchain issuance failed: ${blockchainError.message}`
+      );
+    }
+
+    try {
+      await this.db.issuerActionLog.create({
+        data: {
+          action_type: RequestType.ISSUANCE,
+          issuer_did: data.issuer_did,
+          holder_did: data.holder_did,
+          vc_id: data.vc_id,
+          transaction_hash: blockchainReceipt.hash,
+        },
+      });
+    } catch (logError: any) {
+      // The VC is already anchored, a missing log entry must not fail issuance
+      logger.error(
+        `Failed to log issuance of VC ${data.vc_id} (TX: ${blockchainReceipt.hash}):`,
+        logError
       );
     }
+
+    return {
+      transaction_hash: blockchainReceipt.hash,
+      block_number: blockchainReceipt.blockNumber,
+      credential_status,
+    };
   }
 
   async issuerUpdateVC(
@@ -2068,6 +2594,86 @@ class CredentialService {
     }
   }
 
+  /**
+   * Revoke a batch anchored VC directly by its issuer
+   * Revoking its Merkle root would revoke the whole batch, so the VC is revoked
+   * in the issuer's REVOCATION status list (checked by every verification path)
+   */
+  private async revokeBatchAnchoredVC(
+    data: IssuerRevokeVCDTO
+  ): Promise<IssuerRevokeVCResponseDTO> {
+    const { issuer_did, holder_did, vc_id, encrypted_body } = data;
+
+    const revoked = await StatusListService.setStatus(
+      vc_id,
+      StatusPurpose.REVOCATION,
+      true
+    );
+    if (!revoked) {
+      throw new BadRequestError(
+        `Batch anchored VC ${vc_id} has no revocation status list entry and cannot be revoked.`
+      );
+    }
+    logger.success(`Batch anchored VC ${vc_id} revoked in the REVOCATION status list`);
+
+    let newRecord: { id: string };
+    try {
+      newRecord = await this.db.$transaction(async (tx) => {
+        const notice = await tx.vCinitiatedByIssuer.create({
+          data: {
+            request_type: RequestType.REVOKE,
+            issuer_did,
+            holder_did,
+            vc_id,
+            encrypted_body,
+            status: VCResponseStatus.PENDING,
+          },
+        });
+        await tx.issuerActionLog.create({
+          data: {
+            action_type: RequestType.REVOKE,
+            issuer_did,
+            holder_did,
+            vc_id,
+          },
+        });
+        return notice;
+      });
+    } catch (dbError: any) {
+      logger.error(
+        `Database storage failed for VCinitiatedByIssuer (VC ${vc_id}) after status list revocation:`,
+        dbError
+      );
+      throw new InternalServerError(
+        `VC ${vc_id} is revoked in the status list, but the revocation notice could not be saved. Error: ${dbError.message}`
+      );
+    }
+
+    try {
+      await NotificationService.sendVCStatusNotification(
+        holder_did,
+        "Credential Revocation Notice",
+        "A notice regarding your credential revocation is ready to be claimed.",
+        {
+          type: "VC_REVOKE_NOTICE_PENDING",
+          record_id: newRecord.id,
+          request_type: RequestType.REVOKE,
+        }
+      );
+    } catch (notifError: any) {
+      logger.error(
+        `Failed to send push notification (direct revoke) to ${holder_did}:`,
+        notifError
+      );
+    }
+
+    return {
+      message:
+        "Batch anchored VC revoked in the issuer's revocation status list. Revocation notice stored for holder claim.",
+      record_id: newRecord.id,
+    };
+  }
+
   async issuerRevokeVC(
     data: IssuerRevokeVCDTO,
     authenticatedDid: string
@@ -2090,9 +2696,24 @@ class CredentialService {
     );
 
     // 2. Pre-Check: Pastikan VC ada dan aktif, dan holder-nya cocok
+    let batchAnchored = false;
     try {
-      const currentVcStatus =
-        await VCBlockchainService.getVCStatusFromBlockchain(vc_id);
+      let currentVcStatus: { issuerDID: string; holderDID?: string; status: boolean };
+      try {
+        currentVcStatus =
+          await VCBlockchainService.getVCStatusFromBlockchain(vc_id);
+      } catch (error) {
+        // Batch anchored VCs have no VCManager entry of their own
+        const anchoredStatus =
+          error instanceof NotFoundError
+            ? await BatchAnchorService.getAnchoredVCStatus(vc_id)
+            : null;
+        if (!anchoredStatus) {
+          throw error;
+        }
+        currentVcStatus = anchoredStatus;
+        batchAnchored = true;
+      }
 
       // Periksa apakah issuer-nya cocok
       if (currentVcStatus.issuerDID !== issuer_did) {
@@ -2117,112 +2738,218 @@ class CredentialService {
       if (currentVcStatus && currentVcStatus.status === false) {
         logger.warn(`Attempted to revoke an already revoked VC: ${vc_id}`);
         throw new BadRequestError(
-          `VC with ID ${vc_id} is already revoked on the blockchain.`
+          `VC with ID ${vc_id} is already revoked on the blockchain.`
+        );
+      }
+      logger.info(
+        `VC ${vc_id} found, is active, and matches issuer/holder. Proceeding with blockchain revocation.`
+      );
+    } catch (error: any) {
+      logger.error(`Pre-revocation check failed for VC ${vc_id}:`, error);
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError(
+          `VC with ID ${vc_id} not found on the blockchain.`
+        );
+      }
+      if (error instanceof BadRequestError || error instanceof ForbiddenError) {
+        throw error; // Lemparkan kembali error yang sudah spesifik
+      }
+      throw new BadRequestError(
+        `Failed to verify VC status before revocation: ${error.message}`
+      );
+    }
+
+    if (batchAnchored) {
+      return this.revokeBatchAnchoredVC(data);
+    }
+
+    // 3. Revoke on blockchain, then store the revocation notice (chain outbox)
+    let outcome: ChainOutboxRunResult<{ record_id: string }>;
+    try {
+      const notice_id = uuidv4();
+      outcome = await ChainOutboxService.run<RevokeVCIntent, { record_id: string }>(
+        ChainOutboxOperation.REVOKE_VC,
+        `REVOKE_VC:${notice_id}`,
+        { notice_id, vc_id, issuer_did, holder_did, encrypted_body }
+      );
+    } catch (blockchainError: any) {
+      logger.error(
+        `Blockchain direct revoke failed for ${vc_id}:`,
+        blockchainError
+      );
+      if (
+        blockchainError instanceof ConflictError ||
+        ChainOutboxService.isUnconfirmed(blockchainError)
+      ) {
+        throw blockchainError;
+      }
+      throw new BadRequestError(
+        `Blockchain revocation failed: ${blockchainError.message}`
+      );
+    }
+
+    if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+      throw new InternalServerError(
+        `Blockchain revoke succeeded (TX: ${outcome.receipt.transaction_hash}), but database save failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
+      );
+    }
+
+    // 4. Kirim respons
+    return {
+      message: "VC revoked directly on blockchain. Revocation notice stored for holder claim.",
+      record_id: outcome.result!.record_id,
+      transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+      block_number: outcome.receipt.block_number ?? undefined,
+    };
+  }
+
+  /**
+   * Suspend or reinstate a VC directly by its issuer
+   * Suspension is reversible and tracked in the issuer's SUSPENSION status list
+   * (the VC stays active on blockchain)
+   */
+  private async changeSuspensionState(
+    data: IssuerSuspendVCDTO,
+    authenticatedDid: string,
+    suspend: boolean
+  ): Promise<IssuerSuspendVCResponseDTO> {
+    const action = suspend ? RequestType.SUSPEND : RequestType.REINSTATE;
+
+    // 1. Validasi Keamanan
+    if (data.issuer_did !== authenticatedDid) {
+      logger.warn(
+        `Auth mismatch: Token DID (${authenticatedDid}) != Issuer DID (${data.issuer_did})`
+      );
+      throw new ForbiddenError(
+        "Authenticated DID does not match the issuer_did in the request body."
+      );
+    }
+
+    const { issuer_did, holder_did, vc_id, reason } = data;
+
+    logger.info(
+      `Attempting direct ${action} by issuer ${issuer_did} for VC ${vc_id}`
+    );
+
+    // 2. Pre-Check: Pastikan VC ada, aktif, dan issuer/holder-nya cocok
+    try {
+      const currentVcStatus =
+        await VCBlockchainService.getVCStatusFromBlockchain(vc_id);
+
+      if (currentVcStatus.issuerDID !== issuer_did) {
+        throw new ForbiddenError(
+          `Authenticated issuer (${issuer_did}) did not issue this VC.`
+        );
+      }
+
+      if (currentVcStatus.holderDID !== holder_did) {
+        throw new ForbiddenError(
+          `Holder DID in request does not match the VC's owner on blockchain.`
+        );
+      }
+
+      if (currentVcStatus.status === false) {
+        throw new BadRequestError(
+          `VC with ID ${vc_id} is revoked on the blockchain and cannot be ${
+            suspend ? "suspended" : "reinstated"
+          }.`
         );
       }
-      logger.info(
-        `VC ${vc_id} found, is active, and matches issuer/holder. Proceeding with blockchain revocation.`
-      );
     } catch (error: any) {
-      logger.error(`Pre-revocation check failed for VC ${vc_id}:`, error);
+      logger.error(`Pre-${action} check failed for VC ${vc_id}:`, error);
       if (error instanceof NotFoundError) {
         throw new NotFoundError(
           `VC with ID ${vc_id} not found on the blockchain.`
         );
       }
       if (error instanceof BadRequestError || error instanceof ForbiddenError) {
-        throw error; // Lemparkan kembali error yang sudah spesifik
+        throw error;
       }
       throw new BadRequestError(
-        `Failed to verify VC status before revocation: ${error.message}`
+        `Failed to verify VC status before ${action.toLowerCase()}: ${error.message}`
       );
     }
 
-    // 3. Panggil Blockchain (RevokeVC)
-    let blockchainReceipt: any;
+    // 3. Periksa status suspensi saat ini
+    const currentState = await StatusListService.getStatus(vc_id);
+    const isSuspended = currentState?.suspended === true;
+
+    if (suspend && isSuspended) {
+      throw new BadRequestError(`VC with ID ${vc_id} is already suspended.`);
+    }
+    if (!suspend && !isSuspended) {
+      throw new BadRequestError(`VC with ID ${vc_id} is not suspended.`);
+    }
+
+    // 4. Set bit suspensi (status list adalah satu-satunya sumber kebenaran)
     try {
-      blockchainReceipt = await VCBlockchainService.revokeVCInBlockchain(vc_id);
-      logger.success(
-        `VC ${vc_id} revoked successfully on blockchain. TX: ${blockchainReceipt?.hash}`
-      );
-    } catch (blockchainError: any) {
-      logger.error(
-        `Blockchain direct revoke failed for ${vc_id}:`,
-        blockchainError
-      );
-      throw new BadRequestError(
-        `Blockchain revocation failed: ${blockchainError.message}`
+      // VCs issued before status lists existed have no index yet
+      await StatusListService.allocateStatus(issuer_did, vc_id);
+      await StatusListService.setStatus(vc_id, StatusPurpose.SUSPENSION, suspend);
+    } catch (error: any) {
+      logger.error(`Failed to update suspension status for VC ${vc_id}:`, error);
+      throw new InternalServerError(
+        `Failed to update suspension status: ${error.message}`
       );
     }
 
-    // [MODIFIED] 4. Simpan ke tabel VCinitiatedByIssuer dan log
-    try {
-      // [NEW] Simpan "pesan" pencabutan ke tabel VCinitiatedByIssuer
-      const newRecord = await this.db.vCinitiatedByIssuer.create({
-        data: {
-          request_type: RequestType.REVOKE, // Hardcode sebagai REVOKE
-          issuer_did: issuer_did,
-          holder_did: holder_did,
-          vc_id: vc_id, // Store vc_id for schema parsing
-          encrypted_body: encrypted_body, // Menyimpan alasan/pesan pencabutan
-          status: VCResponseStatus.PENDING, // Status default PENDING
-        },
-      });
+    // 5. Buat log di IssuerActionLog (tanpa transaksi blockchain)
+    const actionLog = await this.db.issuerActionLog.create({
+      data: {
+        action_type: action,
+        issuer_did: issuer_did,
+        holder_did: holder_did,
+        vc_id: vc_id,
+      },
+    });
 
-      // Buat log di IssuerActionLog (mengikuti pola yang ada)
-      await this.db.issuerActionLog.create({
-        data: {
-          action_type: RequestType.REVOKE,
-          issuer_did: issuer_did,
-          holder_did: holder_did,
+    logger.success(`VC ${vc_id} ${suspend ? "suspended" : "reinstated"} by ${issuer_did}`);
+
+    // 6. Kirim notifikasi push ke holder
+    try {
+      await NotificationService.sendVCStatusNotification(
+        holder_did,
+        suspend ? "Credential Suspended" : "Credential Reinstated",
+        suspend
+          ? "One of your credentials has been temporarily suspended by its issuer."
+          : "One of your suspended credentials has been reinstated by its issuer.",
+        {
+          type: suspend ? "VC_SUSPENDED" : "VC_REINSTATED",
           vc_id: vc_id,
-          transaction_hash: blockchainReceipt.hash,
+          issuer_did: issuer_did,
+          request_type: action,
+          ...(reason && { reason }),
         }
-      });
-
-      logger.success(
-        `New revocation notice created in VCinitiatedByIssuer: ${newRecord.id}`
       );
-
-      // [NEW] Kirim notifikasi push ke holder untuk "meng-claim" pesan pencabutan
-      try {
-        await NotificationService.sendVCStatusNotification(
-          holder_did,
-          "Credential Revocation Notice", // Judul baru
-          "A notice regarding your credential revocation is ready to be claimed.", // Body baru
-          {
-            type: "VC_REVOKE_NOTICE_PENDING", // Tipe baru
-            record_id: newRecord.id,
-            request_type: RequestType.REVOKE,
-          }
-        );
-        logger.success(
-          `Push notification sent to holder (for revoke claim): ${holder_did}`
-        );
-      } catch (notifError: any) {
-        logger.error(
-          `Failed to send push notification (direct revoke) to ${holder_did}:`,
-          notifError
-        );
-      }
-
-      // [MODIFIED] 5. Kirim respons
-      return {
-        message: "VC revoked directly on blockchain. Revocation notice stored for holder claim.",
-        record_id: newRecord.id, // [MODIFIED]
-        transaction_hash: blockchainReceipt.hash,
-        block_number: blockchainReceipt.blockNumber,
-      };
-
-    } catch (dbError: any) {
+    } catch (notifError: any) {
       logger.error(
-        `Database storage failed for VCinitiatedByIssuer (VC ${vc_id}) after successful TX ${blockchainReceipt?.hash}:`,
-        dbError
-      );
-      throw new InternalServerError(
-        `Blockchain revoke succeeded (TX: ${blockchainReceipt.hash}), but database save failed. Please contact support. Error: ${dbError.message}`
+        `Failed to send push notification (direct ${action.toLowerCase()}) to ${holder_did}:`,
+        notifError
       );
     }
+
+    return {
+      message: suspend
+        ? "VC suspended. It will be treated as invalid until reinstated."
+        : "VC reinstated and valid again.",
+      vc_id: vc_id,
+      suspended: suspend,
+      log_id: actionLog.id,
+    };
+  }
+
+  async issuerSuspendVC(
+    data: IssuerSuspendVCDTO,
+    authenticatedDid: string
+  ): Promise<IssuerSuspendVCResponseDTO> {
+    return this.changeSuspensionState(data, authenticatedDid, true);
+  }
+
+  async issuerReinstateVC(
+    data: IssuerReinstateVCDTO,
+    authenticatedDid: string
+  ): Promise<IssuerReinstateVCResponseDTO> {
+    return this.changeSuspensionState(data, authenticatedDid, false);
   }
 
   async issuerRenewVC(
@@ -2296,6 +3023,9 @@ class CredentialService {
       );
     }
 
+    // Renewal reactivates the VC on blockchain - clear its revocation bit
+    await this.updateStatusList(vc_id, StatusPurpose.REVOCATION, false);
+
     // 4. Simpan VC BARU ke tabel VCinitiatedByIssuer
     try {
       // ... (Logika penyimpanan DB tetap sama) ...
@@ -2489,7 +3219,8 @@ class CredentialService {
 
   /**
    * Validate VC JSON uploaded by institution
-   * Validates DID ownership, expiration, and hash against blockchain
+   * Validates DID ownership, expiration, hash (recomputed from vc_json),
+   * on-chain status, issuer DID status and the issuer's ES256 proof
    */
   async validateVC(data: ValidateVCDTO): Promise<VCValidationResult> {
     const { vc_json, vc_hash, holder_did } = data;
@@ -2498,25 +3229,73 @@ class CredentialService {
     let did_valid = false;
     let expiration_valid = false;
     let hash_valid = false;
+    let status_valid = false;
+    let issuer_did_valid = false;
+    let proof_valid = false;
     let is_expired = false;
+    let is_revoked = false;
+    let is_issuer_deactivated = false;
     let vcHolderDid = undefined;
+    let computedHash: string | undefined = undefined;
 
     // Extract VC ID from the composite id field
     // Format: "uuid:version:did:timestamp" or similar
     const vcId = vc_json.id;
-    const vcIssuerDid = vc_json.issuer;
+    const vcIssuerDid =
+      typeof vc_json.issuer === "object" && vc_json.issuer !== null
+        ? vc_json.issuer.id
+        : vc_json.issuer;
     const expiredAt = vc_json.expiredAt;
 
     logger.info(`Validating VC: ${vcId} for holder: ${holder_did}`);
 
+    // Batch anchored VCs may carry their Merkle inclusion proof in proof;
+    // the anchored hash covers the VC without it
+    const { credential: anchoredCredential, inclusionProof } =
+      MerkleHelper.splitInclusionProof(vc_json);
+
+    // Recompute the hash from vc_json - the client-supplied hash is not trusted
+    try {
+      computedHash = await CanonicalizationHelper.hashCredential(
+        anchoredCredential
+      );
+    } catch (error: any) {
+      errors.push(`Failed to canonicalize vc_json: ${error.message}`);
+      logger.warn(`❌ Canonicalization failed for VC ${vcId}:`, error);
+    }
+
     // 3. Validate Hash - Query blockchain and compare
     try {
       // Use the full VC ID (composite format: uuid:version:did:timestamp)
       // No need to split - blockchain uses the full ID
       logger.info(`Querying blockchain for VC: ${vcId}`);
 
-      const vcStatusOnChain =
-        await VCBlockchainService.getVCStatusFromBlockchain(vcId);
+      let vcStatusOnChain: any;
+      try {
+        vcStatusOnChain =
+          await VCBlockchainService.getVCStatusFromBlockchain(vcId);
+      } catch (error) {
+        // Not on-chain by itself: look for a Merkle batch anchoring the VC hash
+        const anchoredStatus =
+          error instanceof NotFoundError && computedHash
+            ? await BatchAnchorService.getAnchoredVCStatus(vcId, {
+                vcHash: computedHash,
+                inclusionProof,
+              })
+            : null;
+        if (!anchoredStatus) {
+          throw error;
+        }
+        logger.info(
+          `VC ${vcId} is batch anchored under Merkle root ${anchoredStatus.merkleRoot}`
+        );
+        vcStatusOnChain = {
+          ...anchoredStatus,
+          // The verified hash commits to credentialSubject.id
+          holderDID:
+            anchoredStatus.holderDID || vc_json.credentialSubject?.id,
+        };
+      }
 
       vcHolderDid = vcStatusOnChain.holderDID
         ? vcStatusOnChain.holderDID
@@ -2565,22 +3344,54 @@ class CredentialService {
       if (vcStatusOnChain) {
         const blockchainHash = vcStatusOnChain.hash;
 
-        // Compare hashes (remove 0x prefix if present)
-        const normalizedVcHash = vc_hash.toLowerCase().replace(/^0x/, "");
-        const normalizedBlockchainHash = blockchainHash
-          .toLowerCase()
-          .replace(/^0x/, "");
-
-        if (normalizedVcHash === normalizedBlockchainHash) {
+        if (!computedHash) {
+          hash_valid = false;
+        } else if (
+          CanonicalizationHelper.hashesEqual(computedHash, blockchainHash)
+        ) {
           hash_valid = true;
-          logger.info(`✅ Hash validation passed: ${normalizedVcHash}`);
+          logger.info(`✅ Hash validation passed: ${computedHash}`);
         } else {
           hash_valid = false;
           errors.push(
-            `Hash mismatch: Provided hash ${normalizedVcHash} does not match blockchain hash`
+            `Hash mismatch: Hash computed from vc_json ${computedHash} does not match blockchain hash`
+          );
+          logger.warn(
+            `❌ Hash validation failed: Expected ${blockchainHash}, computed ${computedHash}`
+          );
+        }
+
+        if (
+          vc_hash &&
+          computedHash &&
+          !CanonicalizationHelper.hashesEqual(vc_hash, computedHash)
+        ) {
+          errors.push(
+            `Provided vc_hash does not match the hash computed from vc_json`
+          );
+          logger.warn(
+            `❌ Provided vc_hash ${vc_hash} differs from computed ${computedHash}`
+          );
+        }
+
+        // 4. Validate on-chain status - revoked/inactive VCs are not valid
+        if (vcStatusOnChain.status === true) {
+          status_valid = true;
+          logger.info(`✅ Status validation passed: VC is active on blockchain`);
+        } else {
+          status_valid = false;
+          is_revoked = true;
+          errors.push(`VC is revoked or inactive on blockchain`);
+          logger.warn(`❌ Status validation failed: VC ${vcId} is revoked`);
+        }
+
+        // The issuer in the VC JSON must be the issuer recorded on-chain
+        if (vcStatusOnChain.issuerDID !== vcIssuerDid) {
+          errors.push(
+            `Issuer mismatch: VC was issued on-chain by ${vcStatusOnChain.issuerDID}, but VC JSON claims ${vcIssuerDid}`
           );
           logger.warn(
-            `❌ Hash validation failed: Expected ${normalizedBlockchainHash}, got ${normalizedVcHash}`
+            `❌ Issuer validation failed: Expected ${vcStatusOnChain.issuerDID}, got ${vcIssuerDid}`
           );
         }
       } else {
@@ -2594,20 +3405,85 @@ class CredentialService {
       logger.error(`❌ Blockchain query error:`, error);
     }
 
+    // 5. Validate issuer DID and ES256 proof against the issuer's active key
+    try {
+      const issuerDocument = await DIDBlockchainService.getDIDDocument(
+        vcIssuerDid
+      );
+
+      if (!issuerDocument.found) {
+        errors.push(`Issuer DID not found on blockchain: ${vcIssuerDid}`);
+        logger.warn(`❌ Issuer DID not found: ${vcIssuerDid}`);
+      } else if (issuerDocument.status !== "Active") {
+        is_issuer_deactivated = true;
+        errors.push(`Issuer DID is deactivated: ${vcIssuerDid}`);
+        logger.warn(`❌ Issuer DID is deactivated: ${vcIssuerDid}`);
+      } else {
+        issuer_did_valid = true;
+        logger.info(`✅ Issuer DID validation passed: ${vcIssuerDid}`);
+      }
+
+      // Key referenced by proof.verificationMethod (may be a rotated key)
+      const verificationKey = issuerDocument.found
+        ? await DIDService.getVerificationKey(
+            issuerDocument,
+            vc_json.proof?.verificationMethod,
+            vc_json.proof?.created ? new Date(vc_json.proof.created) : undefined
+          )
+        : undefined;
+      const publicKeyHex =
+        verificationKey && !("error" in verificationKey)
+          ? verificationKey.publicKeyHex
+          : undefined;
+
+      if (!vc_json.proof) {
+        errors.push(`VC does not have a proof`);
+        logger.warn(`❌ Proof validation failed: VC ${vcId} has no proof`);
+      } else if (verificationKey && "error" in verificationKey) {
+        errors.push(verificationKey.error);
+        logger.warn(`❌ Proof validation failed: ${verificationKey.error}`);
+      } else if (!publicKeyHex) {
+        errors.push(`Public key not found in issuer DID document`);
+        logger.warn(`❌ Proof validation failed: issuer key not found`);
+      } else if (ProofHelper.verifyES256Proof(vc_json, publicKeyHex)) {
+        proof_valid = true;
+        logger.info(`✅ Proof validation passed: signed by ${vcIssuerDid}`);
+      } else {
+        errors.push(`Proof signature verification failed`);
+        logger.warn(`❌ Proof validation failed: invalid signature`);
+      }
+    } catch (error: any) {
+      errors.push(`Proof verification failed: ${error.message}`);
+      logger.error(`❌ Proof verification error:`, error);
+    }
+
     // Overall validation result
-    const is_valid = did_valid && expiration_valid && hash_valid;
+    const is_valid =
+      did_valid &&
+      expiration_valid &&
+      hash_valid &&
+      status_valid &&
+      issuer_did_valid &&
+      proof_valid &&
+      errors.length === 0;
 
     const result: VCValidationResult = {
       is_valid,
       did_valid,
       expiration_valid,
       hash_valid,
+      status_valid,
+      issuer_did_valid,
+      proof_valid,
       errors,
+      computed_hash: computedHash,
       vc_id: vcId,
       holder_did: vcHolderDid,
       issuer_did: vcIssuerDid,
       expired_at: expiredAt,
       is_expired,
+      is_revoked,
+      is_issuer_deactivated,
     };
 
     if (is_valid) {
@@ -3223,6 +4099,382 @@ class CredentialService {
   }
 }
 
+// ============================================
+// 🔹 CHAIN OUTBOX HANDLERS
+// ============================================
+
+ChainOutboxService.register<IssueVCIntent, { record_id: string }>(
+  ChainOutboxOperation.ISSUE_VC,
+  {
+    isApplied: async (intent) => {
+      const vc = await VCBlockchainService.getVCStatusFromBlockchain(
+        intent.vc_id
+      ).catch(() => null);
+      return (
+        !!vc &&
+        vc.issuerDID === intent.issuer_did &&
+        CanonicalizationHelper.hashesEqual(vc.hash, intent.vc_hash)
+      );
+    },
+    submit: (intent) =>
+      VCBlockchainService.issueVCInBlockchain(
+        intent.vc_id,
+        intent.issuer_did,
+        intent.holder_did,
+        intent.vc_type,
+        intent.schema_id,
+        intent.schema_version,
+        intent.expiredAt,
+        intent.vc_hash
+      ),
+    apply: async (tx, intent, receipt) => {
+      const newRecord = await storeIssuerInitiatedVC(
+        tx,
+        intent,
+        receipt.transaction_hash ?? undefined
+      );
+      return { record_id: newRecord.id };
+    },
+    afterCommit: (intent, result) =>
+      notifyIssuedByIssuer(intent.holder_did, result.record_id),
+    // The VC was never stored for the holder: revoke it on chain
+    compensate: (intent) => VCBlockchainService.revokeVCInBlockchain(intent.vc_id),
+  }
+);
+
+ChainOutboxService.register<RenewVCIntent, { vc_response_id: string }>(
+  ChainOutboxOperation.RENEW_VC,
+  {
+    isApplied: async (intent) => {
+      const vc = await VCBlockchainService.getVCStatusFromBlockchain(
+        intent.vc_id
+      ).catch(() => null);
+      return (
+        !!vc &&
+        vc.status &&
+        vc.expiredAt === (intent.expired_at || "") &&
+        CanonicalizationHelper.hashesEqual(vc.hash, intent.hash)
+      );
+    },
+    submit: (intent) =>
+      VCBlockchainService.renewVCInBlockchain(
+        intent.vc_id,
+        intent.expired_at,
+        intent.hash
+      ),
+    apply: async (tx, intent) => {
+      // Update renewal request status
+      await tx.vCRenewalRequest.update({
+        where: { id: intent.request_id },
+        data: {
+          status: RequestStatus.APPROVED,
+          vc_id: intent.vc_id, // <-- SIMPAN VC_ID DI SINI
+        },
+      });
+
+      // Create a new VCResponse record for the renewal
+      const newVCResponse = await tx.vCResponse.create({
+        data: {
+          request_id: intent.request_id, // Link to the VCRenewalRequest
+          request_type: RequestType.RENEWAL, // Set type to RENEWAL
+          issuer_did: intent.issuer_did,
+          holder_did: intent.holder_did,
+          encrypted_body: intent.encrypted_body, // Store the new encrypted body
+        },
+      });
+
+      logger.info(
+        `Renewal request ${intent.request_id} status updated to APPROVED. New VCResponse created: ${newVCResponse.id}`
+      );
+      return { vc_response_id: newVCResponse.id };
+    },
+    afterCommit: async (intent, result, receipt) => {
+      // Renewal reactivates the VC on blockchain - clear its revocation bit
+      await StatusListService.setStatus(
+        intent.vc_id,
+        StatusPurpose.REVOCATION,
+        false
+      ).catch((error) =>
+        logger.error(
+          `Failed to update REVOCATION status list for VC ${intent.vc_id}:`,
+          error
+        )
+      );
+
+      // Send push notification to holder
+      try {
+        await NotificationService.sendVCStatusNotification(
+          intent.holder_did,
+          "Credential Renewed Successfully",
+          "Your verifiable credential has been renewed and is ready for continued use.",
+          {
+            type: "VC_RENEWED",
+            vc_response_id: result.vc_response_id,
+            request_id: intent.request_id,
+            request_type: RequestType.RENEWAL,
+            transaction_hash: receipt.transaction_hash,
+          }
+        );
+        logger.success(`Push notification sent to holder: ${intent.holder_did}`);
+      } catch (notifError: any) {
+        logger.error(
+          `Failed to send push notification to ${intent.holder_did}:`,
+          notifError
+        );
+      }
+    },
+    // Restore the expiry date, hash and status the VC had before the renewal
+    compensate: async (intent) => {
+      const receipt = await VCBlockchainService.renewVCInBlockchain(
+        intent.vc_id,
+        intent.previous.expiredAt,
+        intent.previous.hash
+      );
+      return intent.previous.status
+        ? receipt
+        : VCBlockchainService.revokeVCInBlockchain(intent.vc_id);
+    },
+  }
+);
+
+ChainOutboxService.register<UpdateVCIntent, { vc_response_id: string }>(
+  ChainOutboxOperation.UPDATE_VC,
+  {
+    isApplied: async (intent) => {
+      const vc = await VCBlockchainService.getVCStatusFromBlockchain(
+        intent.new_vc_id
+      ).catch(() => null);
+      return (
+        !!vc && CanonicalizationHelper.hashesEqual(vc.hash, intent.new_vc_hash)
+      );
+    },
+    submit: (intent) =>
+      VCBlockchainService.updateVCInBlockchain(
+        intent.vc_id,
+        intent.new_vc_id,
+        intent.issuer_did,
+        intent.holder_did,
+        intent.vc_type,
+        intent.schema_id,
+        intent.schema_version,
+        intent.expired_at,
+        intent.new_vc_hash
+      ),
+    apply: async (tx, intent) => {
+      // Update update request status
+      await tx.vCUpdateRequest.update({
+        where: { id: intent.request_id },
+        data: {
+          status: RequestStatus.APPROVED,
+          vc_id: intent.new_vc_id, // <-- SIMPAN NEW_VC_ID DI SINI
+        },
+      });
+
+      // Create a new VCResponse record for the update
+      const newVCResponse = await tx.vCResponse.create({
+        data: {
+          request_id: intent.request_id, // Link to the VCUpdateRequest
+          request_type: RequestType.UPDATE, // Set type to UPDATE
+          issuer_did: intent.issuer_did,
+          holder_did: intent.holder_did,
+          encrypted_body: intent.encrypted_body, // Store the new encrypted body
+        },
+      });
+
+      logger.info(
+        `Update request ${intent.request_id} status updated to APPROVED. New VCResponse created: ${newVCResponse.id}`
+      );
+      return { vc_response_id: newVCResponse.id };
+    },
+    afterCommit: async (intent, result, receipt) => {
+      // Send push notification to holder
+      try {
+        await NotificationService.sendVCStatusNotification(
+          intent.holder_did,
+          "Credential Updated Successfully",
+          "Your verifiable credential has been updated with the latest information.",
+          {
+            type: "VC_UPDATED",
+            vc_response_id: result.vc_response_id,
+            request_id: intent.request_id,
+            request_type: RequestType.UPDATE,
+            transaction_hash: receipt.transaction_hash,
+          }
+        );
+        logger.success(`Push notification sent to holder: ${intent.holder_did}`);
+      } catch (notifError: any) {
+        logger.error(
+          `Failed to send push notification to ${intent.holder_did}:`,
+          notifError
+        );
+      }
+    },
+    // Revoke the new VC and reactivate the old one (updateVC deactivated it)
+    compensate: async (intent) => {
+      await VCBlockchainService.revokeVCInBlockchain(intent.new_vc_id);
+      return VCBlockchainService.renewVCInBlockchain(
+        intent.vc_id,
+        intent.previous.expiredAt,
+        intent.previous.hash
+      );
+    },
+  }
+);
+
+ChainOutboxService.register<ApproveIssuanceIntent, { vc_response_id: string }>(
+  ChainOutboxOperation.APPROVE_ISSUANCE,
+  {
+    isApplied: async (intent) => {
+      const vc = await VCBlockchainService.getVCStatusFromBlockchain(
+        intent.vc_id
+      ).catch(() => null);
+      return (
+        !!vc &&
+        vc.issuerDID === intent.issuer_did &&
+        CanonicalizationHelper.hashesEqual(vc.hash, intent.vc_hash)
+      );
+    },
+    submit: (intent) =>
+      VCBlockchainService.issueVCInBlockchain(
+        intent.vc_id,
+        intent.issuer_did,
+        intent.holder_did,
+        intent.vc_type,
+        intent.schema_id,
+        intent.schema_version,
+        intent.expired_at,
+        intent.vc_hash
+      ),
+    apply: async (tx, intent) => {
+      await tx.vCIssuanceRequest.update({
+        where: { id: intent.request_id },
+        data: {
+          status: RequestStatus.APPROVED,
+          vc_id: intent.vc_id, // <-- SIMPAN VC_ID DI SINI
+        },
+      });
+
+      const newVCResponse = await tx.vCResponse.create({
+        data: {
+          request_id: intent.request_id,
+          request_type: RequestType.ISSUANCE,
+          issuer_did: intent.issuer_did,
+          holder_did: intent.holder_did,
+          encrypted_body: intent.encrypted_body,
+        },
+      });
+
+      logger.success(
+        `Database updated for approved request: ${intent.request_id}. VCResponse created: ${newVCResponse.id}`
+      );
+      return { vc_response_id: newVCResponse.id };
+    },
+    afterCommit: async (intent, result, receipt) => {
+      // Send push notification to holder
+      try {
+        await NotificationService.sendVCStatusNotification(
+          intent.holder_did,
+          "Credential Issued Successfully",
+          "Your verifiable credential has been issued and is now available for use.",
+          {
+            type: "VC_ISSUED",
+            vc_response_id: result.vc_response_id,
+            request_id: intent.request_id,
+            request_type: RequestType.ISSUANCE,
+            transaction_hash: receipt.transaction_hash,
+          }
+        );
+        logger.success(`Push notification sent to holder: ${intent.holder_did}`);
+      } catch (notifError: any) {
+        logger.error(
+          `Failed to send push notification to ${intent.holder_did}:`,
+          notifError
+        );
+      }
+    },
+    // The request was never approved: revoke the VC on chain
+    compensate: (intent) => VCBlockchainService.revokeVCInBlockchain(intent.vc_id),
+  }
+);
+
+ChainOutboxService.register<RevokeVCIntent, { record_id: string }>(
+  ChainOutboxOperation.REVOKE_VC,
+  {
+    isApplied: async (intent) => {
+      const vc = await VCBlockchainService.getVCStatusFromBlockchain(
+        intent.vc_id
+      ).catch(() => null);
+      return !!vc && vc.status === false;
+    },
+    submit: (intent) => VCBlockchainService.revokeVCInBlockchain(intent.vc_id),
+    apply: async (tx, intent, receipt) => {
+      // Revocation notice for the holder to claim
+      const newRecord = await tx.vCinitiatedByIssuer.create({
+        data: {
+          id: intent.notice_id,
+          request_type: RequestType.REVOKE, // Hardcode sebagai REVOKE
+          issuer_did: intent.issuer_did,
+          holder_did: intent.holder_did,
+          vc_id: intent.vc_id, // Store vc_id for schema parsing
+          encrypted_body: intent.encrypted_body, // Menyimpan alasan/pesan pencabutan
+          status: VCResponseStatus.PENDING, // Status default PENDING
+        },
+      });
+
+      await tx.issuerActionLog.create({
+        data: {
+          action_type: RequestType.REVOKE,
+          issuer_did: intent.issuer_did,
+          holder_did: intent.holder_did,
+          vc_id: intent.vc_id,
+          transaction_hash: receipt.transaction_hash ?? undefined,
+        },
+      });
+
+      logger.success(
+        `New revocation notice created in VCinitiatedByIssuer: ${newRecord.id}`
+      );
+      return { record_id: newRecord.id };
+    },
+    afterCommit: async (intent, result) => {
+      await StatusListService.setStatus(
+        intent.vc_id,
+        StatusPurpose.REVOCATION,
+        true
+      ).catch((error) =>
+        logger.error(
+          `Failed to update REVOCATION status list for VC ${intent.vc_id}:`,
+          error
+        )
+      );
+
+      // Kirim notifikasi push ke holder untuk "meng-claim" pesan pencabutan
+      try {
+        await NotificationService.sendVCStatusNotification(
+          intent.holder_did,
+          "Credential Revocation Notice",
+          "A notice regarding your credential revocation is ready to be claimed.",
+          {
+            type: "VC_REVOKE_NOTICE_PENDING",
+            record_id: result.record_id,
+            request_type: RequestType.REVOKE,
+          }
+        );
+        logger.success(
+          `Push notification sent to holder (for revoke claim): ${intent.holder_did}`
+        );
+      } catch (notifError: any) {
+        logger.error(
+          `Failed to send push notification (direct revoke) to ${intent.holder_did}:`,
+          notifError
+        );
+      }
+    },
+    // No compensation: reactivating a VC its issuer revoked is worse than a
+    // missing notice, the intent ends FAILED for manual reconciliation
+  }
+);
+
 // Export singleton instance for backward compatibility
 export default new CredentialService();
 
@@ -1,10 +1,97 @@
 import BlockchainService from "./blockchain/didBlockchain.service";
 import InstitutionService from "./institution.service";
-import { BadRequestError, NotFoundError } from "../utils/errors/AppError";
-import { PrismaClient, RequestStatus } from "@prisma/client";
+import {
+  BadRequestError,
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+} from "../utils/errors/AppError";
+import {
+  PrismaClient,
+  Prisma,
+  ChainOutboxOperation,
+  ChainOutboxStatus,
+  DIDOperation,
+  DIDDeactivationStatus,
+} from "@prisma/client";
 import { prisma } from "../config/database";
-import { logger } from "../config";
-import { encryptWithPublicKey } from "../utils/encryptUtil";
+import { logger, env } from "../config";
+import ChainIndexerService from "./blockchain/chainIndexer.service";
+import ChainOutboxService from "./blockchain/chainOutbox.service";
+import DIDDeactivationService from "./didDeactivation.service";
+import DIDMethodRegistry from "./didMethods/didMethodRegistry.service";
+import { DIDDocumentHelper, DIDMediaType } from "../utils/helpers";
+import { VerificationKeyDTO, KeyValidityDTO } from "../dtos/did.dto";
+import { ChainOutboxReceipt, ChainOutboxRunResult } from "../types";
+
+/**
+ * Chain outbox payload of a DID registration (registerDID)
+ * institution = InstitutionRegistration data, only for institutional DIDs
+ */
+interface RegisterDIDIntent {
+  did: string;
+  public_key: string;
+  institution?: {
+    email: string;
+    name: string;
+    phone: string;
+    country: string;
+    website: string;
+    address: string;
+  };
+}
+
+/**
+ * Chain outbox payload of a key rotation (rotateKey)
+ */
+interface RotateDIDKeyIntent {
+  did: string;
+  new_public_key: string;
+}
+
+/**
+ * Chain outbox payload of a DID deactivation (deactivateDID)
+ */
+interface DeactivateDIDIntent {
+  did: string;
+  deactivation_id: string;
+}
+
+/**
+ * Record a DID version (used for DID resolution metadata)
+ * Skipped when the operation was found already applied (no receipt to record)
+ * @param keyId - Active key after the operation (read from blockchain if omitted)
+ */
+async function recordVersion(
+  client: Prisma.TransactionClient,
+  did: string,
+  operation: DIDOperation,
+  receipt: ChainOutboxReceipt,
+  keyId?: string
+): Promise<void> {
+  if (!receipt.transaction_hash || receipt.block_number === null) {
+    logger.warn(`No receipt for ${operation} of DID ${did}, version not recorded`);
+    return;
+  }
+
+  const activeKeyId = keyId || (await BlockchainService.getActiveKeyId(did));
+  const latest = await client.dIDVersion.findFirst({
+    where: { did },
+    orderBy: { version_id: "desc" },
+    select: { version_id: true },
+  });
+
+  await client.dIDVersion.create({
+    data: {
+      did,
+      version_id: (latest?.version_id ?? 0) + 1,
+      operation,
+      key_id: activeKeyId,
+      transaction_hash: receipt.transaction_hash,
+      block_number: receipt.block_number,
+    },
+  });
+}
 
 /**
  * DID Service with Dependency Injection
@@ -12,6 +99,8 @@ import { encryptWithPublicKey } from "../utils/encryptUtil";
  */
 class DIDService {
   private blockchainService: typeof BlockchainService;
+  private registry: typeof DIDMethodRegistry;
+  private deactivationService: typeof DIDDeactivationService;
   private prisma: PrismaClient;
 
   /**
@@ -20,13 +109,39 @@ class DIDService {
    */
   constructor(dependencies?: {
     blockchainService?: typeof BlockchainService;
+    registry?: typeof DIDMethodRegistry;
+    deactivationService?: typeof DIDDeactivationService;
     prisma?: PrismaClient;
   }) {
     this.blockchainService =
       dependencies?.blockchainService || BlockchainService;
+    this.registry = dependencies?.registry || DIDMethodRegistry;
+    this.deactivationService =
+      dependencies?.deactivationService || DIDDeactivationService;
     this.prisma = dependencies?.prisma || prisma;
   }
 
+  /**
+   * Execute a DID write through the chain outbox
+   * @throws ConflictError / the on-chain write error (unconfirmed writes are
+   *   completed in the background), InternalServerError when the database step
+   *   is left to the outbox worker
+   */
+  private async runOutbox<P, R>(
+    operation: ChainOutboxOperation,
+    lockKey: string,
+    payload: P
+  ): Promise<ChainOutboxRunResult<R>> {
+    const outcome = await ChainOutboxService.run<P, R>(operation, lockKey, payload);
+
+    if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+      throw new InternalServerError(
+        `Blockchain succeeded (TX: ${outcome.receipt.transaction_hash}), but database save failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
+      );
+    }
+    return outcome;
+  }
+
   /**
    * Register new DID
    */
@@ -48,17 +163,18 @@ class DIDService {
     const isIndividual = role.toLowerCase() === "individual";
 
     if (isIndividual) {
-      // Register individual DID
-      const receipt = await this.blockchainService.registerIndividualDID(
-        did_string,
-        public_key
+      // Register individual DID, then record its first version (chain outbox)
+      const { receipt } = await this.runOutbox<RegisterDIDIntent, null>(
+        ChainOutboxOperation.REGISTER_DID,
+        `REGISTER_DID:${did_string}`,
+        { did: did_string, public_key }
       );
 
       return {
         message: "Individual DID registered successfully",
         did: did_string,
-        transactionHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.transaction_hash,
+        blockNumber: receipt.block_number,
       };
     } else {
       // For institution, email is required
@@ -98,34 +214,40 @@ class DIDService {
         );
       }
 
-      // Register institutional DID with queried data
-      const receipt = await this.blockchainService.registerInstitutionalDID(
-        did_string,
-        public_key,
-        email,
-        institution.name,
-        institution.phone,
-        institution.country,
-        institution.website,
-        institution.address
-      );
+      // The Institution row is inserted with the DID, check it is free first
+      const existingInstitution = await this.prisma.institution.findFirst({
+        where: { OR: [{ did: did_string }, { email }] },
+        select: { id: true },
+      });
+      if (existingInstitution) {
+        throw new BadRequestError(
+          `Institution with DID ${did_string} or email ${email} already exists`
+        );
+      }
 
-      // Insert institution data to Institution table
-      const createdInstitution = await InstitutionService.createInstitution({
+      // Register institutional DID with queried data, then insert it into the
+      // Institution table (chain outbox)
+      const { receipt, result } = await this.runOutbox<
+        RegisterDIDIntent,
+        { institution_id: string }
+      >(ChainOutboxOperation.REGISTER_DID, `REGISTER_DID:${did_string}`, {
         did: did_string,
-        email,
-        name: institution.name,
-        phone: institution.phone,
-        country: institution.country,
-        website: institution.website,
-        address: institution.address,
+        public_key,
+        institution: {
+          email,
+          name: institution.name,
+          phone: institution.phone,
+          country: institution.country,
+          website: institution.website,
+          address: institution.address,
+        },
       });
 
       return {
         message: "Institutional DID registered successfully",
         did: did_string,
         institution: {
-          id: createdInstitution.id,
+          id: result!.institution_id,
           email,
           name: institution.name,
           phone: institution.phone,
@@ -133,8 +255,8 @@ class DIDService {
           website: institution.website,
           address: institution.address,
         },
-        transactionHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
+        transactionHash: receipt.transaction_hash,
+        blockNumber: receipt.block_number,
       };
     }
   }
@@ -167,10 +289,16 @@ class DIDService {
    */
   async getBlockCount() {
     const blockNumber = await this.blockchainService.getBlockNumber();
+    const checkpoint = env.INDEXER_ENABLED
+      ? await ChainIndexerService.getCheckpoint()
+      : null;
 
     return {
       message: "Number of blocks retrieved",
       blockCount: blockNumber,
+      ...(env.INDEXER_ENABLED && {
+        indexedBlock: checkpoint?.block_number ?? null,
+      }),
     };
   }
 
@@ -185,133 +313,107 @@ class DIDService {
       throw new NotFoundError("DID not found on blockchain");
     }
 
-    // Rotate key
-    const receipt = await this.blockchainService.registerNewKey(
-      did,
-      newPublicKey
+    // Rotate key, then record the new version (chain outbox)
+    const { receipt } = await this.runOutbox<RotateDIDKeyIntent, null>(
+      ChainOutboxOperation.ROTATE_DID_KEY,
+      `ROTATE_DID_KEY:${did}:${newPublicKey}`,
+      { did, new_public_key: newPublicKey }
     );
 
     return {
       message: "DID key rotated successfully",
       did,
-      transactionHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.transaction_hash,
+      blockNumber: receipt.block_number,
     };
   }
 
   /**
    * Deactivate DID
    * Throws NotFoundError if DID doesn't exist
+   *
+   * The cascade (revoke requests for held VCs, revocation of issued VCs) is tracked
+   * by DIDDeactivationService; deactivating an already deactivated DID resumes it
    */
-  async deactivateDID(did: string) {
+  async deactivateDID(did: string, initiatedBy: "holder" | "admin" = "holder") {
     // Check if DID exists
     const exists = await this.blockchainService.isDIDRegistered(did);
     if (!exists) {
       throw new NotFoundError("DID not found on blockchain");
     }
 
-    // Query all VCs owned by this holder from IssuerVCData
-    const vcs = await this.prisma.issuerVCData.findMany({
-      where: {
-        holder_did: did,
-      },
-      select: {
-        vc_id: true,
-        issuer_did: true,
-      },
-    });
-
-    logger.info(
-      `Found ${vcs.length} VCs owned by DID ${did} to create revoke requests`
-    );
-
-    // Create revoke request for each VC to its issuer
-    let requestCount = 0;
-    const reason = "The holder’s DID document has been deactivated";
+    let deactivation = await this.deactivationService.prepare(did, initiatedBy);
 
-    for (const vc of vcs) {
-      // Skip if vc_id is null (legacy data)
-      if (!vc.vc_id || !vc.issuer_did) {
-        logger.warn(`Skipping VC with null vc_id or issuer_did`);
-        continue;
-      }
+    if (deactivation.status === DIDDeactivationStatus.PENDING) {
+      // A previous attempt may have been mined without being recorded
+      const document = await this.blockchainService.getDIDDocument(did);
 
-      try {
-        // Get issuer's public key from blockchain
-        const issuerDIDDocument = await this.blockchainService.getDIDDocument(
-          vc.issuer_did
+      if (document.status === "InActive") {
+        deactivation = await this.deactivationService.markDeactivated(
+          deactivation.id,
+          null
         );
-
-        if (!issuerDIDDocument.found) {
-          logger.warn(
-            `Issuer DID ${vc.issuer_did} not found on blockchain, skipping VC ${vc.vc_id}`
+      } else {
+        // Deactivate on chain, then record the version and mark the
+        // deactivation PROCESSING (chain outbox)
+        try {
+          await this.runOutbox<DeactivateDIDIntent, null>(
+            ChainOutboxOperation.DEACTIVATE_DID,
+            `DEACTIVATE_DID:${deactivation.id}`,
+            { did, deactivation_id: deactivation.id }
           );
-          continue;
+        } catch (error: any) {
+          // An unconfirmed or in-progress deactivation is completed by the
+          // outbox, then its cascade by didDeactivationScheduler
+          if (
+            !(error instanceof ConflictError) &&
+            !(error instanceof InternalServerError) &&
+            !ChainOutboxService.isUnconfirmed(error)
+          ) {
+            await this.deactivationService.markFailed(deactivation.id, error.message);
+          }
+          throw error;
         }
-
-        // Get public key using keyId
-        const issuerKeyId = issuerDIDDocument.keyId;
-        const issuerPublicKey = issuerDIDDocument[issuerKeyId];
-
-        // Encrypt the revoke request body with issuer's public key
-        const requestBody = {
-          vc_id: vc.vc_id,
-          reason: reason,
-        };
-
-        const encryptedBody = await encryptWithPublicKey(
-          requestBody,
-          issuerPublicKey
-        );
-
-        // Create revoke request in database
-        await this.prisma.vCRevokeRequest.create({
-          data: {
-            issuer_did: vc.issuer_did,
-            holder_did: did,
-            encrypted_body: encryptedBody,
-            status: RequestStatus.PENDING,
-          },
-        });
-
-        requestCount++;
-        logger.info(
-          `✅ Successfully created revoke request for VC ${vc.vc_id} to issuer ${vc.issuer_did}`
-        );
-      } catch (error: any) {
-        // Log error but continue with other VCs
-        console.error(
-          `❌ Failed to create revoke request for VC ${vc.vc_id}:`,
-          error.message
-        );
-        logger.error(
-          `Failed to create revoke request for VC ${vc.vc_id}: ${error.message}`
-        );
       }
+    } else {
+      logger.info(`DID ${did} already deactivated, resuming deactivation cascade`);
     }
 
-    // Deactivate DID
-    const receipt = await this.blockchainService.deactivateDID(did);
+    const report = await this.deactivationService.process(deactivation.id);
+    const { summary } = report;
 
     logger.success(
-      `DID ${did} deactivated successfully. Created ${requestCount}/${vcs.length} revoke requests.`
+      `DID ${did} deactivated successfully. Created ${summary.requestCreated} revoke requests, revoked ${summary.revoked} issued VCs (${summary.skipped} skipped, ${summary.failed} failed).`
     );
 
     return {
-      message: `DID deactivated successfully. ${requestCount} revoke requests have been created.`,
+      message: `DID deactivated successfully. ${summary.requestCreated} revoke requests have been created.`,
       did,
-      revokeRequestsCount: requestCount,
-      transactionHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
+      deactivationId: report.id,
+      status: report.status,
+      revokeRequestsCount: summary.requestCreated,
+      revokedIssuedCount: summary.revoked,
+      summary,
+      transactionHash: report.transaction_hash,
+      blockNumber: report.block_number,
     };
   }
 
+  /**
+   * Get the deactivation cascade report of a DID
+   * Throws NotFoundError if the DID was never deactivated through this API
+   */
+  async getDeactivationReport(did: string) {
+    return this.deactivationService.getReport(did);
+  }
+
   /**
    * Get DID Document
+   * Resolves did:dcert on-chain and did:key / did:web through DIDMethodRegistry
    * Returns 200 with found status instead of throwing NotFoundError
    */
   async getDIDDocument(did: string) {
-    const document = await this.blockchainService.getDIDDocument(did);
+    const document = await this.registry.resolve(did);
 
     // If DID not found, return the error response with 200 status
     if (!document.found) {
@@ -324,6 +426,135 @@ class DIDService {
     };
   }
 
+  /**
+   * Get key validity window from the DID version history
+   * validFrom: when the key became active, validUntil: when it was rotated
+   * Both are undefined for keys registered before the history was recorded
+   */
+  async getKeyValidity(did: string, keyId: string): Promise<KeyValidityDTO> {
+    const versions = await this.prisma.dIDVersion.findMany({
+      where: { did },
+      orderBy: { version_id: "asc" },
+      select: { key_id: true, createdAt: true },
+    });
+
+    const index = versions.findIndex((v) => v.key_id === keyId);
+    if (index === -1) {
+      return {};
+    }
+
+    const rotation = versions
+      .slice(index + 1)
+      .find((v) => v.key_id !== keyId);
+
+    return {
+      validFrom: versions[index].createdAt,
+      validUntil: rotation?.createdAt,
+    };
+  }
+
+  /**
+   * Get the public key to verify a signature by a DID
+   * Honours the key fragment of verificationMethod / kid (defaults to the active key).
+   * Only the active key is accepted, except for issuer VC proofs: with issuedAt
+   * a rotated key (read with getKey(did, keyId)) is accepted for proofs created
+   * within its recorded validity window. did:key / did:web keys come from the
+   * resolved document (didDocument.keys) and have no rotation history.
+   * @param didDocument - Result of getDIDDocument for a found DID
+   * @param verificationMethod - e.g. did:dcert:...#key-1 (optional)
+   * @param issuedAt - Issuer VC proofs only: proof.created / iat of the VC
+   */
+  async getVerificationKey(
+    didDocument: Record<string, any>,
+    verificationMethod?: string,
+    issuedAt?: Date
+  ): Promise<VerificationKeyDTO | { error: string }> {
+    const did: string = didDocument.id;
+    const activeKeyId: string = didDocument.keyId;
+
+    let keyId = activeKeyId;
+    if (verificationMethod && verificationMethod !== did) {
+      const requestedKeyId = DIDDocumentHelper.keyIdFromVerificationMethod(
+        did,
+        verificationMethod
+      );
+      if (!requestedKeyId) {
+        return {
+          error: `Verification method ${verificationMethod} does not belong to ${did}`,
+        };
+      }
+      keyId = requestedKeyId;
+    }
+
+    if (didDocument.keys) {
+      const publicKey = didDocument.keys[keyId];
+      return publicKey
+        ? { keyId, ...publicKey }
+        : { error: `Key ${keyId} not found for ${did}` };
+    }
+
+    if (keyId === activeKeyId) {
+      return { keyId, publicKeyHex: didDocument[keyId], keyType: "P-256" };
+    }
+
+    // Request auth, VP proofs and KB-JWTs: a rotated key is cut off
+    if (!issuedAt || isNaN(issuedAt.getTime())) {
+      return {
+        error: `Key ${keyId} is not the active key of ${did}`,
+      };
+    }
+
+    let publicKeyHex: string;
+    try {
+      publicKeyHex = await this.blockchainService.getDIDKey(did, keyId);
+    } catch (error: any) {
+      logger.warn(`Failed to read key ${keyId} of ${did}: ${error.message}`);
+      publicKeyHex = "";
+    }
+
+    if (!publicKeyHex) {
+      return { error: `Key ${keyId} not found for ${did}` };
+    }
+
+    const { validFrom, validUntil } = await this.getKeyValidity(did, keyId);
+
+    if (!validUntil) {
+      return {
+        error: `Rotation time of ${did}${keyId} is not recorded; proofs by this key cannot be accepted`,
+      };
+    }
+
+    if (issuedAt >= validUntil || (validFrom && issuedAt < validFrom)) {
+      return {
+        error: `Key ${keyId} was only valid from ${validFrom?.toISOString() ?? "registration"} until ${validUntil.toISOString()}; the proof was created at ${issuedAt.toISOString()}`,
+      };
+    }
+
+    return { keyId, publicKeyHex, keyType: "P-256", validFrom, validUntil };
+  }
+
+  /**
+   * Get W3C DID Document
+   * Renders the on-chain record as a DID Core document (JsonWebKey2020)
+   * Returns { found: false, ... } when the DID is not registered
+   */
+  async getW3CDIDDocument(
+    did: string,
+    mediaType: DIDMediaType = "application/did+ld+json"
+  ) {
+    const document = await this.blockchainService.getDIDDocument(did);
+
+    if (!document.found) {
+      return { found: false as const, message: document.message, did };
+    }
+
+    return {
+      found: true as const,
+      didDocument: DIDDocumentHelper.toW3CDocument(document, mediaType),
+      didDocumentMetadata: DIDDocumentHelper.toDocumentMetadata(document),
+    };
+  }
+
   /**
    * Cleanup method to disconnect Prisma client
    * Should be called when the service is no longer needed
@@ -333,6 +564,72 @@ class DIDService {
   }
 }
 
+ChainOutboxService.register<RegisterDIDIntent, { institution_id: string } | null>(
+  ChainOutboxOperation.REGISTER_DID,
+  {
+    isApplied: (intent) => BlockchainService.isDIDRegistered(intent.did),
+    submit: (intent) =>
+      intent.institution
+        ? BlockchainService.registerInstitutionalDID(
+            intent.did,
+            intent.public_key,
+            intent.institution.email,
+            intent.institution.name,
+            intent.institution.phone,
+            intent.institution.country,
+            intent.institution.website,
+            intent.institution.address
+          )
+        : BlockchainService.registerIndividualDID(intent.did, intent.public_key),
+    apply: async (tx, intent, receipt) => {
+      await recordVersion(tx, intent.did, DIDOperation.CREATE, receipt, "#key-1");
+
+      if (!intent.institution) {
+        return null;
+      }
+
+      // Insert institution data to Institution table
+      const createdInstitution = await InstitutionService.createInstitution(
+        { did: intent.did, ...intent.institution },
+        tx
+      );
+      return { institution_id: createdInstitution.id };
+    },
+    // No compensation: a registered DID is only deactivated by its owner
+  }
+);
+
+ChainOutboxService.register<RotateDIDKeyIntent, null>(
+  ChainOutboxOperation.ROTATE_DID_KEY,
+  {
+    isApplied: async (intent) =>
+      (await BlockchainService.getDIDKey(intent.did)) === intent.new_public_key,
+    submit: (intent) =>
+      BlockchainService.registerNewKey(intent.did, intent.new_public_key),
+    apply: async (tx, intent, receipt) => {
+      await recordVersion(tx, intent.did, DIDOperation.ROTATE_KEY, receipt);
+      return null;
+    },
+  }
+);
+
+ChainOutboxService.register<DeactivateDIDIntent, null>(
+  ChainOutboxOperation.DEACTIVATE_DID,
+  {
+    isApplied: (intent) => BlockchainService.isDIDDeactivated(intent.did),
+    submit: (intent) => BlockchainService.deactivateDID(intent.did),
+    apply: async (tx, intent, receipt) => {
+      await recordVersion(tx, intent.did, DIDOperation.DEACTIVATE, receipt);
+      await DIDDeactivationService.markDeactivated(
+        intent.deactivation_id,
+        receipt,
+        tx
+      );
+      return null;
+    },
+  }
+);
+
 // Export singleton instance with shared Prisma client for backward compatibility
 const prismaClient = new PrismaClient();
 const didServiceInstance = new DIDService({ prisma: prismaClient });
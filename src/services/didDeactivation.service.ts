@@ -0,0 +1,589 @@
+import {
+  PrismaClient,
+  DIDDeactivation,
+  DIDDeactivationItem,
+  DIDDeactivationItemKind,
+  DIDDeactivationItemOutcome,
+  DIDDeactivationStatus,
+  Prisma,
+  RequestStatus,
+  RequestType,
+  StatusPurpose,
+} from "@prisma/client";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import DIDMethodRegistry from "./didMethods/didMethodRegistry.service";
+import StatusListService from "./statusList.service";
+import NotificationService from "./notification.service";
+import { encryptWithPublicKey } from "../utils/encryptUtil";
+import { NotFoundError } from "../utils/errors/AppError";
+import {
+  DIDDeactivationReportDTO,
+  DIDDeactivationSummaryDTO,
+} from "../dtos/did.dto";
+import { ChainOutboxReceipt } from "../types";
+
+/**
+ * Outcome of processing one item
+ */
+interface ItemUpdate {
+  outcome: DIDDeactivationItemOutcome;
+  reason: string | null;
+  revoke_request_id?: string;
+  transaction_hash?: string;
+}
+
+const HOLDER_DEACTIVATED_REASON = "The holder’s DID document has been deactivated";
+
+/**
+ * DID Deactivation Service with Dependency Injection
+ * Tracks the cascade of a DID deactivation in DIDDeactivation / DIDDeactivationItem:
+ *
+ * - HELD items: VCs held by the DID (IssuerVCData.holder_did), one encrypted revoke
+ *   request to the issuer each (as before, the issuer still approves the revocation)
+ * - ISSUED items: VCs issued by the DID (institutions), revoked on-chain and in the
+ *   issuer's status list unless DID_DEACTIVATION_REVOKE_ISSUED=false
+ *
+ * Every item ends REQUEST_CREATED, REVOKED, SKIPPED (with the reason) or FAILED.
+ * FAILED items are retried by didDeactivationScheduler up to
+ * DID_DEACTIVATION_MAX_ATTEMPTS times; a deactivation that still has FAILED items
+ * after that is INCOMPLETE and resumes when the DID is deactivated again.
+ */
+class DIDDeactivationService {
+  private db: PrismaClient;
+  private registry: typeof DIDMethodRegistry;
+  private vcBlockchainService: typeof VCBlockchainService;
+  private statusListService: typeof StatusListService;
+  private notificationService: typeof NotificationService;
+  private processing = new Set<string>();
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    registry?: typeof DIDMethodRegistry;
+    vcBlockchainService?: typeof VCBlockchainService;
+    statusListService?: typeof StatusListService;
+    notificationService?: typeof NotificationService;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.registry = dependencies?.registry || DIDMethodRegistry;
+    this.vcBlockchainService =
+      dependencies?.vcBlockchainService || VCBlockchainService;
+    this.statusListService =
+      dependencies?.statusListService || StatusListService;
+    this.notificationService =
+      dependencies?.notificationService || NotificationService;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Snapshot the VCs held and issued by the DID as PENDING (or SKIPPED) items
+   */
+  private async snapshotItems(
+    deactivationId: string,
+    did: string
+  ): Promise<number> {
+    const [held, issued] = await Promise.all([
+      this.db.issuerVCData.findMany({
+        where: { holder_did: did },
+        select: { vc_id: true, issuer_did: true },
+      }),
+      this.db.issuerVCData.findMany({
+        where: { issuer_did: did },
+        select: { vc_id: true, holder_did: true },
+      }),
+    ]);
+
+    const items: Prisma.DIDDeactivationItemCreateManyInput[] = [
+      ...held.map((vc) => ({
+        deactivation_id: deactivationId,
+        kind: DIDDeactivationItemKind.HELD,
+        vc_id: vc.vc_id,
+        counterparty_did: vc.issuer_did,
+        ...(!vc.vc_id && {
+          outcome: DIDDeactivationItemOutcome.SKIPPED,
+          reason: "Legacy IssuerVCData row without vc_id",
+        }),
+      })),
+      ...issued.map((vc) => ({
+        deactivation_id: deactivationId,
+        kind: DIDDeactivationItemKind.ISSUED,
+        vc_id: vc.vc_id,
+        counterparty_did: vc.holder_did,
+        ...(!vc.vc_id && {
+          outcome: DIDDeactivationItemOutcome.SKIPPED,
+          reason: "Legacy IssuerVCData row without vc_id",
+        }),
+        ...(vc.vc_id &&
+          !env.DID_DEACTIVATION_REVOKE_ISSUED && {
+            outcome: DIDDeactivationItemOutcome.SKIPPED,
+            reason: "Issued VCs are kept active (DID_DEACTIVATION_REVOKE_ISSUED=false)",
+          }),
+      })),
+    ];
+
+    if (items.length === 0) {
+      return 0;
+    }
+
+    // The same VC may appear in several IssuerVCData rows
+    const { count } = await this.db.dIDDeactivationItem.createMany({
+      data: items,
+      skipDuplicates: true,
+    });
+    return count;
+  }
+
+  /**
+   * HELD item: encrypted revoke request to the issuer of the VC
+   */
+  private async processHeldItem(
+    did: string,
+    item: DIDDeactivationItem
+  ): Promise<ItemUpdate> {
+    const issuerDID = item.counterparty_did;
+    const issuerDIDDocument = await this.registry.resolve(issuerDID!);
+
+    if (!issuerDIDDocument.found) {
+      return {
+        outcome: DIDDeactivationItemOutcome.SKIPPED,
+        reason: `Issuer DID ${issuerDID} not found`,
+      };
+    }
+
+    if (issuerDIDDocument.status === "InActive") {
+      return {
+        outcome: DIDDeactivationItemOutcome.SKIPPED,
+        reason: `Issuer DID ${issuerDID} is deactivated`,
+      };
+    }
+
+    // ECIES key agreement needs a P-256 key
+    if (issuerDIDDocument.keyType && issuerDIDDocument.keyType !== "P-256") {
+      return {
+        outcome: DIDDeactivationItemOutcome.SKIPPED,
+        reason: `Issuer DID ${issuerDID} has no P-256 key for encryption`,
+      };
+    }
+
+    const issuerPublicKey = issuerDIDDocument[issuerDIDDocument.keyId];
+    const encryptedBody = await encryptWithPublicKey(
+      { vc_id: item.vc_id, reason: HOLDER_DEACTIVATED_REASON },
+      issuerPublicKey
+    );
+
+    const revokeRequest = await this.db.vCRevokeRequest.create({
+      data: {
+        issuer_did: issuerDID!,
+        holder_did: did,
+        encrypted_body: encryptedBody,
+        status: RequestStatus.PENDING,
+      },
+    });
+
+    return {
+      outcome: DIDDeactivationItemOutcome.REQUEST_CREATED,
+      reason: null,
+      revoke_request_id: revokeRequest.id,
+    };
+  }
+
+  /**
+   * ISSUED item: revoke the VC on-chain (or, for VCs without their own VCManager
+   * entry such as batch anchored VCs, in the issuer's status list only)
+   */
+  private async processIssuedItem(
+    did: string,
+    item: DIDDeactivationItem
+  ): Promise<ItemUpdate> {
+    const vcId = item.vc_id!;
+
+    let onChain: { status: boolean } | null = null;
+    try {
+      onChain = await this.vcBlockchainService.getVCStatusFromBlockchain(vcId);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+
+    if (!onChain) {
+      const statusListState = await this.statusListService.getStatus(vcId);
+      if (!statusListState) {
+        return {
+          outcome: DIDDeactivationItemOutcome.SKIPPED,
+          reason: "VC not found on blockchain or in a status list",
+        };
+      }
+      if (statusListState.revoked) {
+        return {
+          outcome: DIDDeactivationItemOutcome.SKIPPED,
+          reason: "VC already revoked",
+        };
+      }
+
+      await this.statusListService.setStatus(vcId, StatusPurpose.REVOCATION, true);
+      await this.db.issuerActionLog.create({
+        data: {
+          action_type: RequestType.REVOKE,
+          issuer_did: did,
+          holder_did: item.counterparty_did,
+          vc_id: vcId,
+        },
+      });
+      await this.notifyHolder(item, null);
+      return { outcome: DIDDeactivationItemOutcome.REVOKED, reason: null };
+    }
+
+    if (onChain.status === false) {
+      return {
+        outcome: DIDDeactivationItemOutcome.SKIPPED,
+        reason: "VC already revoked",
+      };
+    }
+
+    const receipt = await this.vcBlockchainService.revokeVCInBlockchain(vcId);
+
+    // Blockchain remains the source of truth if the status list update fails
+    try {
+      await this.statusListService.setStatus(vcId, StatusPurpose.REVOCATION, true);
+    } catch (error: any) {
+      logger.error(`Failed to update revocation status list for VC ${vcId}:`, error);
+    }
+
+    await this.db.issuerActionLog.create({
+      data: {
+        action_type: RequestType.REVOKE,
+        issuer_did: did,
+        holder_did: item.counterparty_did,
+        vc_id: vcId,
+        transaction_hash: receipt.hash,
+      },
+    });
+
+    await this.notifyHolder(item, receipt.hash);
+
+    return {
+      outcome: DIDDeactivationItemOutcome.REVOKED,
+      reason: null,
+      transaction_hash: receipt.hash,
+    };
+  }
+
+  /**
+   * Tell the holder that a VC was revoked because its issuer was deactivated
+   */
+  private async notifyHolder(
+    item: DIDDeactivationItem,
+    transactionHash: string | null
+  ): Promise<void> {
+    if (!item.counterparty_did) {
+      return;
+    }
+
+    await this.notificationService.sendVCStatusNotification(
+      item.counterparty_did,
+      "Credential Revoked",
+      "Your verifiable credential has been revoked because its issuer's DID was deactivated.",
+      {
+        type: "VC_REVOKED",
+        vc_id: item.vc_id,
+        request_type: RequestType.REVOKE,
+        ...(transactionHash && { transaction_hash: transactionHash }),
+      }
+    );
+  }
+
+  /**
+   * Process one item and persist its outcome (FAILED with the error on failure)
+   */
+  private async processItem(
+    did: string,
+    item: DIDDeactivationItem
+  ): Promise<DIDDeactivationItemOutcome> {
+    let update: ItemUpdate;
+    try {
+      update =
+        item.kind === DIDDeactivationItemKind.HELD
+          ? await this.processHeldItem(did, item)
+          : await this.processIssuedItem(did, item);
+    } catch (error: any) {
+      logger.error(
+        `DID deactivation ${item.deactivation_id}: ${item.kind} VC ${item.vc_id} failed: ${error.message}`
+      );
+      update = { outcome: DIDDeactivationItemOutcome.FAILED, reason: error.message };
+    }
+
+    await this.db.dIDDeactivationItem.update({
+      where: { id: item.id },
+      data: {
+        ...update,
+        attempts: { increment: 1 },
+        last_attempt_at: new Date(),
+      },
+    });
+
+    return update.outcome;
+  }
+
+  /**
+   * Final status of a deactivation from its item outcomes
+   */
+  private async settle(deactivationId: string): Promise<DIDDeactivationStatus> {
+    const [pending, retryable, exhausted] = await Promise.all([
+      this.db.dIDDeactivationItem.count({
+        where: {
+          deactivation_id: deactivationId,
+          outcome: DIDDeactivationItemOutcome.PENDING,
+        },
+      }),
+      this.db.dIDDeactivationItem.count({
+        where: {
+          deactivation_id: deactivationId,
+          outcome: DIDDeactivationItemOutcome.FAILED,
+          attempts: { lt: env.DID_DEACTIVATION_MAX_ATTEMPTS },
+        },
+      }),
+      this.db.dIDDeactivationItem.count({
+        where: {
+          deactivation_id: deactivationId,
+          outcome: DIDDeactivationItemOutcome.FAILED,
+          attempts: { gte: env.DID_DEACTIVATION_MAX_ATTEMPTS },
+        },
+      }),
+    ]);
+
+    const status =
+      pending + retryable > 0
+        ? DIDDeactivationStatus.PROCESSING
+        : exhausted > 0
+        ? DIDDeactivationStatus.INCOMPLETE
+        : DIDDeactivationStatus.COMPLETED;
+
+    await this.db.dIDDeactivation.update({
+      where: { id: deactivationId },
+      data: {
+        status,
+        completed_at: status === DIDDeactivationStatus.COMPLETED ? new Date() : null,
+      },
+    });
+
+    return status;
+  }
+
+  private summarize(items: DIDDeactivationItem[]): DIDDeactivationSummaryDTO {
+    const count = (outcome: DIDDeactivationItemOutcome) =>
+      items.filter((item) => item.outcome === outcome).length;
+
+    return {
+      total: items.length,
+      pending: count(DIDDeactivationItemOutcome.PENDING),
+      requestCreated: count(DIDDeactivationItemOutcome.REQUEST_CREATED),
+      revoked: count(DIDDeactivationItemOutcome.REVOKED),
+      skipped: count(DIDDeactivationItemOutcome.SKIPPED),
+      failed: count(DIDDeactivationItemOutcome.FAILED),
+    };
+  }
+
+  private toReport(
+    deactivation: DIDDeactivation & { items: DIDDeactivationItem[] }
+  ): DIDDeactivationReportDTO {
+    return {
+      id: deactivation.id,
+      did: deactivation.did,
+      initiated_by: deactivation.initiated_by,
+      status: deactivation.status,
+      transaction_hash: deactivation.transaction_hash,
+      block_number: deactivation.block_number,
+      error: deactivation.error,
+      deactivated_at: deactivation.deactivated_at,
+      completed_at: deactivation.completed_at,
+      createdAt: deactivation.createdAt,
+      summary: this.summarize(deactivation.items),
+      items: deactivation.items.map((item) => ({
+        kind: item.kind,
+        vc_id: item.vc_id,
+        counterparty_did: item.counterparty_did,
+        outcome: item.outcome,
+        reason: item.reason,
+        revoke_request_id: item.revoke_request_id,
+        transaction_hash: item.transaction_hash,
+        attempts: item.attempts,
+        last_attempt_at: item.last_attempt_at,
+      })),
+    };
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Create the deactivation record of a DID (with its item snapshot) or return the
+   * existing one; an INCOMPLETE deactivation gets a fresh set of retries
+   */
+  async prepare(
+    did: string,
+    initiatedBy: "holder" | "admin"
+  ): Promise<DIDDeactivation> {
+    const existing = await this.db.dIDDeactivation.findUnique({ where: { did } });
+
+    if (existing) {
+      if (existing.status !== DIDDeactivationStatus.INCOMPLETE) {
+        return existing;
+      }
+
+      await this.db.dIDDeactivationItem.updateMany({
+        where: {
+          deactivation_id: existing.id,
+          outcome: DIDDeactivationItemOutcome.FAILED,
+        },
+        data: { attempts: 0 },
+      });
+      return this.db.dIDDeactivation.update({
+        where: { id: existing.id },
+        data: { status: DIDDeactivationStatus.PROCESSING, completed_at: null },
+      });
+    }
+
+    const deactivation = await this.db.dIDDeactivation.create({
+      data: { did, initiated_by: initiatedBy },
+    });
+    const itemCount = await this.snapshotItems(deactivation.id, did);
+
+    logger.info(
+      `DID deactivation ${deactivation.id} created for ${did} (${itemCount} VCs)`
+    );
+    return deactivation;
+  }
+
+  /**
+   * The DID is deactivated on-chain (receipt is null when it already was)
+   * @param client - Transaction client of the chain outbox step that deactivated it
+   */
+  async markDeactivated(
+    deactivationId: string,
+    receipt: ChainOutboxReceipt | null,
+    client: Prisma.TransactionClient | PrismaClient = this.db
+  ): Promise<DIDDeactivation> {
+    return client.dIDDeactivation.update({
+      where: { id: deactivationId },
+      data: {
+        status: DIDDeactivationStatus.PROCESSING,
+        transaction_hash: receipt?.transaction_hash ?? null,
+        block_number: receipt?.block_number ?? null,
+        error: null,
+        deactivated_at: new Date(),
+      },
+    });
+  }
+
+  /**
+   * On-chain deactivation failed, the record stays PENDING with the error
+   */
+  async markFailed(deactivationId: string, error: string): Promise<void> {
+    await this.db.dIDDeactivation.update({
+      where: { id: deactivationId },
+      data: { error },
+    });
+  }
+
+  /**
+   * Process the PENDING and retryable FAILED items of a deactivation
+   * Items already settled are never processed again, so this can be resumed at any time
+   */
+  async process(deactivationId: string): Promise<DIDDeactivationReportDTO> {
+    if (!this.processing.has(deactivationId)) {
+      this.processing.add(deactivationId);
+      try {
+        const deactivation = await this.db.dIDDeactivation.findUnique({
+          where: { id: deactivationId },
+        });
+
+        if (deactivation?.status === DIDDeactivationStatus.PROCESSING) {
+          const items = await this.db.dIDDeactivationItem.findMany({
+            where: {
+              deactivation_id: deactivationId,
+              OR: [
+                { outcome: DIDDeactivationItemOutcome.PENDING },
+                {
+                  outcome: DIDDeactivationItemOutcome.FAILED,
+                  attempts: { lt: env.DID_DEACTIVATION_MAX_ATTEMPTS },
+                },
+              ],
+            },
+            orderBy: { createdAt: "asc" },
+          });
+
+          for (const item of items) {
+            await this.processItem(deactivation.did, item);
+          }
+
+          const status = await this.settle(deactivationId);
+          logger.info(
+            `DID deactivation ${deactivationId} (${deactivation.did}): ${items.length} items processed, ${status}`
+          );
+        }
+      } finally {
+        this.processing.delete(deactivationId);
+      }
+    }
+
+    const report = await this.db.dIDDeactivation.findUnique({
+      where: { id: deactivationId },
+      include: { items: { orderBy: { createdAt: "asc" } } },
+    });
+    if (!report) {
+      throw new NotFoundError(`DID deactivation ${deactivationId} not found`);
+    }
+    return this.toReport(report);
+  }
+
+  /**
+   * Resume every deactivation with pending or retryable items (didDeactivationScheduler)
+   */
+  async runOnce(): Promise<{ deactivations: number; completed: number }> {
+    const deactivations = await this.db.dIDDeactivation.findMany({
+      where: { status: DIDDeactivationStatus.PROCESSING },
+      select: { id: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    let completed = 0;
+    for (const { id } of deactivations) {
+      const report = await this.process(id);
+      if (report.status === DIDDeactivationStatus.COMPLETED) {
+        completed++;
+      }
+    }
+
+    return { deactivations: deactivations.length, completed };
+  }
+
+  /**
+   * Deactivation report of a DID (status, per-VC outcomes and summary)
+   */
+  async getReport(did: string): Promise<DIDDeactivationReportDTO> {
+    const deactivation = await this.db.dIDDeactivation.findUnique({
+      where: { did },
+      include: { items: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!deactivation) {
+      throw new NotFoundError(`No deactivation found for DID ${did}`);
+    }
+
+    return this.toReport(deactivation);
+  }
+}
+
+export default new DIDDeactivationService();
+export { DIDDeactivationService };
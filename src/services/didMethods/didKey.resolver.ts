@@ -0,0 +1,39 @@
+import { DIDMethodResolver } from "../../types";
+import { W3CDIDDocumentDTO } from "../../dtos/did.dto";
+import { W3C_VC_CONTEXTS } from "../../types/jsonld.types";
+import { DID_METHOD } from "../../constants/didResolution.constants";
+import { DIDDocumentHelper } from "../../utils/helpers/didDocument.helper";
+
+/**
+ * did:key Resolver
+ * The DID document is derived from the identifier itself (no lookup):
+ * did:key:<multibase Multikey> with a P-256 or Ed25519 public key
+ */
+class DIDKeyResolver implements DIDMethodResolver {
+  readonly method = DID_METHOD.KEY;
+
+  async resolve(did: string): Promise<W3CDIDDocumentDTO> {
+    const multikey = did.slice(`did:${DID_METHOD.KEY}:`.length);
+    const { keyType } = DIDDocumentHelper.multikeyToPublicKey(multikey);
+    const methodId = `${did}#${multikey}`;
+
+    return {
+      "@context": [W3C_VC_CONTEXTS.DID_V1, W3C_VC_CONTEXTS.MULTIKEY_V1],
+      id: did,
+      verificationMethod: [
+        {
+          id: methodId,
+          type: "Multikey",
+          controller: did,
+          publicKeyMultibase: multikey,
+        },
+      ],
+      authentication: [methodId],
+      assertionMethod: [methodId],
+      // Ed25519 keys cannot do ECDH directly (an X25519 key would be derived)
+      ...(keyType === "P-256" && { keyAgreement: [methodId] }),
+    };
+  }
+}
+
+export { DIDKeyResolver };
@@ -0,0 +1,136 @@
+import logger from "../../config/logger";
+import { DIDMethodResolver } from "../../types";
+import { DID_METHOD } from "../../constants/didResolution.constants";
+import { DIDDocumentHelper } from "../../utils/helpers/didDocument.helper";
+import DIDBlockchainService from "../blockchain/didBlockchain.service";
+import DIDDocumentCache from "../blockchain/didDocumentCache.service";
+import { DIDKeyResolver } from "./didKey.resolver";
+import { DIDWebResolver } from "./didWeb.resolver";
+
+/**
+ * DID Method Registry with Dependency Injection
+ * Single entry point to resolve the DID of a holder, verifier or issuer to the
+ * record returned by DIDBlockchainService.getDIDDocument
+ * ({found, id, status, role, keyId, [keyId]: publicKeyHex, details})
+ *
+ * - did:dcert keeps its on-chain resolution (DIDBlockchainService)
+ * - Other methods are resolved by a registered DIDMethodResolver (did:key and
+ *   did:web by default) and read with DIDDocumentHelper.fromW3CDocument; their
+ *   records also carry keyType, keys and didDocument
+ * - Resolved did:key / did:web records share the DID document cache (TTL)
+ */
+class DIDMethodRegistry {
+  private blockchainService: typeof DIDBlockchainService;
+  private cache: typeof DIDDocumentCache;
+  private resolvers = new Map<string, DIDMethodResolver>();
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    blockchainService?: typeof DIDBlockchainService;
+    cache?: typeof DIDDocumentCache;
+    resolvers?: DIDMethodResolver[];
+  }) {
+    this.blockchainService =
+      dependencies?.blockchainService || DIDBlockchainService;
+    this.cache = dependencies?.cache || DIDDocumentCache;
+
+    const resolvers = dependencies?.resolvers || [
+      new DIDKeyResolver(),
+      new DIDWebResolver(),
+    ];
+    resolvers.forEach((resolver) => this.register(resolver));
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  private notFound(did: string, message: string): Record<string, any> {
+    return { found: false, error: "Not Found", message, did };
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Register (or replace) the resolver of a DID method
+   */
+  register(resolver: DIDMethodResolver): void {
+    if (resolver.method === DID_METHOD.DCERT) {
+      throw new Error("did:dcert is resolved on-chain and cannot be replaced");
+    }
+    this.resolvers.set(resolver.method, resolver);
+  }
+
+  /**
+   * DID method name (e.g. "key"), null for malformed DIDs
+   */
+  getMethod(did: string): string | null {
+    const [scheme, method, ...rest] = did.split(":");
+    return scheme === "did" && method && rest.length > 0 ? method : null;
+  }
+
+  /**
+   * Whether DIDs of this method can be resolved
+   */
+  supports(did: string): boolean {
+    const method = this.getMethod(did);
+    return method === DID_METHOD.DCERT || (!!method && this.resolvers.has(method));
+  }
+
+  get methods(): string[] {
+    return [DID_METHOD.DCERT, ...this.resolvers.keys()];
+  }
+
+  /**
+   * Resolve a DID of any supported method
+   * Returns { found: false, ... } for unknown DIDs and unsupported methods;
+   * throws BlockchainError when the on-chain read fails
+   */
+  async resolve(did: string): Promise<Record<string, any>> {
+    const method = this.getMethod(did);
+
+    if (method === DID_METHOD.DCERT) {
+      return this.blockchainService.getDIDDocument(did);
+    }
+
+    const resolver = method ? this.resolvers.get(method) : undefined;
+    if (!resolver) {
+      return this.notFound(did, `DID method not supported: ${method || did}`);
+    }
+
+    const cached = this.cache.getDocument(did);
+    if (cached) {
+      return { ...cached };
+    }
+
+    let record: Record<string, any> | null = null;
+    try {
+      const document = await resolver.resolve(did);
+      if (!document) {
+        return this.notFound(did, `DID document not found for ${did}`);
+      }
+      record = DIDDocumentHelper.fromW3CDocument(document);
+    } catch (error: any) {
+      logger.warn(`Failed to resolve ${did}: ${error.message}`);
+      return this.notFound(did, `Failed to resolve ${did}: ${error.message}`);
+    }
+
+    if (!record) {
+      return this.notFound(
+        did,
+        "DID document has no P-256 or Ed25519 verification method"
+      );
+    }
+
+    this.cache.setDocument(did, record);
+    return record;
+  }
+}
+
+export default new DIDMethodRegistry();
+export { DIDMethodRegistry };
@@ -0,0 +1,179 @@
+import axios from "axios";
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import { env } from "../../config/env";
+import { DIDMethodResolver, DIDWebHttpClient } from "../../types";
+import { W3CDIDDocumentDTO } from "../../dtos/did.dto";
+import { DID_METHOD } from "../../constants/didResolution.constants";
+
+/**
+ * Addresses a did:web host may not resolve to: loopback, private (RFC 1918,
+ * unique local, CGNAT), link-local (incl. cloud metadata 169.254.169.254),
+ * unspecified, multicast and reserved ranges
+ */
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(address, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return blockedAddresses.check(mapped[1], "ipv4");
+  }
+  return blockedAddresses.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+/**
+ * dns.lookup that refuses internal addresses. Used by the agents below, so the
+ * check applies to the address actually connected to (no DNS rebinding)
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked) {
+      callback(
+        new Error(`did:web host ${hostname} resolves to a non-public address`),
+        "",
+        0
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+/**
+ * Default did:web HTTP client (axios, JSON only, no redirects, bounded size)
+ *
+ * Only public hosts are fetched, also with DID_WEB_ALLOW_HTTP: any caller can
+ * submit a did:web DID, so the server must not become a proxy into its own
+ * network.
+ */
+const axiosHttpClient: DIDWebHttpClient = {
+  async getJson(url: string) {
+    const { hostname } = new URL(url);
+    const host = hostname.replace(/^\[|\]$/g, "");
+
+    // IP literals are connected to without a lookup
+    if (net.isIP(host) && isBlockedAddress(host)) {
+      throw new Error(`did:web host ${host} is not a public address`);
+    }
+
+    const response = await axios.get(url, {
+      timeout: env.DID_WEB_TIMEOUT_MS,
+      maxRedirects: 0,
+      maxContentLength: env.DID_WEB_MAX_BYTES,
+      httpAgent,
+      httpsAgent,
+      headers: { Accept: "application/did+json, application/json" },
+      validateStatus: (status) => status < 300 || status === 404 || status === 410,
+    });
+
+    return response.status === 404 || response.status === 410
+      ? null
+      : response.data;
+  },
+};
+
+/**
+ * did:web Resolver with Dependency Injection
+ * did:web:example.com            -> https://example.com/.well-known/did.json
+ * did:web:example.com:user:alice -> https://example.com/user/alice/did.json
+ *
+ * The HTTP client is injectable so tests and local setups can serve documents
+ * without a web server; DID_WEB_ALLOW_HTTP switches to http:// (ports allowed)
+ * for test servers
+ */
+class DIDWebResolver implements DIDMethodResolver {
+  readonly method = DID_METHOD.WEB;
+  private httpClient: DIDWebHttpClient;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { httpClient?: DIDWebHttpClient }) {
+    this.httpClient = dependencies?.httpClient || axiosHttpClient;
+  }
+
+  /**
+   * URL of the DID document of a did:web DID
+   */
+  toDocumentUrl(did: string): string {
+    const [domain, ...path] = did
+      .slice(`did:${DID_METHOD.WEB}:`.length)
+      .split(":")
+      .map((segment) => decodeURIComponent(segment));
+
+    if (!domain || path.some((segment) => !segment || segment.includes("/"))) {
+      throw new Error(`Invalid did:web identifier: ${did}`);
+    }
+
+    // Plain host name only: no userinfo, and a port only for test servers
+    const hostPattern = env.DID_WEB_ALLOW_HTTP
+      ? /^[a-z0-9.-]+(?::\d{1,5})?$/i
+      : /^[a-z0-9.-]+$/i;
+    if (!hostPattern.test(domain)) {
+      throw new Error(`Invalid did:web host: ${domain}`);
+    }
+
+    const scheme = env.DID_WEB_ALLOW_HTTP ? "http" : "https";
+    return path.length > 0
+      ? `${scheme}://${domain}/${path.join("/")}/did.json`
+      : `${scheme}://${domain}/.well-known/did.json`;
+  }
+
+  async resolve(did: string): Promise<W3CDIDDocumentDTO | null> {
+    const document = (await this.httpClient.getJson(
+      this.toDocumentUrl(did)
+    )) as W3CDIDDocumentDTO | null;
+
+    if (!document) {
+      return null;
+    }
+
+    if (typeof document !== "object" || document.id !== did) {
+      throw new Error(`DID document served for ${did} has a different id`);
+    }
+
+    return document;
+  }
+}
+
+export { DIDWebResolver };
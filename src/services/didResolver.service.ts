@@ -0,0 +1,283 @@
+import { PrismaClient, DIDVersion, DIDOperation } from "@prisma/client";
+import { prisma } from "../config/database";
+import logger from "../config/logger";
+import DIDBlockchainService from "./blockchain/didBlockchain.service";
+import DIDMethodRegistry from "./didMethods/didMethodRegistry.service";
+import {
+  DIDResolutionOptionsDTO,
+  DIDResolutionResultDTO,
+  DIDDocumentMetadataDTO,
+} from "../dtos/did.dto";
+import {
+  DID_RESOLUTION,
+  DID_RESOLUTION_ERROR,
+} from "../constants/didResolution.constants";
+import { DIDDocumentHelper } from "../utils/helpers/didDocument.helper";
+
+type DIDResolutionError =
+  (typeof DID_RESOLUTION_ERROR)[keyof typeof DID_RESOLUTION_ERROR];
+
+/**
+ * DID Resolver Service with Dependency Injection
+ * Resolves DIDs following the DID Resolution / Universal Resolver driver spec
+ *
+ * - The DID document is rendered from the on-chain record (DIDBlockchainService)
+ * - created / updated / versionId come from DIDVersion (recorded by DIDService on
+ *   register, key rotation and deactivation); the blockchain does not store timestamps
+ * - Historical versions (versionId / versionTime) render the key that was active
+ *   in that version; institution details are always the current ones
+ * - did:key / did:web are resolved through DIDMethodRegistry (no version history)
+ */
+class DIDResolverService {
+  private db: PrismaClient;
+  private blockchainService: typeof DIDBlockchainService;
+  private registry: typeof DIDMethodRegistry;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    blockchainService?: typeof DIDBlockchainService;
+    registry?: typeof DIDMethodRegistry;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.blockchainService =
+      dependencies?.blockchainService || DIDBlockchainService;
+    this.registry = dependencies?.registry || DIDMethodRegistry;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Build an error resolution result
+   */
+  private errorResult(
+    error: DIDResolutionError,
+    message: string
+  ): DIDResolutionResultDTO {
+    return {
+      didDocument: null,
+      didResolutionMetadata: { error, message },
+      didDocumentMetadata: {},
+    };
+  }
+
+  /**
+   * Validate resolution options, returns an error message or null
+   */
+  private validateOptions(options: DIDResolutionOptionsDTO): string | null {
+    if (options.versionId !== undefined && options.versionTime !== undefined) {
+      return "versionId and versionTime cannot be used together";
+    }
+
+    if (options.versionId !== undefined && !/^[1-9]\d*$/.test(options.versionId)) {
+      return "versionId must be a positive integer";
+    }
+
+    if (
+      options.versionTime !== undefined &&
+      isNaN(new Date(options.versionTime).getTime())
+    ) {
+      return "versionTime must be an ISO 8601 date-time";
+    }
+
+    return null;
+  }
+
+  /**
+   * Select the requested version from the DID history
+   * Returns undefined when no version matches the options
+   */
+  private selectVersion(
+    versions: DIDVersion[],
+    options: DIDResolutionOptionsDTO
+  ): DIDVersion | undefined {
+    if (options.versionId !== undefined) {
+      const versionId = parseInt(options.versionId, 10);
+      return versions.find((v) => v.version_id === versionId);
+    }
+
+    if (options.versionTime !== undefined) {
+      const versionTime = new Date(options.versionTime).getTime();
+      return [...versions]
+        .reverse()
+        .find((v) => v.createdAt.getTime() <= versionTime);
+    }
+
+    return versions[versions.length - 1];
+  }
+
+  /**
+   * Resolve a DID of another method (did:key, did:web) through the registry
+   */
+  private async resolveExternal(
+    did: string,
+    method: string,
+    options: DIDResolutionOptionsDTO
+  ): Promise<DIDResolutionResultDTO> {
+    if (options.versionId !== undefined || options.versionTime !== undefined) {
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.INVALID_OPTIONS,
+        `versionId and versionTime are not supported for did:${method}`
+      );
+    }
+
+    const record = await this.registry.resolve(did);
+    if (!record.found) {
+      return this.errorResult(DID_RESOLUTION_ERROR.NOT_FOUND, record.message);
+    }
+
+    return {
+      didDocument: record.didDocument,
+      didResolutionMetadata: {
+        contentType: DID_RESOLUTION.DID_DOCUMENT_CONTENT_TYPE,
+        retrieved: new Date().toISOString(),
+        did: {
+          didString: did,
+          method,
+          methodSpecificId: did.slice(`did:${method}:`.length),
+        },
+      },
+      didDocumentMetadata: {},
+    };
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Resolve a DID (did:dcert on-chain, other methods through the registry)
+   * Never throws for resolution errors; they are returned in didResolutionMetadata.error
+   */
+  async resolve(
+    did: string,
+    options: DIDResolutionOptionsDTO = {}
+  ): Promise<DIDResolutionResultDTO> {
+    const [scheme, method] = did.split(":");
+    if (scheme !== "did" || !method) {
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.INVALID_DID,
+        `Invalid DID syntax: ${did}`
+      );
+    }
+
+    if (method !== DID_RESOLUTION.METHOD && this.registry.supports(did)) {
+      return this.resolveExternal(did, method, options);
+    }
+
+    if (method !== DID_RESOLUTION.METHOD) {
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.METHOD_NOT_SUPPORTED,
+        `DID method not supported: ${method}`
+      );
+    }
+
+    if (!DID_RESOLUTION.DID_REGEX.test(did)) {
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.INVALID_DID,
+        `Invalid did:dcert identifier: ${did}`
+      );
+    }
+
+    const optionsError = this.validateOptions(options);
+    if (optionsError) {
+      return this.errorResult(DID_RESOLUTION_ERROR.INVALID_OPTIONS, optionsError);
+    }
+
+    let record: Record<string, any>;
+    try {
+      record = await this.blockchainService.getDIDDocument(did);
+    } catch (error: any) {
+      logger.error(`DID resolution failed for ${did}:`, error);
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.INTERNAL_ERROR,
+        "Failed to read DID from blockchain"
+      );
+    }
+
+    if (!record.found) {
+      return this.errorResult(DID_RESOLUTION_ERROR.NOT_FOUND, record.message);
+    }
+
+    const versions = await this.db.dIDVersion.findMany({
+      where: { did },
+      orderBy: { version_id: "asc" },
+    });
+
+    const isVersionQuery =
+      options.versionId !== undefined || options.versionTime !== undefined;
+    const version = this.selectVersion(versions, options);
+
+    if (isVersionQuery && !version) {
+      return this.errorResult(
+        DID_RESOLUTION_ERROR.NOT_FOUND,
+        versions.length === 0
+          ? "Version history is not available for this DID"
+          : "No DID document version matches the requested version"
+      );
+    }
+
+    // Render the key that was active in the selected version
+    const keyId: string = version?.key_id || record.keyId;
+    if (keyId !== record.keyId) {
+      try {
+        record = {
+          ...record,
+          keyId,
+          [keyId]: await this.blockchainService.getDIDKey(did, keyId),
+        };
+      } catch (error: any) {
+        logger.error(`Failed to read key ${keyId} of ${did}:`, error);
+        return this.errorResult(
+          DID_RESOLUTION_ERROR.INTERNAL_ERROR,
+          "Failed to read historical key from blockchain"
+        );
+      }
+    }
+
+    const versionIndex = version ? versions.indexOf(version) : -1;
+    const nextVersion = version ? versions[versionIndex + 1] : undefined;
+    const isLatest = !nextVersion;
+    const deactivated = isLatest
+      ? record.status !== "Active"
+      : version!.operation === DIDOperation.DEACTIVATE;
+
+    const didDocumentMetadata: DIDDocumentMetadataDTO = {
+      ...(versions.length > 0 && {
+        created: versions[0].createdAt.toISOString(),
+      }),
+      ...(version &&
+        versionIndex > 0 && { updated: version.createdAt.toISOString() }),
+      ...(deactivated && { deactivated: true }),
+      ...(version && { versionId: String(version.version_id) }),
+      ...(nextVersion && {
+        nextUpdate: nextVersion.createdAt.toISOString(),
+        nextVersionId: String(nextVersion.version_id),
+      }),
+      role: record.role,
+    };
+
+    return {
+      didDocument: DIDDocumentHelper.toW3CDocument(record),
+      didResolutionMetadata: {
+        contentType: DID_RESOLUTION.DID_DOCUMENT_CONTENT_TYPE,
+        retrieved: new Date().toISOString(),
+        did: {
+          didString: did,
+          method: DID_RESOLUTION.METHOD,
+          methodSpecificId: did.slice(`did:${DID_RESOLUTION.METHOD}:`.length),
+        },
+        ...(deactivated && { error: DID_RESOLUTION_ERROR.DEACTIVATED }),
+      },
+      didDocumentMetadata,
+    };
+  }
+}
+
+export default new DIDResolverService();
+export { DIDResolverService };
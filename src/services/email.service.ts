@@ -106,6 +106,102 @@ export const sendMagicLinkEmail = async ({
   }
 };
 
+// Interface for credential expiry reminder parameters
+interface SendVCExpiryReminderEmailParams {
+  to: string;
+  credentialName: string;
+  issuerName: string;
+  vcId: string;
+  expiredAt: Date;
+  daysLeft: number; // 0 when the credential has already expired
+}
+
+/**
+ * Send credential expiry reminder email to a holder
+ */
+export const sendVCExpiryReminderEmail = async ({
+  to,
+  credentialName,
+  issuerName,
+  vcId,
+  expiredAt,
+  daysLeft,
+}: SendVCExpiryReminderEmailParams): Promise<void> => {
+  const expiryDate = expiredAt.toUTCString();
+  const summary =
+    daysLeft > 0
+      ? `Your ${credentialName} credential expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`
+      : `Your ${credentialName} credential has expired.`;
+
+  try {
+    const mailOptions = {
+      from: `"GaneshaDCERT" <${env.SMTP_USER}>`,
+      to,
+      subject:
+        daysLeft > 0
+          ? `Your ${credentialName} credential expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+          : `Your ${credentialName} credential has expired`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              line-height: 1.6;
+              color: #333;
+            }
+            .container {
+              max-width: 600px;
+              margin: 0 auto;
+              padding: 20px;
+              background-color: #f9f9f9;
+            }
+            .content {
+              background-color: white;
+              padding: 30px;
+              border-radius: 8px;
+              box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            }
+            .footer {
+              margin-top: 20px;
+              font-size: 12px;
+              color: #666;
+              text-align: center;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="content">
+              <h2>Credential Expiry Reminder</h2>
+              <p>${summary}</p>
+              <ul>
+                <li><strong>Credential:</strong> ${credentialName}</li>
+                <li><strong>Issuer:</strong> ${issuerName}</li>
+                <li><strong>Credential ID:</strong> ${vcId}</li>
+                <li><strong>Expiry date:</strong> ${expiryDate}</li>
+              </ul>
+              <p>Open your GaneshaDCERT wallet to request a renewal from the issuer.</p>
+            </div>
+            <div class="footer">
+              <p>This email was sent automatically. Please do not reply to this email.</p>
+              <p>&copy; 2025 GaneshaDCERT. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    await transporter.sendMail(mailOptions);
+    logger.success(`Credential expiry reminder email sent to ${to}`);
+  } catch (error) {
+    logger.error('Failed to send credential expiry reminder email', error);
+    throw new Error('Failed to send credential expiry reminder email');
+  }
+};
+
 /**
  * Verify email configuration
  */
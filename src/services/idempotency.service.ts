@@ -0,0 +1,195 @@
+import { IdempotencyKeyStatus, Prisma, PrismaClient } from "@prisma/client";
+import * as crypto from "crypto";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import { CanonicalizationHelper } from "../utils/helpers";
+import { ConflictError } from "../utils/errors/AppError";
+
+/**
+ * Request identified by an Idempotency-Key header
+ */
+export interface IdempotentRequest {
+  key: string;
+  caller: string;
+  method: string;
+  path: string;
+  body: unknown;
+  file?: Buffer; // Uploaded file (multipart routes)
+}
+
+/**
+ * Result of claiming a key: run the handler, or replay the stored response
+ */
+export type IdempotencyClaim =
+  | { replay: false; recordId: string }
+  | { replay: true; statusCode: number; body: unknown };
+
+/**
+ * Idempotency Service with Dependency Injection
+ * Persists Idempotency-Key request fingerprints and the responses sent for them
+ *
+ * - First request with a key: stored IN_PROGRESS, the handler runs and its
+ *   response (status < 500) is stored COMPLETED; 5xx responses release the key
+ * - Retry with the same key and request: the stored response is replayed
+ * - Same key with a different request, or while the first is still running: 409
+ *
+ * Keys are scoped to the caller and kept for IDEMPOTENCY_KEY_TTL_HOURS.
+ */
+class IdempotencyService {
+  private db: PrismaClient;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { db?: PrismaClient }) {
+    this.db = dependencies?.db || prisma;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * SHA-256 over the canonical form of method, path, body and file
+   */
+  private fingerprint(request: IdempotentRequest): string {
+    const canonical = CanonicalizationHelper.canonicalizeJCS({
+      method: request.method,
+      path: request.path,
+      body: request.body ?? null,
+      file: request.file
+        ? crypto.createHash("sha256").update(request.file).digest("hex")
+        : null,
+    });
+
+    return crypto.createHash("sha256").update(canonical).digest("hex");
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Claim a key for a request
+   * @throws ConflictError when the key belongs to another request or is still in use
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const fingerprint = this.fingerprint(request);
+    const where = { caller_key: { caller: request.caller, key: request.key } };
+
+    const existing = await this.db.idempotencyKey.findUnique({ where });
+
+    if (existing && existing.expires_at > now) {
+      if (existing.fingerprint !== fingerprint) {
+        throw new ConflictError(
+          "Idempotency-Key has already been used for a different request"
+        );
+      }
+
+      if (existing.status === IdempotencyKeyStatus.COMPLETED) {
+        return {
+          replay: true,
+          statusCode: existing.response_status!,
+          body: existing.response_body,
+        };
+      }
+
+      const lockAge = now.getTime() - existing.locked_at.getTime();
+      if (lockAge < env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS * 1000) {
+        throw new ConflictError(
+          "A request with this Idempotency-Key is still being processed"
+        );
+      }
+
+      // The request holding the key never finished (e.g. server restart): take it over
+      const { count } = await this.db.idempotencyKey.updateMany({
+        where: { id: existing.id, locked_at: existing.locked_at },
+        data: { locked_at: now },
+      });
+      if (count === 0) {
+        throw new ConflictError(
+          "A request with this Idempotency-Key is still being processed"
+        );
+      }
+
+      logger.warn(`Idempotency-Key ${request.key} taken over after lock timeout`);
+      return { replay: false, recordId: existing.id };
+    }
+
+    if (existing) {
+      await this.db.idempotencyKey.deleteMany({
+        where: { id: existing.id, expires_at: { lte: now } },
+      });
+    }
+
+    try {
+      const record = await this.db.idempotencyKey.create({
+        data: {
+          key: request.key,
+          caller: request.caller,
+          method: request.method,
+          path: request.path,
+          fingerprint,
+          locked_at: now,
+          expires_at: new Date(
+            now.getTime() + env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000
+          ),
+        },
+      });
+
+      return { replay: false, recordId: record.id };
+    } catch (error: any) {
+      // Claimed by a concurrent request with the same key
+      if (error.code === "P2002") {
+        throw new ConflictError(
+          "A request with this Idempotency-Key is still being processed"
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store the response sent for a claimed key
+   */
+  async complete(
+    recordId: string,
+    statusCode: number,
+    body: unknown
+  ): Promise<void> {
+    await this.db.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: IdempotencyKeyStatus.COMPLETED,
+        response_status: statusCode,
+        response_body:
+          body === undefined ? Prisma.DbNull : (body as Prisma.InputJsonValue),
+      },
+    });
+  }
+
+  /**
+   * Release a claimed key without a stored response (the request may be retried)
+   */
+  async release(recordId: string): Promise<void> {
+    await this.db.idempotencyKey.deleteMany({
+      where: { id: recordId, status: IdempotencyKeyStatus.IN_PROGRESS },
+    });
+  }
+
+  /**
+   * Delete keys past their TTL
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await this.db.idempotencyKey.deleteMany({
+      where: { expires_at: { lt: new Date() } },
+    });
+    return count;
+  }
+}
+
+export default new IdempotencyService();
+export { IdempotencyService };
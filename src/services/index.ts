@@ -7,14 +7,30 @@
 export { default as AuthService } from "./auth.service";
 export { default as AdminAuthService } from "./adminAuth.service";
 export { default as DIDService } from "./did.service";
+export { default as DIDDeactivationService } from "./didDeactivation.service";
 export { default as CredentialService } from "./credential.service";
+export { default as BulkIssuanceService } from "./bulkIssuance.service";
+export { default as VCExpiryService } from "./vcExpiry.service";
+export { default as IdempotencyService } from "./idempotency.service";
 export { default as SchemaService } from "./schema.service";
 export { default as PresentationService } from "./presentation.service";
 export { default as NotificationService } from "./notification.service";
 export { default as StorageService } from "./storage.service";
 export { default as InstitutionService } from "./institution.service";
+export { default as StatusListService } from "./statusList.service";
+export { default as OID4VCIService } from "./oid4vci.service";
+export { default as OID4VPService } from "./oid4vp.service";
+export { default as DIDResolverService } from "./didResolver.service";
+export { default as DIDMethodRegistry } from "./didMethods/didMethodRegistry.service";
 export { default as DIDBlockchainService } from "./blockchain/didBlockchain.service";
 export { default as VCBlockchainService } from "./blockchain/vcBlockchain.service";
+export { default as DIDDocumentCache } from "./blockchain/didDocumentCache.service";
+export { default as ChainIndexerService } from "./blockchain/chainIndexer.service";
+export { default as TransactionManager } from "./blockchain/transactionManager.service";
+export { default as BatchAnchorService } from "./blockchain/batchAnchor.service";
+export { default as ChainOutboxService } from "./blockchain/chainOutbox.service";
+export { default as ReconciliationService } from "./reconciliation.service";
+export { default as Ledger, createLedgerAdapter } from "./blockchain/ledger";
 export * from "./jwt.service";
 export * from "./email.service";
 
@@ -22,10 +38,29 @@ export * from "./email.service";
 export { AuthService as AuthServiceClass } from "./auth.service";
 export { AdminAuthService as AdminAuthServiceClass } from "./adminAuth.service";
 export { DIDService as DIDServiceClass } from "./did.service";
+export { DIDDeactivationService as DIDDeactivationServiceClass } from "./didDeactivation.service";
 export { CredentialService as CredentialServiceClass } from "./credential.service";
+export { BulkIssuanceService as BulkIssuanceServiceClass } from "./bulkIssuance.service";
+export { VCExpiryService as VCExpiryServiceClass } from "./vcExpiry.service";
+export { IdempotencyService as IdempotencyServiceClass } from "./idempotency.service";
 export { SchemaService as SchemaServiceClass } from "./schema.service";
 export { PresentationService as PresentationServiceClass } from "./presentation.service";
 export { NotificationService as NotificationServiceClass } from "./notification.service";
 export { InstitutionService as InstitutionServiceClass } from "./institution.service";
+export { StatusListService as StatusListServiceClass } from "./statusList.service";
+export { OID4VCIService as OID4VCIServiceClass } from "./oid4vci.service";
+export { OID4VPService as OID4VPServiceClass } from "./oid4vp.service";
+export { DIDResolverService as DIDResolverServiceClass } from "./didResolver.service";
+export { DIDMethodRegistry as DIDMethodRegistryClass } from "./didMethods/didMethodRegistry.service";
+export { DIDKeyResolver } from "./didMethods/didKey.resolver";
+export { DIDWebResolver } from "./didMethods/didWeb.resolver";
 export { DIDBlockchainService as DIDBlockchainServiceClass } from "./blockchain/didBlockchain.service";
 export { VCBlockchainService as VCBlockchainServiceClass } from "./blockchain/vcBlockchain.service";
+export { DIDDocumentCache as DIDDocumentCacheClass } from "./blockchain/didDocumentCache.service";
+export { ChainIndexerService as ChainIndexerServiceClass } from "./blockchain/chainIndexer.service";
+export { TransactionManager as TransactionManagerClass } from "./blockchain/transactionManager.service";
+export { BatchAnchorService as BatchAnchorServiceClass } from "./blockchain/batchAnchor.service";
+export { ChainOutboxService as ChainOutboxServiceClass } from "./blockchain/chainOutbox.service";
+export { ReconciliationService as ReconciliationServiceClass } from "./reconciliation.service";
+export { EvmLedgerAdapter } from "./blockchain/ledger/evmLedger.adapter";
+export { MemoryLedgerAdapter } from "./blockchain/ledger";
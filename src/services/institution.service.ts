@@ -1,4 +1,4 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import { prisma } from "../config/database";
 import { NotFoundError, BadRequestError } from "../utils/errors/AppError";
 import { GetInstitutionsQueryDTO, InstitutionListResponseDTO } from "../dtos";
@@ -21,18 +21,22 @@ class InstitutionService {
   /**
    * Create a new institution
    * This is called internally when registerDID is successful for institutional role
+   * @param client - Transaction client of the chain outbox step that registers the DID
    */
-  async createInstitution(data: {
-    did: string;
-    email: string;
-    name: string;
-    phone: string;
-    country: string;
-    website: string;
-    address: string;
-  }) {
+  async createInstitution(
+    data: {
+      did: string;
+      email: string;
+      name: string;
+      phone: string;
+      country: string;
+      website: string;
+      address: string;
+    },
+    client: Prisma.TransactionClient | PrismaClient = this.prisma
+  ) {
     // Check if institution with DID already exists
-    const existingByDID = await this.prisma.institution.findUnique({
+    const existingByDID = await client.institution.findUnique({
       where: { did: data.did },
     });
 
@@ -43,7 +47,7 @@ class InstitutionService {
     }
 
     // Check if institution with email already exists
-    const existingByEmail = await this.prisma.institution.findUnique({
+    const existingByEmail = await client.institution.findUnique({
       where: { email: data.email },
     });
 
@@ -54,7 +58,7 @@ class InstitutionService {
     }
 
     // Create new institution
-    const institution = await this.prisma.institution.create({
+    const institution = await client.institution.create({
       data: {
         did: data.did,
         email: data.email,
@@ -31,6 +31,7 @@ class NotificationService {
     holder_did: string;
     token: string;
     deviceInfo?: string;
+    email?: string; // Receives credential expiry reminders
   }): Promise<PushToken> {
     // Validate Expo push token
     if (!Expo.isExpoPushToken(data.token)) {
@@ -51,6 +52,7 @@ class NotificationService {
         data: {
           holder_did: data.holder_did,
           deviceInfo: data.deviceInfo ? (data.deviceInfo as Prisma.InputJsonValue) : Prisma.DbNull,
+          email: data.email ?? null,
           isActive: true,
           updatedAt: new Date(),
         },
@@ -66,6 +68,7 @@ class NotificationService {
         holder_did: data.holder_did,
         token: data.token,
         deviceInfo: data.deviceInfo ? (data.deviceInfo as Prisma.InputJsonValue) : Prisma.DbNull,
+        email: data.email ?? null,
         isActive: true,
       },
     });
@@ -180,13 +183,16 @@ class NotificationService {
 
   /**
    * Send VC status notification to a holder
+   * Errors are logged, not thrown
+   * @returns false when a message could not be sent (true when the holder has
+   *   no active push token, there is nothing to retry)
    */
   async sendVCStatusNotification(
     holderDid: string,
     title: string,
     body: string,
     vcData?: any
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       const pushTokens = await this.db.pushToken.findMany({
         where: {
@@ -197,7 +203,7 @@ class NotificationService {
 
       if (pushTokens.length === 0) {
         logger.warn(`No active push tokens for holder: ${holderDid}`);
-        return;
+        return true;
       }
 
       const messages: ExpoPushMessage[] = pushTokens.map((pushToken) => ({
@@ -209,18 +215,32 @@ class NotificationService {
       }));
 
       const chunks = this.expo.chunkPushNotifications(messages);
+      let delivered = true;
 
       for (const chunk of chunks) {
         try {
-          await this.expo.sendPushNotificationsAsync(chunk);
+          const tickets = await this.expo.sendPushNotificationsAsync(chunk);
+          const errors = tickets.filter((ticket) => ticket.status === "error");
+          if (errors.length > 0) {
+            logger.error(
+              `VC status notification rejected for ${errors.length} token(s) of ${holderDid}:`,
+              errors
+            );
+            delivered = false;
+          }
         } catch (error) {
           logger.error("Error sending VC status notification:", error);
+          delivered = false;
         }
       }
 
-      logger.success(`VC status notification sent to: ${holderDid}`);
+      if (delivered) {
+        logger.success(`VC status notification sent to: ${holderDid}`);
+      }
+      return delivered;
     } catch (error) {
       logger.error("Error in sendVCStatusNotification:", error);
+      return false;
     }
   }
 }
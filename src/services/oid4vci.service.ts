@@ -0,0 +1,659 @@
+import { PrismaClient, CredentialOffer, VCSchema } from "@prisma/client";
+import * as crypto from "crypto";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  GoneError,
+  OAuthError,
+} from "../utils/errors/AppError";
+import {
+  CreateCredentialOfferDTO,
+  CreateCredentialOfferResponseDTO,
+  CredentialOfferObjectDTO,
+  CredentialIssuerMetadataDTO,
+  CredentialConfigurationDTO,
+  AuthorizationServerMetadataDTO,
+  TokenRequestDTO,
+  TokenResponseDTO,
+  OID4VCICredentialRequestDTO,
+  OID4VCICredentialResponseDTO,
+  OID4VCIFormat,
+} from "../dtos/oid4vci.dto";
+import {
+  OID4VCI_GRANT_TYPE,
+  OID4VCI_FORMAT,
+  OID4VCI_PROOF_TYPE,
+  OID4VCI_EXPIRY,
+  OID4VCI_TX_CODE_LENGTH,
+  OID4VCI_TX_CODE_MAX_ATTEMPTS,
+} from "../constants/oid4vci.constants";
+import { W3C_VC_CONTEXTS } from "../types/jsonld.types";
+import CredentialService from "./credential.service";
+import SchemaService from "./schema.service";
+import DIDService from "./did.service";
+import { SdJwtHelper } from "../utils/helpers/sdJwt.helper";
+
+/**
+ * OID4VCI Service with Dependency Injection
+ * OpenID for Verifiable Credential Issuance - pre-authorized code flow
+ *
+ * Flow:
+ * 1. Issuer signs the VC (JSON-LD or SD-JWT) and creates a credential offer
+ * 2. Wallet exchanges the pre-authorized code (+ optional tx_code) for an access token
+ * 3. Wallet requests the credential with a proof JWT signed by the holder DID key;
+ *    the VC is anchored on blockchain and returned to the wallet
+ *
+ * The server never holds issuer keys - credentials are signed by the issuer
+ * before the offer is created.
+ */
+class OID4VCIService {
+  private db: PrismaClient;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { db?: PrismaClient }) {
+    this.db = dependencies?.db || prisma;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Credential issuer identifier (also the base URL of the OID4VCI endpoints)
+   */
+  getCredentialIssuerUrl(): string {
+    const baseUrl = (env.API_PUBLIC_URL || `http://localhost:${env.PORT}`)
+      .replace(/\/$/, "");
+    return `${baseUrl}/api/v1/oid4vci`;
+  }
+
+  /**
+   * Secrets (tx_code, access token) are only stored hashed
+   */
+  private hashSecret(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex");
+  }
+
+  private secretsEqual(value: string, hash: string): boolean {
+    return crypto.timingSafeEqual(
+      Buffer.from(this.hashSecret(value), "hex"),
+      Buffer.from(hash, "hex")
+    );
+  }
+
+  /**
+   * Count a wrong tx_code; the offer expires once OID4VCI_TX_CODE_MAX_ATTEMPTS is reached
+   * so the short PIN cannot be brute-forced with a leaked pre-authorized code
+   */
+  private async recordFailedTxCode(offerId: string): Promise<void> {
+    const offer = await this.db.credentialOffer.update({
+      where: { id: offerId },
+      data: { tx_code_attempts: { increment: 1 } },
+    });
+
+    if (offer.tx_code_attempts >= OID4VCI_TX_CODE_MAX_ATTEMPTS) {
+      await this.db.credentialOffer.updateMany({
+        where: { id: offerId, status: "OFFERED" },
+        data: { status: "EXPIRED" },
+      });
+      logger.warn(
+        `[OID4VCI] Credential offer ${offerId} invalidated after ${offer.tx_code_attempts} wrong tx_code attempts`
+      );
+    }
+  }
+
+  /**
+   * Credential configuration ID advertised in the issuer metadata
+   */
+  private credentialConfigurationId(
+    schemaId: string,
+    schemaVersion: number,
+    format: OID4VCIFormat
+  ): string {
+    const suffix = format === OID4VCI_FORMAT.SD_JWT_VC ? "sd_jwt" : "ldp_vc";
+    return `${schemaId}_v${schemaVersion}_${suffix}`;
+  }
+
+  /**
+   * Build the credential configurations (one per format) for a schema
+   */
+  private toCredentialConfigurations(
+    schema: VCSchema
+  ): Record<string, CredentialConfigurationDTO> {
+    const properties = Object.keys(
+      (schema.schema as Record<string, any>)?.properties ?? {}
+    );
+    const claims = Object.fromEntries(
+      properties.map((name) => [name, { display: [{ name }] }])
+    );
+    const display = [
+      {
+        name: schema.name,
+        ...(schema.image_link && { logo: { uri: schema.image_link } }),
+      },
+    ];
+    const common = {
+      // Proof JWTs are ES256, so did:key / did:web holders need a P-256 key
+      cryptographic_binding_methods_supported: ["did:dcert", "did:key", "did:web"],
+      credential_signing_alg_values_supported: ["ES256"],
+      proof_types_supported: {
+        jwt: { proof_signing_alg_values_supported: ["ES256"] },
+      },
+      display,
+    };
+
+    return {
+      [this.credentialConfigurationId(
+        schema.id,
+        schema.version,
+        OID4VCI_FORMAT.LDP_VC
+      )]: {
+        format: OID4VCI_FORMAT.LDP_VC,
+        ...common,
+        credential_definition: {
+          "@context": [W3C_VC_CONTEXTS.CREDENTIALS_V2],
+          type: ["VerifiableCredential", schema.name],
+        },
+        claims: { credentialSubject: claims },
+      },
+      [this.credentialConfigurationId(
+        schema.id,
+        schema.version,
+        OID4VCI_FORMAT.SD_JWT_VC
+      )]: {
+        format: OID4VCI_FORMAT.SD_JWT_VC,
+        ...common,
+        vct: schema.name,
+        claims,
+      },
+    };
+  }
+
+  /**
+   * Credential offer object sent to the wallet
+   */
+  private buildCredentialOffer(
+    offer: CredentialOffer
+  ): CredentialOfferObjectDTO {
+    return {
+      credential_issuer: this.getCredentialIssuerUrl(),
+      credential_configuration_ids: [offer.credential_configuration_id],
+      grants: {
+        [OID4VCI_GRANT_TYPE.PRE_AUTHORIZED_CODE]: {
+          "pre-authorized_code": offer.pre_authorized_code,
+          ...(offer.tx_code_hash && {
+            tx_code: {
+              input_mode: "numeric" as const,
+              length: OID4VCI_TX_CODE_LENGTH,
+              description: "PIN provided by the issuer",
+            },
+          }),
+        },
+      },
+    };
+  }
+
+  /**
+   * Issue a fresh c_nonce for the next proof
+   */
+  private async rotateCNonce(offerId: string): Promise<string> {
+    const c_nonce = crypto.randomBytes(16).toString("base64url");
+    await this.db.credentialOffer.update({
+      where: { id: offerId },
+      data: {
+        c_nonce,
+        c_nonce_expires_at: new Date(
+          Date.now() + OID4VCI_EXPIRY.C_NONCE_SECONDS * 1000
+        ),
+      },
+    });
+    return c_nonce;
+  }
+
+  /**
+   * Verify the wallet's proof of possession of the holder DID key
+   * @returns Error message, or null if the proof is valid
+   */
+  private async verifyProofJWT(
+    offer: CredentialOffer,
+    jwt: string
+  ): Promise<string | null> {
+    const [encodedHeader, encodedPayload] = jwt.split(".");
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      header = SdJwtHelper.decodeJSON(encodedHeader);
+      payload = SdJwtHelper.decodeJSON(encodedPayload);
+    } catch {
+      return "Proof JWT is malformed";
+    }
+
+    if (header.typ !== OID4VCI_PROOF_TYPE.JWT_TYP) {
+      return `Proof JWT must have typ ${OID4VCI_PROOF_TYPE.JWT_TYP}`;
+    }
+    if (typeof header.kid !== "string" || header.kid.split("#")[0] !== offer.holder_did) {
+      return "Proof JWT kid must reference the holder DID of the offer";
+    }
+    if (payload.aud !== this.getCredentialIssuerUrl()) {
+      return "Proof JWT aud does not match the credential issuer";
+    }
+    if (
+      !offer.c_nonce ||
+      payload.nonce !== offer.c_nonce ||
+      !offer.c_nonce_expires_at ||
+      offer.c_nonce_expires_at.getTime() < Date.now()
+    ) {
+      return "Proof JWT nonce is missing, invalid or expired";
+    }
+    if (
+      typeof payload.iat !== "number" ||
+      Math.abs(Date.now() / 1000 - payload.iat) >
+        OID4VCI_EXPIRY.PROOF_MAX_AGE_SECONDS
+    ) {
+      return "Proof JWT iat is missing or outside the accepted window";
+    }
+
+    const didDocument = await DIDService.getDIDDocument(offer.holder_did);
+    if (!didDocument.found || didDocument.status !== "Active") {
+      return "Holder DID not found or not active";
+    }
+
+    if (didDocument.keyType && didDocument.keyType !== "P-256") {
+      return "Proof JWT must be ES256 (holder DID key must be P-256)";
+    }
+
+    const publicKeyHex = didDocument[didDocument.keyId];
+    try {
+      if (!publicKeyHex || !SdJwtHelper.verifyES256JWT(jwt, publicKeyHex)) {
+        return "Proof JWT signature verification failed";
+      }
+    } catch (error) {
+      logger.error(`Proof JWT verification error for offer ${offer.id}:`, error);
+      return "Proof JWT signature verification failed";
+    }
+
+    return null;
+  }
+
+  // ============================================
+  // 🔹 METADATA
+  // ============================================
+
+  /**
+   * Credential issuer metadata (/.well-known/openid-credential-issuer)
+   * One ldp_vc and one vc+sd-jwt configuration per active VC schema
+   */
+  async getCredentialIssuerMetadata(): Promise<CredentialIssuerMetadataDTO> {
+    const credentialIssuer = this.getCredentialIssuerUrl();
+
+    const schemas = await this.db.vCSchema.findMany({
+      where: { isActive: true },
+      orderBy: [{ name: "asc" }, { version: "desc" }],
+    });
+
+    return {
+      credential_issuer: credentialIssuer,
+      authorization_servers: [credentialIssuer],
+      credential_endpoint: `${credentialIssuer}/credential`,
+      display: [{ name: "GaneshaDCERT" }],
+      credential_configurations_supported: Object.assign(
+        {},
+        ...schemas.map((schema) => this.toCredentialConfigurations(schema))
+      ),
+    };
+  }
+
+  /**
+   * OAuth authorization server metadata (/.well-known/oauth-authorization-server)
+   */
+  getAuthorizationServerMetadata(): AuthorizationServerMetadataDTO {
+    const credentialIssuer = this.getCredentialIssuerUrl();
+    return {
+      issuer: credentialIssuer,
+      token_endpoint: `${credentialIssuer}/token`,
+      grant_types_supported: [OID4VCI_GRANT_TYPE.PRE_AUTHORIZED_CODE],
+      "pre-authorized_grant_anonymous_access_supported": true,
+    };
+  }
+
+  // ============================================
+  // 🔹 CREDENTIAL OFFERS (Issuer)
+  // ============================================
+
+  /**
+   * Create a credential offer for an issuer-signed VC
+   * The VC is validated now and anchored on blockchain when the wallet redeems it
+   */
+  async createCredentialOffer(
+    data: CreateCredentialOfferDTO,
+    authenticatedDid: string
+  ): Promise<CreateCredentialOfferResponseDTO> {
+    if (data.issuer_did !== authenticatedDid) {
+      logger.warn(
+        `Auth mismatch: Token DID (${authenticatedDid}) != Issuer DID (${data.issuer_did})`
+      );
+      throw new ForbiddenError(
+        "Authenticated DID does not match the issuer_did in the request body."
+      );
+    }
+
+    const schema = await SchemaService.getSchemaByIdAndVersion(
+      data.schema_id,
+      data.schema_version
+    );
+    if (!schema.isActive) {
+      throw new BadRequestError(
+        `Schema ${data.schema_id} v${data.schema_version} is not active.`
+      );
+    }
+
+    const existing = await this.db.credentialOffer.findUnique({
+      where: { vc_id: data.vc_id },
+    });
+    if (existing) {
+      throw new ConflictError(`A credential offer for VC ${data.vc_id} already exists.`);
+    }
+
+    const vc_hash = await CredentialService.resolveIssuedVCHash({
+      issuer_did: data.issuer_did,
+      holder_did: data.holder_did,
+      vc_id: data.vc_id,
+      vc_json: data.vc_json,
+      sd_jwt: data.sd_jwt,
+    });
+
+    const format: OID4VCIFormat = data.sd_jwt
+      ? OID4VCI_FORMAT.SD_JWT_VC
+      : OID4VCI_FORMAT.LDP_VC;
+    const txCode = data.tx_code
+      ? crypto
+          .randomInt(0, 10 ** OID4VCI_TX_CODE_LENGTH)
+          .toString()
+          .padStart(OID4VCI_TX_CODE_LENGTH, "0")
+      : undefined;
+    const expiresAt = new Date(
+      Date.now() + env.OID4VCI_OFFER_TTL_MINUTES * 60 * 1000
+    );
+
+    const offer = await this.db.credentialOffer.create({
+      data: {
+        issuer_did: data.issuer_did,
+        holder_did: data.holder_did,
+        vc_id: data.vc_id,
+        vc_type: data.vc_type,
+        schema_id: data.schema_id,
+        schema_version: data.schema_version,
+        credential_configuration_id: this.credentialConfigurationId(
+          data.schema_id,
+          data.schema_version,
+          format
+        ),
+        format,
+        credential: data.sd_jwt ?? JSON.stringify(data.vc_json),
+        vc_hash,
+        vc_expired_at: data.expiredAt,
+        pre_authorized_code: crypto.randomBytes(32).toString("base64url"),
+        tx_code_hash: txCode ? this.hashSecret(txCode) : null,
+        expires_at: expiresAt,
+      },
+    });
+
+    const credentialOfferUri = `${this.getCredentialIssuerUrl()}/offers/${offer.id}`;
+
+    logger.success(`Credential offer created: ${offer.id}`);
+    logger.info(`Issuer: ${offer.issuer_did} -> Holder: ${offer.holder_did}`);
+    logger.info(`VC: ${offer.vc_id} (${offer.format})`);
+
+    return {
+      offer_id: offer.id,
+      credential_offer: this.buildCredentialOffer(offer),
+      credential_offer_uri: credentialOfferUri,
+      credential_offer_link: `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(
+        credentialOfferUri
+      )}`,
+      tx_code: txCode,
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Get a credential offer by reference (credential_offer_uri)
+   */
+  async getCredentialOffer(offerId: string): Promise<CredentialOfferObjectDTO> {
+    const offer = await this.db.credentialOffer.findUnique({
+      where: { id: offerId },
+    });
+
+    if (!offer) {
+      throw new NotFoundError("Credential offer not found");
+    }
+    if (offer.status !== "OFFERED") {
+      throw new GoneError("Credential offer has already been redeemed");
+    }
+    if (offer.expires_at.getTime() < Date.now()) {
+      await this.db.credentialOffer.update({
+        where: { id: offer.id },
+        data: { status: "EXPIRED" },
+      });
+      throw new GoneError("Credential offer has expired");
+    }
+
+    return this.buildCredentialOffer(offer);
+  }
+
+  // ============================================
+  // 🔹 TOKEN & CREDENTIAL ENDPOINTS (Wallet)
+  // ============================================
+
+  /**
+   * Token endpoint: exchange the pre-authorized code for an access token
+   */
+  async exchangeToken(data: TokenRequestDTO): Promise<TokenResponseDTO> {
+    if (data.grant_type !== OID4VCI_GRANT_TYPE.PRE_AUTHORIZED_CODE) {
+      throw new OAuthError(
+        "unsupported_grant_type",
+        `grant_type must be ${OID4VCI_GRANT_TYPE.PRE_AUTHORIZED_CODE}`
+      );
+    }
+
+    const code = data["pre-authorized_code"];
+    if (!code) {
+      throw new OAuthError("invalid_request", "pre-authorized_code is required");
+    }
+
+    const offer = await this.db.credentialOffer.findUnique({
+      where: { pre_authorized_code: code },
+    });
+
+    if (!offer || offer.status !== "OFFERED") {
+      throw new OAuthError(
+        "invalid_grant",
+        "pre-authorized_code is invalid or has already been used"
+      );
+    }
+
+    if (offer.expires_at.getTime() < Date.now()) {
+      await this.db.credentialOffer.update({
+        where: { id: offer.id },
+        data: { status: "EXPIRED" },
+      });
+      throw new OAuthError("invalid_grant", "pre-authorized_code has expired");
+    }
+
+    if (
+      offer.tx_code_hash &&
+      (!data.tx_code || !this.secretsEqual(data.tx_code, offer.tx_code_hash))
+    ) {
+      await this.recordFailedTxCode(offer.id);
+      throw new OAuthError("invalid_grant", "tx_code is missing or invalid");
+    }
+
+    const accessToken = crypto.randomBytes(32).toString("base64url");
+    const c_nonce = crypto.randomBytes(16).toString("base64url");
+
+    // Redeem atomically so the code can only be exchanged once
+    const redeemed = await this.db.credentialOffer.updateMany({
+      where: { id: offer.id, status: "OFFERED" },
+      data: {
+        status: "TOKEN_ISSUED",
+        access_token_hash: this.hashSecret(accessToken),
+        access_token_expires_at: new Date(
+          Date.now() + OID4VCI_EXPIRY.ACCESS_TOKEN_SECONDS * 1000
+        ),
+        c_nonce,
+        c_nonce_expires_at: new Date(
+          Date.now() + OID4VCI_EXPIRY.C_NONCE_SECONDS * 1000
+        ),
+      },
+    });
+
+    if (redeemed.count === 0) {
+      throw new OAuthError(
+        "invalid_grant",
+        "pre-authorized_code is invalid or has already been used"
+      );
+    }
+
+    logger.success(`Access token issued for credential offer ${offer.id}`);
+
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: OID4VCI_EXPIRY.ACCESS_TOKEN_SECONDS,
+      c_nonce,
+      c_nonce_expires_in: OID4VCI_EXPIRY.C_NONCE_SECONDS,
+    };
+  }
+
+  /**
+   * Credential endpoint: verify the holder proof, anchor the VC on
+   * blockchain and deliver it to the wallet
+   */
+  async issueCredential(
+    accessToken: string | undefined,
+    data: OID4VCICredentialRequestDTO
+  ): Promise<OID4VCICredentialResponseDTO> {
+    if (!accessToken) {
+      throw new OAuthError("invalid_token", "Bearer access token is required", 401);
+    }
+
+    const offer = await this.db.credentialOffer.findUnique({
+      where: { access_token_hash: this.hashSecret(accessToken) },
+    });
+
+    if (
+      !offer ||
+      offer.status !== "TOKEN_ISSUED" ||
+      !offer.access_token_expires_at ||
+      offer.access_token_expires_at.getTime() < Date.now()
+    ) {
+      throw new OAuthError(
+        "invalid_token",
+        "Access token is invalid, expired or has already been used",
+        401
+      );
+    }
+
+    if (
+      data.credential_configuration_id &&
+      data.credential_configuration_id !== offer.credential_configuration_id
+    ) {
+      throw new OAuthError(
+        "unsupported_credential_type",
+        `Access token is only valid for ${offer.credential_configuration_id}`
+      );
+    }
+    if (data.format && data.format !== offer.format) {
+      throw new OAuthError(
+        "unsupported_credential_format",
+        `Credential is only available as ${offer.format}`
+      );
+    }
+
+    if (data.proof?.proof_type !== OID4VCI_PROOF_TYPE.JWT || !data.proof.jwt) {
+      throw new OAuthError("invalid_proof", "A jwt proof is required", 400, {
+        c_nonce: await this.rotateCNonce(offer.id),
+        c_nonce_expires_in: OID4VCI_EXPIRY.C_NONCE_SECONDS,
+      });
+    }
+
+    const proofError = await this.verifyProofJWT(offer, data.proof.jwt);
+    if (proofError) {
+      logger.warn(`Credential offer ${offer.id}: ${proofError}`);
+      throw new OAuthError("invalid_proof", proofError, 400, {
+        c_nonce: await this.rotateCNonce(offer.id),
+        c_nonce_expires_in: OID4VCI_EXPIRY.C_NONCE_SECONDS,
+      });
+    }
+
+    // Claim the offer atomically so concurrent requests cannot anchor twice
+    const claimed = await this.db.credentialOffer.updateMany({
+      where: { id: offer.id, status: "TOKEN_ISSUED" },
+      data: { status: "ISSUED" },
+    });
+    if (claimed.count === 0) {
+      throw new OAuthError(
+        "invalid_token",
+        "Access token has already been used",
+        401
+      );
+    }
+
+    let anchored;
+    try {
+      anchored = await CredentialService.anchorIssuedVC({
+        issuer_did: offer.issuer_did,
+        holder_did: offer.holder_did,
+        vc_id: offer.vc_id,
+        vc_type: offer.vc_type,
+        schema_id: offer.schema_id,
+        schema_version: offer.schema_version,
+        expiredAt: offer.vc_expired_at ?? undefined,
+        vc_hash: offer.vc_hash,
+      });
+    } catch (error) {
+      // Let the wallet retry with the same access token
+      await this.db.credentialOffer.update({
+        where: { id: offer.id },
+        data: { status: "TOKEN_ISSUED" },
+      });
+      throw error;
+    }
+
+    const c_nonce = crypto.randomBytes(16).toString("base64url");
+    await this.db.credentialOffer.update({
+      where: { id: offer.id },
+      data: {
+        transaction_hash: anchored.transaction_hash,
+        c_nonce,
+        c_nonce_expires_at: new Date(
+          Date.now() + OID4VCI_EXPIRY.C_NONCE_SECONDS * 1000
+        ),
+      },
+    });
+
+    logger.success(
+      `OID4VCI credential ${offer.vc_id} issued to ${offer.holder_did} (TX: ${anchored.transaction_hash})`
+    );
+
+    return {
+      credential:
+        offer.format === OID4VCI_FORMAT.SD_JWT_VC
+          ? offer.credential
+          : JSON.parse(offer.credential),
+      c_nonce,
+      c_nonce_expires_in: OID4VCI_EXPIRY.C_NONCE_SECONDS,
+    };
+  }
+}
+
+export default new OID4VCIService();
+export { OID4VCIService };
@@ -0,0 +1,492 @@
+import {
+  Prisma,
+  PrismaClient,
+  AuthorizationRequest,
+  VPFormat,
+} from "@prisma/client";
+import * as crypto from "crypto";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  GoneError,
+  OAuthError,
+} from "../utils/errors/AppError";
+import {
+  CreateAuthorizationRequestDTO,
+  CreateAuthorizationRequestResponseDTO,
+  SignAuthorizationRequestDTO,
+  SignAuthorizationRequestResponseDTO,
+  AuthorizationResponseDTO,
+  AuthorizationRequestStatusDTO,
+} from "../dtos/oid4vp.dto";
+import {
+  PresentationDefinitionDTO,
+  PresentationSubmissionDTO,
+} from "../dtos/presentation.dto";
+import { OID4VP_REQUEST, OID4VP_VP_FORMATS } from "../constants/oid4vp.constants";
+import PresentationService from "./presentation.service";
+import DIDService from "./did.service";
+import { SdJwtHelper } from "../utils/helpers/sdJwt.helper";
+
+/**
+ * OID4VP Service with Dependency Injection
+ * OpenID for Verifiable Presentations - verifier flow on top of PresentationService
+ *
+ * Flow:
+ * 1. Verifier creates an authorization request (presentation definition);
+ *    the server prepares the request object and the verifier signs it with its DID key
+ * 2. Wallet scans openid4vp://?client_id=...&request_uri=... and fetches the signed request object
+ * 3. Wallet posts vp_token + presentation_submission to the direct_post response endpoint;
+ *    the VP is stored in VPSharing, linked to a VPRequest and verified with verifyVP
+ * 4. Verifier polls the authorization request for the verification result
+ */
+class OID4VPService {
+  private db: PrismaClient;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { db?: PrismaClient }) {
+    this.db = dependencies?.db || prisma;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Base URL of the OID4VP endpoints
+   */
+  private getBaseUrl(): string {
+    const baseUrl = (env.API_PUBLIC_URL || `http://localhost:${env.PORT}`)
+      .replace(/\/$/, "");
+    return `${baseUrl}/api/v1/oid4vp`;
+  }
+
+  private getRequestUri(requestId: string): string {
+    return `${this.getBaseUrl()}/requests/${requestId}/request-object`;
+  }
+
+  private isExpired(request: AuthorizationRequest): boolean {
+    return request.expires_at.getTime() < Date.now();
+  }
+
+  /**
+   * Mark an expired request as EXPIRED
+   */
+  private async expire(request: AuthorizationRequest): Promise<void> {
+    await this.db.authorizationRequest.updateMany({
+      where: { id: request.id, status: { in: ["CREATED", "PENDING"] } },
+      data: { status: "EXPIRED" },
+    });
+  }
+
+  /**
+   * Verifier's active public key from its DID document
+   */
+  private async getVerifierKey(
+    verifierDid: string
+  ): Promise<{ kid: string; publicKeyHex: string }> {
+    const didDocument = await DIDService.getDIDDocument(verifierDid);
+
+    if (!didDocument.found || didDocument.status !== "Active") {
+      throw new BadRequestError(
+        `Verifier DID ${verifierDid} not found or not active on blockchain.`
+      );
+    }
+
+    const keyId: string = didDocument.keyId;
+    const publicKeyHex = didDocument[keyId];
+    if (!publicKeyHex) {
+      throw new BadRequestError("Public key not found in verifier DID document.");
+    }
+
+    return {
+      kid: keyId.startsWith("#") ? `${verifierDid}${keyId}` : `${verifierDid}#${keyId}`,
+      publicKeyHex,
+    };
+  }
+
+  /**
+   * Split a vp_token into the stored VP, its format and the holder DID
+   * Only a single presentation per response is supported
+   */
+  private parseVPToken(vpToken: string): {
+    vp: string;
+    format: VPFormat;
+    holder_did: string;
+  } {
+    const trimmed = vpToken.trim();
+
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      let presentation = JSON.parse(trimmed);
+      if (Array.isArray(presentation)) {
+        if (presentation.length !== 1) {
+          throw new Error("Only a single presentation per vp_token is supported");
+        }
+        presentation = presentation[0];
+      }
+      if (typeof presentation === "string") {
+        return this.parseVPToken(presentation);
+      }
+
+      const holder =
+        typeof presentation.holder === "string"
+          ? presentation.holder
+          : presentation.holder?.id;
+      if (!holder) {
+        throw new Error("Verifiable Presentation has no holder");
+      }
+      return { vp: JSON.stringify(presentation), format: "LDP_VP", holder_did: holder };
+    }
+
+    const parsed = SdJwtHelper.parse(trimmed);
+    if (!parsed.payload.sub) {
+      throw new Error("SD-JWT presentation has no sub claim");
+    }
+    return { vp: trimmed, format: "SD_JWT", holder_did: parsed.payload.sub };
+  }
+
+  // ============================================
+  // 🔹 VERIFIER ENDPOINTS
+  // ============================================
+
+  /**
+   * Create an authorization request and prepare its request object for signing
+   */
+  async createAuthorizationRequest(
+    data: CreateAuthorizationRequestDTO,
+    authenticatedDid: string
+  ): Promise<CreateAuthorizationRequestResponseDTO> {
+    if (data.verifier_did !== authenticatedDid) {
+      logger.warn(
+        `Auth mismatch: Token DID (${authenticatedDid}) != Verifier DID (${data.verifier_did})`
+      );
+      throw new ForbiddenError(
+        "Authenticated DID does not match the verifier_did in the request body."
+      );
+    }
+
+    const { kid } = await this.getVerifierKey(data.verifier_did);
+
+    const nonce = crypto.randomBytes(32).toString("base64url");
+    const state = crypto.randomBytes(16).toString("base64url");
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = new Date(
+      Date.now() + env.OID4VP_REQUEST_TTL_MINUTES * 60 * 1000
+    );
+
+    const header = { alg: "ES256", typ: OID4VP_REQUEST.TYP, kid };
+    const payload = {
+      iss: data.verifier_did,
+      aud: OID4VP_REQUEST.AUD,
+      client_id: data.verifier_did,
+      client_id_scheme: OID4VP_REQUEST.CLIENT_ID_SCHEME,
+      response_type: OID4VP_REQUEST.RESPONSE_TYPE,
+      response_mode: OID4VP_REQUEST.RESPONSE_MODE,
+      response_uri: `${this.getBaseUrl()}/response`,
+      nonce,
+      state,
+      presentation_definition: data.presentation_definition,
+      client_metadata: {
+        client_name: data.verifier_name,
+        vp_formats: OID4VP_VP_FORMATS,
+      },
+      iat: issuedAt,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+    const signingInput = `${SdJwtHelper.encodeJSON(header)}.${SdJwtHelper.encodeJSON(payload)}`;
+
+    const request = await this.db.authorizationRequest.create({
+      data: {
+        verifier_did: data.verifier_did,
+        verifier_name: data.verifier_name,
+        purpose: data.purpose,
+        presentation_definition: data.presentation_definition as unknown as Prisma.InputJsonValue,
+        nonce,
+        state,
+        signing_input: signingInput,
+        expires_at: expiresAt,
+      },
+    });
+
+    logger.success(`OID4VP authorization request created: ${request.id}`);
+    logger.info(`Verifier: ${data.verifier_did} (${data.verifier_name})`);
+
+    return {
+      authorization_request_id: request.id,
+      header,
+      payload,
+      signing_input: signingInput,
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Attach the verifier's signature to the request object
+   * @returns request_uri and the openid4vp:// link to render as a QR code
+   */
+  async signAuthorizationRequest(
+    requestId: string,
+    data: SignAuthorizationRequestDTO,
+    authenticatedDid: string
+  ): Promise<SignAuthorizationRequestResponseDTO> {
+    if (data.verifier_did !== authenticatedDid) {
+      throw new ForbiddenError(
+        "Authenticated DID does not match the verifier_did in the request body."
+      );
+    }
+
+    const request = await this.db.authorizationRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      throw new NotFoundError("Authorization request not found");
+    }
+    if (request.verifier_did !== data.verifier_did) {
+      throw new ForbiddenError("Authorization request belongs to another verifier.");
+    }
+    if (this.isExpired(request)) {
+      await this.expire(request);
+      throw new GoneError("Authorization request has expired");
+    }
+    if (request.status !== "CREATED") {
+      throw new BadRequestError(
+        `Cannot sign authorization request with status: ${request.status}`
+      );
+    }
+
+    const { publicKeyHex } = await this.getVerifierKey(request.verifier_did);
+    const requestJwt = `${request.signing_input}.${data.signature}`;
+
+    let signatureValid = false;
+    try {
+      signatureValid = SdJwtHelper.verifyES256JWT(requestJwt, publicKeyHex);
+    } catch (error) {
+      logger.error(`Request object verification error for ${requestId}:`, error);
+    }
+    if (!signatureValid) {
+      throw new BadRequestError(
+        "Request object signature verification failed (must be ES256 by the verifier)."
+      );
+    }
+
+    await this.db.authorizationRequest.update({
+      where: { id: request.id },
+      data: { request_jwt: requestJwt, status: "PENDING" },
+    });
+
+    const requestUri = this.getRequestUri(request.id);
+
+    logger.success(`OID4VP authorization request signed: ${request.id}`);
+
+    return {
+      authorization_request_id: request.id,
+      request_uri: requestUri,
+      authorization_request_uri: `${OID4VP_REQUEST.URI_SCHEME}?client_id=${encodeURIComponent(
+        request.verifier_did
+      )}&request_uri=${encodeURIComponent(requestUri)}`,
+      expires_at: request.expires_at.toISOString(),
+    };
+  }
+
+  /**
+   * Authorization request status and verification result (verifier polling)
+   */
+  async getAuthorizationRequest(
+    requestId: string,
+    authenticatedDid: string
+  ): Promise<AuthorizationRequestStatusDTO> {
+    const request = await this.db.authorizationRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      throw new NotFoundError("Authorization request not found");
+    }
+    if (request.verifier_did !== authenticatedDid) {
+      throw new ForbiddenError("Authorization request belongs to another verifier.");
+    }
+
+    let status = request.status;
+    if (
+      (status === "CREATED" || status === "PENDING") &&
+      this.isExpired(request)
+    ) {
+      await this.expire(request);
+      status = "EXPIRED";
+    }
+
+    return {
+      authorization_request_id: request.id,
+      status,
+      vp_request_id: request.vp_request_id,
+      vp_id: request.vp_id,
+      verification_result: request.verification_result,
+      error: request.error,
+      expires_at: request.expires_at.toISOString(),
+    };
+  }
+
+  // ============================================
+  // 🔹 WALLET ENDPOINTS
+  // ============================================
+
+  /**
+   * Signed request object served at request_uri
+   */
+  async getRequestObject(requestId: string): Promise<string> {
+    const request = await this.db.authorizationRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request || !request.request_jwt) {
+      throw new NotFoundError("Authorization request not found");
+    }
+    if (request.status !== "PENDING") {
+      throw new GoneError("Authorization request has already been answered");
+    }
+    if (this.isExpired(request)) {
+      await this.expire(request);
+      throw new GoneError("Authorization request has expired");
+    }
+
+    return request.request_jwt;
+  }
+
+  /**
+   * direct_post response endpoint
+   * Stores the vp_token in VPSharing, links it to a VPRequest carrying the
+   * nonce/client_id as challenge/domain and verifies it with verifyVP
+   */
+  async handleAuthorizationResponse(
+    data: AuthorizationResponseDTO
+  ): Promise<Record<string, never>> {
+    if (!data.state) {
+      throw new OAuthError("invalid_request", "state is required");
+    }
+
+    const request = await this.db.authorizationRequest.findUnique({
+      where: { state: data.state },
+    });
+
+    if (!request || request.status !== "PENDING") {
+      throw new OAuthError(
+        "invalid_request",
+        "Unknown or already answered authorization request"
+      );
+    }
+    if (this.isExpired(request)) {
+      await this.expire(request);
+      throw new OAuthError("invalid_request", "Authorization request has expired");
+    }
+
+    // Wallet declined or failed to fulfil the request
+    if (data.error) {
+      await this.db.authorizationRequest.updateMany({
+        where: { id: request.id, status: "PENDING" },
+        data: {
+          status: "DECLINED",
+          error: data.error_description
+            ? `${data.error}: ${data.error_description}`
+            : data.error,
+        },
+      });
+      logger.info(`OID4VP authorization request ${request.id} declined: ${data.error}`);
+      return {};
+    }
+
+    if (!data.vp_token) {
+      throw new OAuthError("invalid_request", "vp_token is required");
+    }
+
+    let parsedToken: ReturnType<OID4VPService["parseVPToken"]>;
+    let submission: PresentationSubmissionDTO | undefined;
+    try {
+      parsedToken = this.parseVPToken(data.vp_token);
+      submission = data.presentation_submission
+        ? JSON.parse(data.presentation_submission)
+        : undefined;
+    } catch (error) {
+      throw new OAuthError(
+        "invalid_request",
+        `Invalid vp_token or presentation_submission: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    // Answer each request once, even with concurrent posts
+    const claimed = await this.db.authorizationRequest.updateMany({
+      where: { id: request.id, status: "PENDING" },
+      data: { status: "RESPONDED" },
+    });
+    if (claimed.count === 0) {
+      throw new OAuthError(
+        "invalid_request",
+        "Unknown or already answered authorization request"
+      );
+    }
+
+    try {
+      const { vp_id } = await PresentationService.storeVP({
+        holder_did: parsedToken.holder_did,
+        vp: parsedToken.vp,
+        format: parsedToken.format,
+        verifier_did: request.verifier_did,
+        presentation_submission: submission,
+      });
+
+      const { vp_request_id } = await PresentationService.requestVP({
+        holder_did: parsedToken.holder_did,
+        verifier_did: request.verifier_did,
+        verifier_name: request.verifier_name,
+        purpose: request.purpose,
+        presentation_definition:
+          request.presentation_definition as unknown as PresentationDefinitionDTO,
+        expires_at: request.expires_at.toISOString(),
+        challenge: request.nonce,
+      });
+
+      await PresentationService.acceptVPRequest({
+        vpReqId: vp_request_id,
+        vpId: vp_id,
+        credentials: [],
+      });
+
+      const result = await PresentationService.verifyVP(vp_id);
+
+      await this.db.authorizationRequest.update({
+        where: { id: request.id },
+        data: {
+          vp_id,
+          vp_request_id,
+          verification_result: result as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      logger.success(
+        `OID4VP authorization request ${request.id} answered by ${parsedToken.holder_did} (VP ${vp_id})`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`OID4VP response for ${request.id} rejected:`, error);
+      await this.db.authorizationRequest.update({
+        where: { id: request.id },
+        data: { error: message },
+      });
+      throw new OAuthError("invalid_request", message);
+    }
+
+    return {};
+  }
+}
+
+export default new OID4VPService();
+export { OID4VPService };
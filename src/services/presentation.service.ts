@@ -1,10 +1,30 @@
-import { VPRequest, VPSharing, PrismaClient } from "@prisma/client";
+import { VPRequest, VPSharing, VPFormat, Prisma, PrismaClient } from "@prisma/client";
 import { prisma } from "../config/database";
-import { NotFoundError, BadRequestError } from "../utils/errors/AppError";
+import {
+  NotFoundError,
+  BadRequestError,
+  GoneError,
+} from "../utils/errors/AppError";
+import { env } from "../config/env";
+import {
+  VPRequestResponseDTO,
+  ExpireStaleVPsResultDTO,
+  PresentationDefinitionDTO,
+  PresentationSubmissionDTO,
+  PresentationEvaluationDTO,
+} from "../dtos/presentation.dto";
 import logger from "../config/logger";
 import * as crypto from "crypto";
 import DIDService from "./did.service";
 import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import BatchAnchorService from "./blockchain/batchAnchor.service";
+import StatusListService from "./statusList.service";
+import { CanonicalizationHelper } from "../utils/helpers/canonicalization.helper";
+import { SdJwtHelper, ParsedSdJwt } from "../utils/helpers/sdJwt.helper";
+import { PresentationExchangeHelper } from "../utils/helpers/presentationExchange.helper";
+import { MerkleHelper } from "../utils/helpers/merkle.helper";
+import { MerkleInclusionProofDTO } from "../dtos/credential.dto";
+import { VerificationKeyDTO } from "../dtos/did.dto";
 
 /**
  * Data Integrity Proof Structure
@@ -16,6 +36,8 @@ interface DataIntegrityProof {
   verificationMethod: string;
   proofPurpose: string;
   proofValue: string;
+  challenge?: string;
+  domain?: string;
 }
 
 /**
@@ -61,11 +83,17 @@ interface VCVerificationResult {
  * VP Verification Result
  */
 interface VPVerificationResult {
-  vp: VerifiablePresentation;
+  vp: VerifiablePresentation | string; // Compact string for SD-JWT presentations
+  format: VPFormat;
   vp_valid: boolean;
   vp_error?: string;
   holder_did?: string;
+  vp_request_id?: string;
+  challenge_valid?: boolean; // Only set when the VP answers a VPRequest with a challenge
+  domain_valid?: boolean;
+  disclosed_claims?: Record<string, any>; // SD-JWT only: claims revealed by the holder
   credentials_verification: VCVerificationResult[];
+  presentation_evaluation?: PresentationEvaluationDTO; // Only set when the VPRequest has a presentation_definition
 }
 
 /**
@@ -83,27 +111,87 @@ class PresentationService {
     this.db = dependencies?.db || prisma;
   }
 
+  /**
+   * Helper: Check whether an optional expiry timestamp has passed
+   */
+  private isExpired(expiresAt: Date | null): boolean {
+    return expiresAt !== null && expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Helper: Refuse a VPSharing that expired or used up its verifications
+   */
+  private assertVPUsable(sharedVp: VPSharing): void {
+    if (this.isExpired(sharedVp.expires_at)) {
+      throw new GoneError(
+        `VP has expired at ${sharedVp.expires_at!.toISOString()}`
+      );
+    }
+
+    if (
+      sharedVp.max_verifications !== null &&
+      sharedVp.verification_count >= sharedVp.max_verifications
+    ) {
+      throw new GoneError(
+        `VP has reached its maximum of ${sharedVp.max_verifications} verifications`
+      );
+    }
+  }
+
+  /**
+   * Helper: Mark a PENDING VP request as EXPIRED if its time has passed
+   */
+  private async assertVPRequestNotExpired(vpRequest: VPRequest): Promise<void> {
+    if (vpRequest.status === "PENDING" && this.isExpired(vpRequest.expires_at)) {
+      await this.db.vPRequest.update({
+        where: { id: vpRequest.id },
+        data: { status: "EXPIRED" },
+      });
+      throw new GoneError(
+        `VP request has expired at ${vpRequest.expires_at!.toISOString()}`
+      );
+    }
+  }
+
   /**
    * Verifier requests a VP from holder
+   * Generates a one-time challenge and the domain (verifier DID) the holder
+   * must bind into the VP proof, so the VP cannot be replayed to other requests
    */
   async requestVP(data: {
     holder_did: string;
     verifier_did: string;
     verifier_name: string;
     purpose: string;
-    requested_credentials: Array<{
+    requested_credentials?: Array<{
       schema_id: string;
       schema_name: string;
       schema_version: number;
-    }>;
-  }): Promise<{ vp_request_id: string; message: string }> {
+    }>; // Optional when presentation_definition is given
+    presentation_definition?: PresentationDefinitionDTO;
+    expires_at?: string; // ISO 8601, defaults to now + VP_REQUEST_TTL_MINUTES
+    challenge?: string; // Pre-generated challenge (e.g. the OID4VP authorization request nonce)
+  }): Promise<VPRequestResponseDTO> {
+    const challenge =
+      data.challenge ?? crypto.randomBytes(32).toString("base64url");
+    const domain = data.verifier_did;
+    const expiresAt = data.expires_at
+      ? new Date(data.expires_at)
+      : new Date(Date.now() + env.VP_REQUEST_TTL_MINUTES * 60 * 1000);
+
     const vpRequest = await this.db.vPRequest.create({
       data: {
         holder_did: data.holder_did,
         verifier_did: data.verifier_did,
         verifier_name: data.verifier_name,
         purpose: data.purpose,
-        requested_credentials: data.requested_credentials,
+        requested_credentials: data.requested_credentials ?? [],
+        ...(data.presentation_definition && {
+          presentation_definition: data.presentation_definition as unknown as Prisma.InputJsonValue,
+        }),
+        challenge,
+        domain,
+        expires_at: expiresAt,
       },
     });
 
@@ -112,10 +200,19 @@ class PresentationService {
     logger.info(`From: ${data.verifier_did} (${data.verifier_name})`);
     logger.info(`To: ${data.holder_did}`);
     logger.info(`Purpose: ${data.purpose}`);
+    if (data.presentation_definition) {
+      logger.info(
+        `Presentation definition: ${data.presentation_definition.id} (${data.presentation_definition.input_descriptors.length} input descriptors)`
+      );
+    }
+    logger.info(`Expires at: ${expiresAt.toISOString()}`);
 
     return {
       vp_request_id: vpRequest.id,
       message: "VP request sent successfully. Awaiting Holder's response.",
+      challenge,
+      domain,
+      expires_at: expiresAt.toISOString(),
     };
   }
 
@@ -195,6 +292,8 @@ class PresentationService {
       throw new NotFoundError("VP Request not found");
     }
 
+    await this.assertVPRequestNotExpired(vpRequest);
+
     if (vpRequest.status !== "PENDING") {
       throw new Error(
         `Cannot accept VP request with status: ${vpRequest.status}`
@@ -247,6 +346,8 @@ class PresentationService {
       throw new NotFoundError("VP Request not found");
     }
 
+    await this.assertVPRequestNotExpired(vpRequest);
+
     if (vpRequest.status !== "PENDING") {
       throw new Error(
         `Cannot decline VP request with status: ${vpRequest.status}`
@@ -283,6 +384,7 @@ class PresentationService {
         schema_version: number;
       }> | null;
       purpose: string | null;
+      format: VPFormat;
       created_at: Date;
     }>;
   }> {
@@ -335,6 +437,7 @@ class PresentationService {
             schema_version: number;
           }> | null,
           purpose: vpRequest?.purpose || null,
+          format: vp.format,
           created_at: vp.createdAt,
         };
       })
@@ -428,24 +531,54 @@ class PresentationService {
    */
   async storeVP(data: {
     holder_did: string;
-    vp: string; // VP is a JSON string
+    vp: string; // VP is a JSON string, or a compact SD-JWT presentation
+    format?: VPFormat; // Optional: defaults to LDP_VP
     verifier_did?: string; // Optional: if provided, VP is initiated by verifier request
     is_barcode?: boolean; // Optional: indicates if VP sharing is from barcode scan
-  }): Promise<{ vp_id: string; message: string }> {
-    // Validate that VP is valid JSON
-    try {
-      JSON.parse(data.vp);
-    } catch (error) {
-      throw new Error("VP must be a valid JSON string");
+    expires_at?: string; // Optional: ISO 8601, VP cannot be retrieved/verified afterwards
+    max_verifications?: number; // Optional: barcode VPs only, limits reuse
+    presentation_submission?: PresentationSubmissionDTO; // Optional: LDP VPs may embed it instead
+  }): Promise<{ vp_id: string; message: string; expires_at: string | null }> {
+    const format = data.format ?? "LDP_VP";
+
+    if (format === "SD_JWT") {
+      // Holder selected the disclosures client-side; they must all belong
+      // to the credential and be covered by a key-binding JWT
+      try {
+        const parsed = SdJwtHelper.parse(data.vp);
+        SdJwtHelper.resolveClaims(parsed.payload, parsed.disclosures);
+        if (!parsed.kbJwt) {
+          throw new Error("key-binding JWT is required");
+        }
+      } catch (error) {
+        throw new BadRequestError(
+          `Invalid SD-JWT presentation: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    } else {
+      // Validate that VP is valid JSON
+      try {
+        JSON.parse(data.vp);
+      } catch (error) {
+        throw new Error("VP must be a valid JSON string");
+      }
     }
 
     const sharedVp = await this.db.vPSharing.create({
       data: {
         holder_did: data.holder_did,
         VP: data.vp, // Store as string
+        format,
         verifier_did: data.verifier_did, // NULL if initiated by holder, has value if initiated by verifier
         is_barcode: data.is_barcode ?? false, // Default to false if not provided
         hasClaim: false, // Default to not claimed
+        expires_at: data.expires_at ? new Date(data.expires_at) : null,
+        max_verifications: data.is_barcode ? data.max_verifications : null,
+        ...(data.presentation_submission && {
+          presentation_submission: data.presentation_submission as unknown as Prisma.InputJsonValue,
+        }),
       },
     });
 
@@ -455,17 +588,19 @@ class PresentationService {
       `Verifier: ${data.verifier_did || "N/A (initiated by holder)"}`
     );
     logger.info(`Is Barcode: ${sharedVp.is_barcode}`);
+    logger.info(`Format: ${sharedVp.format}`);
 
     return {
       vp_id: sharedVp.id,
       message: "VP stored successfully and is available for retrieval.",
+      expires_at: sharedVp.expires_at?.toISOString() ?? null,
     };
   }
 
   /**
    * Get and delete VP (one-time retrieval)
    */
-  async getVP(vpId: string): Promise<{ vp: any }> {
+  async getVP(vpId: string): Promise<{ vp: any; format: VPFormat }> {
     // Find VP in VPSharing (exclude soft-deleted)
     const sharedVp = await this.db.vPSharing.findFirst({
       where: {
@@ -480,13 +615,17 @@ class PresentationService {
       );
     }
 
+    this.assertVPUsable(sharedVp);
+
     logger.success(`VP retrieved: ${vpId}`);
 
-    // Parse VP string to JSON object
-    const vpObject = JSON.parse(sharedVp.VP);
+    // Parse VP string to JSON object (SD-JWT presentations stay compact)
+    const vpObject =
+      sharedVp.format === "SD_JWT" ? sharedVp.VP : JSON.parse(sharedVp.VP);
 
     return {
       vp: vpObject,
+      format: sharedVp.format,
     };
   }
 
@@ -642,11 +781,13 @@ class PresentationService {
 
   /**
    * Helper: Verify EdDSA signature for a credential or presentation
+   * @param includeProofOptions - Same as verifyECDSASignature
    */
   private async verifyEdDSASignature(
     data: any,
     proof: DataIntegrityProof,
-    publicKeyHex: string
+    publicKeyHex: string,
+    includeProofOptions: boolean = false
   ): Promise<boolean> {
     try {
       // 1. Remove proof from data
@@ -654,10 +795,19 @@ class PresentationService {
 
       // 2. Canonicalize the data (simple JSON stringification for now)
       // Note: For production, use RDF Dataset Canonicalization (RDFC 1.0)
-      const canonicalData = JSON.stringify(
-        dataWithoutProof,
-        Object.keys(dataWithoutProof).sort()
-      );
+      let canonicalData: string;
+      if (includeProofOptions) {
+        const { proofValue: __, ...proofOptions } = proof;
+        canonicalData = CanonicalizationHelper.canonicalizeJCS({
+          ...dataWithoutProof,
+          proof: proofOptions,
+        });
+      } else {
+        canonicalData = JSON.stringify(
+          dataWithoutProof,
+          Object.keys(dataWithoutProof).sort()
+        );
+      }
 
       // 3. Create message buffer
       const messageBuffer = Buffer.from(canonicalData, "utf8");
@@ -686,11 +836,15 @@ class PresentationService {
 
   /**
    * Helper: Verify ECDSA P-256 signature with SHA256 for a credential or presentation
+   * @param includeProofOptions - Verify over the JCS form of the document
+   *   including the proof options (everything but proofValue), so that
+   *   proof.challenge and proof.domain are covered by the signature
    */
   private async verifyECDSASignature(
     data: any,
     proof: DataIntegrityProof,
-    publicKeyHex: string
+    publicKeyHex: string,
+    includeProofOptions: boolean = false
   ): Promise<boolean> {
     try {
       // 1. Remove proof from data
@@ -698,10 +852,19 @@ class PresentationService {
 
       // 2. Canonicalize the data (simple JSON stringification for now)
       // Note: For production, use RDF Dataset Canonicalization (RDFC 1.0)
-      const canonicalData = JSON.stringify(
-        dataWithoutProof,
-        Object.keys(dataWithoutProof).sort()
-      );
+      let canonicalData: string;
+      if (includeProofOptions) {
+        const { proofValue: __, ...proofOptions } = proof;
+        canonicalData = CanonicalizationHelper.canonicalizeJCS({
+          ...dataWithoutProof,
+          proof: proofOptions,
+        });
+      } else {
+        canonicalData = JSON.stringify(
+          dataWithoutProof,
+          Object.keys(dataWithoutProof).sort()
+        );
+      }
 
       // 3. Create message buffer
       const messageBuffer = Buffer.from(canonicalData, "utf8");
@@ -740,55 +903,139 @@ class PresentationService {
   }
 
   /**
-   * Verify a single VC's proof
+   * Helper: Verify a proof with the curve of the DID key
+   * (EdDSA for Ed25519 keys of did:key / did:web, ECDSA P-256 otherwise)
    */
-  private async verifyVCProof(
-    vc: VerifiableCredential
-  ): Promise<VCVerificationResult> {
-    try {
-      // Get issuer DID
-      const issuerDID = vc.issuer;
+  private async verifyProofSignature(
+    data: any,
+    proof: DataIntegrityProof,
+    verificationKey: VerificationKeyDTO,
+    includeProofOptions: boolean = false
+  ): Promise<boolean> {
+    return verificationKey.keyType === "Ed25519"
+      ? this.verifyEdDSASignature(
+          data,
+          proof,
+          verificationKey.publicKeyHex,
+          includeProofOptions
+        )
+      : this.verifyECDSASignature(
+          data,
+          proof,
+          verificationKey.publicKeyHex,
+          includeProofOptions
+        );
+  }
 
-      // Step 1: Check if VC exists on blockchain and is active
-      let vcOnBlockchain = false;
-      let vcActiveOnBlockchain = false;
+  /**
+   * Check that a VC exists and is active on blockchain, is not revoked or
+   * suspended in its status lists, and that its hash matches the anchored hash
+   * VCs that are not on-chain by themselves are checked through their Merkle
+   * batch (inclusion proof attached to the VC, or the stored one)
+   * @param computeHash - Computes the hash of the presented VC (only called once the VC is found)
+   * @returns Error message, or null if all checks pass
+   */
+  private async checkVCOnChain(
+    vcId: string,
+    computeHash: () => Promise<string>,
+    inclusionProof?: MerkleInclusionProofDTO
+  ): Promise<string | null> {
+    let vcOnBlockchain = false;
+    let vcActiveOnBlockchain = false;
+    let vcHashOnBlockchain = "";
 
+    try {
+      let vcStatus: any;
       try {
-        const vcStatus = await VCBlockchainService.getVCStatusFromBlockchain(vc.id);
+        vcStatus = await VCBlockchainService.getVCStatusFromBlockchain(vcId);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+        vcStatus = await BatchAnchorService.getAnchoredVCStatus(vcId, {
+          vcHash: await computeHash(),
+          inclusionProof,
+        });
+      }
 
-        if (vcStatus) {
-          vcOnBlockchain = true;
-          vcActiveOnBlockchain = vcStatus.status === true;
+      if (vcStatus) {
+        vcOnBlockchain = true;
+        vcActiveOnBlockchain = vcStatus.status === true;
+        vcHashOnBlockchain = vcStatus.hash;
 
-          if (vcActiveOnBlockchain) {
-            logger.info(`VC ${vc.id} found on blockchain and is active`);
-          } else {
-            logger.warn(`VC ${vc.id} found on blockchain but is inactive/revoked`);
-          }
+        if (vcActiveOnBlockchain) {
+          logger.info(`VC ${vcId} found on blockchain and is active`);
         } else {
-          logger.warn(`VC ${vc.id} not found on blockchain`);
+          logger.warn(`VC ${vcId} found on blockchain but is inactive/revoked`);
         }
-      } catch (vcError) {
-        logger.error(`Error checking VC ${vc.id} on blockchain:`, vcError);
-        // Continue with verification even if blockchain check fails
+      } else {
+        logger.warn(`VC ${vcId} not found on blockchain`);
       }
+    } catch (vcError) {
+      logger.error(`Error checking VC ${vcId} on blockchain:`, vcError);
+      // Continue with verification even if blockchain check fails
+    }
 
-      // If VC is not found or not active on blockchain, mark as invalid
-      if (!vcOnBlockchain) {
-        return {
-          vc_id: vc.id,
-          issuer: issuerDID,
-          valid: false,
-          error: "VC not found on blockchain",
-        };
-      }
+    // If VC is not found or not active on blockchain, mark as invalid
+    if (!vcOnBlockchain) {
+      return "VC not found on blockchain";
+    }
+
+    if (!vcActiveOnBlockchain) {
+      return "VC is inactive or revoked on blockchain";
+    }
+
+    // Suspension (and the revocation of batch anchored VCs, which have no
+    // VCManager entry of their own) is tracked in the issuer's status lists
+    const statusListState = await StatusListService.getStatus(vcId);
+    if (statusListState?.revoked) {
+      logger.warn(`VC ${vcId} is revoked in its status list`);
+      return "VC is inactive or revoked on blockchain";
+    }
+    if (statusListState?.suspended) {
+      logger.warn(`VC ${vcId} is suspended`);
+      return "VC is suspended";
+    }
+
+    // Compare the recomputed hash with the hash anchored on blockchain
+    const computedHash = await computeHash();
+
+    if (!CanonicalizationHelper.hashesEqual(computedHash, vcHashOnBlockchain)) {
+      logger.warn(
+        `VC ${vcId} hash mismatch: blockchain ${vcHashOnBlockchain}, computed ${computedHash}`
+      );
+      return "VC hash does not match blockchain record";
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify a single VC's proof
+   */
+  private async verifyVCProof(
+    vc: VerifiableCredential
+  ): Promise<VCVerificationResult> {
+    try {
+      // Get issuer DID
+      const issuerDID = vc.issuer;
 
-      if (!vcActiveOnBlockchain) {
+      // Step 1: Check blockchain record, suspension and anchored hash
+      // (a Merkle inclusion proof in vc.proof is not part of the anchored hash)
+      const { credential, inclusionProof } =
+        MerkleHelper.splitInclusionProof(vc);
+      const chainError = await this.checkVCOnChain(
+        vc.id,
+        () => CanonicalizationHelper.hashCredential(credential),
+        inclusionProof
+      );
+
+      if (chainError) {
         return {
           vc_id: vc.id,
           issuer: issuerDID,
           valid: false,
-          error: "VC is inactive or revoked on blockchain",
+          error: chainError,
         };
       }
 
@@ -813,9 +1060,23 @@ class PresentationService {
         };
       }
 
-      // Get public key
-      const keyId = didDocument.keyId;
-      const publicKeyHex = didDocument[keyId];
+      // Issuer key referenced by proof.verificationMethod (may be a rotated key)
+      const verificationKey = await DIDService.getVerificationKey(
+        didDocument,
+        vc.proof?.verificationMethod,
+        vc.proof?.created ? new Date(vc.proof.created) : undefined
+      );
+
+      if ("error" in verificationKey) {
+        return {
+          vc_id: vc.id,
+          issuer: issuerDID,
+          valid: false,
+          error: verificationKey.error,
+        };
+      }
+
+      const { publicKeyHex } = verificationKey;
 
       if (!publicKeyHex) {
         return {
@@ -826,11 +1087,11 @@ class PresentationService {
         };
       }
 
-      // Step 3: Verify VC proof using ECDSA P-256 with SHA256
-      const isValid = await this.verifyECDSASignature(
+      // Step 3: Verify VC proof (ECDSA P-256 with SHA256, EdDSA for Ed25519 keys)
+      const isValid = await this.verifyProofSignature(
         vc,
         vc.proof,
-        publicKeyHex
+        verificationKey
       );
 
       return {
@@ -851,48 +1112,18 @@ class PresentationService {
   }
 
   /**
-   * Verify Verifiable Presentation
-   * Uses ECDSA P-256 curve with SHA256 for signature verification
-   *
-   * Behavior based on is_barcode:
-   * - is_barcode = false: One-time use, soft deleted after verification
-   * - is_barcode = true: Reusable, never deleted (for barcode scanning scenarios)
-   *
-   * Steps:
-   * 1. Verify VP signature with holder's public key
-   * 2. Verify each VC's proof with issuer's public key
-   * 3. Conditionally soft delete based on is_barcode value
+   * Verify a JSON-LD VP (Data Integrity proof) and its VCs
+   * Results are written into the given result object
    */
-  async verifyVP(vpId: string): Promise<VPVerificationResult> {
-    // Find VP in VPSharing
-    const sharedVp = await this.db.vPSharing.findUnique({
-      where: { id: vpId },
-    });
-
-    if (!sharedVp) {
-      throw new NotFoundError("VP not found");
-    }
-
-    // Check if VP is one-time use and already verified
-    if (!sharedVp.is_barcode && sharedVp.deletedAt !== null) {
-      throw new NotFoundError("VP not found or already verified");
-    }
-
-    // Parse VP string to JSON object
-    const vp: VerifiablePresentation = JSON.parse(
-      sharedVp.VP
-    ) as VerifiablePresentation;
-    const holderDID = sharedVp.holder_did;
-
-    logger.info(`Verifying VP ${vpId} from holder ${holderDID}`);
-
-    // Initialize result
-    const result: VPVerificationResult = {
-      vp,
-      vp_valid: false,
-      holder_did: holderDID,
-      credentials_verification: [],
-    };
+  private async verifyLdpPresentation(
+    vp: VerifiablePresentation,
+    vpId: string,
+    holderDID: string,
+    vpRequest: VPRequest | null,
+    result: VPVerificationResult
+  ): Promise<void> {
+    // Requests created before challenges existed are verified without binding
+    const isChallengeBound = Boolean(vpRequest?.challenge);
 
     // Step 1: Verify VP signature (if VP has proof)
     if (vp.proof && holderDID) {
@@ -907,24 +1138,49 @@ class PresentationService {
           result.vp_valid = false;
           result.vp_error = `Holder DID is not active. Status: ${didDocument.status}`;
         } else {
-          // Get public key
-          const keyId = didDocument.keyId;
-          const publicKeyHex = didDocument[keyId];
-
-          if (!publicKeyHex) {
+          // Holder key referenced by proof.verificationMethod (active key only)
+          const verificationKey = await DIDService.getVerificationKey(
+            didDocument,
+            vp.proof.verificationMethod
+          );
+          const publicKeyHex =
+            "error" in verificationKey ? undefined : verificationKey.publicKeyHex;
+
+          if ("error" in verificationKey) {
+            result.vp_valid = false;
+            result.vp_error = verificationKey.error;
+          } else if (!publicKeyHex) {
             result.vp_valid = false;
             result.vp_error = "Public key not found in holder DID document";
           } else {
-            // Verify VP signature using ECDSA P-256 with SHA256
-            const isValid = await this.verifyECDSASignature(
+            // Verify VP signature (ECDSA P-256 with SHA256, EdDSA for Ed25519 keys)
+            const isValid = await this.verifyProofSignature(
               vp,
               vp.proof,
-              publicKeyHex
+              verificationKey,
+              isChallengeBound
             );
             result.vp_valid = isValid;
             if (!isValid) {
               result.vp_error = "VP signature verification failed";
             }
+
+            // Check that the proof is bound to the VPRequest's challenge/domain
+            if (isChallengeBound && vpRequest) {
+              result.challenge_valid =
+                vp.proof.challenge === vpRequest.challenge;
+              result.domain_valid = vp.proof.domain === vpRequest.domain;
+
+              if (!result.challenge_valid || !result.domain_valid) {
+                logger.warn(
+                  `VP ${vpId} is not bound to VPRequest ${vpRequest.id} (challenge: ${result.challenge_valid}, domain: ${result.domain_valid})`
+                );
+                result.vp_valid = false;
+                result.vp_error = !result.challenge_valid
+                  ? "VP proof challenge does not match the VP request"
+                  : "VP proof domain does not match the VP request";
+              }
+            }
           }
         }
       } catch (error) {
@@ -948,6 +1204,392 @@ class PresentationService {
       const vcResult = await this.verifyVCProof(vc);
       result.credentials_verification.push(vcResult);
     }
+  }
+
+  /**
+   * Verify the issuer-signed part of an SD-JWT VC
+   * (blockchain record, anchored hash, expiry and issuer signature)
+   */
+  private async verifySdJwtCredential(
+    parsed: ParsedSdJwt
+  ): Promise<VCVerificationResult> {
+    const vcId: string = parsed.payload.jti;
+    const issuerDID: string = parsed.payload.iss;
+
+    try {
+      if (!vcId || !issuerDID) {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: "SD-JWT VC must contain jti and iss claims",
+        };
+      }
+
+      if (
+        typeof parsed.payload.exp === "number" &&
+        parsed.payload.exp * 1000 <= Date.now()
+      ) {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: "VC has expired",
+        };
+      }
+
+      // Step 1: Blockchain record (hash anchored over the issuer-signed JWT)
+      const chainError = await this.checkVCOnChain(vcId, async () =>
+        SdJwtHelper.hashIssuerJwt(parsed.issuerJwt)
+      );
+
+      if (chainError) {
+        return { vc_id: vcId, issuer: issuerDID, valid: false, error: chainError };
+      }
+
+      // Step 2: Issuer's public key from blockchain
+      const didDocument = await DIDService.getDIDDocument(issuerDID);
+
+      if (!didDocument.found) {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: "Issuer DID not found on blockchain",
+        };
+      }
+
+      if (didDocument.status !== "Active") {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: `Issuer DID is not active. Status: ${didDocument.status}`,
+        };
+      }
+
+      // Issuer key from the JWS kid (may be a rotated key), signed at iat
+      const verificationKey = await DIDService.getVerificationKey(
+        didDocument,
+        parsed.header.kid,
+        typeof parsed.payload.iat === "number"
+          ? new Date(parsed.payload.iat * 1000)
+          : undefined
+      );
+
+      if ("error" in verificationKey) {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: verificationKey.error,
+        };
+      }
+
+      const { publicKeyHex } = verificationKey;
+
+      if (!publicKeyHex) {
+        return {
+          vc_id: vcId,
+          issuer: issuerDID,
+          valid: false,
+          error: "Public key not found in issuer DID document",
+        };
+      }
+
+      // Step 3: Issuer JWS (ES256)
+      const isValid = SdJwtHelper.verifyES256JWT(parsed.issuerJwt, publicKeyHex);
+
+      return {
+        vc_id: vcId,
+        issuer: issuerDID,
+        valid: isValid,
+        error: isValid ? undefined : "Signature verification failed",
+      };
+    } catch (error) {
+      logger.error(`Error verifying SD-JWT VC ${vcId}:`, error);
+      return {
+        vc_id: vcId,
+        issuer: issuerDID,
+        valid: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Verify the holder's key-binding JWT of an SD-JWT presentation
+   * @returns Error message, or null if the key binding is valid
+   */
+  private async verifySdJwtKeyBinding(
+    parsed: ParsedSdJwt,
+    holderDID: string,
+    vpRequest: VPRequest | null,
+    result: VPVerificationResult
+  ): Promise<string | null> {
+    if (!parsed.kbJwt) {
+      return "SD-JWT presentation has no key-binding JWT";
+    }
+
+    if (parsed.payload.sub !== holderDID) {
+      return "SD-JWT subject does not match the VP holder";
+    }
+
+    const [encodedHeader, encodedPayload] = parsed.kbJwt.split(".");
+    const kbHeader = SdJwtHelper.decodeJSON(encodedHeader);
+    const kbPayload = SdJwtHelper.decodeJSON(encodedPayload);
+
+    if (kbHeader.typ !== "kb+jwt") {
+      return "Key-binding JWT must have typ kb+jwt";
+    }
+
+    // Get holder's public key from blockchain
+    const didDocument = await DIDService.getDIDDocument(holderDID);
+
+    if (!didDocument.found) {
+      return "Holder DID not found on blockchain";
+    }
+    if (didDocument.status !== "Active") {
+      return `Holder DID is not active. Status: ${didDocument.status}`;
+    }
+
+    // Key binding proves current possession: active key only
+    const verificationKey = await DIDService.getVerificationKey(
+      didDocument,
+      kbHeader.kid
+    );
+    if ("error" in verificationKey) {
+      return verificationKey.error;
+    }
+
+    const { publicKeyHex } = verificationKey;
+    if (!publicKeyHex) {
+      return "Public key not found in holder DID document";
+    }
+
+    if (verificationKey.keyType !== "P-256") {
+      return "Key-binding JWT must be signed with a P-256 key (ES256)";
+    }
+
+    if (!SdJwtHelper.verifyES256JWT(parsed.kbJwt, publicKeyHex)) {
+      return "Key-binding JWT signature verification failed";
+    }
+
+    if (kbPayload.sd_hash !== SdJwtHelper.sdHash(parsed.issuerJwt, parsed.disclosures)) {
+      return "Key-binding JWT sd_hash does not match the presentation";
+    }
+
+    // nonce/aud carry the VPRequest challenge/domain
+    if (vpRequest?.challenge) {
+      result.challenge_valid = kbPayload.nonce === vpRequest.challenge;
+      result.domain_valid = kbPayload.aud === vpRequest.domain;
+
+      if (!result.challenge_valid) {
+        return "Key-binding JWT nonce does not match the VP request challenge";
+      }
+      if (!result.domain_valid) {
+        return "Key-binding JWT aud does not match the VP request domain";
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Verify an SD-JWT VC presentation (<issuer-jwt>~<disclosures>~<kb-jwt>)
+   * - Every disclosure must match a digest in the issuer-signed JWT
+   * - The KB-JWT must be signed by the holder over sd_hash
+   * Results are written into the given result object
+   */
+  private async verifySdJwtPresentation(
+    compact: string,
+    holderDID: string,
+    vpRequest: VPRequest | null,
+    result: VPVerificationResult
+  ): Promise<void> {
+    let parsed: ParsedSdJwt;
+    try {
+      parsed = SdJwtHelper.parse(compact);
+    } catch (error) {
+      result.vp_error = `Invalid SD-JWT presentation: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      return;
+    }
+
+    // Step 1: Disclosure digests and holder key binding
+    try {
+      result.disclosed_claims = SdJwtHelper.resolveClaims(
+        parsed.payload,
+        parsed.disclosures
+      );
+
+      const bindingError = await this.verifySdJwtKeyBinding(
+        parsed,
+        holderDID,
+        vpRequest,
+        result
+      );
+      result.vp_valid = bindingError === null;
+      if (bindingError) {
+        logger.warn(`SD-JWT presentation rejected: ${bindingError}`);
+        result.vp_error = bindingError;
+      }
+    } catch (error) {
+      logger.error("Error verifying SD-JWT presentation:", error);
+      result.vp_valid = false;
+      result.vp_error =
+        error instanceof Error ? error.message : "Unknown error";
+    }
+
+    // Step 2: Verify the issuer-signed credential
+    result.credentials_verification.push(
+      await this.verifySdJwtCredential(parsed)
+    );
+  }
+
+  /**
+   * Evaluate the VP against the VPRequest's presentation definition
+   * - LDP: descriptor_map paths are resolved against the VP JSON
+   * - SD-JWT: descriptor_map paths are resolved against the disclosed claims
+   */
+  private evaluatePresentationDefinition(
+    definition: PresentationDefinitionDTO,
+    sharedVp: VPSharing,
+    result: VPVerificationResult
+  ): PresentationEvaluationDTO {
+    const isSdJwt = sharedVp.format === "SD_JWT";
+    const vp = result.vp as VerifiablePresentation;
+    const submission = (sharedVp.presentation_submission ??
+      (isSdJwt ? undefined : vp.presentation_submission)) as
+      | PresentationSubmissionDTO
+      | undefined;
+
+    return PresentationExchangeHelper.evaluate(
+      definition,
+      submission,
+      isSdJwt ? result.disclosed_claims ?? {} : vp,
+      {
+        selectiveDisclosure: isSdJwt,
+        checkCredential: (credential) => {
+          // SD-JWT presentations carry exactly one credential
+          const verification = isSdJwt
+            ? result.credentials_verification[0]
+            : result.credentials_verification.find(
+                (vc) => vc.vc_id === credential?.id
+              );
+          if (!verification) {
+            return "Credential was not verified";
+          }
+          return verification.valid
+            ? null
+            : verification.error ?? "Invalid credential";
+        },
+      }
+    );
+  }
+
+  /**
+   * Verify Verifiable Presentation
+   * Uses ECDSA P-256 curve with SHA256 for signature verification
+   *
+   * Behavior based on is_barcode:
+   * - is_barcode = false: One-time use, soft deleted after verification
+   * - is_barcode = true: Reusable, never deleted (for barcode scanning scenarios)
+   *
+   * Steps:
+   * 1. Verify VP signature with holder's public key
+   *    (and the challenge/domain binding if the VP answers a VPRequest)
+   *    - SD-JWT: verify disclosure digests and the holder's key-binding JWT
+   * 2. Verify each VC's proof with issuer's public key
+   *    (and evaluate the VPRequest's presentation definition, if any)
+   * 3. Conditionally soft delete based on is_barcode value
+   */
+  async verifyVP(vpId: string): Promise<VPVerificationResult> {
+    // Find VP in VPSharing
+    const sharedVp = await this.db.vPSharing.findUnique({
+      where: { id: vpId },
+    });
+
+    if (!sharedVp) {
+      throw new NotFoundError("VP not found");
+    }
+
+    // Check if VP is one-time use and already verified
+    if (!sharedVp.is_barcode && sharedVp.deletedAt !== null) {
+      throw new NotFoundError("VP not found or already verified");
+    }
+
+    this.assertVPUsable(sharedVp);
+
+    // Reserve one verification atomically so concurrent scans cannot
+    // exceed max_verifications
+    let verificationCount = sharedVp.verification_count;
+    if (sharedVp.is_barcode) {
+      const reserved = await this.db.vPSharing.updateMany({
+        where: {
+          id: vpId,
+          ...(sharedVp.max_verifications !== null && {
+            verification_count: { lt: sharedVp.max_verifications },
+          }),
+        },
+        data: { verification_count: { increment: 1 } },
+      });
+
+      if (reserved.count === 0) {
+        throw new GoneError(
+          `VP has reached its maximum of ${sharedVp.max_verifications} verifications`
+        );
+      }
+      verificationCount += 1;
+    }
+
+    // SD-JWT presentations are stored in compact form, JSON-LD VPs as JSON strings
+    const isSdJwt = sharedVp.format === "SD_JWT";
+    const holderDID = sharedVp.holder_did;
+
+    logger.info(`Verifying VP ${vpId} from holder ${holderDID}`);
+
+    // VPRequest answered by this VP (if any)
+    const vpRequest = await this.db.vPRequest.findFirst({
+      where: { vp_id: vpId },
+    });
+
+    // Initialize result
+    const result: VPVerificationResult = {
+      vp: isSdJwt
+        ? sharedVp.VP
+        : (JSON.parse(sharedVp.VP) as VerifiablePresentation),
+      format: sharedVp.format,
+      vp_valid: false,
+      holder_did: holderDID,
+      vp_request_id: vpRequest?.id,
+      credentials_verification: [],
+    };
+
+    if (isSdJwt) {
+      // Steps 1-2 for SD-JWT VC: key binding, disclosures and credential
+      await this.verifySdJwtPresentation(sharedVp.VP, holderDID, vpRequest, result);
+    } else {
+      await this.verifyLdpPresentation(
+        result.vp as VerifiablePresentation,
+        vpId,
+        holderDID,
+        vpRequest,
+        result
+      );
+    }
+
+    if (vpRequest?.presentation_definition) {
+      result.presentation_evaluation = this.evaluatePresentationDefinition(
+        vpRequest.presentation_definition as unknown as PresentationDefinitionDTO,
+        sharedVp,
+        result
+      );
+      logger.info(
+        `Presentation definition satisfied: ${result.presentation_evaluation.satisfied}`
+      );
+    }
 
     logger.success(`VP verification completed for ${vpId}`);
     logger.info(`VP valid: ${result.vp_valid}`);
@@ -961,19 +1603,18 @@ class PresentationService {
 
     // Step 3: Update VPRequest verify_status if this VP is linked to a request
     try {
-      // Check if there's a VPRequest with this vp_id
-      const vpRequest = await this.db.vPRequest.findFirst({
-        where: { vp_id: vpId },
-      });
-
       if (vpRequest) {
         // Determine verify_status based on verification result
         // VALID if VP signature is valid AND all VCs are valid
+        // AND the presentation definition (if any) is satisfied
         // INVALID otherwise
         const allVCsValid = result.credentials_verification.every(
           (vc) => vc.valid
         );
-        const isValid = result.vp_valid && allVCsValid;
+        const isValid =
+          result.vp_valid &&
+          allVCsValid &&
+          (result.presentation_evaluation?.satisfied ?? true);
 
         const verify_status = isValid
           ? "VALID_VERIFICATION"
@@ -1020,6 +1661,22 @@ class PresentationService {
         // Don't fail the verification if soft delete fails
         logger.error(`Failed to soft delete VP ${vpId}:`, error);
       }
+    } else if (
+      sharedVp.max_verifications !== null &&
+      verificationCount >= sharedVp.max_verifications
+    ) {
+      // Barcode VP used up its verifications: soft delete
+      try {
+        await this.db.vPSharing.updateMany({
+          where: { id: vpId, deletedAt: null },
+          data: { deletedAt: new Date() },
+        });
+        logger.info(
+          `Barcode VP ${vpId} reached ${sharedVp.max_verifications} verifications - soft deleted`
+        );
+      } catch (error) {
+        logger.error(`Failed to soft delete VP ${vpId}:`, error);
+      }
     } else {
       // Barcode VP: reusable, don't delete
       logger.info(`VP ${vpId} is a barcode VP - not deleted (reusable)`);
@@ -1027,6 +1684,36 @@ class PresentationService {
 
     return result;
   }
+
+  /**
+   * Expire stale VP requests and shared VPs
+   * - PENDING VPRequests past expires_at become EXPIRED
+   * - VPSharing rows past expires_at are soft deleted
+   */
+  async expireStaleVPs(): Promise<ExpireStaleVPsResultDTO> {
+    const now = new Date();
+
+    const expiredRequests = await this.db.vPRequest.updateMany({
+      where: {
+        status: "PENDING",
+        expires_at: { lte: now },
+      },
+      data: { status: "EXPIRED" },
+    });
+
+    const expiredVPs = await this.db.vPSharing.updateMany({
+      where: {
+        deletedAt: null,
+        expires_at: { lte: now },
+      },
+      data: { deletedAt: now },
+    });
+
+    return {
+      expired_request_count: expiredRequests.count,
+      expired_vp_count: expiredVPs.count,
+    };
+  }
 }
 
 // Export singleton instance for backward compatibility
@@ -0,0 +1,811 @@
+import {
+  BulkIssuanceRowStatus,
+  ChainOutboxStatus,
+  CredentialOfferStatus,
+  Prisma,
+  PrismaClient,
+  ReconciliationReport,
+  ReconciliationReportStatus,
+  RequestStatus,
+  RequestType,
+} from "@prisma/client";
+import * as crypto from "crypto";
+import { prisma } from "../config/database";
+import logger from "../config/logger";
+import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import { MERKLE_ANCHOR } from "../constants/merkleAnchor.constants";
+import {
+  RECONCILIATION,
+  RECONCILIATION_KIND,
+} from "../constants/reconciliation.constants";
+import {
+  ReconciliationDiscrepancyDTO,
+  ReconciliationReportDTO,
+  ReconciliationSummaryDTO,
+} from "../dtos/credential.dto";
+import { CanonicalizationHelper, ManifestHelper } from "../utils/helpers";
+import { ConflictError, NotFoundError } from "../utils/errors/AppError";
+import { LedgerVCRecord, LedgerVCSchema } from "../types";
+
+/**
+ * Discrepancies of one entity, with the database fix of the repairable ones
+ */
+interface Comparison {
+  items: ReconciliationDiscrepancyDTO[];
+  repairs: Map<ReconciliationDiscrepancyDTO, () => Promise<unknown>>;
+  onchain: number;
+  db: number;
+}
+
+/**
+ * Reconciliation Service with Dependency Injection
+ * Audits the blockchain against Postgres and stores the result as a report
+ *
+ * - VCs (getAllVCsFromBlockchain, Merkle batch roots excluded) against
+ *   IssuerVCData; hashes against IndexedVC, issued CredentialOffers and bulk
+ *   issuance rows (VCs renewed since issuance are skipped there)
+ * - Schemas (getAllSchemasFromBlockchain) against VCSchema, per version; the
+ *   hash covers name, issuer and schema document (JCS, SHA-256)
+ * - VC status (active / inactive) against the latest REVOKE / UPDATE / RENEWAL
+ *   in IssuerActionLog
+ *
+ * Every discrepancy is missing-in-db, missing-on-chain, hash-mismatch or
+ * status-mismatch. Repair
+ * mode only fixes the database from the on-chain state where nothing has to be
+ * guessed: missing or different schema versions, stale IndexedVC hashes. The
+ * blockchain is never written, and targets of open chain outbox intents are
+ * left alone (the outbox finishes them).
+ */
+class ReconciliationService {
+  private db: PrismaClient;
+  private vcBlockchainService: typeof VCBlockchainService;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    vcBlockchainService?: typeof VCBlockchainService;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.vcBlockchainService =
+      dependencies?.vcBlockchainService || VCBlockchainService;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  private discrepancy(
+    fields: Pick<ReconciliationDiscrepancyDTO, "entity" | "id" | "kind" | "source" | "detail"> &
+      Partial<ReconciliationDiscrepancyDTO>
+  ): ReconciliationDiscrepancyDTO {
+    return {
+      version: null,
+      chain_hash: null,
+      db_hash: null,
+      issuer_did: null,
+      repairable: false,
+      repaired: false,
+      repair_error: null,
+      ...fields,
+    };
+  }
+
+  /**
+   * Schema document as stored on chain (a JSON string), or the raw string
+   */
+  private parseChainSchema(schema: LedgerVCSchema): { parsed: boolean; value: unknown } {
+    try {
+      return { parsed: true, value: JSON.parse(schema.schema) };
+    } catch {
+      return { parsed: false, value: schema.schema };
+    }
+  }
+
+  private schemaHash(name: string, issuerDID: string, schema: unknown): string {
+    const canonical = CanonicalizationHelper.canonicalizeJCS({
+      name,
+      issuer_did: issuerDID,
+      schema: schema ?? null,
+    });
+    return crypto.createHash("sha256").update(canonical).digest("hex");
+  }
+
+  /**
+   * VCs and schemas targeted by open chain outbox intents
+   */
+  private async inFlightTargets(): Promise<Set<string>> {
+    const intents: { payload: any }[] = await this.db.chainOutbox.findMany({
+      where: {
+        status: {
+          in: [
+            ChainOutboxStatus.PENDING,
+            ChainOutboxStatus.CHAIN_CONFIRMED,
+            ChainOutboxStatus.COMPENSATING,
+          ],
+        },
+      },
+      select: { payload: true },
+    });
+
+    const targets = new Set<string>();
+    for (const { payload } of intents) {
+      for (const target of [payload?.vc_id, payload?.new_vc_id, payload?.id]) {
+        if (typeof target === "string") {
+          targets.add(target);
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Page through a table by id (cursor, RECONCILIATION.SCAN_CHUNK_SIZE rows per query)
+   */
+  private async scan<T>(
+    fetchChunk: (cursor: string | null) => Promise<T[]>,
+    cursorOf: (row: T) => string,
+    handleChunk: (rows: T[]) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | null = null;
+
+    while (true) {
+      const rows = await fetchChunk(cursor);
+      if (rows.length === 0) {
+        break;
+      }
+
+      await handleChunk(rows);
+      cursor = cursorOf(rows[rows.length - 1]);
+    }
+  }
+
+  /**
+   * VCs of a chunk renewed since issuance: a renewal anchors a new hash, so the
+   * hash recorded at issuance is outdated
+   */
+  private async renewedVCs(vcIds: string[]): Promise<Set<string>> {
+    if (vcIds.length === 0) {
+      return new Set();
+    }
+
+    const [renewalLogs, renewalRequests] = await Promise.all([
+      this.db.issuerActionLog.findMany({
+        where: { action_type: RequestType.RENEWAL, vc_id: { in: vcIds } },
+        select: { vc_id: true },
+      }),
+      this.db.vCRenewalRequest.findMany({
+        where: { status: RequestStatus.APPROVED, vc_id: { in: vcIds } },
+        select: { vc_id: true },
+      }),
+    ]);
+
+    return new Set<string>([
+      ...renewalLogs.map((log: { vc_id: string }) => log.vc_id),
+      ...renewalRequests.map((request: { vc_id: string | null }) => request.vc_id!),
+    ]);
+  }
+
+  /**
+   * Compare hashes recorded at issuance (CredentialOffer / BulkIssuanceRow chunk)
+   * with the chain; VCs renewed since are skipped
+   */
+  private async compareIssuedHashes(
+    rows: { vc_id: string | null; vc_hash: string | null; issuer_did: string }[],
+    source: string,
+    onChain: Map<string, LedgerVCRecord>,
+    items: ReconciliationDiscrepancyDTO[]
+  ): Promise<void> {
+    const mismatched = rows.filter((row) => {
+      const vc = row.vc_id ? onChain.get(row.vc_id) : undefined;
+      return vc && !CanonicalizationHelper.hashesEqual(vc.hash, row.vc_hash ?? "");
+    });
+    const renewed = await this.renewedVCs(mismatched.map((row) => row.vc_id!));
+
+    for (const row of mismatched) {
+      if (renewed.has(row.vc_id!)) {
+        continue;
+      }
+      items.push(
+        this.discrepancy({
+          entity: "vc",
+          id: row.vc_id!,
+          kind: RECONCILIATION_KIND.HASH_MISMATCH,
+          source,
+          chain_hash: onChain.get(row.vc_id!)!.hash,
+          db_hash: row.vc_hash,
+          issuer_did: row.issuer_did,
+          detail: "Hash recorded at issuance differs from the on-chain hash",
+        })
+      );
+    }
+  }
+
+  /**
+   * The on-chain VC list is held in memory (the ledger returns it in one call);
+   * the database side is paged
+   */
+  private async compareVCs(inFlight: Set<string>): Promise<Comparison> {
+    const chainVCs = (await this.vcBlockchainService.getAllVCsFromBlockchain()).filter(
+      (vc) => vc.vcType !== MERKLE_ANCHOR.ANCHOR_VC_TYPE
+    );
+    const onChain = new Map(chainVCs.map((vc) => [vc.id, vc]));
+    const withoutDBRecord = new Set(onChain.keys());
+
+    const items: ReconciliationDiscrepancyDTO[] = [];
+    const repairs = new Map<ReconciliationDiscrepancyDTO, () => Promise<unknown>>();
+    const take = RECONCILIATION.SCAN_CHUNK_SIZE;
+    let dbVCs = 0;
+
+    // IssuerVCData: VCs missing on chain (batch anchored ones are not on chain individually)
+    await this.scan(
+      (cursor): Promise<{ vc_id: string | null; issuer_did: string }[]> =>
+        this.db.issuerVCData.findMany({
+          // The same VC may appear in several IssuerVCData rows
+          where: { vc_id: cursor ? { gt: cursor } : { not: null } },
+          distinct: ["vc_id"],
+          select: { vc_id: true, issuer_did: true },
+          orderBy: { vc_id: "asc" },
+          take,
+        }),
+      (row) => row.vc_id!,
+      async (rows) => {
+        dbVCs += rows.length;
+        const notOnChain = rows.filter((row) => !onChain.has(row.vc_id!));
+        rows.forEach((row) => withoutDBRecord.delete(row.vc_id!));
+
+        const anchored = new Set<string>(
+          notOnChain.length > 0
+            ? (
+                await this.db.anchoredVC.findMany({
+                  where: { vc_id: { in: notOnChain.map((row) => row.vc_id!) } },
+                  select: { vc_id: true },
+                })
+              ).map((vc: { vc_id: string }) => vc.vc_id)
+            : []
+        );
+
+        for (const row of notOnChain) {
+          if (!anchored.has(row.vc_id!)) {
+            items.push(
+              this.discrepancy({
+                entity: "vc",
+                id: row.vc_id!,
+                kind: RECONCILIATION_KIND.MISSING_ON_CHAIN,
+                source: "IssuerVCData",
+                issuer_did: row.issuer_did,
+                detail: "IssuerVCData row of a VC that is not on chain (nor batch anchored)",
+              })
+            );
+          }
+        }
+      }
+    );
+
+    for (const vcId of withoutDBRecord) {
+      const vc = onChain.get(vcId)!;
+      items.push(
+        this.discrepancy({
+          entity: "vc",
+          id: vc.id,
+          kind: RECONCILIATION_KIND.MISSING_IN_DB,
+          source: "IssuerVCData",
+          chain_hash: vc.hash,
+          issuer_did: vc.issuerDID,
+          detail: inFlight.has(vc.id)
+            ? "No IssuerVCData row yet, an outbox intent for the VC is still open"
+            : "VC is on chain but has no IssuerVCData row",
+        })
+      );
+    }
+
+    // IndexedVC: stale hashes are repaired from the chain
+    await this.scan(
+      (cursor): Promise<{ vc_id: string; hash: string; issuer_did: string }[]> =>
+        this.db.indexedVC.findMany({
+          where: cursor ? { vc_id: { gt: cursor } } : undefined,
+          select: { vc_id: true, hash: true, issuer_did: true },
+          orderBy: { vc_id: "asc" },
+          take,
+        }),
+      (row) => row.vc_id,
+      async (rows) => {
+        for (const row of rows) {
+          const vc = onChain.get(row.vc_id);
+          if (!vc || CanonicalizationHelper.hashesEqual(vc.hash, row.hash)) {
+            continue;
+          }
+
+          const item = this.discrepancy({
+            entity: "vc",
+            id: row.vc_id,
+            kind: RECONCILIATION_KIND.HASH_MISMATCH,
+            source: "IndexedVC",
+            chain_hash: vc.hash,
+            db_hash: row.hash,
+            issuer_did: row.issuer_did,
+            detail: "Chain indexer mirror has a stale hash",
+            repairable: true,
+          });
+          items.push(item);
+          repairs.set(item, () =>
+            this.db.indexedVC.update({
+              where: { vc_id: row.vc_id },
+              data: { hash: vc.hash, expired_at: vc.expiredAt || null },
+            })
+          );
+        }
+      }
+    );
+
+    // IssuerActionLog: the latest status-changing action of each VC
+    await this.scan(
+      (cursor): Promise<{ vc_id: string; action_type: RequestType; issuer_did: string }[]> =>
+        this.db.issuerActionLog.findMany({
+          where: {
+            action_type: {
+              in: [RequestType.REVOKE, RequestType.UPDATE, RequestType.RENEWAL],
+            },
+            ...(cursor && { vc_id: { gt: cursor } }),
+          },
+          distinct: ["vc_id"],
+          select: { vc_id: true, action_type: true, issuer_did: true },
+          orderBy: [{ vc_id: "asc" }, { createdAt: "desc" }],
+          take,
+        }),
+      (row) => row.vc_id,
+      async (rows) => {
+        for (const row of rows) {
+          const vc = onChain.get(row.vc_id);
+          const active = row.action_type === RequestType.RENEWAL;
+          if (!vc || vc.status === active) {
+            continue;
+          }
+
+          items.push(
+            this.discrepancy({
+              entity: "vc",
+              id: row.vc_id,
+              kind: RECONCILIATION_KIND.STATUS_MISMATCH,
+              source: "IssuerActionLog",
+              chain_hash: vc.hash,
+              issuer_did: row.issuer_did,
+              detail: `Latest logged action is ${row.action_type} but the VC is ${vc.status ? "active" : "inactive"} on chain`,
+            })
+          );
+        }
+      }
+    );
+
+    // Hashes recorded at issuance
+    await this.scan(
+      (cursor): Promise<{ id: string; vc_id: string; vc_hash: string; issuer_did: string }[]> =>
+        this.db.credentialOffer.findMany({
+          where: {
+            status: CredentialOfferStatus.ISSUED,
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          select: { id: true, vc_id: true, vc_hash: true, issuer_did: true },
+          orderBy: { id: "asc" },
+          take,
+        }),
+      (row) => row.id,
+      (rows) => this.compareIssuedHashes(rows, "CredentialOffer", onChain, items)
+    );
+
+    await this.scan(
+      (cursor): Promise<
+        { id: string; vc_id: string | null; vc_hash: string | null; job: { issuer_did: string } }[]
+      > =>
+        this.db.bulkIssuanceRow.findMany({
+          where: {
+            status: BulkIssuanceRowStatus.ISSUED,
+            vc_hash: { not: null },
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          select: {
+            id: true,
+            vc_id: true,
+            vc_hash: true,
+            job: { select: { issuer_did: true } },
+          },
+          orderBy: { id: "asc" },
+          take,
+        }),
+      (row) => row.id,
+      (rows) =>
+        this.compareIssuedHashes(
+          rows.map((row) => ({ ...row, issuer_did: row.job.issuer_did })),
+          "BulkIssuanceRow",
+          onChain,
+          items
+        )
+    );
+
+    return { items, repairs, onchain: chainVCs.length, db: dbVCs };
+  }
+
+  /**
+   * Like compareVCs, the on-chain schema list is held in memory and VCSchema is
+   * paged (by id and version)
+   */
+  private async compareSchemas(inFlight: Set<string>): Promise<Comparison> {
+    const chainSchemas = await this.vcBlockchainService.getAllSchemasFromBlockchain();
+
+    const items: ReconciliationDiscrepancyDTO[] = [];
+    const repairs = new Map<ReconciliationDiscrepancyDTO, () => Promise<unknown>>();
+    const key = (id: string, version: number) => `${id}#${version}`;
+    const onChain = new Map(
+      chainSchemas.map((schema) => [key(schema.id, Number(schema.version)), schema])
+    );
+    const withoutDBRecord = new Set(onChain.keys());
+    const take = RECONCILIATION.SCAN_CHUNK_SIZE;
+    let dbSchemas = 0;
+
+    await this.scan(
+      (cursor): Promise<
+        {
+          id: string;
+          version: number;
+          name: string;
+          issuer_did: string;
+          schema: Prisma.JsonValue;
+        }[]
+      > => {
+        const separator = cursor ? cursor.lastIndexOf("#") : -1;
+        const id = cursor?.substring(0, separator);
+        const version = cursor ? Number(cursor.substring(separator + 1)) : 0;
+
+        return this.db.vCSchema.findMany({
+          where: cursor
+            ? { OR: [{ id: { gt: id } }, { id, version: { gt: version } }] }
+            : undefined,
+          select: { id: true, version: true, name: true, issuer_did: true, schema: true },
+          orderBy: [{ id: "asc" }, { version: "asc" }],
+          take,
+        });
+      },
+      (row) => key(row.id, row.version),
+      async (rows) => {
+        dbSchemas += rows.length;
+
+        for (const dbSchema of rows) {
+          const schemaKey = key(dbSchema.id, dbSchema.version);
+          const chainSchema = onChain.get(schemaKey);
+          const dbHash = this.schemaHash(dbSchema.name, dbSchema.issuer_did, dbSchema.schema);
+          withoutDBRecord.delete(schemaKey);
+
+          if (!chainSchema) {
+            items.push(
+              this.discrepancy({
+                entity: "schema",
+                id: dbSchema.id,
+                version: dbSchema.version,
+                kind: RECONCILIATION_KIND.MISSING_ON_CHAIN,
+                source: "VCSchema",
+                db_hash: dbHash,
+                issuer_did: dbSchema.issuer_did,
+                detail: "VCSchema version was never anchored on chain",
+              })
+            );
+            continue;
+          }
+
+          const version = dbSchema.version;
+          const document = this.parseChainSchema(chainSchema);
+          const chainHash = this.schemaHash(
+            chainSchema.name,
+            chainSchema.issuerDID,
+            document.value
+          );
+          if (dbHash === chainHash) {
+            continue;
+          }
+
+          const differs = [
+            dbSchema.name !== chainSchema.name && "name",
+            dbSchema.issuer_did !== chainSchema.issuerDID && "issuer_did",
+            this.schemaHash("", "", dbSchema.schema) !==
+              this.schemaHash("", "", document.value) && "schema",
+          ].filter(Boolean);
+
+          const item = this.discrepancy({
+            entity: "schema",
+            id: chainSchema.id,
+            version,
+            kind: RECONCILIATION_KIND.HASH_MISMATCH,
+            source: "VCSchema",
+            chain_hash: chainHash,
+            db_hash: dbHash,
+            issuer_did: chainSchema.issuerDID,
+            detail: `VCSchema differs from the on-chain version in: ${differs.join(", ")}`,
+            // A different issuer is not corrected automatically
+            repairable:
+              document.parsed &&
+              dbSchema.issuer_did === chainSchema.issuerDID &&
+              !inFlight.has(chainSchema.id),
+          });
+          items.push(item);
+          if (item.repairable) {
+            repairs.set(item, () =>
+              this.db.vCSchema.update({
+                where: { id_version: { id: chainSchema.id, version } },
+                data: {
+                  name: chainSchema.name,
+                  schema: document.value as Prisma.InputJsonValue,
+                },
+              })
+            );
+          }
+        }
+      }
+    );
+
+    for (const schemaKey of withoutDBRecord) {
+      const chainSchema = onChain.get(schemaKey)!;
+      const version = Number(chainSchema.version);
+      const document = this.parseChainSchema(chainSchema);
+
+      const item = this.discrepancy({
+        entity: "schema",
+        id: chainSchema.id,
+        version,
+        kind: RECONCILIATION_KIND.MISSING_IN_DB,
+        source: "VCSchema",
+        chain_hash: this.schemaHash(chainSchema.name, chainSchema.issuerDID, document.value),
+        issuer_did: chainSchema.issuerDID,
+        detail: inFlight.has(chainSchema.id)
+          ? "Schema version is on chain, an outbox intent for it is still open"
+          : "Schema version is on chain but has no VCSchema row",
+        repairable: document.parsed && !inFlight.has(chainSchema.id),
+      });
+      items.push(item);
+      if (item.repairable) {
+        repairs.set(item, () =>
+          this.db.vCSchema.create({
+            data: {
+              id: chainSchema.id,
+              version,
+              name: chainSchema.name,
+              schema: document.value as Prisma.InputJsonValue,
+              issuer_did: chainSchema.issuerDID,
+              isActive: chainSchema.isActive,
+            },
+          })
+        );
+      }
+    }
+
+    return { items, repairs, onchain: chainSchemas.length, db: dbSchemas };
+  }
+
+  private summarize(
+    vcs: Comparison,
+    schemas: Comparison,
+    items: ReconciliationDiscrepancyDTO[]
+  ): ReconciliationSummaryDTO {
+    const counts = () => ({
+      [RECONCILIATION_KIND.MISSING_IN_DB]: 0,
+      [RECONCILIATION_KIND.MISSING_ON_CHAIN]: 0,
+      [RECONCILIATION_KIND.HASH_MISMATCH]: 0,
+      [RECONCILIATION_KIND.STATUS_MISMATCH]: 0,
+    });
+    const discrepancies = { vc: counts(), schema: counts() };
+    for (const item of items) {
+      discrepancies[item.entity][item.kind]++;
+    }
+
+    return {
+      onchain_vcs: vcs.onchain,
+      onchain_schemas: schemas.onchain,
+      db_vcs: vcs.db,
+      db_schemas: schemas.db,
+      discrepancies,
+      repairable: items.filter((item) => item.repairable).length,
+      repaired: items.filter((item) => item.repaired).length,
+    };
+  }
+
+  private toReportDTO(report: ReconciliationReport): ReconciliationReportDTO {
+    return {
+      report_id: report.id,
+      status: report.status,
+      repair: report.repair,
+      triggered_by: report.triggered_by,
+      summary: (report.summary as ReconciliationSummaryDTO | null) ?? null,
+      discrepancies: (report.discrepancies as ReconciliationDiscrepancyDTO[] | null) ?? [],
+      error: report.error,
+      started_at: report.started_at,
+      completed_at: report.completed_at,
+    };
+  }
+
+  /**
+   * Create a RUNNING report, unless another run is still going
+   */
+  private async createReport(repair: boolean, triggeredBy: string): Promise<ReconciliationReport> {
+    const staleBefore = new Date(
+      Date.now() - RECONCILIATION.STALE_AFTER_MINUTES * 60 * 1000
+    );
+    const running = await this.db.reconciliationReport.findFirst({
+      where: {
+        status: ReconciliationReportStatus.RUNNING,
+        started_at: { gt: staleBefore },
+      },
+    });
+    if (running) {
+      throw new ConflictError(`Reconciliation ${running.id} is still running`);
+    }
+
+    return this.db.reconciliationReport.create({
+      data: { repair, triggered_by: triggeredBy },
+    });
+  }
+
+  private async compareAll(): Promise<{
+    vcs: Comparison;
+    schemas: Comparison;
+    items: ReconciliationDiscrepancyDTO[];
+  }> {
+    const inFlight = await this.inFlightTargets();
+    const vcs = await this.compareVCs(inFlight);
+    const schemas = await this.compareSchemas(inFlight);
+    return { vcs, schemas, items: [...vcs.items, ...schemas.items] };
+  }
+
+  /**
+   * Compare, repair if requested, and store the result in the report
+   */
+  private async execute(report: ReconciliationReport): Promise<ReconciliationReportDTO> {
+    try {
+      const { vcs, schemas, items } = await this.compareAll();
+
+      if (report.repair) {
+        for (const [item, repair] of [...vcs.repairs, ...schemas.repairs]) {
+          try {
+            await repair();
+            item.repaired = true;
+          } catch (error: any) {
+            item.repair_error = error.message;
+            logger.error(
+              `[Reconciliation] Repair of ${item.entity} ${item.id} (${item.kind}) failed:`,
+              error
+            );
+          }
+        }
+      }
+
+      const summary = this.summarize(vcs, schemas, items);
+      const completed = await this.db.reconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: ReconciliationReportStatus.COMPLETED,
+          summary: summary as unknown as Prisma.InputJsonValue,
+          discrepancies: items as unknown as Prisma.InputJsonValue,
+          completed_at: new Date(),
+        },
+      });
+
+      logger.info(
+        `[Reconciliation] Report ${report.id}: ${items.length} discrepancies, ${summary.repaired} repaired`
+      );
+      return this.toReportDTO(completed);
+    } catch (error: any) {
+      await this.db.reconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: ReconciliationReportStatus.FAILED,
+          error: error.message,
+          completed_at: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Start a reconciliation in the background (admin endpoint)
+   * @throws ConflictError when another reconciliation is running
+   */
+  async start(options: {
+    repair: boolean;
+    triggeredBy: string;
+  }): Promise<ReconciliationReportDTO> {
+    const report = await this.createReport(options.repair, options.triggeredBy);
+
+    this.execute(report).catch((error) =>
+      logger.error(`[Reconciliation] Report ${report.id} failed:`, error)
+    );
+
+    return this.toReportDTO(report);
+  }
+
+  /**
+   * Run a reconciliation and wait for the report (CLI)
+   */
+  async run(options: {
+    repair: boolean;
+    triggeredBy: string;
+  }): Promise<ReconciliationReportDTO> {
+    const report = await this.createReport(options.repair, options.triggeredBy);
+    return this.execute(report);
+  }
+
+  /**
+   * Compare without repairing or storing a report (chain outbox drift report)
+   */
+  async compare(): Promise<{
+    summary: ReconciliationSummaryDTO;
+    discrepancies: ReconciliationDiscrepancyDTO[];
+  }> {
+    const { vcs, schemas, items } = await this.compareAll();
+    return { summary: this.summarize(vcs, schemas, items), discrepancies: items };
+  }
+
+  async getReport(reportId: string): Promise<ReconciliationReportDTO> {
+    const report = await this.db.reconciliationReport.findUnique({
+      where: { id: reportId },
+    });
+    if (!report) {
+      throw new NotFoundError(`Reconciliation report ${reportId} not found`);
+    }
+    return this.toReportDTO(report);
+  }
+
+  /**
+   * Discrepancies of a report as CSV
+   */
+  async getReportCsv(reportId: string): Promise<string> {
+    const report = await this.getReport(reportId);
+    return ReconciliationService.toCsv(report);
+  }
+
+  /**
+   * Recent reports, newest first (without their discrepancies)
+   */
+  async listReports(
+    limit: number = RECONCILIATION.LIST_LIMIT
+  ): Promise<Omit<ReconciliationReportDTO, "discrepancies">[]> {
+    const reports = await this.db.reconciliationReport.findMany({
+      orderBy: { started_at: "desc" },
+      take: limit,
+    });
+
+    return reports.map((report: ReconciliationReport) => {
+      const { discrepancies, ...rest } = this.toReportDTO(report);
+      return rest;
+    });
+  }
+
+  /**
+   * Serialize the discrepancies of a report (one row each)
+   */
+  static toCsv(report: ReconciliationReportDTO): string {
+    return ManifestHelper.toCsv(
+      RECONCILIATION.REPORT_COLUMNS,
+      report.discrepancies.map((item) => [
+        item.entity,
+        item.id,
+        item.version,
+        item.kind,
+        item.source,
+        item.chain_hash,
+        item.db_hash,
+        item.issuer_did,
+        item.detail,
+        String(item.repairable),
+        String(item.repaired),
+        item.repair_error,
+      ])
+    );
+  }
+}
+
+export default new ReconciliationService();
+export { ReconciliationService };
@@ -1,10 +1,20 @@
-import { BadRequestError, NotFoundError } from "../utils/errors/AppError";
+import {
+  BadRequestError,
+  InternalServerError,
+  NotFoundError,
+} from "../utils/errors/AppError";
 import logger from "../config/logger";
 import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import ChainOutboxService from "./blockchain/chainOutbox.service";
 import DIDBlockchainService from "./blockchain/didBlockchain.service";
 import StorageService from "./storage.service";
 import { prisma } from "../config/database";
-import { VCSchema, Prisma } from "@prisma/client";
+import {
+  VCSchema,
+  Prisma,
+  ChainOutboxOperation,
+  ChainOutboxStatus,
+} from "@prisma/client";
 import {
   CreateVCSchemaDTO,
   UpdateVCSchemaDTO,
@@ -16,6 +26,22 @@ import {
 } from "../dtos/schema.dto";
 import { SCHEMA_CONSTANTS } from "../constants/schema.constants";
 import { v4 as uuidv4 } from "uuid";
+import { ChainOutboxRunResult } from "../types";
+
+/**
+ * Chain outbox payload of a new schema (the database row is inserted with the
+ * ID already written on chain)
+ */
+interface CreateVCSchemaIntent {
+  id: string;
+  name: string;
+  schema: Prisma.JsonValue;
+  issuer_did: string;
+  issuer_name: string | null;
+  image_link: string | null;
+  expired_in: number | null;
+  auto_renewal: boolean;
+}
 
 /**
  * VC Schema Service
@@ -23,6 +49,7 @@ import { v4 as uuidv4 } from "uuid";
  * ARCHITECTURE STRATEGY:
  * - GET operations: Read from Database only (fast, no blockchain calls)
  * - POST/PUT/DELETE operations: Write to both Database + Blockchain (with rollback on failure)
+ * - Schema creation goes through the chain outbox (blockchain first, database insert retried)
  *
  * PRINCIPLES:
  * - Single Responsibility: Each method does one thing well
@@ -349,9 +376,10 @@ class SchemaService {
   ): Promise<VCSchemaOperationResponseDTO> {
     this.logStart("Create schema", data.name);
 
-    let createdSchema: VCSchema | null = null;
+    const schemaId = uuidv4();
     let uploadedImageUrl: string | null = null;
     let uploadedImageFileName: string | null = null;
+    let outcome: ChainOutboxRunResult<{ id: string; version: number }>;
 
     try {
       // Get DID document from blockchain
@@ -388,60 +416,30 @@ class SchemaService {
         }
       }
 
-      // 1. Create in database
-      createdSchema = await prisma.vCSchema.create({
-        data: {
-          name: data.name,
-          schema: data.schema as Prisma.InputJsonValue,
-          issuer_did: data.issuer_did,
-          issuer_name: issuerName,
-          image_link: uploadedImageUrl,
-          expired_in: data.expired_in ?? null, // Use provided value or null if not provided
-          version: SCHEMA_CONSTANTS.INITIAL_VERSION,
-          isActive: true,
-        },
-      });
-
-      this.logSuccess("Create schema in DB", `${createdSchema.id} v1`);
-
-      // 2. Create in blockchain
+      // 1. Create in blockchain, then in database (chain outbox)
       logger.info("Data :", data);
       logger.info("Schema :", data.schema);
-      const schemaString = this.toBlockchainFormat(data.schema);
-      logger.info("Schema String:", schemaString);
-      const receipt = await this.vcBlockchainService.createVCSchemaInBlockchain(
-        createdSchema.id,
-        data.name,
-        schemaString,
-        data.issuer_did
-      );
-
-      this.logSuccess("Create schema in blockchain", `TX: ${receipt.hash}`);
-
-      return {
-        message: SCHEMA_CONSTANTS.MESSAGES.CREATED,
-        schema: createdSchema,
-        transaction_hash: receipt.hash,
-      };
+      outcome = await ChainOutboxService.run<
+        CreateVCSchemaIntent,
+        { id: string; version: number }
+      >(ChainOutboxOperation.CREATE_VC_SCHEMA, `CREATE_VC_SCHEMA:${schemaId}`, {
+        id: schemaId,
+        name: data.name,
+        schema: data.schema,
+        issuer_did: data.issuer_did,
+        issuer_name: issuerName,
+        image_link: uploadedImageUrl,
+        expired_in: data.expired_in ?? null, // Use provided value or null if not provided
+        auto_renewal: data.auto_renewal ?? false,
+      });
     } catch (error: any) {
-      // Rollback database if blockchain fails
-      if (createdSchema) {
-        logger.warn(
-          `[SchemaService] Rolling back database for schema: ${createdSchema.id} v${createdSchema.version}`
-        );
-        await prisma.vCSchema
-          .delete({
-            where: {
-              id_version: {
-                id: createdSchema.id,
-                version: createdSchema.version,
-              },
-            },
-          })
-          .catch(() => {});
+      // Not confirmed yet: the outbox completes the insert (with the image) later
+      if (ChainOutboxService.isUnconfirmed(error)) {
+        this.logError("Create schema", error);
+        throw error;
       }
 
-      // Rollback uploaded image if exists
+      // Rollback uploaded image if exists (nothing was written on chain)
       if (uploadedImageFileName) {
         logger.warn(
           `[SchemaService] Rolling back uploaded image: ${uploadedImageFileName}`
@@ -457,6 +455,31 @@ class SchemaService {
         `${SCHEMA_CONSTANTS.MESSAGES.BLOCKCHAIN_FAILED}: ${error.message}`
       );
     }
+
+    if (outcome.status !== ChainOutboxStatus.COMPLETED) {
+      // Schema is on chain; the outbox retries the insert (the image is kept for it)
+      this.logError("Create schema in DB", outcome.last_error);
+      throw new InternalServerError(
+        `Schema ${schemaId} created in blockchain (TX: ${outcome.receipt.transaction_hash}), but database save failed. It is retried in the background (outbox ${outcome.outbox_id}). Error: ${outcome.last_error}`
+      );
+    }
+
+    const createdSchema = await prisma.vCSchema.findUniqueOrThrow({
+      where: {
+        id_version: { id: schemaId, version: SCHEMA_CONSTANTS.INITIAL_VERSION },
+      },
+    });
+
+    this.logSuccess(
+      "Create schema",
+      `${createdSchema.id} v1 (TX: ${outcome.receipt.transaction_hash})`
+    );
+
+    return {
+      message: SCHEMA_CONSTANTS.MESSAGES.CREATED,
+      schema: createdSchema,
+      transaction_hash: outcome.receipt.transaction_hash ?? undefined,
+    };
   }
 
   /**
@@ -534,6 +557,7 @@ class SchemaService {
         data.expired_in !== undefined
           ? data.expired_in
           : existingSchema.expired_in;
+      const finalAutoRenewal = data.auto_renewal ?? existingSchema.auto_renewal;
 
       // 2. Create new version in database
       const newVersion = existingSchema.version + 1;
@@ -546,6 +570,7 @@ class SchemaService {
           issuer_name: existingSchema.issuer_name,
           image_link: finalImageLink,
           expired_in: finalExpiredIn, // Use new value if provided, otherwise keep old value
+          auto_renewal: finalAutoRenewal,
           version: newVersion,
           isActive: true,
         },
@@ -799,6 +824,50 @@ class SchemaService {
   }
 }
 
+// ============================================
+// 🔹 CHAIN OUTBOX HANDLER
+// ============================================
+
+ChainOutboxService.register<CreateVCSchemaIntent, { id: string; version: number }>(
+  ChainOutboxOperation.CREATE_VC_SCHEMA,
+  {
+    isApplied: async (intent) => {
+      const schemas = await VCBlockchainService.getAllSchemasFromBlockchain();
+      return schemas.some((schema) => schema.id === intent.id);
+    },
+    submit: (intent) =>
+      VCBlockchainService.createVCSchemaInBlockchain(
+        intent.id,
+        intent.name,
+        JSON.stringify(intent.schema),
+        intent.issuer_did
+      ),
+    apply: async (tx, intent) => {
+      const createdSchema = await tx.vCSchema.create({
+        data: {
+          id: intent.id,
+          name: intent.name,
+          schema: intent.schema as Prisma.InputJsonValue,
+          issuer_did: intent.issuer_did,
+          issuer_name: intent.issuer_name,
+          image_link: intent.image_link,
+          expired_in: intent.expired_in,
+          auto_renewal: intent.auto_renewal,
+          version: SCHEMA_CONSTANTS.INITIAL_VERSION,
+          isActive: true,
+        },
+      });
+      return { id: createdSchema.id, version: createdSchema.version };
+    },
+    // The schema never reached the database: deactivate it on chain
+    compensate: (intent) =>
+      VCBlockchainService.deactivateVCSchemaInBlockchain(
+        intent.id,
+        SCHEMA_CONSTANTS.INITIAL_VERSION
+      ),
+  }
+);
+
 // Export singleton instance
 export default new SchemaService();
 
@@ -0,0 +1,385 @@
+import {
+  PrismaClient,
+  StatusPurpose,
+  StatusList,
+  StatusListEntry,
+} from "@prisma/client";
+import { gzipSync, gunzipSync } from "zlib";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import VCBlockchainConfig from "../config/vcblockchain";
+import Ledger from "./blockchain/ledger";
+import logger from "../config/logger";
+import { NotFoundError } from "../utils/errors/AppError";
+import { CanonicalizationHelper } from "../utils/helpers/canonicalization.helper";
+import { W3C_VC_CONTEXTS } from "../types/jsonld.types";
+import {
+  BitstringStatusListEntryDTO,
+  StatusListCredentialDTO,
+  StatusPurposeValue,
+  AllocateStatusResponseDTO,
+  VCStatusListStateDTO,
+} from "../dtos/statusList.dto";
+
+/**
+ * Status List Service with Dependency Injection
+ * Maintains W3C Bitstring Status Lists (revocation + suspension) per issuer
+ *
+ * - Every issued VC gets one index in the issuer's revocation list and one
+ *   in the issuer's suspension list
+ * - Bits are flipped when a VC is revoked / renewed / suspended
+ * - Lists are published as status list credentials signed by the
+ *   registry account that also anchors VC status on blockchain
+ */
+class StatusListService {
+  private db: PrismaClient;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: { db?: PrismaClient }) {
+    this.db = dependencies?.db || prisma;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Encode bitstring: GZIP + base64url with multibase "u" prefix
+   */
+  private encodeBitstring(bits: Buffer): string {
+    return "u" + gzipSync(bits).toString("base64url");
+  }
+
+  /**
+   * Decode bitstring encoded by encodeBitstring
+   */
+  private decodeBitstring(encodedList: string): Buffer {
+    const base64 = encodedList.startsWith("u")
+      ? encodedList.substring(1)
+      : encodedList;
+    return gunzipSync(Buffer.from(base64, "base64url"));
+  }
+
+  /**
+   * Bit 0 is the left-most bit of the first byte
+   */
+  private getBit(bits: Buffer, index: number): boolean {
+    return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  }
+
+  private setBit(bits: Buffer, index: number, value: boolean): void {
+    if (value) {
+      bits[index >> 3] |= 0x80 >> (index & 7);
+    } else {
+      bits[index >> 3] &= ~(0x80 >> (index & 7));
+    }
+  }
+
+  private toPurposeValue(purpose: StatusPurpose): StatusPurposeValue {
+    return purpose === StatusPurpose.SUSPENSION ? "suspension" : "revocation";
+  }
+
+  /**
+   * Public URL of a status list credential
+   */
+  getStatusListUrl(statusListId: string): string {
+    const baseUrl = (env.API_PUBLIC_URL || `http://localhost:${env.PORT}`)
+      .replace(/\/$/, "");
+    return `${baseUrl}/api/v1/status-lists/${statusListId}`;
+  }
+
+  /**
+   * Build the credentialStatus entry to embed in a VC
+   */
+  private toCredentialStatus(
+    entry: StatusListEntry
+  ): BitstringStatusListEntryDTO {
+    const statusListCredential = this.getStatusListUrl(entry.status_list_id);
+    return {
+      id: `${statusListCredential}#${entry.status_index}`,
+      type: "BitstringStatusListEntry",
+      statusPurpose: this.toPurposeValue(entry.purpose),
+      statusListIndex: entry.status_index.toString(),
+      statusListCredential,
+    };
+  }
+
+  /**
+   * Allocate (or return the existing) index for a VC in one purpose list
+   */
+  private async allocateIndex(
+    issuer_did: string,
+    vc_id: string,
+    purpose: StatusPurpose
+  ): Promise<StatusListEntry> {
+    return this.db.$transaction(async (tx) => {
+      // Serialize allocations per issuer and purpose, so concurrent issuances
+      // cannot both find no open list and create one each
+      await tx.$executeRaw`
+        SELECT pg_advisory_xact_lock(hashtext(${`${issuer_did}:${purpose}`}))
+      `;
+
+      const existing = await tx.statusListEntry.findUnique({
+        where: { vc_id_purpose: { vc_id, purpose } },
+      });
+
+      if (existing) {
+        return existing;
+      }
+
+      // Lock the issuer's current list that still has free indexes
+      const openLists = await tx.$queryRaw<{ id: string }[]>`
+        SELECT id FROM "StatusList"
+        WHERE issuer_did = ${issuer_did}
+          AND purpose = ${purpose}::"StatusPurpose"
+          AND next_index < size
+        ORDER BY "createdAt" ASC
+        LIMIT 1
+        FOR UPDATE
+      `;
+
+      let statusListId = openLists[0]?.id;
+
+      if (!statusListId) {
+        const size = 131072;
+        const newList = await tx.statusList.create({
+          data: {
+            issuer_did,
+            purpose,
+            size,
+            encoded_list: this.encodeBitstring(Buffer.alloc(size / 8)),
+          },
+        });
+        statusListId = newList.id;
+        logger.info(
+          `Created ${purpose} status list ${statusListId} for issuer ${issuer_did}`
+        );
+      }
+
+      const list = await tx.statusList.update({
+        where: { id: statusListId },
+        data: { next_index: { increment: 1 } },
+      });
+
+      return tx.statusListEntry.create({
+        data: {
+          vc_id,
+          purpose,
+          status_list_id: statusListId,
+          status_index: list.next_index - 1,
+        },
+      });
+    });
+  }
+
+  /**
+   * Sign a status list credential with the registry account
+   * (EIP-191 personal_sign over the JCS-canonical credential)
+   *
+   * The registry key is secp256k1, so the ES256 suite of issued VCs does not
+   * apply. The proof type names the actual scheme: verify with
+   * ethers.verifyMessage(JCS(credential without proof), proofValue) against
+   * the account in the did:pkh issuer.
+   */
+  private async signStatusListCredential(
+    credential: StatusListCredentialDTO
+  ): Promise<StatusListCredentialDTO> {
+    const signer = VCBlockchainConfig.signer;
+    const canonical = CanonicalizationHelper.canonicalizeJCS(credential);
+    const proofValue = await signer.signMessage(canonical);
+
+    return {
+      ...credential,
+      proof: {
+        type: "EthereumEip191Signature",
+        created: new Date().toISOString(),
+        verificationMethod: `${credential.issuer}#blockchainAccountId`,
+        proofPurpose: "assertionMethod",
+        proofValue,
+      },
+    };
+  }
+
+  /**
+   * DID of the registry account that publishes the status lists
+   */
+  private async getRegistryDID(): Promise<string> {
+    const chainId = await Ledger.getChainId();
+    return `did:pkh:eip155:${chainId}:${VCBlockchainConfig.signer.address}`;
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Allocate revocation and suspension indexes for a VC (idempotent)
+   * Returns the credentialStatus entries to embed in the VC
+   */
+  async allocateStatus(
+    issuer_did: string,
+    vc_id: string
+  ): Promise<AllocateStatusResponseDTO> {
+    const revocation = await this.allocateIndex(
+      issuer_did,
+      vc_id,
+      StatusPurpose.REVOCATION
+    );
+    const suspension = await this.allocateIndex(
+      issuer_did,
+      vc_id,
+      StatusPurpose.SUSPENSION
+    );
+
+    logger.info(
+      `Status indexes for VC ${vc_id}: revocation=${revocation.status_index}, suspension=${suspension.status_index}`
+    );
+
+    return {
+      vc_id,
+      credential_status: [
+        this.toCredentialStatus(revocation),
+        this.toCredentialStatus(suspension),
+      ],
+    };
+  }
+
+  /**
+   * Allocated entries that a credential does not embed in its credentialStatus
+   * (matched by status list credential, index and purpose)
+   */
+  getMissingEntries(
+    credential: any,
+    entries: BitstringStatusListEntryDTO[]
+  ): BitstringStatusListEntryDTO[] {
+    const embedded: any[] = [credential?.credentialStatus ?? []].flat();
+
+    return entries.filter(
+      (entry) =>
+        !embedded.some(
+          (status) =>
+            status?.statusListCredential === entry.statusListCredential &&
+            String(status?.statusListIndex) === entry.statusListIndex &&
+            status?.statusPurpose === entry.statusPurpose
+        )
+    );
+  }
+
+  /**
+   * Set or clear the status bit of a VC in one purpose list
+   * @returns false if the VC has no index in that list
+   */
+  async setStatus(
+    vc_id: string,
+    purpose: StatusPurpose,
+    value: boolean
+  ): Promise<boolean> {
+    return this.db.$transaction(async (tx) => {
+      const entry = await tx.statusListEntry.findUnique({
+        where: { vc_id_purpose: { vc_id, purpose } },
+      });
+
+      if (!entry) {
+        logger.warn(`VC ${vc_id} has no ${purpose} status list index`);
+        return false;
+      }
+
+      await tx.$queryRaw`
+        SELECT id FROM "StatusList" WHERE id = ${entry.status_list_id} FOR UPDATE
+      `;
+
+      const list = (await tx.statusList.findUnique({
+        where: { id: entry.status_list_id },
+      })) as StatusList;
+
+      const bits = this.decodeBitstring(list.encoded_list);
+      this.setBit(bits, entry.status_index, value);
+
+      await tx.statusList.update({
+        where: { id: list.id },
+        data: { encoded_list: this.encodeBitstring(bits) },
+      });
+
+      logger.success(
+        `${purpose} bit for VC ${vc_id} set to ${value} (list ${list.id}, index ${entry.status_index})`
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Read the revocation/suspension state of a VC from the status lists
+   * @returns null if the VC has no status list entries
+   */
+  async getStatus(vc_id: string): Promise<VCStatusListStateDTO | null> {
+    const entries = await this.db.statusListEntry.findMany({
+      where: { vc_id },
+      include: { statusList: true },
+    });
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const state: VCStatusListStateDTO = {
+      vc_id,
+      revoked: false,
+      suspended: false,
+    };
+
+    for (const entry of entries) {
+      const bits = this.decodeBitstring(entry.statusList.encoded_list);
+      const isSet = this.getBit(bits, entry.status_index);
+      if (entry.purpose === StatusPurpose.REVOCATION) {
+        state.revoked = isSet;
+      } else {
+        state.suspended = isSet;
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Get the signed status list credential for publication
+   */
+  async getStatusListCredential(
+    statusListId: string
+  ): Promise<StatusListCredentialDTO> {
+    const list = await this.db.statusList.findUnique({
+      where: { id: statusListId },
+    });
+
+    if (!list) {
+      throw new NotFoundError(`Status list ${statusListId} not found`);
+    }
+
+    const url = this.getStatusListUrl(list.id);
+
+    const credential: StatusListCredentialDTO = {
+      "@context": [W3C_VC_CONTEXTS.CREDENTIALS_V2],
+      id: url,
+      type: ["VerifiableCredential", "BitstringStatusListCredential"],
+      issuer: await this.getRegistryDID(),
+      validFrom: list.updatedAt.toISOString(),
+      credentialSubject: {
+        id: `${url}#list`,
+        type: "BitstringStatusList",
+        statusPurpose: this.toPurposeValue(list.purpose),
+        encodedList: list.encoded_list,
+        issuerDID: list.issuer_did,
+      },
+    };
+
+    return this.signStatusListCredential(credential);
+  }
+}
+
+// Export singleton instance for backward compatibility
+export default new StatusListService();
+
+// Export class for testing and custom instantiation
+export { StatusListService };
@@ -0,0 +1,395 @@
+import { PrismaClient, RequestStatus } from "@prisma/client";
+import { prisma } from "../config/database";
+import { env } from "../config/env";
+import logger from "../config/logger";
+import VCBlockchainService from "./blockchain/vcBlockchain.service";
+import DIDMethodRegistry from "./didMethods/didMethodRegistry.service";
+import NotificationService from "./notification.service";
+import { sendVCExpiryReminderEmail } from "./email.service";
+import { encryptWithPublicKey } from "../utils/encryptUtil";
+import { NotFoundError } from "../utils/errors/AppError";
+import { LedgerVCRecord } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCAN_CHUNK_SIZE = 200;
+// VCs that expired longer ago than this get no expired notice (e.g. on first run)
+const EXPIRED_NOTICE_WINDOW_DAYS = 30;
+
+/**
+ * Reminder due for a VC (the tightest threshold it has crossed)
+ */
+interface DueReminder {
+  vcId: string;
+  holderDID: string;
+  issuerDID: string;
+  vcType: string;
+  schemaID: string;
+  schemaVersion: number;
+  expiredAt: string; // On-chain value, part of the reminder key
+  expiresAt: Date;
+  daysLeft: number;
+  daysBefore: number;
+}
+
+/**
+ * VC Expiry Service with Dependency Injection
+ * Reminds holders of credentials nearing or past their expiry date
+ *
+ * - Scans the VCs in IssuerVCData and reads their expiredAt from the chain
+ *   (revoked VCs and VCs without expiry are skipped)
+ * - Holders get a push notification, and an email for push tokens registered
+ *   with one, VC_EXPIRY_REMINDER_DAYS days before expiry and once expired
+ * - For schemas with auto_renewal, the first reminder also creates an encrypted
+ *   VCRenewalRequest to the issuer
+ *
+ * Each reminder is stored in VCExpiryReminder (VC, on-chain expiredAt, threshold)
+ * and marked sent once delivered, so it is sent once; a renewal changes expiredAt
+ * and the reminders start over.
+ */
+class VCExpiryService {
+  private db: PrismaClient;
+  private vcBlockchainService: typeof VCBlockchainService;
+  private registry: typeof DIDMethodRegistry;
+  private notificationService: typeof NotificationService;
+  private sendEmail: typeof sendVCExpiryReminderEmail;
+  private running = false;
+
+  /**
+   * Constructor with dependency injection
+   * @param dependencies - Optional dependencies for testing
+   */
+  constructor(dependencies?: {
+    db?: PrismaClient;
+    vcBlockchainService?: typeof VCBlockchainService;
+    registry?: typeof DIDMethodRegistry;
+    notificationService?: typeof NotificationService;
+    sendEmail?: typeof sendVCExpiryReminderEmail;
+  }) {
+    this.db = dependencies?.db || prisma;
+    this.vcBlockchainService =
+      dependencies?.vcBlockchainService || VCBlockchainService;
+    this.registry = dependencies?.registry || DIDMethodRegistry;
+    this.notificationService =
+      dependencies?.notificationService || NotificationService;
+    this.sendEmail = dependencies?.sendEmail || sendVCExpiryReminderEmail;
+  }
+
+  // ============================================
+  // 🔹 PRIVATE HELPER METHODS
+  // ============================================
+
+  /**
+   * Threshold a VC is due for: the smallest configured day count not below the
+   * days left, 0 once expired, null when no reminder is due yet
+   */
+  private dueThreshold(daysLeft: number): number | null {
+    if (daysLeft <= 0) {
+      return daysLeft > -EXPIRED_NOTICE_WINDOW_DAYS ? 0 : null;
+    }
+
+    const crossed = env.VC_EXPIRY_REMINDER_DAYS.filter((day) => daysLeft <= day);
+    return crossed.length > 0 ? Math.min(...crossed) : null;
+  }
+
+  /**
+   * Read the on-chain record of a VC and work out which reminder is due
+   */
+  private async checkVC(vcId: string, now: Date): Promise<DueReminder | null> {
+    let record: LedgerVCRecord;
+    try {
+      record = await this.vcBlockchainService.getVCStatusFromBlockchain(vcId);
+    } catch (error) {
+      // Batch anchored VCs have no VCManager entry of their own
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!record.status || !record.expiredAt) {
+      return null;
+    }
+
+    const expiresAt = new Date(record.expiredAt);
+    if (isNaN(expiresAt.getTime())) {
+      return null;
+    }
+
+    const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+    const daysBefore = this.dueThreshold(daysLeft);
+    if (daysBefore === null) {
+      return null;
+    }
+
+    return {
+      vcId,
+      holderDID: record.holderDID,
+      issuerDID: record.issuerDID,
+      vcType: record.vcType,
+      schemaID: record.schemaID,
+      schemaVersion: Number(record.schemaVersion),
+      expiredAt: record.expiredAt,
+      expiresAt,
+      daysLeft: Math.max(daysLeft, 0),
+      daysBefore,
+    };
+  }
+
+  /**
+   * Renewal request to the issuer for an auto-renewal schema, created once per
+   * expiry date (a rejected request is not repeated at the next threshold)
+   */
+  private async ensureRenewalRequest(
+    due: DueReminder
+  ): Promise<{ id: string; created: boolean }> {
+    const previous = await this.db.vCExpiryReminder.findFirst({
+      where: {
+        vc_id: due.vcId,
+        expired_at: due.expiredAt,
+        renewal_request_id: { not: null },
+      },
+    });
+    if (previous?.renewal_request_id) {
+      return { id: previous.renewal_request_id, created: false };
+    }
+
+    const issuerDIDDocument = await this.registry.resolve(due.issuerDID);
+    if (!issuerDIDDocument.found || issuerDIDDocument.status === "InActive") {
+      throw new Error(`Issuer DID ${due.issuerDID} is not active`);
+    }
+    if (issuerDIDDocument.keyType && issuerDIDDocument.keyType !== "P-256") {
+      throw new Error(`Issuer DID ${due.issuerDID} has no P-256 key for encryption`);
+    }
+
+    const encryptedBody = await encryptWithPublicKey(
+      {
+        vc_id: due.vcId,
+        expired_at: due.expiredAt,
+        reason: "Automatic renewal request: the credential is about to expire",
+      },
+      issuerDIDDocument[issuerDIDDocument.keyId]
+    );
+
+    const renewalRequest = await this.db.vCRenewalRequest.create({
+      data: {
+        issuer_did: due.issuerDID,
+        holder_did: due.holderDID,
+        vc_id: due.vcId,
+        encrypted_body: encryptedBody,
+        status: RequestStatus.PENDING,
+      },
+    });
+
+    logger.success(
+      `Automatic renewal request ${renewalRequest.id} created for VC ${due.vcId}`
+    );
+    return { id: renewalRequest.id, created: true };
+  }
+
+  /**
+   * Email the reminder to the addresses registered with the holder's push tokens
+   */
+  private async sendEmails(
+    due: DueReminder,
+    credentialName: string,
+    issuerName: string
+  ): Promise<void> {
+    const tokens = await this.db.pushToken.findMany({
+      where: { holder_did: due.holderDID, isActive: true, email: { not: null } },
+      select: { email: true },
+    });
+
+    const addresses = Array.from(
+      new Set<string>(tokens.map((token) => token.email!))
+    );
+    for (const to of addresses) {
+      try {
+        await this.sendEmail({
+          to,
+          credentialName,
+          issuerName,
+          vcId: due.vcId,
+          expiredAt: due.expiresAt,
+          daysLeft: due.daysLeft,
+        });
+      } catch (error: any) {
+        logger.error(`Failed to email expiry reminder for VC ${due.vcId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Record the reminder, then create the renewal request and notify the holder
+   * The reminder is marked sent only once the push notification went out; a
+   * failed one stays eligible (and keeps its renewal request) for the next run
+   * @returns null when the reminder was already sent or could not be sent
+   */
+  private async sendReminder(
+    due: DueReminder
+  ): Promise<{ renewalRequestCreated: boolean } | null> {
+    const key = {
+      vc_id: due.vcId,
+      expired_at: due.expiredAt,
+      days_before: due.daysBefore,
+    };
+
+    const existing = await this.db.vCExpiryReminder.findUnique({
+      where: { vc_id_expired_at_days_before: key },
+    });
+    if (existing?.sent_at) {
+      return null;
+    }
+
+    let reminderId: string;
+    if (existing) {
+      reminderId = existing.id;
+    } else {
+      try {
+        const reminder = await this.db.vCExpiryReminder.create({
+          data: { ...key, holder_did: due.holderDID, issuer_did: due.issuerDID },
+        });
+        reminderId = reminder.id;
+      } catch (error: any) {
+        // Claimed by a concurrent run
+        if (error.code === "P2002") {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    const schema = await this.db.vCSchema.findUnique({
+      where: { id_version: { id: due.schemaID, version: due.schemaVersion } },
+    });
+    const credentialName = schema?.name ?? due.vcType;
+
+    let renewalRequestId: string | null = null;
+    let renewalRequestCreated = false;
+    if (schema?.auto_renewal) {
+      try {
+        const renewalRequest = await this.ensureRenewalRequest(due);
+        renewalRequestId = renewalRequest.id;
+        renewalRequestCreated = renewalRequest.created;
+        await this.db.vCExpiryReminder.update({
+          where: { id: reminderId },
+          data: { renewal_request_id: renewalRequestId },
+        });
+      } catch (error: any) {
+        logger.error(
+          `Failed to create automatic renewal request for VC ${due.vcId}:`,
+          error
+        );
+      }
+    }
+
+    const summary =
+      due.daysLeft > 0
+        ? `Your ${credentialName} credential expires in ${due.daysLeft} day${due.daysLeft === 1 ? "" : "s"}.`
+        : `Your ${credentialName} credential has expired.`;
+
+    const delivered = await this.notificationService.sendVCStatusNotification(
+      due.holderDID,
+      due.daysLeft > 0 ? "Credential Expiring Soon" : "Credential Expired",
+      renewalRequestId
+        ? `${summary} A renewal request has been sent to the issuer.`
+        : summary,
+      {
+        type: due.daysLeft > 0 ? "VC_EXPIRY_REMINDER" : "VC_EXPIRED",
+        vc_id: due.vcId,
+        expired_at: due.expiredAt,
+        days_left: due.daysLeft,
+        ...(renewalRequestId && { renewal_request_id: renewalRequestId }),
+      }
+    );
+
+    if (!delivered) {
+      logger.warn(
+        `Expiry reminder for VC ${due.vcId} (${due.daysBefore} days) not delivered, retried on the next run`
+      );
+      return null;
+    }
+
+    await this.sendEmails(
+      due,
+      credentialName,
+      schema?.issuer_name ?? due.issuerDID
+    );
+
+    await this.db.vCExpiryReminder.update({
+      where: { id: reminderId },
+      data: { sent_at: new Date() },
+    });
+
+    return { renewalRequestCreated };
+  }
+
+  // ============================================
+  // 🔹 PUBLIC METHODS
+  // ============================================
+
+  /**
+   * Scan all credentials and send the reminders that are due
+   * (skipped while a previous scan is still running)
+   */
+  async runOnce(now: Date = new Date()): Promise<{
+    scanned: number;
+    reminders: number;
+    renewal_requests: number;
+  }> {
+    const result = { scanned: 0, reminders: 0, renewal_requests: 0 };
+
+    if (!env.VC_EXPIRY_REMINDERS_ENABLED || this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      let cursor: string | null = null;
+
+      while (true) {
+        // The same VC may appear in several IssuerVCData rows
+        const vcs: { vc_id: string | null }[] =
+          await this.db.issuerVCData.findMany({
+            where: { vc_id: cursor ? { gt: cursor } : { not: null } },
+            distinct: ["vc_id"],
+            select: { vc_id: true },
+            orderBy: { vc_id: "asc" },
+            take: SCAN_CHUNK_SIZE,
+          });
+
+        if (vcs.length === 0) {
+          break;
+        }
+
+        for (const { vc_id } of vcs) {
+          result.scanned++;
+          try {
+            const due = await this.checkVC(vc_id!, now);
+            if (!due) {
+              continue;
+            }
+
+            const sent = await this.sendReminder(due);
+            if (sent) {
+              result.reminders++;
+              if (sent.renewalRequestCreated) {
+                result.renewal_requests++;
+              }
+            }
+          } catch (error: any) {
+            logger.error(`Expiry check failed for VC ${vc_id}:`, error);
+          }
+        }
+
+        cursor = vcs[vcs.length - 1].vc_id;
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return result;
+  }
+}
+
+export default new VCExpiryService();
+export { VCExpiryService };
@@ -0,0 +1,86 @@
+/**
+ * Memory Ledger Integration Test
+ * Runs the issue -> verify -> revoke -> verify flow through DIDBlockchainService
+ * and VCBlockchainService on the in-memory ledger (offline, no RPC node)
+ *
+ * npm test
+ */
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { MemoryLedgerAdapter } from "../services/blockchain/ledger";
+import { DIDBlockchainService } from "../services/blockchain/didBlockchain.service";
+import { VCBlockchainService } from "../services/blockchain/vcBlockchain.service";
+import { BlockchainError } from "../utils/errors/AppError";
+
+const ISSUER_DID = `did:dcert:i${"a".repeat(44)}`;
+const HOLDER_DID = `did:dcert:u${"b".repeat(44)}`;
+const SCHEMA_ID = "5b0e2a3c-9a8e-4f1b-8a61-0d6f0a1c2b3d";
+const VC_ID = "0f6b1c2d-3e4f-4a5b-8c6d-7e8f9a0b1c2d";
+const VC_HASH = ethers.id("credential");
+
+describe("memory ledger: VC lifecycle", () => {
+  let didBlockchain: DIDBlockchainService;
+  let vcBlockchain: VCBlockchainService;
+
+  beforeEach(async () => {
+    const ledger = new MemoryLedgerAdapter({ chainId: 1337 });
+    didBlockchain = new DIDBlockchainService({ ledger });
+    vcBlockchain = new VCBlockchainService({ ledger });
+
+    await didBlockchain.registerIndividualDID(HOLDER_DID, "0x04holder");
+    await vcBlockchain.createVCSchemaInBlockchain(
+      SCHEMA_ID,
+      "Ijazah",
+      JSON.stringify({ type: "object" }),
+      ISSUER_DID
+    );
+  });
+
+  it("issues, verifies and revokes a VC", async () => {
+    const receipt = await vcBlockchain.issueVCInBlockchain(
+      VC_ID,
+      ISSUER_DID,
+      HOLDER_DID,
+      "Ijazah",
+      SCHEMA_ID,
+      1,
+      undefined,
+      VC_HASH
+    );
+    assert.equal(receipt.status, 1);
+    assert.equal(await didBlockchain.isDIDRegistered(HOLDER_DID), true);
+
+    assert.equal(await vcBlockchain.verifyVCInBlockchain(VC_ID, VC_HASH), true);
+    assert.equal(
+      await vcBlockchain.verifyVCInBlockchain(VC_ID, ethers.id("tampered")),
+      false
+    );
+
+    await vcBlockchain.revokeVCInBlockchain(VC_ID);
+
+    assert.equal(await vcBlockchain.verifyVCInBlockchain(VC_ID, VC_HASH), false);
+    const status = await vcBlockchain.getVCStatusFromBlockchain(VC_ID);
+    assert.equal(status.status, false);
+    assert.equal(status.holderDID, HOLDER_DID);
+    assert.equal(status.hash, VC_HASH);
+  });
+
+  it("rejects a VC ID that is already on the ledger", async () => {
+    const issue = () =>
+      vcBlockchain.issueVCInBlockchain(
+        VC_ID,
+        ISSUER_DID,
+        HOLDER_DID,
+        "Ijazah",
+        SCHEMA_ID,
+        1,
+        undefined,
+        VC_HASH
+      );
+
+    await issue();
+    await assert.rejects(issue, BlockchainError);
+    assert.equal((await vcBlockchain.getAllVCsFromBlockchain()).length, 1);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Chain Outbox Type Definitions
+ * Handlers of the on-chain writes executed through ChainOutboxService
+ */
+
+import { Prisma } from '@prisma/client';
+import { LedgerReceipt } from './ledger.types';
+
+/**
+ * On-chain write of an intent (transaction_hash is null when the write was
+ * found already applied while resuming an interrupted intent)
+ */
+export interface ChainOutboxReceipt {
+  transaction_hash: string | null;
+  block_number: number | null;
+}
+
+/**
+ * Steps of one outbox operation (registered by the service that owns it)
+ * P = payload persisted with the intent, R = result of the database step
+ */
+export interface ChainOutboxHandler<P = any, R = any> {
+  /**
+   * Whether the on-chain write already happened (checked before resubmitting
+   * an interrupted intent, and after a failed submit)
+   */
+  isApplied(payload: P): Promise<boolean>;
+
+  /**
+   * The on-chain write
+   */
+  submit(payload: P): Promise<LedgerReceipt>;
+
+  /**
+   * Database writes, run in the transaction that completes the intent
+   */
+  apply(tx: Prisma.TransactionClient, payload: P, receipt: ChainOutboxReceipt): Promise<R>;
+
+  /**
+   * Non-critical side effects after commit (status lists, notifications)
+   */
+  afterCommit?(payload: P, result: R, receipt: ChainOutboxReceipt): Promise<void>;
+
+  /**
+   * Undo the on-chain write when the database step keeps failing
+   * (omitted when the write has no inverse, the intent then ends FAILED)
+   */
+  compensate?(payload: P): Promise<LedgerReceipt>;
+}
+
+/**
+ * State of an intent after ChainOutboxService.run executed it inline
+ * (status CHAIN_CONFIRMED = chain write done, database step left to the worker)
+ */
+export interface ChainOutboxRunResult<R = any> {
+  outbox_id: string;
+  status: string;
+  receipt: ChainOutboxReceipt;
+  result: R | null;
+  last_error: string | null;
+}
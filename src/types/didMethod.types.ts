@@ -0,0 +1,41 @@
+/**
+ * DID Method Type Definitions
+ * Resolvers for DID methods other than did:dcert (which is resolved on-chain)
+ */
+
+import { W3CDIDDocumentDTO } from '../dtos/did.dto';
+
+/**
+ * Curve of a verification key (ES256 / EdDSA)
+ */
+export type DIDKeyType = 'P-256' | 'Ed25519';
+
+/**
+ * Public key of a verification method, hex encoded
+ * P-256 keys are uncompressed (04 || x || y), Ed25519 keys are the raw 32 bytes
+ */
+export interface DIDPublicKey {
+  keyType: DIDKeyType;
+  publicKeyHex: string;
+}
+
+/**
+ * Resolver of one DID method (registered in DIDMethodRegistry)
+ */
+export interface DIDMethodResolver {
+  readonly method: string; // e.g. "key" for did:key
+
+  /**
+   * Resolve the W3C DID document, null if the DID does not exist
+   * Throws for malformed DIDs and documents
+   */
+  resolve(did: string): Promise<W3CDIDDocumentDTO | null>;
+}
+
+/**
+ * HTTP client used by the did:web resolver (replaceable by a local mock)
+ * Resolves with the parsed JSON body, or null for 404 / 410
+ */
+export interface DIDWebHttpClient {
+  getJson(url: string): Promise<unknown | null>;
+}
@@ -6,4 +6,7 @@
 export * from './jwt.types';
 export * from './common.types';
 export * from './schema.types';
+export * from './ledger.types';
+export * from './didMethod.types';
+export * from './chainOutbox.types';
 // express.d.ts is a global declaration file, no need to export
@@ -152,6 +152,8 @@ export const W3C_VC_CONTEXTS = {
   SECURITY_V1: "https://w3id.org/security/v1",
   SECURITY_V2: "https://w3id.org/security/v2",
   ED25519_V1: "https://w3id.org/security/suites/ed25519-2020/v1",
+  JWS_2020_V1: "https://w3id.org/security/suites/jws-2020/v1",
+  MULTIKEY_V1: "https://w3id.org/security/multikey/v1",
 } as const;
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * Ledger Type Definitions
+ * Storage-agnostic view of the DIDManager / VCManager registries
+ */
+
+/**
+ * Ledger backend selected with LEDGER_DRIVER
+ */
+export type LedgerDriver = 'evm' | 'memory';
+
+/**
+ * Result of a ledger write (an ethers TransactionReceipt satisfies it)
+ */
+export interface LedgerReceipt {
+  hash: string;
+  blockNumber: number;
+  status: number | null; // 1 = success
+}
+
+/**
+ * DID entry as returned by getDIDDocument
+ */
+export interface LedgerDIDRecord {
+  status: number; // 0 = Active, 1 = InActive
+  role: number; // 1 = Individual, 2 = Institutional
+  activeKeyId: string;
+}
+
+export interface LedgerInstitutionDetails {
+  did: string;
+  email: string;
+  name: string;
+  phone: string;
+  country: string;
+  website: string;
+  addressInfo: string;
+}
+
+/**
+ * One version of a VC schema
+ */
+export interface LedgerVCSchema {
+  id: string;
+  name: string;
+  schema: string;
+  issuerDID: string;
+  version: number;
+  isActive: boolean;
+}
+
+/**
+ * VC entry as returned by getVCStatus / getAllVCs
+ */
+export interface LedgerVCRecord {
+  id: string;
+  issuerDID: string;
+  holderDID: string;
+  vcType: string;
+  schemaID: string;
+  schemaVersion: number;
+  status: boolean; // true = active, false = revoked/inactive
+  expiredAt: string; // Empty string if the VC never expires
+  hash: string;
+}
+
+/**
+ * Ledger Adapter
+ * Every backend must keep the contract semantics: writes that the contracts
+ * would revert throw an Error with the same reason, and getVCStatus of an
+ * unknown VC throws an Error whose message contains "VC not found"
+ */
+export interface LedgerAdapter {
+  readonly driver: LedgerDriver;
+
+  // Connection
+  testConnection(): Promise<boolean>;
+  isConnected(): Promise<boolean>;
+  getBlockNumber(): Promise<number>;
+  getChainId(): Promise<bigint>;
+
+  // DID registry
+  registerIndividual(did: string, keyId: string, publicKey: string): Promise<LedgerReceipt>;
+  registerInstitution(
+    did: string,
+    keyId: string,
+    publicKey: string,
+    details: Omit<LedgerInstitutionDetails, 'did'>
+  ): Promise<LedgerReceipt>;
+  registerNewKey(did: string, keyId: string, publicKey: string): Promise<LedgerReceipt>;
+  deactivateDID(did: string): Promise<LedgerReceipt>;
+  isRegistered(did: string): Promise<boolean>;
+  getDIDDocument(did: string): Promise<LedgerDIDRecord>;
+  getActiveKeyId(did: string): Promise<string>;
+  getKey(did: string, keyId?: string): Promise<string>;
+  getInstitutionDetails(did: string): Promise<LedgerInstitutionDetails>;
+  getDIDCount(): Promise<bigint>;
+
+  // VC schema registry
+  createVCSchema(id: string, name: string, schema: string, issuerDID: string): Promise<LedgerReceipt>;
+  updateVCSchema(id: string, newSchema: string): Promise<LedgerReceipt>;
+  deactivateVCSchema(id: string, version: number): Promise<LedgerReceipt>;
+  reactivateVCSchema(id: string, version: number): Promise<LedgerReceipt>;
+  getAllSchemas(): Promise<LedgerVCSchema[]>;
+
+  // VC registry
+  issueVC(vc: Omit<LedgerVCRecord, 'status'>): Promise<LedgerReceipt>;
+  renewVC(id: string, expiredAt: string, hash: string): Promise<LedgerReceipt>;
+  updateVC(oldId: string, vc: Omit<LedgerVCRecord, 'status'>): Promise<LedgerReceipt>;
+  revokeVC(id: string): Promise<LedgerReceipt>;
+  verifyVC(id: string, hash: string): Promise<boolean>;
+  getVCStatus(id: string): Promise<LedgerVCRecord>;
+  getAllVCs(): Promise<LedgerVCRecord[]>;
+}
@@ -74,6 +74,41 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Gone Error (410)
+ * Resource existed but has expired or may no longer be used
+ */
+export class GoneError extends AppError {
+  constructor(message: string = "Resource has expired") {
+    super(message, 410);
+    this.name = 'GoneError';
+    Object.setPrototypeOf(this, GoneError.prototype);
+  }
+}
+
+/**
+ * OAuth 2.0 Error (RFC 6749 section 5.2)
+ * Used by the OID4VCI endpoints, which must answer wallets with
+ * { error, error_description } instead of the standard response envelope
+ */
+export class OAuthError extends AppError {
+  public readonly error: string;
+  public readonly extra?: Record<string, unknown>;
+
+  constructor(
+    error: string,
+    message: string,
+    statusCode: number = 400,
+    extra?: Record<string, unknown>
+  ) {
+    super(message, statusCode);
+    this.error = error;
+    this.extra = extra;
+    this.name = 'OAuthError';
+    Object.setPrototypeOf(this, OAuthError.prototype);
+  }
+}
+
 /**
  * Validation Error (422)
  */
@@ -0,0 +1,168 @@
+import { ethers } from "ethers";
+import jsonld, { Options } from "jsonld";
+import { JsonLd, RemoteDocument } from "jsonld/jsonld-spec";
+import { env } from "../../config/env";
+import { W3C_VC_CONTEXTS } from "../../types/jsonld.types";
+import credentialsV1Context from "../contexts/credentials-v1.json";
+import credentialsV2Context from "../contexts/credentials-v2.json";
+import dataIntegrityV2Context from "../contexts/data-integrity-v2.json";
+import didV1Context from "../contexts/did-v1.json";
+import securityV1Context from "../contexts/security-v1.json";
+import securityV2Context from "../contexts/security-v2.json";
+import ed25519V1Context from "../contexts/ed25519-2020-v1.json";
+
+/**
+ * Canonicalization Helper
+ * Deterministic serialization and hashing of credentials so that wallets
+ * and the backend always compute the same hash for the same VC.
+ *
+ * - JCS:  RFC 8785 JSON Canonicalization Scheme
+ * - RDFC: RDF Dataset Canonicalization (URDNA2015) to N-Quads
+ */
+
+export type CanonicalizationAlgorithm = "JCS" | "RDFC";
+
+/**
+ * JSON-LD contexts bundled with the application.
+ * RDFC never fetches remote contexts - unknown URLs are rejected.
+ */
+const BUNDLED_CONTEXTS: Record<string, object> = {
+  [W3C_VC_CONTEXTS.CREDENTIALS_V1]: credentialsV1Context,
+  [W3C_VC_CONTEXTS.CREDENTIALS_V2]: credentialsV2Context,
+  [W3C_VC_CONTEXTS.DID_V1]: didV1Context,
+  [W3C_VC_CONTEXTS.SECURITY_V1]: securityV1Context,
+  [W3C_VC_CONTEXTS.SECURITY_V2]: securityV2Context,
+  [W3C_VC_CONTEXTS.ED25519_V1]: ed25519V1Context,
+  "https://w3id.org/security/data-integrity/v2": dataIntegrityV2Context,
+};
+
+export class CanonicalizationHelper {
+  /**
+   * Objects serialized through their own toJSON (Date, Prisma Decimal, ...)
+   */
+  private static hasToJSON(value: object): value is { toJSON(): unknown } {
+    return typeof (value as { toJSON?: unknown }).toJSON === "function";
+  }
+
+  /**
+   * Canonicalize a JSON value according to RFC 8785 (JCS)
+   * - Object members sorted by UTF-16 code units
+   * - No insignificant whitespace
+   * - ECMAScript number and string serialization
+   */
+  static canonicalizeJCS(value: unknown): string {
+    if (value === null) {
+      return "null";
+    }
+
+    if (typeof value === "object" && CanonicalizationHelper.hasToJSON(value)) {
+      return CanonicalizationHelper.canonicalizeJCS(value.toJSON());
+    }
+
+    switch (typeof value) {
+      case "boolean":
+        return value ? "true" : "false";
+      case "string":
+        return JSON.stringify(value);
+      case "number":
+        if (!Number.isFinite(value)) {
+          throw new Error("JCS cannot serialize non-finite numbers");
+        }
+        return JSON.stringify(value);
+      case "object":
+        if (Array.isArray(value)) {
+          return `[${value
+            .map((item) =>
+              item === undefined || typeof item === "function"
+                ? "null"
+                : CanonicalizationHelper.canonicalizeJCS(item)
+            )
+            .join(",")}]`;
+        }
+
+        return `{${Object.keys(value as Record<string, unknown>)
+          .filter((key) => {
+            const member = (value as Record<string, unknown>)[key];
+            return member !== undefined && typeof member !== "function";
+          })
+          .sort()
+          .map(
+            (key) =>
+              `${JSON.stringify(key)}:${CanonicalizationHelper.canonicalizeJCS(
+                (value as Record<string, unknown>)[key]
+              )}`
+          )
+          .join(",")}}`;
+      default:
+        throw new Error(`JCS cannot serialize value of type ${typeof value}`);
+    }
+  }
+
+  /**
+   * Canonicalize a JSON-LD document with URDNA2015 into N-Quads.
+   * Uses safe mode so terms that are not defined by a context fail
+   * instead of being silently dropped from the hash.
+   */
+  static async canonicalizeRDF(document: Record<string, any>): Promise<string> {
+    const options: Options.Normalize & { safe: boolean } = {
+      algorithm: "URDNA2015",
+      format: "application/n-quads",
+      safe: true,
+      documentLoader: CanonicalizationHelper.documentLoader,
+    };
+    return jsonld.canonize(document, options);
+  }
+
+  /**
+   * Canonicalize a document with the given (or configured) algorithm
+   */
+  static async canonicalize(
+    document: Record<string, any>,
+    algorithm: CanonicalizationAlgorithm = env.VC_CANONICALIZATION
+  ): Promise<string> {
+    if (algorithm === "RDFC") {
+      return CanonicalizationHelper.canonicalizeRDF(document);
+    }
+    return CanonicalizationHelper.canonicalizeJCS(document);
+  }
+
+  /**
+   * Keccak256 of a canonical string, as 64-character hex (no 0x prefix)
+   */
+  static hashCanonical(canonical: string): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(canonical)).slice(2);
+  }
+
+  /**
+   * Compute the hash anchored on blockchain for a complete (signed) VC
+   */
+  static async hashCredential(
+    credential: Record<string, any>,
+    algorithm: CanonicalizationAlgorithm = env.VC_CANONICALIZATION
+  ): Promise<string> {
+    const canonical = await CanonicalizationHelper.canonicalize(
+      credential,
+      algorithm
+    );
+    return CanonicalizationHelper.hashCanonical(canonical);
+  }
+
+  /**
+   * Compare two hashes, ignoring case and 0x prefix
+   */
+  static hashesEqual(a: string, b: string): boolean {
+    const normalize = (hash: string) => hash.toLowerCase().replace(/^0x/, "");
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * JSON-LD document loader serving bundled contexts only
+   */
+  static async documentLoader(url: string): Promise<RemoteDocument> {
+    const document = BUNDLED_CONTEXTS[url];
+    if (!document) {
+      throw new Error(`JSON-LD context not bundled: ${url}`);
+    }
+    return { documentUrl: url, document: document as JsonLd };
+  }
+}
@@ -0,0 +1,316 @@
+import * as crypto from "crypto";
+import { ethers } from "ethers";
+import { W3C_VC_CONTEXTS } from "../../types/jsonld.types";
+import { DIDKeyType, DIDPublicKey } from "../../types/didMethod.types";
+import { MULTICODEC_PREFIX } from "../../constants/didResolution.constants";
+import {
+  PublicKeyJwkDTO,
+  W3CDIDDocumentDTO,
+  W3CServiceDTO,
+  W3CVerificationMethodDTO,
+  W3CVerificationRelationshipDTO,
+  DIDDocumentMetadataDTO,
+} from "../../dtos/did.dto";
+
+/**
+ * DID Document Helper
+ * Renders the on-chain did:dcert record ({found, id, status, role, keyId,
+ * [keyId]: publicKey, details}) as a W3C DID Core document
+ *
+ * - Keys are P-256 and published as JsonWebKey2020 with publicKeyJwk
+ * - The same key authenticates, signs VCs (ES256) and is used for ECIES key agreement
+ * - Institutional websites are published as LinkedDomains services
+ *
+ * did:key / did:web documents go the other way (fromW3CDocument): their P-256 and
+ * Ed25519 verification methods are read into the same record shape
+ */
+
+export type DIDMediaType =
+  | "application/did+ld+json"
+  | "application/did+json";
+
+export class DIDDocumentHelper {
+  static readonly MEDIA_TYPES: DIDMediaType[] = [
+    "application/did+ld+json",
+    "application/did+json",
+  ];
+
+  /**
+   * Absolute verification method ID for an on-chain key ID
+   */
+  static verificationMethodId(did: string, keyId: string): string {
+    return keyId.startsWith("#") ? `${did}${keyId}` : `${did}#${keyId}`;
+  }
+
+  /**
+   * On-chain key ID (e.g. #key-1) from a verificationMethod / kid
+   * Accepts "<did>#key-1" and relative "#key-1"; returns null if there is no
+   * fragment or the verification method belongs to another DID
+   */
+  static keyIdFromVerificationMethod(
+    did: string,
+    verificationMethod: string
+  ): string | null {
+    const hashIndex = verificationMethod.indexOf("#");
+    if (hashIndex === -1) {
+      return null;
+    }
+
+    const controller = verificationMethod.slice(0, hashIndex);
+    const fragment = verificationMethod.slice(hashIndex + 1);
+    if ((controller && controller !== did) || !fragment) {
+      return null;
+    }
+
+    return `#${fragment}`;
+  }
+
+  /**
+   * Uncompressed (04 || x || y) hex of a P-256 public key
+   */
+  static uncompressP256(publicKeyHex: string): string {
+    return crypto.ECDH.convertKey(
+      publicKeyHex.replace(/^0x/, ""),
+      "prime256v1",
+      "hex",
+      "hex",
+      "uncompressed"
+    ) as string;
+  }
+
+  /**
+   * Convert a public key in hex to a JWK
+   * P-256 keys may be compressed or uncompressed, Ed25519 keys are the raw 32 bytes
+   */
+  static publicKeyHexToJwk(
+    publicKeyHex: string,
+    keyType: DIDKeyType = "P-256"
+  ): PublicKeyJwkDTO {
+    if (keyType === "Ed25519") {
+      return {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: Buffer.from(publicKeyHex.replace(/^0x/, ""), "hex").toString(
+          "base64url"
+        ),
+      };
+    }
+
+    const point = Buffer.from(
+      DIDDocumentHelper.uncompressP256(publicKeyHex),
+      "hex"
+    );
+
+    return {
+      kty: "EC",
+      crv: "P-256",
+      x: point.subarray(1, 33).toString("base64url"),
+      y: point.subarray(33, 65).toString("base64url"),
+    };
+  }
+
+  /**
+   * Decode a base58btc multibase Multikey (did:key identifier, publicKeyMultibase)
+   * Only P-256 (compressed) and Ed25519 public keys are supported
+   */
+  static multikeyToPublicKey(multibase: string): DIDPublicKey {
+    if (!multibase.startsWith("z")) {
+      throw new Error("Multikey must be base58btc encoded (multibase prefix z)");
+    }
+
+    const encoded = multibase.slice(1);
+    const leadingZeros = encoded.length - encoded.replace(/^1+/, "").length;
+    const bytes = Buffer.concat([
+      Buffer.alloc(leadingZeros),
+      Buffer.from(ethers.toBeArray(ethers.decodeBase58(encoded))),
+    ]);
+    const key = bytes.subarray(2);
+
+    if (
+      bytes[0] === MULTICODEC_PREFIX.ED25519_PUB[0] &&
+      bytes[1] === MULTICODEC_PREFIX.ED25519_PUB[1] &&
+      key.length === 32
+    ) {
+      return { keyType: "Ed25519", publicKeyHex: key.toString("hex") };
+    }
+
+    if (
+      bytes[0] === MULTICODEC_PREFIX.P256_PUB[0] &&
+      bytes[1] === MULTICODEC_PREFIX.P256_PUB[1] &&
+      key.length === 33
+    ) {
+      return {
+        keyType: "P-256",
+        publicKeyHex: DIDDocumentHelper.uncompressP256(key.toString("hex")),
+      };
+    }
+
+    throw new Error("Unsupported Multikey: expected a P-256 or Ed25519 public key");
+  }
+
+  /**
+   * Public key of a verification method (publicKeyJwk, publicKeyMultibase or
+   * Ed25519VerificationKey2018 publicKeyBase58); null if the key is not P-256 / Ed25519
+   */
+  static publicKeyFromVerificationMethod(
+    verificationMethod: W3CVerificationMethodDTO
+  ): DIDPublicKey | null {
+    try {
+      const jwk = verificationMethod.publicKeyJwk;
+      if (jwk?.kty === "EC" && jwk.crv === "P-256") {
+        const x = Buffer.from(jwk.x, "base64url");
+        const y = Buffer.from(jwk.y, "base64url");
+        if (x.length !== 32 || y.length !== 32) {
+          return null;
+        }
+        return {
+          keyType: "P-256",
+          publicKeyHex: `04${x.toString("hex")}${y.toString("hex")}`,
+        };
+      }
+
+      if (jwk?.kty === "OKP" && jwk.crv === "Ed25519") {
+        const x = Buffer.from(jwk.x, "base64url");
+        return x.length === 32
+          ? { keyType: "Ed25519", publicKeyHex: x.toString("hex") }
+          : null;
+      }
+
+      if (verificationMethod.publicKeyMultibase) {
+        return DIDDocumentHelper.multikeyToPublicKey(
+          verificationMethod.publicKeyMultibase
+        );
+      }
+
+      if (
+        verificationMethod.type === "Ed25519VerificationKey2018" &&
+        verificationMethod.publicKeyBase58
+      ) {
+        const key = Buffer.from(
+          ethers.toBeArray(ethers.decodeBase58(verificationMethod.publicKeyBase58))
+        );
+        return key.length === 32
+          ? { keyType: "Ed25519", publicKeyHex: key.toString("hex") }
+          : null;
+      }
+    } catch {
+      return null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a resolved did:key / did:web document into the record shape of
+   * DIDBlockchainService.getDIDDocument, plus:
+   * - keyType: curve of the default key
+   * - keys: every P-256 / Ed25519 verification method by key ID (#fragment)
+   * - didDocument: the resolved document
+   * The default key is the first assertionMethod key (then authentication).
+   * Returns null when the document has no usable verification method.
+   */
+  static fromW3CDocument(document: W3CDIDDocumentDTO): Record<string, any> | null {
+    const did = document.id;
+    const relationships: W3CVerificationRelationshipDTO[] = [
+      ...(document.assertionMethod || []),
+      ...(document.authentication || []),
+    ];
+    const embedded = [...relationships, ...(document.keyAgreement || [])].filter(
+      (ref): ref is W3CVerificationMethodDTO => typeof ref === "object"
+    );
+
+    const keys: Record<string, DIDPublicKey> = {};
+    for (const method of [...(document.verificationMethod || []), ...embedded]) {
+      const keyId = method?.id
+        ? DIDDocumentHelper.keyIdFromVerificationMethod(did, method.id)
+        : null;
+      const publicKey = DIDDocumentHelper.publicKeyFromVerificationMethod(method);
+      if (keyId && publicKey && !keys[keyId]) {
+        keys[keyId] = publicKey;
+      }
+    }
+
+    const keyId =
+      relationships
+        .map((ref) =>
+          DIDDocumentHelper.keyIdFromVerificationMethod(
+            did,
+            typeof ref === "string" ? ref : ref.id
+          )
+        )
+        .find((id): id is string => !!id && !!keys[id]) ||
+      Object.keys(keys)[0];
+
+    if (!keyId) {
+      return null;
+    }
+
+    return {
+      found: true,
+      id: did,
+      status: "Active",
+      role: "Individual", // Holders / verifiers outside the registry
+      keyId,
+      [keyId]: keys[keyId].publicKeyHex,
+      keyType: keys[keyId].keyType,
+      keys,
+      details: {},
+      didDocument: document,
+    };
+  }
+
+  /**
+   * Build the W3C DID document from DIDBlockchainService.getDIDDocument output
+   * @param mediaType - application/did+json omits @context
+   */
+  static toW3CDocument(
+    record: Record<string, any>,
+    mediaType: DIDMediaType = "application/did+ld+json"
+  ): W3CDIDDocumentDTO {
+    const did: string = record.id;
+    const keyId: string = record.keyId;
+    const methodId = DIDDocumentHelper.verificationMethodId(did, keyId);
+
+    const service: W3CServiceDTO[] = [];
+    const website: string | undefined = record.details?.website;
+    if (website) {
+      service.push({
+        id: `${did}#linked-domain`,
+        type: "LinkedDomains",
+        serviceEndpoint: /^https?:\/\//.test(website)
+          ? website
+          : `https://${website}`,
+      });
+    }
+
+    return {
+      ...(mediaType === "application/did+ld+json" && {
+        "@context": [W3C_VC_CONTEXTS.DID_V1, W3C_VC_CONTEXTS.JWS_2020_V1],
+      }),
+      id: did,
+      controller: did,
+      verificationMethod: [
+        {
+          id: methodId,
+          type: "JsonWebKey2020",
+          controller: did,
+          publicKeyJwk: DIDDocumentHelper.publicKeyHexToJwk(record[keyId]),
+        },
+      ],
+      authentication: [methodId],
+      assertionMethod: [methodId],
+      keyAgreement: [methodId],
+      ...(service.length > 0 && { service }),
+    };
+  }
+
+  /**
+   * DID document metadata (deactivation state and role)
+   */
+  static toDocumentMetadata(record: Record<string, any>): DIDDocumentMetadataDTO {
+    return {
+      ...(record.status !== "Active" && { deactivated: true }),
+      role: record.role,
+    };
+  }
+}
@@ -4,3 +4,11 @@
 
 export * from './response.helper';
 export * from './transform.helper';
+export * from './proof.helper';
+export * from './canonicalization.helper';
+export * from './sdJwt.helper';
+export * from './presentationExchange.helper';
+export * from './didDocument.helper';
+export * from './merkle.helper';
+export * from './manifest.helper';
+export * from './jsonSchema.helper';
@@ -0,0 +1,106 @@
+/**
+ * JSON Schema Helper
+ * Validates credential subjects against a VCSchema.schema document
+ *
+ * Supports the keywords VC schemas are written with in this API: type,
+ * properties, required, enum, items, minLength / maxLength, minimum / maximum,
+ * format "date" / "date-time" / "email" / "uri"; unknown keywords are ignored
+ */
+export class JsonSchemaHelper {
+  private static typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number" && Number.isInteger(value)) return "integer";
+    return typeof value;
+  }
+
+  private static matchesType(value: unknown, type: string): boolean {
+    const actual = JsonSchemaHelper.typeOf(value);
+    return actual === type || (type === "number" && actual === "integer");
+  }
+
+  private static matchesFormat(value: string, format: string): boolean {
+    switch (format) {
+      case "date":
+        return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+      case "date-time":
+        return /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+      case "email":
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+      case "uri":
+        return /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/.test(value);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Validate a value against a schema
+   * @returns Error messages (empty when valid), prefixed with the property path
+   */
+  static validate(schema: any, value: unknown, path = "credentialSubject"): string[] {
+    if (!schema || typeof schema !== "object") {
+      return [];
+    }
+
+    const types: string[] | undefined = schema.type
+      ? [].concat(schema.type)
+      : undefined;
+    if (types && !types.some((type) => JsonSchemaHelper.matchesType(value, type))) {
+      return [`${path} must be of type ${types.join(" | ")}`];
+    }
+
+    const errors: string[] = [];
+
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+      errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+    }
+
+    if (typeof value === "string") {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.format && !JsonSchemaHelper.matchesFormat(value, schema.format)) {
+        errors.push(`${path} must be a valid ${schema.format}`);
+      }
+    }
+
+    if (typeof value === "number") {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) =>
+        errors.push(...JsonSchemaHelper.validate(schema.items, item, `${path}[${index}]`))
+      );
+    }
+
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+
+      for (const name of schema.required ?? []) {
+        if (record[name] === undefined) {
+          errors.push(`${path}.${name} is required`);
+        }
+      }
+
+      for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[name] !== undefined) {
+          errors.push(
+            ...JsonSchemaHelper.validate(propertySchema, record[name], `${path}.${name}`)
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+}
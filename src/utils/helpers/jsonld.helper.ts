@@ -12,6 +12,7 @@ import {
   PROOF_PURPOSES,
 } from "../../types/jsonld.types";
 import { v4 as uuidv4 } from "uuid";
+import { CanonicalizationHelper } from "./canonicalization.helper";
 
 /**
  * JSON-LD VC Helper Class
@@ -177,16 +178,18 @@ export class JsonLdVCHelper {
   }
 
   /**
-   * Create credential status (for revocation)
+   * Create credential status (Bitstring Status List entry)
+   * Entries are normally allocated by StatusListService
    */
   static createCredentialStatus(params: {
     statusListCredential: string;
     statusListIndex: number;
+    statusPurpose?: "revocation" | "suspension";
   }): any {
     return {
       id: `${params.statusListCredential}#${params.statusListIndex}`,
-      type: "StatusList2021Entry",
-      statusPurpose: "revocation",
+      type: "BitstringStatusListEntry",
+      statusPurpose: params.statusPurpose || "revocation",
       statusListIndex: params.statusListIndex.toString(),
       statusListCredential: params.statusListCredential,
     };
@@ -220,12 +223,12 @@ export class JsonLdVCHelper {
 
   /**
    * Hash credential for integrity verification
-   * Note: In production, use proper hashing library
+   * Uses JCS (RFC 8785) so the hash does not depend on key order
    */
   static hashCredential(credential: JsonLdVerifiableCredential): string {
-    const crypto = require("crypto");
-    const credentialString = JSON.stringify(credential, null, 0);
-    return crypto.createHash("sha256").update(credentialString).digest("hex");
+    return CanonicalizationHelper.hashCanonical(
+      CanonicalizationHelper.canonicalizeJCS(credential)
+    );
   }
 
   /**
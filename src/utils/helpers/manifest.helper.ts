@@ -0,0 +1,140 @@
+import { BULK_ISSUANCE, MANIFEST_FORMAT } from "../../constants/bulkIssuance.constants";
+import { BulkIssuanceManifestRowDTO } from "../../dtos/credential.dto";
+
+type ManifestFormat = (typeof MANIFEST_FORMAT)[keyof typeof MANIFEST_FORMAT];
+
+/**
+ * Manifest Helper
+ * Reads bulk issuance manifests (CSV with a header row, or JSON) and writes CSV reports
+ *
+ * - CSV follows RFC 4180: comma separated, fields with commas, quotes or line breaks
+ *   are double-quoted and quotes inside are doubled
+ * - JSON is an array of rows or { "rows": [...] }
+ */
+export class ManifestHelper {
+  /**
+   * Split CSV text into records (array of fields)
+   */
+  static parseCsv(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    // Strip the UTF-8 BOM spreadsheet exports start with
+    const input = text.replace(/^\uFEFF/, "");
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (quoted) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === "") {
+        quoted = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && input[i + 1] === "\n") {
+          i++;
+        }
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new Error("Unterminated quoted field in CSV manifest");
+    }
+    if (field !== "" || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    // Ignore blank lines
+    return records.filter((r) => r.some((value) => value.trim() !== ""));
+  }
+
+  /**
+   * Serialize records to CSV (header first)
+   * Text cells starting with =, +, -, @ (or tab / carriage return) are prefixed
+   * with ' so spreadsheets do not evaluate them as formulas
+   */
+  static toCsv(header: readonly string[], rows: (string | number | null)[][]): string {
+    const escape = (value: string | number | null) => {
+      let text = value === null ? "" : String(value);
+      if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [header, ...rows]
+      .map((row) => row.map(escape).join(","))
+      .join("\r\n");
+  }
+
+  /**
+   * Format of an uploaded manifest from its MIME type or file name
+   */
+  static detectFormat(mimetype: string, filename: string): ManifestFormat | null {
+    if (mimetype === "application/json" || /\.json$/i.test(filename)) {
+      return MANIFEST_FORMAT.JSON;
+    }
+    if (
+      mimetype === "text/csv" ||
+      mimetype === "application/vnd.ms-excel" ||
+      /\.csv$/i.test(filename)
+    ) {
+      return MANIFEST_FORMAT.CSV;
+    }
+    return null;
+  }
+
+  /**
+   * Parse a manifest into rows (values are not validated here)
+   * Throws Error when the file itself is malformed
+   */
+  static parse(content: string, format: ManifestFormat): BulkIssuanceManifestRowDTO[] {
+    if (format === MANIFEST_FORMAT.JSON) {
+      const parsed = JSON.parse(content);
+      const rows = Array.isArray(parsed) ? parsed : parsed?.rows;
+      if (!Array.isArray(rows)) {
+        throw new Error('JSON manifest must be an array of rows or { "rows": [...] }');
+      }
+      return rows.map((row) =>
+        row && typeof row === "object" && !Array.isArray(row) ? row : {}
+      );
+    }
+
+    const [header, ...records] = ManifestHelper.parseCsv(content);
+    if (!header) {
+      throw new Error("CSV manifest is empty");
+    }
+
+    const columns = header.map((column) => column.trim());
+    const missing = BULK_ISSUANCE.MANIFEST_COLUMNS.filter(
+      (column) => !columns.includes(column)
+    );
+    if (missing.length > 0) {
+      throw new Error(`CSV manifest header is missing: ${missing.join(", ")}`);
+    }
+
+    return records.map((record) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, (record[index] ?? "").trim()])
+      )
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { ethers } from "ethers";
+import { MERKLE_ANCHOR } from "../../constants/merkleAnchor.constants";
+import { MerkleInclusionProofDTO } from "../../dtos/credential.dto";
+
+/**
+ * Merkle Helper
+ * Merkle trees over VC hashes for batch anchoring (one on-chain root per batch)
+ *
+ * - leaf = keccak256(vcHash), inner node = keccak256(sorted(left || right))
+ *   Sorted pairs make a proof a plain list of sibling hashes (OpenZeppelin MerkleProof style)
+ * - An odd node at the end of a level is promoted unchanged
+ * - Hashes are 64-character hex without 0x, like CanonicalizationHelper.hashCanonical
+ */
+export class MerkleHelper {
+  private static normalize(hash: string): string {
+    const normalized = hash.toLowerCase().replace(/^0x/, "");
+    if (!/^[0-9a-f]{64}$/.test(normalized)) {
+      throw new Error(`Invalid hash for Merkle tree: ${hash}`);
+    }
+    return normalized;
+  }
+
+  private static hashPair(a: string, b: string): string {
+    const [left, right] = a < b ? [a, b] : [b, a];
+    return ethers.keccak256(`0x${left}${right}`).slice(2);
+  }
+
+  /**
+   * Leaf of a VC hash (hashed again so a leaf can never be an inner node)
+   */
+  static leafHash(vcHash: string): string {
+    return ethers.keccak256(`0x${MerkleHelper.normalize(vcHash)}`).slice(2);
+  }
+
+  /**
+   * Build the tree and the inclusion proof of every leaf (same order as vcHashes)
+   */
+  static buildTree(vcHashes: string[]): { root: string; proofs: string[][] } {
+    if (vcHashes.length === 0) {
+      throw new Error("Cannot build a Merkle tree without leaves");
+    }
+
+    let level = vcHashes.map((hash) => MerkleHelper.leafHash(hash));
+    const proofs: string[][] = vcHashes.map(() => []);
+    // Position of every original leaf in the current level
+    let positions = vcHashes.map((_, i) => i);
+
+    while (level.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(
+          i + 1 < level.length
+            ? MerkleHelper.hashPair(level[i], level[i + 1])
+            : level[i]
+        );
+      }
+
+      positions = positions.map((position, leaf) => {
+        const sibling = position % 2 === 0 ? position + 1 : position - 1;
+        if (sibling < level.length) {
+          proofs[leaf].push(level[sibling]);
+        }
+        return Math.floor(position / 2);
+      });
+      level = next;
+    }
+
+    return { root: level[0], proofs };
+  }
+
+  /**
+   * Check that a VC hash is included under a Merkle root
+   */
+  static verifyProof(vcHash: string, proof: string[], root: string): boolean {
+    try {
+      const computed = proof.reduce(
+        (node, sibling) =>
+          MerkleHelper.hashPair(node, MerkleHelper.normalize(sibling)),
+        MerkleHelper.leafHash(vcHash)
+      );
+      return computed === MerkleHelper.normalize(root);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Split a JSON-LD VC into the credential that was anchored (hashed) and
+   * the inclusion proof attached later under proof.merkleInclusionProof
+   */
+  static splitInclusionProof(vc: Record<string, any>): {
+    credential: Record<string, any>;
+    inclusionProof?: MerkleInclusionProofDTO;
+  } {
+    const inclusionProof = vc?.proof?.[MERKLE_ANCHOR.PROOF_PROPERTY];
+    if (!inclusionProof || typeof vc.proof !== "object") {
+      return { credential: vc };
+    }
+
+    const { [MERKLE_ANCHOR.PROOF_PROPERTY]: _, ...proof } = vc.proof;
+    return { credential: { ...vc, proof }, inclusionProof };
+  }
+}
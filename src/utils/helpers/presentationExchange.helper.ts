@@ -0,0 +1,495 @@
+import {
+  PresentationDefinitionDTO,
+  PresentationSubmissionDTO,
+  InputDescriptorDTO,
+  SubmissionRequirementDTO,
+  DescriptorMapDTO,
+  DescriptorEvaluationDTO,
+  PresentationEvaluationDTO,
+} from "../../dtos/presentation.dto";
+
+/**
+ * Presentation Exchange Helper
+ * Evaluates a presentation against a DIF Presentation Exchange v2 definition
+ *
+ * Supported subset:
+ * - JSONPath: $, .name, ['name'], [n], [*], .*
+ * - JSON Schema filters: type, const, enum, pattern, min/maxLength,
+ *   minimum/maximum (exclusive), format date/date-time with
+ *   formatMinimum/formatMaximum (exclusive), contains, min/maxItems,
+ *   not, allOf, anyOf
+ * - submission_requirements: rule all / pick (count, min, max), from, from_nested
+ */
+
+export interface PresentationEvaluationOptions {
+  // Whether the submitted credentials only reveal the claims the holder chose (SD-JWT)
+  selectiveDisclosure?: boolean;
+  // Returns an error if the mapped credential failed cryptographic/status verification
+  checkCredential?: (credential: any) => string | null;
+}
+
+const PATH_TOKEN =
+  /\.([A-Za-z_$@][\w$@-]*)|\['([^']+)'\]|\["([^"]+)"\]|\[(\d+)\]|(\[\*\]|\.\*)/y;
+
+export class PresentationExchangeHelper {
+  /**
+   * Evaluate a JSONPath expression and return every matched value
+   */
+  static queryPath(root: unknown, path: string): unknown[] {
+    if (!path.startsWith("$")) {
+      throw new Error(`Unsupported JSONPath (must start with $): ${path}`);
+    }
+
+    let nodes: unknown[] = [root];
+    PATH_TOKEN.lastIndex = 1;
+
+    while (PATH_TOKEN.lastIndex < path.length) {
+      const start = PATH_TOKEN.lastIndex;
+      const match = PATH_TOKEN.exec(path);
+      if (!match) {
+        throw new Error(
+          `Unsupported JSONPath syntax at position ${start}: ${path}`
+        );
+      }
+
+      const [, dotName, singleQuoted, doubleQuoted, index, wildcard] = match;
+      const next: unknown[] = [];
+
+      for (const node of nodes) {
+        if (node === null || typeof node !== "object") {
+          continue;
+        }
+        if (wildcard) {
+          next.push(...(Array.isArray(node) ? node : Object.values(node)));
+        } else if (index !== undefined) {
+          if (Array.isArray(node) && Number(index) < node.length) {
+            next.push(node[Number(index)]);
+          }
+        } else {
+          const key = dotName ?? singleQuoted ?? doubleQuoted;
+          if (!Array.isArray(node) && key in (node as Record<string, unknown>)) {
+            next.push((node as Record<string, unknown>)[key]);
+          }
+        }
+      }
+
+      nodes = next;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Check a value against the supported JSON Schema subset
+   */
+  static matchesFilter(value: unknown, filter: Record<string, any>): boolean {
+    if (filter.type !== undefined) {
+      const types: string[] = Array.isArray(filter.type)
+        ? filter.type
+        : [filter.type];
+      const matchesType = types.some((type) => {
+        switch (type) {
+          case "string":
+            return typeof value === "string";
+          case "number":
+            return typeof value === "number";
+          case "integer":
+            return Number.isInteger(value);
+          case "boolean":
+            return typeof value === "boolean";
+          case "array":
+            return Array.isArray(value);
+          case "object":
+            return (
+              value !== null && typeof value === "object" && !Array.isArray(value)
+            );
+          case "null":
+            return value === null;
+          default:
+            return false;
+        }
+      });
+      if (!matchesType) {
+        return false;
+      }
+    }
+
+    if (
+      filter.const !== undefined &&
+      JSON.stringify(value) !== JSON.stringify(filter.const)
+    ) {
+      return false;
+    }
+
+    if (
+      Array.isArray(filter.enum) &&
+      !filter.enum.some(
+        (option: unknown) => JSON.stringify(option) === JSON.stringify(value)
+      )
+    ) {
+      return false;
+    }
+
+    if (typeof value === "string") {
+      if (filter.pattern && !new RegExp(filter.pattern).test(value)) {
+        return false;
+      }
+      if (filter.minLength !== undefined && value.length < filter.minLength) {
+        return false;
+      }
+      if (filter.maxLength !== undefined && value.length > filter.maxLength) {
+        return false;
+      }
+      if (!PresentationExchangeHelper.matchesDateFilter(value, filter)) {
+        return false;
+      }
+    }
+
+    if (typeof value === "number") {
+      if (filter.minimum !== undefined && value < filter.minimum) {
+        return false;
+      }
+      if (filter.maximum !== undefined && value > filter.maximum) {
+        return false;
+      }
+      if (
+        filter.exclusiveMinimum !== undefined &&
+        value <= filter.exclusiveMinimum
+      ) {
+        return false;
+      }
+      if (
+        filter.exclusiveMaximum !== undefined &&
+        value >= filter.exclusiveMaximum
+      ) {
+        return false;
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (filter.minItems !== undefined && value.length < filter.minItems) {
+        return false;
+      }
+      if (filter.maxItems !== undefined && value.length > filter.maxItems) {
+        return false;
+      }
+      if (
+        filter.contains &&
+        !value.some((item) =>
+          PresentationExchangeHelper.matchesFilter(item, filter.contains)
+        )
+      ) {
+        return false;
+      }
+    }
+
+    if (
+      filter.not &&
+      PresentationExchangeHelper.matchesFilter(value, filter.not)
+    ) {
+      return false;
+    }
+
+    if (
+      Array.isArray(filter.allOf) &&
+      !filter.allOf.every((sub: Record<string, any>) =>
+        PresentationExchangeHelper.matchesFilter(value, sub)
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      Array.isArray(filter.anyOf) &&
+      !filter.anyOf.some((sub: Record<string, any>) =>
+        PresentationExchangeHelper.matchesFilter(value, sub)
+      )
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * format: date / date-time with formatMinimum / formatMaximum bounds
+   */
+  private static matchesDateFilter(
+    value: string,
+    filter: Record<string, any>
+  ): boolean {
+    if (filter.format !== "date" && filter.format !== "date-time") {
+      return true;
+    }
+
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      return false;
+    }
+
+    const bound = (key: string) =>
+      filter[key] !== undefined ? Date.parse(filter[key]) : undefined;
+
+    const min = bound("formatMinimum");
+    const max = bound("formatMaximum");
+    const exclusiveMin = bound("formatExclusiveMinimum");
+    const exclusiveMax = bound("formatExclusiveMaximum");
+
+    return !(
+      (min !== undefined && time < min) ||
+      (max !== undefined && time > max) ||
+      (exclusiveMin !== undefined && time <= exclusiveMin) ||
+      (exclusiveMax !== undefined && time >= exclusiveMax)
+    );
+  }
+
+  /**
+   * Resolve the credential a descriptor map entry points to
+   */
+  private static resolveSubmissionPath(
+    presentation: unknown,
+    entry: DescriptorMapDTO
+  ): unknown {
+    let [credential] = PresentationExchangeHelper.queryPath(
+      presentation,
+      entry.path
+    );
+
+    let nested = entry.path_nested;
+    while (nested && credential !== undefined) {
+      [credential] = PresentationExchangeHelper.queryPath(credential, nested.path);
+      nested = nested.path_nested;
+    }
+
+    return credential;
+  }
+
+  /**
+   * Evaluate one input descriptor against the credential mapped to it
+   */
+  private static evaluateDescriptor(
+    descriptor: InputDescriptorDTO,
+    credential: unknown,
+    options: PresentationEvaluationOptions
+  ): string[] {
+    const errors: string[] = [];
+
+    if (
+      descriptor.constraints?.limit_disclosure === "required" &&
+      !options.selectiveDisclosure
+    ) {
+      errors.push(
+        "limit_disclosure is required but the credential is not selectively disclosable"
+      );
+    }
+
+    for (const field of descriptor.constraints?.fields ?? []) {
+      const label = field.id ?? field.name ?? field.path.join(" | ");
+      let matched = false;
+
+      for (const path of field.path) {
+        const values = PresentationExchangeHelper.queryPath(credential, path);
+        if (
+          values.some(
+            (value) =>
+              !field.filter ||
+              PresentationExchangeHelper.matchesFilter(value, field.filter)
+          )
+        ) {
+          matched = true;
+          break;
+        }
+      }
+
+      if (!matched && !field.optional) {
+        errors.push(
+          field.filter
+            ? `Field ${label} is missing or does not satisfy its filter`
+            : `Field ${label} is missing`
+        );
+      }
+    }
+
+    const credentialError = options.checkCredential?.(credential);
+    if (credentialError) {
+      errors.push(`Credential failed verification: ${credentialError}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Evaluate a submission requirement (recursively for from_nested)
+   */
+  private static evaluateRequirement(
+    requirement: SubmissionRequirementDTO,
+    definition: PresentationDefinitionDTO,
+    satisfied: Set<string>
+  ): boolean {
+    const results: boolean[] = requirement.from_nested
+      ? requirement.from_nested.map((nested) =>
+          PresentationExchangeHelper.evaluateRequirement(
+            nested,
+            definition,
+            satisfied
+          )
+        )
+      : definition.input_descriptors
+          .filter((descriptor) =>
+            (descriptor.group ?? []).includes(requirement.from ?? "")
+          )
+          .map((descriptor) => satisfied.has(descriptor.id));
+
+    const count = results.filter(Boolean).length;
+
+    if (requirement.rule === "all") {
+      return results.length > 0 && count === results.length;
+    }
+
+    if (requirement.count !== undefined) {
+      return count >= requirement.count;
+    }
+    return (
+      count >= (requirement.min ?? 1) &&
+      (requirement.max === undefined || count <= requirement.max)
+    );
+  }
+
+  /**
+   * Evaluate a presentation against a definition using its submission
+   * @param presentation - Root the descriptor_map paths are evaluated against
+   */
+  static evaluate(
+    definition: PresentationDefinitionDTO,
+    submission: PresentationSubmissionDTO | undefined,
+    presentation: unknown,
+    options: PresentationEvaluationOptions = {}
+  ): PresentationEvaluationDTO {
+    const evaluation: PresentationEvaluationDTO = {
+      definition_id: definition.id,
+      submission_id: submission?.id,
+      satisfied: false,
+      satisfied_descriptors: [],
+      failed_descriptors: [],
+      descriptors: [],
+      errors: [],
+    };
+
+    if (!submission) {
+      evaluation.errors.push("Presentation has no presentation_submission");
+    } else if (submission.definition_id !== definition.id) {
+      evaluation.errors.push(
+        `presentation_submission.definition_id (${submission.definition_id}) does not match the presentation definition (${definition.id})`
+      );
+    }
+
+    for (const descriptor of definition.input_descriptors) {
+      const result: DescriptorEvaluationDTO = {
+        id: descriptor.id,
+        satisfied: false,
+        errors: [],
+      };
+
+      const entry = submission?.descriptor_map?.find(
+        (mapping) => mapping.id === descriptor.id
+      );
+
+      if (!entry) {
+        result.errors.push("No descriptor_map entry for this input descriptor");
+      } else {
+        result.path = entry.path;
+        try {
+          const credential = PresentationExchangeHelper.resolveSubmissionPath(
+            presentation,
+            entry
+          );
+          if (credential === undefined) {
+            result.errors.push(`Submission path ${entry.path} matched nothing`);
+          } else {
+            result.errors.push(
+              ...PresentationExchangeHelper.evaluateDescriptor(
+                descriptor,
+                credential,
+                options
+              )
+            );
+          }
+        } catch (error) {
+          result.errors.push(
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        }
+      }
+
+      result.satisfied = result.errors.length === 0;
+      evaluation.descriptors.push(result);
+      (result.satisfied
+        ? evaluation.satisfied_descriptors
+        : evaluation.failed_descriptors
+      ).push(descriptor.id);
+    }
+
+    const satisfied = new Set(evaluation.satisfied_descriptors);
+    const requirementsMet = definition.submission_requirements
+      ? definition.submission_requirements.every((requirement) =>
+          PresentationExchangeHelper.evaluateRequirement(
+            requirement,
+            definition,
+            satisfied
+          )
+        )
+      : evaluation.failed_descriptors.length === 0;
+
+    if (!requirementsMet) {
+      evaluation.errors.push("Presentation does not satisfy the presentation definition");
+    }
+
+    evaluation.satisfied = evaluation.errors.length === 0;
+    return evaluation;
+  }
+
+  /**
+   * Structural validation of a presentation definition
+   * @returns Error message, or null if valid
+   */
+  static validateDefinition(definition: any): string | null {
+    if (!definition || typeof definition !== "object") {
+      return "presentation_definition must be an object";
+    }
+    if (typeof definition.id !== "string" || definition.id.length === 0) {
+      return "presentation_definition.id is required";
+    }
+    if (
+      !Array.isArray(definition.input_descriptors) ||
+      definition.input_descriptors.length === 0
+    ) {
+      return "presentation_definition.input_descriptors must be a non-empty array";
+    }
+
+    const ids = new Set<string>();
+    for (const descriptor of definition.input_descriptors) {
+      if (typeof descriptor?.id !== "string" || descriptor.id.length === 0) {
+        return "Each input descriptor must have an id";
+      }
+      if (ids.has(descriptor.id)) {
+        return `Duplicate input descriptor id: ${descriptor.id}`;
+      }
+      ids.add(descriptor.id);
+
+      for (const field of descriptor.constraints?.fields ?? []) {
+        if (!Array.isArray(field.path) || field.path.length === 0) {
+          return `Input descriptor ${descriptor.id} has a field without a path`;
+        }
+        for (const path of field.path) {
+          try {
+            PresentationExchangeHelper.queryPath({}, path);
+          } catch (error) {
+            return error instanceof Error ? error.message : "Invalid path";
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+}
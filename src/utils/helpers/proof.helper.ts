@@ -0,0 +1,111 @@
+import * as crypto from "crypto";
+
+/**
+ * Proof Helper
+ * Utilities for verifying ES256 (ECDSA P-256 + SHA-256) Data Integrity proofs
+ */
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// SPKI DER header for an uncompressed ECDSA P-256 public key
+// SEQUENCE { SEQUENCE { OID ecPublicKey, OID prime256v1 }, BIT STRING }
+const P256_SPKI_HEADER = Buffer.from([
+  0x30, 0x59, 0x30, 0x13, 0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02,
+  0x01, 0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07, 0x03,
+  0x42, 0x00,
+]);
+
+export class ProofHelper {
+  /**
+   * Build the message that was signed: the document without its proof,
+   * serialized with sorted top-level keys (same format as signWithES256)
+   */
+  static getSigningInput(document: Record<string, any>): Buffer {
+    const { proof: _, ...unsigned } = document;
+    const canonicalData = JSON.stringify(unsigned, Object.keys(unsigned).sort());
+    return Buffer.from(canonicalData, "utf8");
+  }
+
+  /**
+   * Decode a proofValue encoded as multibase base58btc ("z..."), 0x-hex,
+   * or base64/base64url
+   */
+  static decodeProofValue(proofValue: string): Buffer {
+    if (proofValue.startsWith("z")) {
+      const bytes: number[] = [];
+      let value = BigInt(0);
+      for (const char of proofValue.substring(1)) {
+        const digit = BASE58_ALPHABET.indexOf(char);
+        if (digit === -1) {
+          // Not base58 - fall back to base64url below
+          return Buffer.from(proofValue, "base64url");
+        }
+        value = value * BigInt(58) + BigInt(digit);
+      }
+      while (value > BigInt(0)) {
+        bytes.unshift(Number(value % BigInt(256)));
+        value = value / BigInt(256);
+      }
+      return Buffer.from(bytes);
+    }
+
+    if (proofValue.startsWith("0x")) {
+      return Buffer.from(proofValue.substring(2), "hex");
+    }
+
+    return Buffer.from(proofValue, "base64url");
+  }
+
+  /**
+   * Convert an uncompressed P-256 public key in hex (with or without the
+   * 04 prefix) to a KeyObject
+   */
+  static hexToP256PublicKey(publicKeyHex: string): crypto.KeyObject {
+    const cleanHex = publicKeyHex.replace(/^0x/, "");
+
+    let publicKeyBuffer: Buffer;
+    if (cleanHex.length === 130 && cleanHex.startsWith("04")) {
+      publicKeyBuffer = Buffer.from(cleanHex, "hex");
+    } else if (cleanHex.length === 128) {
+      publicKeyBuffer = Buffer.from("04" + cleanHex, "hex");
+    } else {
+      throw new Error(
+        `Invalid ECDSA P-256 public key: expected 128 or 130 hex chars, got ${cleanHex.length}`
+      );
+    }
+
+    return crypto.createPublicKey({
+      key: Buffer.concat([P256_SPKI_HEADER, publicKeyBuffer]),
+      format: "der",
+      type: "spki",
+    });
+  }
+
+  /**
+   * Verify the ES256 proof attached to a credential or presentation.
+   * Accepts both compact (r || s, 64 bytes) and DER-encoded signatures.
+   */
+  static verifyES256Proof(
+    document: Record<string, any>,
+    publicKeyHex: string
+  ): boolean {
+    const proofValue = document?.proof?.proofValue;
+    if (!proofValue || typeof proofValue !== "string") {
+      return false;
+    }
+
+    const signature = ProofHelper.decodeProofValue(proofValue);
+    const publicKey = ProofHelper.hexToP256PublicKey(publicKeyHex);
+
+    return crypto.verify(
+      "sha256",
+      ProofHelper.getSigningInput(document),
+      {
+        key: publicKey,
+        dsaEncoding: signature.length === 64 ? "ieee-p1363" : "der",
+      },
+      signature
+    );
+  }
+}
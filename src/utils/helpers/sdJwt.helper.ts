@@ -0,0 +1,296 @@
+import * as crypto from "crypto";
+import { ProofHelper } from "./proof.helper";
+import { CanonicalizationHelper } from "./canonicalization.helper";
+
+/**
+ * SD-JWT Helper
+ * Selective Disclosure JWT (SD-JWT VC) utilities
+ *
+ * Compact format: <issuer-jwt>~<disclosure>~...~<disclosure>~[<kb-jwt>]
+ * - Disclosure: base64url(JSON [salt, claim_name, claim_value])
+ * - Digest:     base64url(SHA-256(disclosure)), listed in the payload "_sd" array
+ * - KB-JWT:     holder key-binding JWT carrying nonce, aud and sd_hash
+ */
+
+export interface SdJwtDisclosure {
+  disclosure: string;
+  digest: string;
+  salt: string;
+  name: string;
+  value: unknown;
+}
+
+export interface ParsedSdJwt {
+  issuerJwt: string;
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  disclosures: SdJwtDisclosure[];
+  kbJwt?: string;
+}
+
+// Claims that are never selectively disclosable
+const RESERVED_CLAIMS = [
+  "iss",
+  "sub",
+  "iat",
+  "nbf",
+  "exp",
+  "jti",
+  "vct",
+  "cnf",
+  "status",
+  "_sd",
+  "_sd_alg",
+  "...",
+];
+
+export class SdJwtHelper {
+  static readonly SD_ALG = "sha-256";
+
+  /**
+   * base64url-encode a JSON value
+   */
+  static encodeJSON(value: unknown): string {
+    return Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+  }
+
+  /**
+   * Decode a base64url-encoded JSON value
+   */
+  static decodeJSON(encoded: string): any {
+    return JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  }
+
+  /**
+   * Digest of a disclosure as listed in "_sd"
+   */
+  static digest(disclosure: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(disclosure, "ascii")
+      .digest("base64url");
+  }
+
+  /**
+   * Create a salted disclosure for an object property
+   */
+  static createDisclosure(name: string, value: unknown): SdJwtDisclosure {
+    if (RESERVED_CLAIMS.includes(name)) {
+      throw new Error(`Claim "${name}" cannot be selectively disclosable`);
+    }
+
+    const salt = crypto.randomBytes(16).toString("base64url");
+    const disclosure = SdJwtHelper.encodeJSON([salt, name, value]);
+
+    return {
+      disclosure,
+      digest: SdJwtHelper.digest(disclosure),
+      salt,
+      name,
+      value,
+    };
+  }
+
+  /**
+   * Decode a disclosure produced by createDisclosure
+   */
+  static decodeDisclosure(disclosure: string): SdJwtDisclosure {
+    let decoded: unknown;
+    try {
+      decoded = SdJwtHelper.decodeJSON(disclosure);
+    } catch {
+      throw new Error("Disclosure is not valid base64url JSON");
+    }
+
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 3 ||
+      typeof decoded[0] !== "string" ||
+      typeof decoded[1] !== "string"
+    ) {
+      throw new Error("Disclosure must be a [salt, claim_name, claim_value] array");
+    }
+
+    return {
+      disclosure,
+      digest: SdJwtHelper.digest(disclosure),
+      salt: decoded[0],
+      name: decoded[1],
+      value: decoded[2],
+    };
+  }
+
+  /**
+   * Split claims into always-visible claims and salted disclosures
+   * @param claims - Claims to include in the credential
+   * @param selectivelyDisclosable - Top-level claim names to hide behind digests
+   */
+  static prepareClaims(
+    claims: Record<string, unknown>,
+    selectivelyDisclosable: string[]
+  ): { claims: Record<string, unknown>; disclosures: SdJwtDisclosure[] } {
+    const visible: Record<string, unknown> = {};
+    const disclosures: SdJwtDisclosure[] = [];
+
+    for (const [name, value] of Object.entries(claims)) {
+      if (RESERVED_CLAIMS.includes(name)) {
+        throw new Error(`Claim "${name}" is reserved and set by the server`);
+      }
+      if (selectivelyDisclosable.includes(name)) {
+        disclosures.push(SdJwtHelper.createDisclosure(name, value));
+      } else {
+        visible[name] = value;
+      }
+    }
+
+    // Digests are sorted so their order does not reveal the claim order
+    const digests = disclosures.map((d) => d.digest).sort();
+
+    return {
+      claims: {
+        ...visible,
+        ...(digests.length > 0 && { _sd: digests }),
+      },
+      disclosures,
+    };
+  }
+
+  /**
+   * Parse a compact SD-JWT (issuance or presentation)
+   */
+  static parse(compact: string): ParsedSdJwt {
+    const parts = compact.split("~");
+    if (parts.length < 2) {
+      throw new Error("SD-JWT must contain at least one '~' separator");
+    }
+
+    const issuerJwt = parts[0];
+    const jwtParts = issuerJwt.split(".");
+    if (jwtParts.length !== 3) {
+      throw new Error("Issuer-signed JWT is malformed");
+    }
+
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      header = SdJwtHelper.decodeJSON(jwtParts[0]);
+      payload = SdJwtHelper.decodeJSON(jwtParts[1]);
+    } catch {
+      throw new Error("Issuer-signed JWT header or payload is not valid JSON");
+    }
+
+    const kbJwt = parts[parts.length - 1] || undefined;
+    const disclosures = parts
+      .slice(1, -1)
+      .map((disclosure) => SdJwtHelper.decodeDisclosure(disclosure));
+
+    return { issuerJwt, header, payload, disclosures, kbJwt };
+  }
+
+  /**
+   * Rebuild the disclosed claims from the payload and the disclosures
+   * Throws if a disclosure is not referenced by the payload or is repeated
+   */
+  static resolveClaims(
+    payload: Record<string, any>,
+    disclosures: SdJwtDisclosure[]
+  ): Record<string, any> {
+    if (payload._sd_alg && payload._sd_alg !== SdJwtHelper.SD_ALG) {
+      throw new Error(`Unsupported _sd_alg: ${payload._sd_alg}`);
+    }
+
+    const byDigest = new Map<string, SdJwtDisclosure>();
+    for (const disclosure of disclosures) {
+      if (byDigest.has(disclosure.digest)) {
+        throw new Error("Disclosure is included more than once");
+      }
+      byDigest.set(disclosure.digest, disclosure);
+    }
+
+    const used = new Set<string>();
+
+    const resolve = (node: any): any => {
+      if (Array.isArray(node)) {
+        return node.map(resolve);
+      }
+      if (node === null || typeof node !== "object") {
+        return node;
+      }
+
+      const result: Record<string, any> = {};
+      for (const [key, value] of Object.entries(node)) {
+        if (key !== "_sd") {
+          result[key] = resolve(value);
+        }
+      }
+
+      for (const digest of (node._sd as string[] | undefined) ?? []) {
+        const disclosure = byDigest.get(digest);
+        if (!disclosure) {
+          continue; // Undisclosed claim or decoy digest
+        }
+        if (used.has(digest)) {
+          throw new Error("Digest is referenced more than once");
+        }
+        if (disclosure.name in result) {
+          throw new Error(`Disclosed claim "${disclosure.name}" already exists`);
+        }
+        used.add(digest);
+        result[disclosure.name] = resolve(disclosure.value);
+      }
+
+      return result;
+    };
+
+    const { _sd_alg: _, ...claims } = resolve(payload);
+
+    if (used.size !== disclosures.length) {
+      throw new Error("Disclosure does not match any digest in the SD-JWT");
+    }
+
+    return claims;
+  }
+
+  /**
+   * Verify an ES256 (ECDSA P-256 + SHA-256) compact JWS
+   */
+  static verifyES256JWT(jwt: string, publicKeyHex: string): boolean {
+    const [encodedHeader, encodedPayload, encodedSignature] = jwt.split(".");
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      return false;
+    }
+
+    const header = SdJwtHelper.decodeJSON(encodedHeader);
+    if (header.alg !== "ES256") {
+      return false;
+    }
+
+    return crypto.verify(
+      "sha256",
+      Buffer.from(`${encodedHeader}.${encodedPayload}`, "ascii"),
+      {
+        key: ProofHelper.hexToP256PublicKey(publicKeyHex),
+        dsaEncoding: "ieee-p1363",
+      },
+      Buffer.from(encodedSignature, "base64url")
+    );
+  }
+
+  /**
+   * sd_hash expected in the KB-JWT: digest over the presentation without the KB-JWT
+   */
+  static sdHash(issuerJwt: string, disclosures: SdJwtDisclosure[]): string {
+    const presented = [issuerJwt, ...disclosures.map((d) => d.disclosure)]
+      .join("~")
+      .concat("~");
+    return SdJwtHelper.digest(presented);
+  }
+
+  /**
+   * Hash anchored on blockchain for an SD-JWT VC (keccak256 of the issuer-signed JWT)
+   * Independent of which disclosures the holder later presents
+   */
+  static hashIssuerJwt(issuerJwt: string): string {
+    return CanonicalizationHelper.hashCanonical(issuerJwt);
+  }
+}
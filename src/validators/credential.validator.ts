@@ -6,6 +6,8 @@ import {
   CustomValidator,
 } from "express-validator";
 import { RequestType, RequestStatus } from "@prisma/client";
+import { ANCHORING_MODE } from "../constants/merkleAnchor.constants";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
 
 /**
  * Credential Validators
@@ -15,7 +17,7 @@ export const getHolderCredentialsValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did query parameter is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format in query parameter"),
 ];
 export const processIssuanceVCValidator = [
@@ -61,12 +63,18 @@ export const processIssuanceVCValidator = [
 
   body("vc_hash")
     .if(body("action").equals(RequestStatus.APPROVED))
+    .if(body("vc_json").not().exists())
     .trim()
     .notEmpty()
-    .withMessage("vc_hash is required when action is APPROVED")
+    .withMessage("vc_hash is required when action is APPROVED (unless vc_json is provided)")
     .matches(/^[a-fA-F0-9]{64}$/)
     .withMessage("Invalid vc_hash format (must be a 64-character hex string)"),
 
+  body("vc_json")
+    .optional()
+    .isObject()
+    .withMessage("vc_json must be a valid JSON object"),
+
   body("encrypted_body")
     .if(body("action").equals(RequestStatus.APPROVED))
     .trim()
@@ -100,7 +108,7 @@ export const requestCredentialValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -166,7 +174,7 @@ export const getCredentialRequestsByTypeValidator: ValidationChain[] = [
   query("holder_did") // Add validation for holder_did
     .optional() // Make it optional individually
     .trim()
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format in query parameter"),
 
   // Add custom validation to ensure at least one DID is present
@@ -191,7 +199,7 @@ export const processCredentialResponseValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 
   body("encrypted_body")
@@ -216,7 +224,7 @@ export const getHolderVCsValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 ];
 
@@ -232,7 +240,7 @@ export const credentialUpdateRequestValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -259,7 +267,7 @@ export const credentialRenewalRequestValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -287,7 +295,7 @@ export const credentialRevocationRequestValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -316,7 +324,7 @@ export const addVCStatusBlockValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 
   body("status").isBoolean().withMessage("Status must be a boolean"),
@@ -332,6 +340,13 @@ export const addVCStatusBlockValidator = [
 export const getVCStatusValidator = [
   param("vcId").trim().notEmpty().withMessage("VC ID is required"),
 ];
+
+/**
+ * Validator for GET /credentials/:vcId/anchoring
+ */
+export const getVCAnchoringValidator = [
+  param("vcId").trim().notEmpty().withMessage("VC ID is required"),
+];
 export const revokeVCValidator = [
   body("request_id")
     .trim()
@@ -505,7 +520,7 @@ export const claimVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 
   body("holder_did")
@@ -513,7 +528,7 @@ export const claimVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 ];
 
@@ -533,7 +548,7 @@ export const confirmVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 ];
 
@@ -546,7 +561,7 @@ export const claimVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 
   body("limit")
@@ -572,7 +587,7 @@ export const confirmVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 ];
 
@@ -587,6 +602,74 @@ export const resetStuckVCsValidator = [
     .withMessage("timeout_minutes must be an integer between 1 and 120"),
 ];
 
+/**
+ * Validator for Admin: GET /credentials/admin/outbox
+ */
+export const getChainOutboxIntentsValidator = [
+  query("status")
+    .optional()
+    .isIn([
+      "PENDING",
+      "CHAIN_CONFIRMED",
+      "COMPLETED",
+      "COMPENSATING",
+      "COMPENSATED",
+      "FAILED",
+    ])
+    .withMessage(
+      "status must be one of PENDING, CHAIN_CONFIRMED, COMPLETED, COMPENSATING, COMPENSATED, FAILED"
+    ),
+
+  query("operation")
+    .optional()
+    .isIn([
+      "ISSUE_VC",
+      "RENEW_VC",
+      "UPDATE_VC",
+      "CREATE_VC_SCHEMA",
+      "REVOKE_VC",
+      "APPROVE_ISSUANCE",
+      "REGISTER_DID",
+      "ROTATE_DID_KEY",
+      "DEACTIVATE_DID",
+    ])
+    .withMessage(
+      "operation must be one of ISSUE_VC, RENEW_VC, UPDATE_VC, CREATE_VC_SCHEMA, REVOKE_VC, APPROVE_ISSUANCE, REGISTER_DID, ROTATE_DID_KEY, DEACTIVATE_DID"
+    ),
+
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("limit must be an integer between 1 and 500")
+    .toInt(),
+];
+
+/**
+ * Validator for Admin: POST /credentials/admin/reconciliation
+ */
+export const startReconciliationValidator = [
+  body("repair")
+    .optional()
+    .isBoolean()
+    .withMessage("repair must be a boolean")
+    .toBoolean(),
+];
+
+/**
+ * Validator for Admin: GET /credentials/admin/reconciliation/:reportId
+ */
+export const reconciliationReportValidator = [
+  param("reportId")
+    .trim()
+    .isUUID()
+    .withMessage("Invalid report ID format (must be UUID)"),
+
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("format must be 'json' or 'csv'"),
+];
+
 export const issuerIssueVCValidator = [
   body("issuer_did")
     .trim()
@@ -599,7 +682,7 @@ export const issuerIssueVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -626,14 +709,34 @@ export const issuerIssueVCValidator = [
     .withMessage("schema_version must be a positive integer"),
 
   body("vc_hash")
+    .if(body("vc_json").not().exists())
+    .if(body("sd_jwt").not().exists())
     .trim()
     .notEmpty()
-    .withMessage("vc_hash is required")
+    .withMessage("vc_hash is required (unless vc_json or sd_jwt is provided)")
     .matches(/^[a-fA-F0-9]{64}$/) // [MODIFIED] Removed 0x
     .withMessage(
       "Invalid vc_hash format (must be a 64-character hex string)" // [MODIFIED]
     ),
 
+  body("vc_json")
+    .optional()
+    .isObject()
+    .withMessage("vc_json must be a valid JSON object"),
+
+  body("sd_jwt")
+    .optional()
+    .isString()
+    .withMessage("sd_jwt must be a compact SD-JWT string")
+    .matches(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+~/)
+    .withMessage("sd_jwt must be a compact SD-JWT (<issuer-jwt>~<disclosures>~)")
+    .custom((value, { req }) => {
+      if (req.body.vc_json) {
+        throw new Error("Provide either vc_json or sd_jwt, not both.");
+      }
+      return true;
+    }),
+
   body("encrypted_body")
     .trim()
     .notEmpty()
@@ -647,6 +750,112 @@ export const issuerIssueVCValidator = [
     .withMessage(
       "expiredAt must be a valid ISO 8601 date string (e.g., 2025-12-31T23:59:59.000Z)"
     ),
+
+  body("anchoring_mode")
+    .optional()
+    .isIn([ANCHORING_MODE.DIRECT, ANCHORING_MODE.BATCH])
+    .withMessage("anchoring_mode must be 'direct' or 'batch'"),
+];
+
+/**
+ * Validator for POST /credentials/issuer/bulk-issuance
+ * Rows come from the uploaded manifest file or, without a file, from body.rows;
+ * they are validated per row by BulkIssuanceService (invalid rows do not fail the job)
+ */
+export const createBulkIssuanceValidator = [
+  body("issuer_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Issuer DID is required")
+    .matches(/^did:dcert:i(?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/) // Harus 'i' (institution)
+    .withMessage("Invalid issuer DID format (must be an institution DID)"),
+
+  body("schema_id")
+    .trim()
+    .notEmpty()
+    .withMessage("schema_id is required")
+    .isUUID()
+    .withMessage("Invalid schema_id format (must be UUID)"),
+
+  body("schema_version")
+    .notEmpty()
+    .withMessage("schema_version is required")
+    .isInt({ min: 1 })
+    .withMessage("schema_version must be a positive integer")
+    .toInt(),
+
+  body("anchoring_mode")
+    .optional()
+    .isIn([ANCHORING_MODE.DIRECT, ANCHORING_MODE.BATCH])
+    .withMessage("anchoring_mode must be 'direct' or 'batch'"),
+
+  body("rows")
+    .if((value, { req }) => !req.file)
+    .isArray({ min: 1 })
+    .withMessage("Upload a manifest file or provide rows as a non-empty array"),
+];
+
+/**
+ * Validator for GET /credentials/issuer/bulk-issuance/:jobId (and its errors / retry)
+ */
+export const bulkIssuanceJobValidator = [
+  param("jobId")
+    .trim()
+    .isUUID()
+    .withMessage("Invalid job ID format (must be UUID)"),
+
+  query("format")
+    .optional()
+    .isIn(["json", "csv"])
+    .withMessage("format must be 'json' or 'csv'"),
+];
+
+/**
+ * Validator for POST /credentials/issuer/prepare-sd-jwt
+ */
+export const prepareSdJwtVCValidator = [
+  body("issuer_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Issuer DID is required")
+    .matches(/^did:dcert:i(?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/) // Harus 'i' (institution)
+    .withMessage("Invalid issuer DID format (must be an institution DID)"),
+
+  body("holder_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Holder DID is required")
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
+    .withMessage("Invalid holder DID format"),
+
+  body("vc_id").trim().notEmpty().withMessage("vc_id is required"),
+
+  body("vc_type").trim().notEmpty().withMessage("vc_type is required"),
+
+  body("claims")
+    .isObject()
+    .withMessage("claims must be a JSON object"),
+
+  body("selectively_disclosable")
+    .isArray()
+    .withMessage("selectively_disclosable must be an array of claim names"),
+
+  body("selectively_disclosable.*")
+    .isString()
+    .withMessage("Each selectively disclosable claim must be a string")
+    .custom((value, { req }) => {
+      if (!req.body.claims || !(value in req.body.claims)) {
+        throw new Error(`Claim "${value}" is not present in claims`);
+      }
+      return true;
+    }),
+
+  body("expiredAt")
+    .optional()
+    .isISO8601()
+    .withMessage(
+      "expiredAt must be a valid ISO 8601 date string (e.g., 2025-12-31T23:59:59.000Z)"
+    ),
 ];
 
 export const issuerUpdateVCValidator = [
@@ -661,7 +870,7 @@ export const issuerUpdateVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -726,7 +935,7 @@ export const issuerRevokeVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -744,6 +953,43 @@ export const issuerRevokeVCValidator = [
     .withMessage("Encrypted body (reason) is required"),
 ];
 
+/**
+ * Validator for POST /credentials/issuer/suspend-vc
+ * and POST /credentials/issuer/reinstate-vc
+ */
+export const issuerSuspendVCValidator = [
+  body("issuer_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Issuer DID is required")
+    .matches(/^did:dcert:i(?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/) // Harus 'i' (institution)
+    .withMessage("Invalid issuer DID format (must be an institution DID)"),
+
+  body("holder_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Holder DID is required")
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
+    .withMessage("Invalid holder DID format")
+    .custom((value, { req }) => {
+      if (value === req.body.issuer_did) {
+        throw new Error("Issuer DID and Holder DID cannot be the same.");
+      }
+      return true;
+    }),
+
+  body("vc_id").trim().notEmpty().withMessage("vc_id is required"),
+
+  body("reason")
+    .optional()
+    .isString()
+    .withMessage("reason must be a string")
+    .isLength({ max: 500 })
+    .withMessage("reason must be at most 500 characters"),
+];
+
+export const issuerReinstateVCValidator = issuerSuspendVCValidator;
+
 export const issuerRenewVCValidator = [
   body("issuer_did")
     .trim()
@@ -756,7 +1002,7 @@ export const issuerRenewVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format")
     .custom((value, { req }) => {
       if (value === req.body.issuer_did) {
@@ -797,7 +1043,7 @@ export const claimIssuerInitiatedVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 
   body("limit")
@@ -820,7 +1066,7 @@ export const confirmIssuerInitiatedVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 ];
 
@@ -843,9 +1089,8 @@ export const validateVCValidator = [
     .withMessage("expiredAt must be a valid ISO 8601 date string if provided"),
 
   body("vc_hash")
+    .optional()
     .trim()
-    .notEmpty()
-    .withMessage("vc_hash is required")
     .matches(/^[a-fA-F0-9]{64}$/)
     .withMessage("Invalid vc_hash format (must be 64-character hex string)"),
 
@@ -853,7 +1098,7 @@ export const validateVCValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 ];
 
@@ -862,7 +1107,7 @@ export const claimCombinedVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 
   body("limit")
@@ -879,7 +1124,7 @@ export const confirmCombinedVCsBatchValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder_did format"),
 
   body("items")
@@ -929,7 +1174,7 @@ export const storeIssuerVCDataValidator = [
     .trim()
     .notEmpty()
     .withMessage("holder_did is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 
   body("vc_id")
@@ -144,6 +144,18 @@ export const deleteDIDByAdminValidator = [
     .withMessage("Invalid DID format"),
 ];
 
+/**
+ * Validator for the DID deactivation report (user and admin path)
+ */
+export const getDeactivationReportValidator = [
+  param("did")
+    .trim()
+    .notEmpty()
+    .withMessage("DID parameter is required")
+    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .withMessage("Invalid DID format"),
+];
+
 /**
  * Validator for getting DID document
  */
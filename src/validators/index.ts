@@ -11,3 +11,6 @@ export * from './schema.validator';
 export * from './presentation.validator';
 export * from './notification.validator';
 export * from './institution.validator';
+export * from './statusList.validator';
+export * from './oid4vci.validator';
+export * from './oid4vp.validator';
@@ -1,4 +1,5 @@
 import { body, param } from "express-validator";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
 
 /**
  * Notification Validators
@@ -9,7 +10,7 @@ export const registerPushTokenValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 
   body("token").trim().notEmpty().withMessage("Push token is required"),
@@ -19,6 +20,13 @@ export const registerPushTokenValidator = [
     .trim()
     .isLength({ max: 500 })
     .withMessage("Device info must not exceed 500 characters"),
+
+  body("email")
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage("Invalid email format")
+    .normalizeEmail(),
 ];
 
 export const unregisterPushTokenValidator = [
@@ -30,7 +38,7 @@ export const getPushTokensByHolderValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 ];
 
@@ -41,7 +49,7 @@ export const sendPushNotificationValidator = [
 
   body("holder_dids.*")
     .trim()
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Each holder DID must be valid"),
 
   body("title")
@@ -0,0 +1,89 @@
+import { body, param } from "express-validator";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
+
+/**
+ * OID4VCI Validators
+ * Only the issuer-facing endpoints use express-validator; the wallet-facing
+ * token/credential endpoints answer with OAuth errors from the service
+ */
+export const createCredentialOfferValidator = [
+  body("issuer_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Issuer DID is required")
+    .matches(/^did:dcert:i(?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .withMessage("Invalid issuer DID format (must be an institution DID)"),
+
+  body("holder_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Holder DID is required")
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
+    .withMessage("Invalid holder DID format")
+    .custom((value, { req }) => {
+      if (value === req.body.issuer_did) {
+        throw new Error("Issuer DID and Holder DID cannot be the same.");
+      }
+      return true;
+    }),
+
+  body("vc_id").trim().notEmpty().withMessage("vc_id is required"),
+
+  body("vc_type").trim().notEmpty().withMessage("vc_type is required"),
+
+  body("schema_id")
+    .trim()
+    .notEmpty()
+    .withMessage("schema_id is required")
+    .isUUID()
+    .withMessage("Invalid schema_id format (must be UUID)"),
+
+  body("schema_version")
+    .notEmpty()
+    .withMessage("schema_version is required")
+    .isInt({ min: 1 })
+    .withMessage("schema_version must be a positive integer")
+    .toInt(),
+
+  body("vc_json")
+    .if(body("sd_jwt").not().exists())
+    .notEmpty()
+    .withMessage("vc_json is required (unless sd_jwt is provided)")
+    .isObject()
+    .withMessage("vc_json must be a valid JSON object"),
+
+  body("sd_jwt")
+    .optional()
+    .isString()
+    .withMessage("sd_jwt must be a compact SD-JWT string")
+    .matches(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+~/)
+    .withMessage("sd_jwt must be a compact SD-JWT (<issuer-jwt>~<disclosures>~)")
+    .custom((value, { req }) => {
+      if (req.body.vc_json) {
+        throw new Error("Provide either vc_json or sd_jwt, not both.");
+      }
+      return true;
+    }),
+
+  body("expiredAt")
+    .optional()
+    .isISO8601()
+    .withMessage(
+      "expiredAt must be a valid ISO 8601 date string (e.g., 2025-12-31T23:59:59.000Z)"
+    ),
+
+  body("tx_code")
+    .optional()
+    .isBoolean()
+    .withMessage("tx_code must be a boolean")
+    .toBoolean(),
+];
+
+export const getCredentialOfferValidator = [
+  param("offerId")
+    .trim()
+    .notEmpty()
+    .withMessage("Offer ID is required")
+    .isUUID()
+    .withMessage("Invalid offer ID format (must be UUID)"),
+];
@@ -0,0 +1,74 @@
+import { body, param } from "express-validator";
+import { PresentationExchangeHelper } from "../utils/helpers/presentationExchange.helper";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
+
+/**
+ * OID4VP Validators
+ * Only the verifier-facing endpoints use express-validator; the wallet-facing
+ * direct_post endpoint answers with OAuth errors from the service
+ */
+export const createAuthorizationRequestValidator = [
+  body("verifier_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Verifier DID is required")
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
+    .withMessage("Invalid verifier DID format"),
+
+  body("verifier_name")
+    .trim()
+    .notEmpty()
+    .withMessage("Verifier name is required")
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Verifier name must be between 1 and 255 characters"),
+
+  body("purpose")
+    .trim()
+    .notEmpty()
+    .withMessage("Purpose is required")
+    .isLength({ min: 1, max: 500 })
+    .withMessage("Purpose must be between 1 and 500 characters"),
+
+  body("presentation_definition")
+    .notEmpty()
+    .withMessage("presentation_definition is required")
+    .custom((value) => {
+      const error = PresentationExchangeHelper.validateDefinition(value);
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
+];
+
+export const signAuthorizationRequestValidator = [
+  param("requestId")
+    .trim()
+    .notEmpty()
+    .withMessage("Authorization request ID is required")
+    .isUUID()
+    .withMessage("Invalid authorization request ID format"),
+
+  body("verifier_did")
+    .trim()
+    .notEmpty()
+    .withMessage("Verifier DID is required")
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
+    .withMessage("Invalid verifier DID format"),
+
+  body("signature")
+    .trim()
+    .notEmpty()
+    .withMessage("signature is required")
+    .matches(/^[A-Za-z0-9_-]+$/)
+    .withMessage("signature must be base64url encoded"),
+];
+
+export const authorizationRequestIdValidator = [
+  param("requestId")
+    .trim()
+    .notEmpty()
+    .withMessage("Authorization request ID is required")
+    .isUUID()
+    .withMessage("Invalid authorization request ID format"),
+];
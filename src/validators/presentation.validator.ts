@@ -1,4 +1,6 @@
 import { body, param } from "express-validator";
+import { PresentationExchangeHelper } from "../utils/helpers/presentationExchange.helper";
+import { DID_RESOLUTION } from "../constants/didResolution.constants";
 
 /**
  * Presentation Validators
@@ -9,14 +11,14 @@ export const requestVPValidator = [
     .trim()
     .notEmpty()
     .withMessage("Holder DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid holder DID format"),
 
   body("verifier_did")
     .trim()
     .notEmpty()
     .withMessage("Verifier DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid verifier DID format"),
 
   body("verifier_name")
@@ -34,8 +36,26 @@ export const requestVPValidator = [
     .withMessage("Purpose must be between 1 and 500 characters"),
 
   body("requested_credentials")
+    .if((value, { req }) => !req.body.presentation_definition)
     .isArray({ min: 1 })
-    .withMessage("requested_credentials must be a non-empty array"),
+    .withMessage(
+      "requested_credentials must be a non-empty array unless presentation_definition is provided"
+    ),
+
+  body("requested_credentials")
+    .optional()
+    .isArray()
+    .withMessage("requested_credentials must be an array"),
+
+  body("presentation_definition")
+    .optional()
+    .custom((value) => {
+      const error = PresentationExchangeHelper.validateDefinition(value);
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
 
   body("requested_credentials.*.schema_id")
     .trim()
@@ -52,6 +72,17 @@ export const requestVPValidator = [
   body("requested_credentials.*.schema_version")
     .isInt({ min: 1 })
     .withMessage("schema_version must be a positive integer"),
+
+  body("expires_at")
+    .optional()
+    .isISO8601()
+    .withMessage("expires_at must be a valid ISO 8601 date")
+    .custom((value) => {
+      if (new Date(value).getTime() <= Date.now()) {
+        throw new Error("expires_at must be in the future");
+      }
+      return true;
+    }),
 ];
 
 export const getVPRequestDetailsValidator = [
@@ -64,12 +95,23 @@ export const getVPRequestDetailsValidator = [
 ];
 
 export const storeVPValidator = [
+  body("format")
+    .optional()
+    .isIn(["LDP_VP", "SD_JWT"])
+    .withMessage("format must be LDP_VP or SD_JWT"),
+
   body("vp")
     .notEmpty()
     .withMessage("VP is required")
     .isString()
     .withMessage("VP must be a string")
-    .custom((value) => {
+    .custom((value, { req }) => {
+      if (req.body.format === "SD_JWT") {
+        if (!value.includes("~")) {
+          throw new Error("VP must be a compact SD-JWT presentation");
+        }
+        return true;
+      }
       try {
         JSON.parse(value);
         return true;
@@ -82,6 +124,46 @@ export const storeVPValidator = [
     .optional()
     .isBoolean()
     .withMessage("is_barcode must be a boolean"),
+
+  body("expires_at")
+    .optional()
+    .isISO8601()
+    .withMessage("expires_at must be a valid ISO 8601 date")
+    .custom((value) => {
+      if (new Date(value).getTime() <= Date.now()) {
+        throw new Error("expires_at must be in the future");
+      }
+      return true;
+    }),
+
+  body("max_verifications")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("max_verifications must be a positive integer")
+    .toInt()
+    .custom((value, { req }) => {
+      if (req.body.is_barcode !== true && req.body.is_barcode !== "true") {
+        throw new Error("max_verifications is only allowed for barcode VPs");
+      }
+      return true;
+    }),
+
+  body("presentation_submission")
+    .optional()
+    .isObject()
+    .withMessage("presentation_submission must be an object")
+    .custom((value) => {
+      if (
+        typeof value.id !== "string" ||
+        typeof value.definition_id !== "string" ||
+        !Array.isArray(value.descriptor_map)
+      ) {
+        throw new Error(
+          "presentation_submission must have id, definition_id and descriptor_map"
+        );
+      }
+      return true;
+    }),
 ];
 
 export const getVPValidator = [
@@ -129,7 +211,7 @@ export const confirmVPValidator = [
     .trim()
     .notEmpty()
     .withMessage("Verifier DID is required")
-    .matches(/^did:dcert:[iu](?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .matches(DID_RESOLUTION.SUPPORTED_DID_REGEX)
     .withMessage("Invalid verifier DID format"),
 
   body("vp_ids")
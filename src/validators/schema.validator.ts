@@ -87,6 +87,12 @@ const expiredInValidation = body("expired_in")
   .withMessage("expired_in must be a non-negative integer (0 for lifetime)")
   .toInt();
 
+const autoRenewalValidation = body("auto_renewal")
+  .optional()
+  .isBoolean()
+  .withMessage("auto_renewal must be a boolean")
+  .toBoolean();
+
 // ============================================
 // 🔹 QUERY PARAMETER VALIDATORS
 // ============================================
@@ -153,6 +159,7 @@ export const createVCSchemaValidator = [
   schemaObjectValidation,
   issuerDidValidation("body"),
   expiredInValidation,
+  autoRenewalValidation,
 ];
 
 const imageLinkValidation = body("image_link")
@@ -168,6 +175,7 @@ export const updateVCSchemaValidator = [
   schemaIdValidation,
   schemaObjectValidation,
   expiredInValidation,
+  autoRenewalValidation,
   imageLinkValidation,
 ];
 
@@ -0,0 +1,24 @@
+import { body, param } from "express-validator";
+
+/**
+ * Status List Validators
+ */
+export const getStatusListValidator = [
+  param("id")
+    .trim()
+    .notEmpty()
+    .withMessage("Status list ID is required")
+    .isUUID()
+    .withMessage("Invalid status list ID format (must be UUID)"),
+];
+
+export const allocateStatusValidator = [
+  body("issuer_did")
+    .trim()
+    .notEmpty()
+    .withMessage("issuer_did is required")
+    .matches(/^did:dcert:i(?:[a-zA-Z0-9_-]{44}|[a-zA-Z0-9_-]{87})$/)
+    .withMessage("Invalid issuer DID format (must be an institution DID)"),
+
+  body("vc_id").trim().notEmpty().withMessage("vc_id is required"),
+];